@@ -6,11 +6,73 @@ import { createEnv } from 'schema-env'; // Import createEnv
 const envSchema = z.object({
     NODE_ENV: z.enum(["development", "production"]).default("development"),
 
+    /**
+     * The LLM provider used by every AI-backed command.
+     * 'gemini' (default) uses the Google Generative Language API, 'openai' any OpenAI-compatible
+     * chat completions endpoint, and 'ollama' a local Ollama-style HTTP server.
+     */
+    LLM_PROVIDER: z.enum(["gemini", "openai", "ollama"]).default("gemini"),
+
+    /**
+     * Timeout in milliseconds for a single request to the LLM provider.
+     * Defaults to 3 minutes.
+     */
+    LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(180000),
+
+    /**
+     * Number of retries for retryable LLM failures (429, 5xx, timeouts, connection resets).
+     * Defaults to 3. Set to 0 to fail on the first error.
+     */
+    LLM_MAX_RETRIES: z.coerce.number().int().min(0).default(3),
+
+    /**
+     * Base delay in milliseconds for exponential backoff between retries (doubled on each retry, with jitter).
+     * Defaults to 1 second. A `Retry-After` sent by the provider takes precedence.
+     */
+    LLM_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(1000),
+
+    /**
+     * Upper bound in milliseconds for the computed backoff delay.
+     * Defaults to 30 seconds.
+     */
+    LLM_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(30000),
+
+    /**
+     * Longest `Retry-After` delay in milliseconds the provider may request before the call fails instead of waiting.
+     * Defaults to 2 minutes.
+     */
+    LLM_RETRY_MAX_SERVER_DELAY_MS: z.coerce.number().int().min(0).default(120000),
+
+    /**
+     * Client-side limit on LLM requests per minute, shared by all concurrent calls in the process.
+     * Defaults to 0 (no limit).
+     */
+    LLM_REQUESTS_PER_MINUTE: z.coerce.number().int().min(0).default(0),
+
+    /**
+     * Estimated token budget for the code sent in a single prompt by `review` and `document`.
+     * Larger consolidated payloads are split on file boundaries and processed map-reduce style.
+     * Defaults to 100000.
+     */
+    LLM_MAX_INPUT_TOKENS: z.coerce.number().int().positive().default(100000),
+
+    /**
+     * Record/replay mode for LLM calls ('off', 'record' or 'replay').
+     * In 'replay' mode responses are served from LLM_CASSETTE_DIR and no provider credentials are needed.
+     */
+    LLM_CASSETTE_MODE: z.enum(["off", "record", "replay"]).default("off"),
+
+    /**
+     * Directory (relative to the working directory) where recorded LLM responses are stored.
+     * Defaults to '.gemini-cassettes'.
+     */
+    LLM_CASSETTE_DIR: z.string().default('.gemini-cassettes'),
+
     /**
      * The Gemini API key used to authenticate with the Gemini API.
-     * This is a *required* environment variable. schema-env will throw an error if it's not set.
+     * Required when `LLM_PROVIDER` is 'gemini'; the Gemini provider will refuse to start without it.
      */
-    GEMINI_API_KEY: z.string().min(1, { message: "GEMINI_API_KEY environment variable cannot be empty." }),
+    GEMINI_API_KEY: z.string().min(1, { message: "GEMINI_API_KEY environment variable cannot be empty." }).optional(),
 
     /**
      * The Gemini model name to use for generating content.
@@ -24,6 +86,42 @@ const envSchema = z.object({
      */
     GEMINI_API_VERSION: z.string().default('v1beta'),
 
+    /**
+     * The API key for the OpenAI-compatible provider.
+     * Optional because self-hosted compatible servers often do not require one.
+     */
+    OPENAI_API_KEY: z.string().optional(),
+
+    /**
+     * Base URL of the OpenAI-compatible API (the `/chat/completions` path is appended).
+     * Defaults to 'https://api.openai.com/v1'.
+     */
+    OPENAI_BASE_URL: z.string().url().default('https://api.openai.com/v1'),
+
+    /**
+     * The model name to request from the OpenAI-compatible provider.
+     * Defaults to 'gpt-4o-mini'.
+     */
+    OPENAI_MODEL_NAME: z.string().default('gpt-4o-mini'),
+
+    /**
+     * Base URL of the local Ollama-style HTTP server (the `/api/generate` path is appended).
+     * Defaults to 'http://localhost:11434'.
+     */
+    OLLAMA_BASE_URL: z.string().url().default('http://localhost:11434'),
+
+    /**
+     * The model name to request from the Ollama-style provider.
+     * Defaults to 'llama3'.
+     */
+    OLLAMA_MODEL_NAME: z.string().default('llama3'),
+
+    /**
+     * Largest file, in bytes, that any command may write (enforced by the write guard).
+     * Defaults to 1048576 (1 MiB).
+     */
+    MAX_WRITE_BYTES: z.coerce.number().int().positive().default(1048576),
+
     /**
      * Set of file extensions to include during inspection.
      */
@@ -73,4 +171,4 @@ export const env = createEnv({
 });
 
 // --- Optional: Log Confirmation (can be done where env is first used, or enable schema-env logging) ---
-console.log(`[AppConfig] Environment loaded successfully. Using model: ${env.GEMINI_MODEL_NAME}`);
\ No newline at end of file
+console.log(`[AppConfig] Environment loaded successfully. Using LLM provider: ${env.LLM_PROVIDER}`);
\ No newline at end of file
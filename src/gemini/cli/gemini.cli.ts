@@ -5,6 +5,7 @@ import { hideBin } from "yargs/helpers";
 import { CliArguments } from "@shared/types/app.type";
 import { runCommandLogic } from "@/gemini/cli/gemini.handler";
 import { ENHANCEMENT_TYPES } from "@/gemini/types/enhancement.type";
+import { ROADMAP_ACTIONS, ROADMAP_GRAPH_FORMATS } from "@/gemini/types/roadmap.type";
 
 const logPrefix = "[GeminiCLI]";
 
@@ -29,10 +30,43 @@ export async function runCli(processArgs: string[]): Promise<void> {
   console.log(`${logPrefix} Initializing...`);
 
   await yargs(hideBin(processArgs))
+    // --- Global LLM cassette flags ---
+    .options({
+      record: {
+        type: "boolean",
+        description: "Record every LLM prompt/response pair to the cassette directory (LLM_CASSETTE_DIR).",
+        global: true,
+      },
+      replay: {
+        type: "boolean",
+        description: "Replay recorded LLM responses from the cassette directory without network access.",
+        global: true,
+      },
+    })
+    // --- Global write-preview flags ---
+    .options({
+      dryRun: {
+        type: "boolean",
+        description: "Print a unified diff of every file the command would write, without touching disk.",
+        global: true,
+      },
+      patch: {
+        type: "string",
+        description: "Write all proposed file changes to this git-applyable patch file instead of to disk.",
+        global: true,
+      },
+      auditLog: {
+        type: "string",
+        description: "Append every allowed and denied file write to this JSON Lines audit log.",
+        global: true,
+      },
+    })
+    .conflicts("record", "replay")
+    .conflicts("dryRun", "patch")
     // --- Unified Review Command ---
     .command(
       `${ENHANCEMENT_TYPES.REVIEW} <targetPath>`,
-      "Review code for architecture, quality, or explanations (outputs to console).",
+      "Review code for architecture, quality, or explanations (console, or a Markdown/JSON/SARIF file).",
       (yargsInstance) => {
         return setupDefaultCommand(yargsInstance)
           .option("mode", {
@@ -41,6 +75,27 @@ export async function runCli(processArgs: string[]): Promise<void> {
             description: "Review mode: architecture, quality, or explain",
             default: "quality",
             choices: ["architecture", "quality", "explain"],
+          })
+          .option("format", {
+            alias: "f",
+            type: "string",
+            description: "Report format: markdown (free-form), json or sarif (structured findings)",
+            default: "markdown",
+            choices: ["markdown", "json", "sarif"],
+          })
+          .option("output", {
+            alias: "o",
+            type: "string",
+            description: "Write the review report to this file instead of the console.",
+          })
+          .option("diff", {
+            type: "string",
+            description: "Review only changes against a git base: a ref (e.g. main), a range (a..b), 'staged' or 'worktree'. Defaults to HEAD when given without a value.",
+          })
+          .option("stream", {
+            type: "boolean",
+            description: "Print the response as it arrives (use --no-stream to wait for the full answer). Markdown only.",
+            default: true,
           });
       },
       (argv) =>
@@ -83,6 +138,11 @@ export async function runCli(processArgs: string[]): Promise<void> {
             type: "string",
             description: 'Comma-separated list of patterns to exclude (tree only).',
             default: "",
+          })
+          .option("stream", {
+            type: "boolean",
+            description: "Stream the response into <output>.partial as it arrives; the output file is written once complete (project/module only).",
+            default: true,
           });
       },
       (argv) =>
@@ -110,6 +170,10 @@ export async function runCli(processArgs: string[]): Promise<void> {
           type: "boolean",
           description: 'Aggressively compress output for LLM context (removes all blank lines, debug logs, truncates large strings). Implies --stripComments.',
           default: false,
+        }).option("skeleton", {
+          type: "boolean",
+          description: 'Reduce TypeScript/JavaScript files to exported declarations, types and function signatures (bodies elided). Keeps the // File: headers.',
+          default: false,
         });
       },
       (argv) =>
@@ -143,6 +207,25 @@ export async function runCli(processArgs: string[]): Promise<void> {
             description:
               "Optional filename prefix filter (if targetPath is a directory).",
             demandOption: false,
+          })
+          .option("validate", {
+            type: "boolean",
+            description: "Type-check (tsc --noEmit) and lint (ESLint) each generated test file and ask the model to repair the errors.",
+          })
+          .option("maxIterations", {
+            type: "number",
+            description: "Maximum number of repair attempts per test file when --validate reports errors (0 only reports them).",
+            default: 2,
+          })
+          .option("contextDepth", {
+            type: "number",
+            description: "Levels of project imports (tsconfig paths aliases included) whose signatures are added as context (0 disables).",
+            default: 1,
+          })
+          .option("contextBudget", {
+            type: "number",
+            description: "Maximum size in bytes of the signatures added for imported files.",
+            default: 32768,
           });
       },
       (argv) =>
@@ -191,11 +274,84 @@ export async function runCli(processArgs: string[]): Promise<void> {
       `${ENHANCEMENT_TYPES.DEVELOP} <targetPath>`,
       "Develop the next feature based on FEATURE_ROADMAP.md within the target project.",
       (yargsInstance) => {
-        return yargsInstance.positional("targetPath", {
-          describe: "Root project directory containing FEATURE_ROADMAP.md.",
-          type: "string",
-          demandOption: true,
-        });
+        return yargsInstance
+          .positional("targetPath", {
+            describe: "Root project directory containing FEATURE_ROADMAP.md.",
+            type: "string",
+            demandOption: true,
+          })
+          .option("yes", {
+            alias: "y",
+            type: "boolean",
+            description: "Approve every confirmation prompt automatically (required when stdin is not a TTY).",
+            default: false,
+          })
+          .option("testCommand", {
+            type: "string",
+            description: "Command that runs the generated tests; file paths are appended or replace '{files}' (default: npx jest).",
+          })
+          .option("maxIterations", {
+            type: "number",
+            description: "Maximum number of fix iterations when the tests still fail after the implementation (0 disables).",
+            default: 3,
+          })
+          .option("resume", {
+            type: "boolean",
+            description: "Continue the unfinished develop session from its last completed phase.",
+          })
+          .option("abort", {
+            type: "boolean",
+            description: "Discard the unfinished develop session and restore the files it changed.",
+          })
+          .option("all", {
+            type: "boolean",
+            description: "Develop every actionable task, one after another, in selection order.",
+          })
+          .option("count", {
+            type: "number",
+            description: "Develop up to this many tasks, one after another.",
+          })
+          .option("epic", {
+            type: "string",
+            description: "Only develop tasks of this epic (implies batch mode).",
+          })
+          .option("milestone", {
+            type: "string",
+            description: "Only develop tasks of this milestone or version (implies batch mode).",
+          })
+          .option("keepGoing", {
+            type: "boolean",
+            description: "In batch mode, continue with the next task when one fails.",
+          })
+          .option("git", {
+            type: "boolean",
+            description: "Develop each task on a new feature branch and commit the test and implementation phases separately. Requires a clean working tree.",
+          })
+          .option("gitRollback", {
+            type: "boolean",
+            description: "With --git, delete the task's branch and return to the base branch when the task fails.",
+            implies: "git",
+          })
+          .option("editBlocks", {
+            type: "boolean",
+            description: "Ask for SEARCH/REPLACE edit blocks instead of complete files when implementing and fixing code (new files are still sent whole).",
+          })
+          .option("validate", {
+            type: "boolean",
+            description: "Once the tests pass, type-check (tsc --noEmit) and lint (ESLint) the written files; errors go through the fix loop.",
+          })
+          .option("contextDepth", {
+            type: "number",
+            description: "Levels of project imports (tsconfig paths aliases included) whose signatures are added as context (0 disables).",
+            default: 1,
+          })
+          .option("contextBudget", {
+            type: "number",
+            description: "Maximum size in bytes of the signatures added for imported files.",
+            default: 32768,
+          })
+          .conflicts("resume", "abort")
+          .conflicts("all", "count");
       },
       (argv) =>
         runCommandLogic({
@@ -228,6 +384,167 @@ export async function runCli(processArgs: string[]): Promise<void> {
           command: ENHANCEMENT_TYPES.GENERATE_PROGRESS_REPORT,
         } as CliArguments)
     )
+    .command(
+      `${ENHANCEMENT_TYPES.RUN_K6} <targetPath>`,
+      "Run data-driven k6 performance tests defined in a CSV/XLSX file.",
+      (yargsInstance) => {
+        return yargsInstance
+          .positional("targetPath", {
+            describe: "Path to the CSV or XLSX test data file.",
+            type: "string",
+            demandOption: true,
+          })
+          .option("output", {
+            alias: "o",
+            type: "string",
+            description: "Directory where raw k6 summary exports are written.",
+            demandOption: false,
+          })
+          .option("summaryFormat", {
+            alias: "s",
+            type: "string",
+            description: "Format of the raw k6 summary export.",
+            default: "json",
+            choices: ["json", "csv"],
+          })
+          .option("htmlReport", {
+            type: "string",
+            description: "Optional path for a generated HTML report.",
+            demandOption: false,
+          })
+          .option("summaryCsv", {
+            type: "string",
+            description:
+              "Optional path for the per-test summary CSV. Requires --output and --summaryFormat csv.",
+            demandOption: false,
+          })
+          .option("mock", {
+            type: "boolean",
+            description: "Start the local mock server for the duration of the run.",
+            default: false,
+          })
+          .check((argv) => {
+            if (argv.summaryCsv && argv.summaryFormat !== "csv") {
+              throw new Error("--summaryCsv requires --summaryFormat csv.");
+            }
+            if (argv.summaryCsv && !argv.output) {
+              throw new Error("--summaryCsv requires an --output directory.");
+            }
+            return true;
+          });
+      },
+      (argv) =>
+        runCommandLogic({
+          ...argv,
+          command: ENHANCEMENT_TYPES.RUN_K6,
+        } as CliArguments)
+    )
+    .command(
+      `${ENHANCEMENT_TYPES.ROADMAP} <action> <targetPath> [item]`,
+      "Manage FEATURE_ROADMAP.md: list, show, add, set-status, validate, or graph (Mermaid/DOT dependency graph).",
+      (yargsInstance) => {
+        return yargsInstance
+          .positional("action", {
+            describe: "Roadmap subcommand.",
+            type: "string",
+            choices: ROADMAP_ACTIONS,
+            demandOption: true,
+          })
+          .positional("targetPath", {
+            describe: "Root project directory containing FEATURE_ROADMAP.md, or the roadmap file itself.",
+            type: "string",
+            demandOption: true,
+          })
+          .positional("item", {
+            describe: "ID or feature name of the item (show, set-status).",
+            type: "string",
+          })
+          .option("status", {
+            alias: "s",
+            type: "string",
+            description: "New status (set-status, add; default 'Not Started'), or the status to list.",
+          })
+          .option("id", { type: "string", description: "ID of the new item (add)." })
+          .option("feature", { type: "string", description: "Feature name of the new item (add)." })
+          .option("description", { type: "string", description: "Description of the new item (add, required)." })
+          .option("priority", { type: "string", description: "Priority of the new item, e.g. P1 (add)." })
+          .option("epic", { type: "string", description: "Epic of the new item (add)." })
+          .option("milestone", { type: "string", description: "Milestone of the new item (add)." })
+          .option("responsibleFiles", { type: "string", description: "Comma-separated source files of the new item (add)." })
+          .option("testFiles", { type: "string", description: "Comma-separated test files of the new item (add)." })
+          .option("dependencies", { type: "string", description: "Comma-separated IDs or feature names the new item depends on (add)." })
+          .option("format", {
+            alias: "f",
+            type: "string",
+            description: "Graph format: mermaid (flowchart) or dot (Graphviz).",
+            default: "mermaid",
+            choices: ROADMAP_GRAPH_FORMATS,
+          })
+          .option("output", {
+            alias: "o",
+            type: "string",
+            description: "Write the graph to this file instead of the console.",
+          });
+      },
+      (argv) =>
+        runCommandLogic({
+          ...argv,
+          command: ENHANCEMENT_TYPES.ROADMAP,
+        } as CliArguments)
+    )
+    .command(
+      `${ENHANCEMENT_TYPES.UNDO} [runId]`,
+      "Restore the files changed by the last run (or the given run) from the backup store.",
+      (yargsInstance) => {
+        return yargsInstance
+          .positional("runId", {
+            describe: "ID of the run to undo, as listed by 'history'. Defaults to the most recent run not yet undone.",
+            type: "string",
+          })
+          .option("yes", {
+            alias: "y",
+            type: "boolean",
+            description: "Restore without asking for confirmation.",
+            default: false,
+          })
+          .option("force", {
+            alias: "f",
+            type: "boolean",
+            description: "Also restore files changed after the run, or a run that was already undone.",
+            default: false,
+          })
+          .option("project", {
+            type: "string",
+            description: "Project whose backups to use, e.g. the target of 'develop'. Defaults to the current directory.",
+          });
+      },
+      (argv) =>
+        runCommandLogic({
+          ...argv,
+          command: ENHANCEMENT_TYPES.UNDO,
+        } as CliArguments)
+    )
+    .command(
+      ENHANCEMENT_TYPES.HISTORY,
+      "List recorded runs with the command that produced them and the files they touched.",
+      (yargsInstance) => {
+        return yargsInstance
+          .option("limit", {
+            alias: "n",
+            type: "number",
+            description: "Show only the most recent N runs.",
+          })
+          .option("project", {
+            type: "string",
+            description: "Project whose backups to list, e.g. the target of 'develop'. Defaults to the current directory.",
+          });
+      },
+      (argv) =>
+        runCommandLogic({
+          ...argv,
+          command: ENHANCEMENT_TYPES.HISTORY,
+        } as CliArguments)
+    )
 
     .demandCommand(1, "Please specify a valid command (action).")
     .strict()
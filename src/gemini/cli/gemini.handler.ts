@@ -2,6 +2,12 @@
 
 import { CliArguments } from "@shared/types/app.type";
 import { ENHANCEMENT_TYPES } from "@/gemini/types/enhancement.type";
+import { setCassetteMode } from "@/gemini/providers/llm-provider.factory";
+import { setWriteMode, writePendingPatch } from "@shared/utils/file-io.utils";
+import { configureWriteGuard, printWriteAuditSummary } from "@shared/utils/write-guard.utils";
+import { BACKUP_DIR, configureBackups, finishBackupRun, startBackupRun } from "@shared/utils/backup.utils";
+import { EXCLUDE_PATTERNS } from "@shared/constants/filesystem.constants";
+import { env } from "@/config/app.config";
 
 import * as consolidateCmd from "@/gemini/commands/consolidate.command";
 import * as generateTestsCmd from "@/gemini/commands/generate-tests.command";
@@ -10,6 +16,10 @@ import * as generateProgressReportCmd from "@/gemini/commands/generate-progress-
 import * as initCmd from "@/gemini/commands/init.command";
 import * as reviewCmd from "@/gemini/commands/review.command";
 import * as documentCmd from "@/gemini/commands/document.command";
+import * as runK6Cmd from "@/gemini/commands/run-k6.command";
+import * as roadmapCmd from "@/gemini/commands/roadmap.command";
+import * as undoCmd from "@/gemini/commands/undo.command";
+import * as historyCmd from "@/gemini/commands/history.command";
 
 const logPrefix = "[GeminiHandler]";
 
@@ -23,6 +33,10 @@ const commandHandlerMap: {
   [ENHANCEMENT_TYPES.DEVELOP]: developCmd.execute,
   [ENHANCEMENT_TYPES.GENERATE_PROGRESS_REPORT]: generateProgressReportCmd.execute,
   [ENHANCEMENT_TYPES.INIT]: initCmd.execute,
+  [ENHANCEMENT_TYPES.RUN_K6]: runK6Cmd.execute,
+  [ENHANCEMENT_TYPES.ROADMAP]: roadmapCmd.execute,
+  [ENHANCEMENT_TYPES.UNDO]: undoCmd.execute,
+  [ENHANCEMENT_TYPES.HISTORY]: historyCmd.execute,
 };
 
 export async function runCommandLogic(argv: CliArguments): Promise<void> {
@@ -36,8 +50,36 @@ export async function runCommandLogic(argv: CliArguments): Promise<void> {
     throw new Error(`No handler found for command: ${argv.command}`);
   }
 
+  if (argv.replay) {
+    setCassetteMode("replay");
+  } else if (argv.record) {
+    setCassetteMode("record");
+  }
+
+  if (argv.patch) {
+    setWriteMode("patch");
+  } else if (argv.dryRun) {
+    setWriteMode("dry-run");
+  }
+
+  configureWriteGuard({
+    maxFileBytes: env.MAX_WRITE_BYTES,
+    protectedDirectories: EXCLUDE_PATTERNS,
+    auditLogPath: argv.auditLog ? String(argv.auditLog) : null,
+  });
+
+  // Every run that changes files can be undone, except `undo` itself (which marks the run it restored instead).
+  configureBackups(BACKUP_DIR);
+  if (argv.command !== ENHANCEMENT_TYPES.UNDO && argv.command !== ENHANCEMENT_TYPES.HISTORY) {
+    startBackupRun(argv.command, process.argv.slice(2).join(" "));
+  }
+
   try {
     await handler(argv);
+    printWriteAuditSummary();
+    if (argv.patch && !writePendingPatch(String(argv.patch))) {
+      throw new Error(`${logPrefix} Failed to write patch file: ${argv.patch}`);
+    }
     console.log(`\n${logPrefix} Command '${argv.command}' finished.`);
   } catch (error) {
     // ... (rest of the error handling code remains the same) ...
@@ -75,5 +117,10 @@ export async function runCommandLogic(argv: CliArguments): Promise<void> {
     }
     process.exitCode = 1;
     throw error;
+  } finally {
+    const backupRun = finishBackupRun();
+    if (backupRun) {
+      console.log(`${logPrefix} Backed up ${backupRun.files.length} changed file(s) as run ${backupRun.runId}. Undo with: undo ${backupRun.runId}`);
+    }
   }
 }
@@ -23,7 +23,7 @@ export async function execute(args: CliArguments): Promise<void> {
         throw new Error("Handler mismatch: Expected Consolidate command.");
     }
     // Get targetPath, prefix, and the new pattern
-    const { targetPath, prefix, pattern, withPathComments, stripComments, minify } = args;
+    const { targetPath, prefix, pattern, withPathComments, stripComments, minify, skeleton } = args;
 
     if (!targetPath) {
         throw new Error("Target path is required for consolidation.");
@@ -60,7 +60,8 @@ export async function execute(args: CliArguments): Promise<void> {
       prefix ? String(prefix) : undefined,
       pattern ? String(pattern) : undefined,
       isStripped,
-      isMinified
+      isMinified,
+      !!skeleton
     );
 
     // Check if any files were found (same check as before)
@@ -77,7 +78,8 @@ export async function execute(args: CliArguments): Promise<void> {
 
     // Write the output file (same as before)
     let finalContent = consolidatedContent;
-    if (!withPathComments) {
+    // A skeleton is only useful with its file structure, so it keeps the headers.
+    if (!withPathComments && !skeleton) {
         // Assume getConsolidatedSources embeds // File: by default as per the codebase, let's strip it if NOT requested
         finalContent = finalContent.replace(/^\/\/ File: .*\r?\n\r?\n?/gm, '');
     }
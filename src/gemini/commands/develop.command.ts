@@ -4,86 +4,313 @@ import fs from 'fs';
 import path from 'path';
 import { glob } from 'glob';
 import { CliArguments } from '@shared/types/app.type';
-import { readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
-import { parseRoadmapTable, RoadmapItem } from '@/shared/utils/feature-roadmap.utils';
+import { deleteOutputFile, getWriteMode, readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
+import { colorizeDiff, createUnifiedDiff } from '@shared/utils/diff.utils';
+import { confirm } from '@shared/utils/prompt.utils';
+import { buildTestCommand, DEFAULT_TEST_COMMAND, runTestCommand, summarizeTestOutput, TestRunResult } from '@shared/utils/test-runner.utils';
+import { formatValidationDiagnostics, validateFiles, ValidationResult } from '@shared/utils/code-validation.utils';
+import { DependencyContextOptions, gatherDependencyContext, resolveDependencyContextOptions } from '@shared/utils/import-graph.utils';
+import { parseRoadmapTable, RoadmapItem, updateRoadmapItem } from '@/shared/utils/feature-roadmap.utils';
+import { assertAcyclic, buildRoadmapGraph, getRoadmapItemKey, getUnmetDependencies } from '@/shared/utils/roadmap-graph.utils';
 import { enhanceCodeWithGemini, GeminiEnhancementResult } from '@/gemini/gemini.service';
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
-import { parseAiResponseWithFileHeaders, ExtractedFile } from '@/shared/utils/multi-file.parser'; // New import
+import { ExtractedFile, formatFileHeader, formatParseDiagnostic, parseAiFileResponse } from '@/shared/utils/multi-file.parser';
+import { FILE_RESPONSE_VERSION } from '@shared/types/file-response.schema';
+import { applyEditBlocks, containsEditBlocks, parseEditBlocks } from '@shared/utils/edit-block.utils';
+import { matchesPathPattern, resolveGuardedPath, setWriteGuardRoot } from '@shared/utils/write-guard.utils';
+import { setBackupRoot } from '@shared/utils/backup.utils';
+import { DevelopPhase, DevelopSession } from '@/gemini/types/develop-session.schema';
+import { archiveSession, deleteSession, getSessionPath, loadSession, rememberOriginal, restoreOriginals, saveSession } from '@/gemini/utils/develop-session.utils';
+import { assertGitRepository, checkout, commitPaths, createBranch, deleteBranch, getBranchPoint, getUncommittedChanges, GitBranchPoint, toBranchName } from '@shared/utils/git.utils';
 
 const logPrefix = "[DevelopCmd]"; // Changed prefix for clarity
 const ROADMAP_FILENAME = 'FEATURE_ROADMAP.md';
+const ATTEMPTS_DIR = path.join('.gemini-develop', 'attempts');
+const DEFAULT_MAX_ITERATIONS = 3;
 
-// Placeholder for actual user input mechanism (e.g., inquirer)
-// For AI collaboration, we log the prompt and assume 'Y'
-async function getUserConfirmation(promptMessage: string): Promise<boolean> {
-    console.log(`${logPrefix} USER_PROMPT: ${promptMessage} [Y/n] (Assuming Y for now)`);
-    return true; // Assume 'Yes' for automated flow
+/**
+ * Status and Progress written back to FEATURE_ROADMAP.md as the TDD cycle advances.
+ * `selectNextTask` ranks the TDD states first, so an interrupted cycle is picked up again on the next run.
+ */
+const ROADMAP_PHASES = {
+    testGeneration: { status: 'TDD - Test Generation', progressPercent: '25%' },
+    codeImplementation: { status: 'TDD - Code Implementation', progressPercent: '50%' },
+    review: { status: 'Needs Review', progressPercent: '90%' },
+} as const;
+
+/**
+ * How every develop prompt asks for files: the structured multi-file response protocol (parsed by `parseAiFileResponse`).
+ */
+const FILE_RESPONSE_FORMAT_INSTRUCTIONS = `Respond ONLY with one JSON object (response protocol version ${FILE_RESPONSE_VERSION}), without explanations or Markdown fences around it:
+    {"version": ${FILE_RESPONSE_VERSION}, "files": [{"path": "path/to/file.ext", "action": "create", "content": "<complete file content>"}]}
+    - "path" MUST be relative to the project root.
+    - "action" is "create" for a new file, "modify" for an existing one, or "delete" to remove a file (omit "content" then).
+    - "content" is the complete file, never a fragment or a diff. Escape it as a JSON string.`;
+
+/**
+ * How the implementation and fix prompts ask for changes with `--edit-blocks`: SEARCH/REPLACE blocks for existing files,
+ * the complete content for new ones.
+ */
+const EDIT_BLOCK_FORMAT_INSTRUCTIONS = `Respond ONLY with file blocks, without explanations. Start each file with a \`// File: path/to/file.ext\` header line (relative to the project root).
+    - For an existing file, do NOT repeat the whole file. Give one or more edit blocks after its header:
+      <<<<<<< SEARCH
+      (lines copied exactly from the current file, including indentation)
+      =======
+      (the lines that replace them)
+      >>>>>>> REPLACE
+    - Each SEARCH must match exactly one place in the file: include a few unchanged lines around the change if needed. Blocks are applied in order.
+    - For a new file, give its complete content after the header instead of edit blocks.`;
+
+/**
+ * A file written by the develop workflow, with its content before the write (null if it was created).
+ */
+interface FileChange {
+    filePath: string;
+    before: string | null;
+    /** Content after the write, or null if the file was deleted. */
+    after: string | null;
 }
 
+type TaskOutcome = 'succeeded' | 'failed' | 'skipped';
+
 /**
- * Gathers content from specified files or glob patterns relative to a project root.
- *
- * @param projectRoot The absolute path to the project root.
- * @param filesAndPatterns An array of relative file paths or glob patterns.
- * @param fileTypeDescription Description of files being read (e.g., "responsible files", "test files").
- * @returns A promise that resolves to a string containing all file contents, each prefixed with "// File: <relativePath>".
+ * How one task of a develop run ended, for the batch summary.
  */
-async function gatherFileContext(projectRoot: string, filesAndPatterns: string[], fileTypeDescription: string): Promise<string> {
-    let context = '';
-    const processedFilePaths = new Set<string>();
+interface TaskResult {
+    task: RoadmapItem;
+    outcome: TaskOutcome;
+    detail: string;
+}
 
-    if (!filesAndPatterns || filesAndPatterns.length === 0) {
-        console.warn(`${logPrefix} No ${fileTypeDescription} listed. Proceeding without this specific file context.`);
-        return context;
+/**
+ * State shared by the phases of one develop run.
+ */
+interface DevelopContext {
+    projectRoot: string;
+    roadmapPath: string;
+    roadmapContent: string;
+    /** The task being developed (the same object as `session.task`, so status changes are persisted). */
+    task: RoadmapItem;
+    session: DevelopSession;
+    assumeYes: boolean;
+    testCommand: string;
+    maxIterations: number;
+    /** `--git`: develop on a feature branch and commit each phase. */
+    useGit: boolean;
+    /** `--edit-blocks`: ask for SEARCH/REPLACE blocks instead of complete files in the implementation and fix prompts. */
+    editBlocks: boolean;
+    /** `--validate`: type-check and lint the written files once the tests pass, and fix what they report. */
+    validate: boolean;
+    /** `--context-depth` / `--context-budget`: how far imports are followed for the signatures-only context. */
+    contextOptions: Required<DependencyContextOptions>;
+    /** Content of the tests generated in this run (files may not be on disk in --dry-run / --patch mode). */
+    generatedTestContext?: string;
+}
+
+/**
+ * Prints a unified diff of each proposed file against its current content on disk.
+ */
+function showProposedDiffs(projectRoot: string, files: ExtractedFile[]): void {
+    const useColor = !!process.stdout.isTTY && !process.env.NO_COLOR;
+    for (const file of files) {
+        const absoluteFilePath = path.resolve(projectRoot, file.filePath);
+        const currentContent = fs.existsSync(absoluteFilePath) ? fs.readFileSync(absoluteFilePath, 'utf8') : null;
+        const diffText = createUnifiedDiff(file.filePath, currentContent, file.action === 'delete' ? null : file.content);
+        if (!diffText) {
+            console.log(`${logPrefix} No changes for ${file.filePath}.`);
+            continue;
+        }
+        console.log(useColor ? colorizeDiff(diffText) : diffText);
     }
+}
 
-    console.log(`${logPrefix} Reading content of ${fileTypeDescription}...`);
-    for (const fileOrPattern of filesAndPatterns) {
-        let filesToProcess: string[] = [];
-        const resolvedFileOrPattern = path.isAbsolute(fileOrPattern) ? fileOrPattern : path.join(projectRoot, fileOrPattern);
+/**
+ * Runs the given test files with the project's test command (TDD Red/Green verification).
+ * Returns null when the files were only previewed (`--dry-run` / `--patch`), since there is nothing on disk to run.
+ */
+async function runPhaseTests(projectRoot: string, testCommand: string, testFiles: string[], phase: 'Red' | 'Green'): Promise<TestRunResult | null> {
+    if (getWriteMode() !== 'write') {
+        console.log(`${logPrefix} Skipping the ${phase} test run: files were only previewed, not written.`);
+        return null;
+    }
+    console.log(`${logPrefix} Running generated tests (${phase} phase)...`);
+    const result = await runTestCommand(buildTestCommand(testCommand, testFiles), projectRoot);
+    console.log(`${logPrefix} Test command finished: ${result.status} (exit code ${result.exitCode ?? 'n/a'}).`);
+    return result;
+}
 
+/**
+ * Formats a test run for inclusion in the implementation prompt.
+ */
+function formatTestRunForPrompt(result: TestRunResult): string {
+    return `\n**Test Runner Output** (\`${result.command}\`, exit code ${result.exitCode}):\n${summarizeTestOutput(result.output)}\n`;
+}
+
+/**
+ * Advances the task's row in FEATURE_ROADMAP.md (Status, Progress, Last Updated) and writes the file.
+ * Failures are logged, not thrown: the roadmap is bookkeeping and must not abort the TDD cycle.
+ */
+function writeRoadmapPhase(ctx: DevelopContext, phase: keyof typeof ROADMAP_PHASES): void {
+    const { task } = ctx;
+    const { status, progressPercent } = ROADMAP_PHASES[phase];
+    try {
+        const updatedContent = updateRoadmapItem(ctx.roadmapContent, task, { status, progressPercent, lastUpdated: new Date().toISOString().slice(0, 10) });
+        if (updatedContent === ctx.roadmapContent) {
+            return;
+        }
+        trackOriginal(ctx, ROADMAP_FILENAME, ctx.roadmapContent);
+        if (!writeOutputFile(ctx.roadmapPath, updatedContent)) {
+            console.warn(`${logPrefix} ⚠️ Could not update ${ROADMAP_FILENAME}. Set the status of "${task.feature}" to '${status}' manually.`);
+            return;
+        }
+        console.log(`${logPrefix} ${ROADMAP_FILENAME}: "${task.feature || task.description}" -> ${status}`);
+        task.status = status;
+        ctx.roadmapContent = updatedContent;
+    } catch (e) {
+        console.warn(`${logPrefix} ⚠️ Could not update ${ROADMAP_FILENAME}: ${e instanceof Error ? e.message : e}`);
+    }
+}
+
+/**
+ * Creates the in-memory session for a newly selected task. It is saved once the run first changes something.
+ */
+function createSession(task: RoadmapItem): DevelopSession {
+    const now = new Date().toISOString();
+    const featureSlug = (task.feature || task.description).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'task';
+    return {
+        version: 1,
+        startedAt: now,
+        updatedAt: now,
+        task: { ...task },
+        phase: 'task-selected',
+        testFiles: [],
+        sourceFiles: [],
+        fixIterations: 0,
+        attemptsDir: path.join(ATTEMPTS_DIR, `${now.replace(/[:.]/g, '-')}-${featureSlug}`),
+        originals: {},
+        steps: [],
+    };
+}
+
+/**
+ * Records a file's pre-session content (before its first write) and saves the session, so `--abort` can restore it
+ * even if the run crashes right after the write.
+ */
+function trackOriginal(ctx: DevelopContext, relativeFilePath: string, currentContent: string | null): void {
+    if (rememberOriginal(ctx.session, relativeFilePath, currentContent)) {
+        saveSession(ctx.projectRoot, ctx.session);
+    }
+}
+
+/**
+ * Stores a prompt and the model's response in the session.
+ */
+function recordStep(ctx: DevelopContext, name: string, prompt: string, response: string): void {
+    ctx.session.steps.push({ name, prompt, response, at: new Date().toISOString() });
+    saveSession(ctx.projectRoot, ctx.session);
+}
+
+function completePhase(ctx: DevelopContext, phase: DevelopPhase): void {
+    ctx.session.phase = phase;
+    saveSession(ctx.projectRoot, ctx.session);
+}
+
+/**
+ * Tells the user how to continue or undo an interrupted run, if its session was saved.
+ */
+function printSessionHint(projectRoot: string): void {
+    if (fs.existsSync(getSessionPath(projectRoot))) {
+        console.log(`${logPrefix} Session saved. Continue with 'develop --resume', or restore the original files with 'develop --abort'.`);
+    }
+}
+
+/**
+ * Expands glob patterns and resolves file paths relative to a project root.
+ *
+ * @returns The absolute paths, in order and without duplicates. Paths that do not exist are kept.
+ */
+async function expandFilesAndPatterns(projectRoot: string, filesAndPatterns: string[]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const fileOrPattern of filesAndPatterns) {
         if (fileOrPattern.includes('*')) {
             console.log(`  ${logPrefix} Expanding glob pattern: ${fileOrPattern} (from root: ${projectRoot})`);
             try {
                 // Glob expects patterns relative to cwd option if specified, or absolute
-                filesToProcess = await glob(fileOrPattern, { cwd: projectRoot, nodir: true, absolute: true });
-                console.log(`    ${logPrefix} Found ${filesToProcess.length} file(s) matching glob: ${filesToProcess.map(f => path.relative(projectRoot, f)).join(', ')}`);
+                const matches = await glob(fileOrPattern, { cwd: projectRoot, nodir: true, absolute: true });
+                console.log(`    ${logPrefix} Found ${matches.length} file(s) matching glob: ${matches.map(f => path.relative(projectRoot, f)).join(', ')}`);
+                matches.forEach(match => files.add(match));
             } catch (globError) {
                 console.warn(`${logPrefix} ⚠️ Error expanding glob pattern ${fileOrPattern}. Skipping. Error: ${globError instanceof Error ? globError.message : globError}`);
-                continue;
             }
         } else {
-            filesToProcess.push(path.resolve(projectRoot, fileOrPattern));
+            files.add(path.resolve(projectRoot, fileOrPattern));
         }
+    }
+    return [...files];
+}
 
-        for (const absoluteFilePath of filesToProcess) {
-            if (processedFilePaths.has(absoluteFilePath)) continue;
-            processedFilePaths.add(absoluteFilePath);
+/**
+ * Gathers content from specified files or glob patterns relative to a project root.
+ *
+ * @param projectRoot The absolute path to the project root.
+ * @param filesAndPatterns An array of relative file paths or glob patterns.
+ * @param fileTypeDescription Description of files being read (e.g., "responsible files", "test files").
+ * @returns A promise that resolves to a string containing all file contents, each prefixed with a "File: <relativePath>" header
+ *          in the file's comment syntax (see `formatFileHeader`).
+ */
+async function gatherFileContext(projectRoot: string, filesAndPatterns: string[], fileTypeDescription: string): Promise<string> {
+    let context = '';
 
-            const relativePath = path.relative(projectRoot, absoluteFilePath).split(path.sep).join('/');
-            try {
-                if (fs.existsSync(absoluteFilePath) && fs.statSync(absoluteFilePath).isFile()) {
-                    const fileContent = readSingleFile(absoluteFilePath);
-                    context += `// File: ${relativePath}\n\n${fileContent}\n\n---\n\n`;
-                    console.log(`    ${logPrefix} Read context from: ${relativePath}`);
-                } else {
-                    console.log(`    ${logPrefix} File not found or not a file (will be created if AI generates it): ${relativePath}`);
-                    context += `// File: ${relativePath}\n\n// This file does not exist yet or is not a regular file.\n\n---\n\n`;
-                }
-            } catch (e) {
-                // If readSingleFile throws (e.g. permission issues, or it's a dir mistaken for a file)
-                console.warn(`${logPrefix} ⚠️ Failed to read ${relativePath}. Will treat as non-existent for context. Error: ${e instanceof Error ? e.message : String(e)}`);
-                context += `// File: ${relativePath}\n\n// This file could not be read.\n\n---\n\n`;
+    if (!filesAndPatterns || filesAndPatterns.length === 0) {
+        console.warn(`${logPrefix} No ${fileTypeDescription} listed. Proceeding without this specific file context.`);
+        return context;
+    }
+
+    console.log(`${logPrefix} Reading content of ${fileTypeDescription}...`);
+    for (const absoluteFilePath of await expandFilesAndPatterns(projectRoot, filesAndPatterns)) {
+        const relativePath = path.relative(projectRoot, absoluteFilePath).split(path.sep).join('/');
+        try {
+            if (fs.existsSync(absoluteFilePath) && fs.statSync(absoluteFilePath).isFile()) {
+                const fileContent = readSingleFile(absoluteFilePath);
+                context += `${formatFileHeader(relativePath)}\n\n${fileContent}\n\n---\n\n`;
+                console.log(`    ${logPrefix} Read context from: ${relativePath}`);
+            } else {
+                console.log(`    ${logPrefix} File not found or not a file (will be created if AI generates it): ${relativePath}`);
+                context += `${formatFileHeader(relativePath)}\n\n// This file does not exist yet or is not a regular file.\n\n---\n\n`;
             }
+        } catch (e) {
+            // If readSingleFile throws (e.g. permission issues, or it's a dir mistaken for a file)
+            console.warn(`${logPrefix} ⚠️ Failed to read ${relativePath}. Will treat as non-existent for context. Error: ${e instanceof Error ? e.message : String(e)}`);
+            context += `${formatFileHeader(relativePath)}\n\n// This file could not be read.\n\n---\n\n`;
         }
     }
     return context;
 }
 
+/**
+ * Gathers the signatures of the project files that the given files import (see `gatherDependencyContext`).
+ */
+async function gatherImportContext(ctx: DevelopContext, filesAndPatterns: string[]): Promise<string> {
+    if (ctx.contextOptions.maxDepth === 0) {
+        return '';
+    }
+    const files = await expandFilesAndPatterns(ctx.projectRoot, filesAndPatterns);
+    return gatherDependencyContext(ctx.projectRoot, files, ctx.contextOptions);
+}
+
+/**
+ * The prompt section for `gatherImportContext` output, or nothing when there is none.
+ */
+function formatImportContextSection(importContext: string): string {
+    return importContext.trim()
+        ? `\n**Imported Project Files (signatures only, bodies omitted - for reference):**\n${importContext.trim()}\n`
+        : '';
+}
+
 /**
  * Generates a prompt for the Gemini API to create unit tests for a feature. (ADR-001)
  */
-function generateTestGenerationPrompt(task: RoadmapItem, responsibleFileContext: string, existingTestFileContext: string, targetTestingFramework: string = 'Jest'): string {
+function generateTestGenerationPrompt(task: RoadmapItem, responsibleFileContext: string, existingTestFileContext: string, importContext: string, targetTestingFramework: string = 'Jest'): string {
     return `
 You are an AI programming assistant. Your task is to generate comprehensive unit tests for the following feature.
 
@@ -98,17 +325,15 @@ ${responsibleFileContext.trim() || '// No existing code provided for responsible
 
 **Existing Test Context (Test Files - if any to supplement):**
 ${existingTestFileContext.trim() || '// No existing test code provided.'}
-
+${formatImportContextSection(importContext)}
 **Instructions for Test Generation:**
 1.  Generate comprehensive unit tests for the feature: "${task.feature}".
 2.  The tests should be written for the ${targetTestingFramework} framework.
 3.  Ensure tests cover main success paths, edge cases, and error conditions described or implied by the feature.
 4.  The primary goal is to create tests that will initially FAIL because the feature code is not yet written or is incomplete.
-5.  **CRITICAL:** Output the complete test code.
-    - If generating code for multiple test files, or modifying existing ones, ensure each file's content is preceded by a \`// File: path/to/test/file.ext\` header.
-    - The 'path/to/test/file.ext' MUST be relative to the project root.
+5.  **CRITICAL:** ${FILE_RESPONSE_FORMAT_INSTRUCTIONS}
+    - Output the complete test code of every test file you create or modify.
     - Base the test file paths on the "Target Test File(s)" listed above. If a specific path is not listed but implied (e.g., for a new feature), create a standard test path (e.g., \`tests/module/feature.test.ts\`).
-6.  Do NOT include any explanations, introductions, summaries, or markdown formatting (like \`\`\`) outside the code content itself. Respond ONLY with the file header comments and the complete code for each test file.
 
 Generate the unit tests now.
 `;
@@ -117,7 +342,7 @@ Generate the unit tests now.
 /**
  * Generates a prompt for the Gemini API to implement code to pass given tests. (ADR-001)
  */
-function generateCodeImplementationPrompt(task: RoadmapItem, failingTestData: string, responsibleFileContext: string): string {
+function generateCodeImplementationPrompt(task: RoadmapItem, failingTestData: string, responsibleFileContext: string, importContext: string, editBlocks: boolean): string {
     return `
 You are an AI programming assistant. Your task is to write the minimal production code to make the provided (and currently failing) unit tests pass for the following feature.
 
@@ -131,16 +356,15 @@ ${failingTestData.trim()}
 
 **Existing Code Context (Responsible Files - to be modified/added to):**
 ${responsibleFileContext.trim() || '// No existing code provided for responsible files. Implement the feature in the specified file(s).'}
-
+${formatImportContextSection(importContext)}
 **Instructions for Code Implementation:**
 1.  Analyze the feature description and the provided failing test code.
 2.  Write the minimal production code in the "Responsible File(s)" (listed above) to make these tests pass.
 3.  Focus on fulfilling the requirements explicitly shown in the tests and the feature description.
 4.  If a "Responsible File" does not exist, create it with the necessary code.
-5.  **CRITICAL:** Output the complete modified code for each responsible file.
-    - Each file's content MUST be preceded by a \`// File: path/to/source/file.ext\` header.
-    - The 'path/to/source/file.ext' MUST be relative to the project root. These should match the "Responsible File(s)" from the feature details.
-6.  Do NOT include any explanations, introductions, summaries, or markdown formatting (like \`\`\`) outside the code content itself. Respond ONLY with the file header comments and the complete code for each modified source file.
+5.  **CRITICAL:** ${editBlocks ? EDIT_BLOCK_FORMAT_INSTRUCTIONS : FILE_RESPONSE_FORMAT_INSTRUCTIONS}
+    - ${editBlocks ? 'Change only what the tests require in each responsible file.' : 'Output the complete modified code for each responsible file.'}
+    - The paths should match the "Responsible File(s)" from the feature details.
 
 Implement the production code now.
 `;
@@ -148,15 +372,117 @@ Implement the production code now.
 
 
 /**
- * Selects the next task from the roadmap based on status and priority.
+ * Generates a prompt for the Gemini API to fix an implementation whose tests still fail (self-healing loop).
+ */
+function generateFixPrompt(task: RoadmapItem, testFileContext: string, sourceFileContext: string, importContext: string, testRun: TestRunResult, iteration: number, maxIterations: number, editBlocks: boolean, validation: ValidationResult | null = null): string {
+    // Tests are only validated once they pass, so a failed validation means the remaining problems are type or lint errors.
+    const problem = validation && !validation.passed
+        ? 'makes its unit tests pass, but the type checker or the linter reports errors in the written files'
+        : 'does not make its unit tests pass yet';
+    const report = validation && !validation.passed
+        ? `**Type Checker / Linter Diagnostics** (${validation.checks.filter(check => check.command).map(check => `\`${check.command}\``).join(', ')}):\n${formatValidationDiagnostics(validation.diagnostics)}`
+        : `**Test Runner Output** (\`${testRun.command}\`, exit code ${testRun.exitCode}):\n${summarizeTestOutput(testRun.output)}`;
+    return `
+You are an AI programming assistant. The production code written for the following feature ${problem}. Your task is to fix the production code.
+
+**Feature Details:**
+- Feature: ${task.feature || 'N/A'}
+- Description: ${task.description}
+- Responsible File(s) for implementation: ${task.responsibleFiles?.join(', ') || 'N/A'}
+
+**Unit Tests (the specification - do NOT modify them):**
+${testFileContext.trim() || '// No test code available.'}
+
+**Current Production Code (Responsible Files):**
+${sourceFileContext.trim() || '// No production code found.'}
+${formatImportContextSection(importContext)}
+${report}
+
+**Instructions for the Fix (attempt ${iteration} of ${maxIterations}):**
+1.  Analyze the output above to find the cause of each failure (wrong behavior, missing exports, type errors, wrong import paths, lint violations, etc.).
+2.  Change the production code in the "Responsible File(s)" (listed above) so that all the tests pass without type or lint errors. Do not change the tests.
+3.  Keep the changes minimal and focused on the failures; keep code that already works.
+4.  **CRITICAL:** ${editBlocks ? EDIT_BLOCK_FORMAT_INSTRUCTIONS : FILE_RESPONSE_FORMAT_INSTRUCTIONS}
+    - ${editBlocks ? 'Give edit blocks only for the lines that need to change.' : 'Output the complete fixed code for each responsible file you change.'}
+    - Each path MUST match one of the "Responsible File(s)".
+
+Fix the production code now.
+`;
+}
+
+/**
+ * Writes a Markdown record of one implementation attempt (diff of the written files and the test result),
+ * so the human can inspect what changed in each iteration. Skipped when writes are only previewed.
+ * Like the session file, it is session state rather than project code: it is written directly, so it is not backed up
+ * or undone.
+ */
+function recordAttempt(attemptsDir: string, iteration: number, title: string, changes: FileChange[], testRun: TestRunResult | null): void {
+    if (getWriteMode() !== 'write') {
+        return;
+    }
+    const diffText = changes.map(change => createUnifiedDiff(change.filePath, change.before, change.after)).join('');
+    const lines = [
+        `# ${title}`,
+        '',
+        `- Files: ${changes.map(change => change.filePath).join(', ') || 'none'}`,
+        `- Tests: ${testRun ? `${testRun.status} (\`${testRun.command}\`, exit code ${testRun.exitCode ?? 'n/a'})` : 'not run'}`,
+        '',
+        '## Changes',
+        '',
+        '```diff',
+        diffText.trimEnd() || '(no changes)',
+        '```',
+        '',
+    ];
+    if (testRun) {
+        lines.push('## Test Output', '', '```', summarizeTestOutput(testRun.output), '```', '');
+    }
+    const recordPath = path.join(attemptsDir, `iteration-${iteration}.md`);
+    try {
+        fs.mkdirSync(attemptsDir, { recursive: true });
+        fs.writeFileSync(recordPath, lines.join('\n'), 'utf8');
+        console.log(`${logPrefix} Recorded iteration ${iteration} in ${recordPath}`);
+    } catch (e) {
+        console.warn(`${logPrefix} ⚠️ Could not record iteration ${iteration} in ${recordPath}: ${e instanceof Error ? e.message : e}`);
+    }
+}
+
+/**
+ * Checks whether a roadmap status still needs development.
+ */
+function isPendingStatus(status: string | undefined): boolean {
+    return !!status && /^(Not Started|In Progress|TDD - Test Generation|TDD - Code Implementation)/i.test(status); // Added TDD states
+}
+
+/**
+ * Selects the next task from the roadmap based on dependencies, status and priority.
+ * Only tasks whose dependencies are all Done are eligible, so tasks are developed in topological order.
  * Priority Order: P0 > P1 > P2 ...
  * Status Order: In Progress > Not Started
+ *
+ * @param items All roadmap items (dependencies are resolved against all of them).
+ * @param isCandidate Optional filter of the items that may be selected (batch scope, already attempted tasks).
+ * @throws {Error} If the Dependencies column contains a cycle.
  */
-function selectNextTask(items: RoadmapItem[]): RoadmapItem | null {
-    const pendingItems = items.filter(item =>
-        item.status && /^(Not Started|In Progress|TDD - Test Generation|TDD - Code Implementation)/i.test(item.status) // Added TDD states
+function selectNextTask(items: RoadmapItem[], isCandidate: (item: RoadmapItem) => boolean = () => true): RoadmapItem | null {
+    const graph = buildRoadmapGraph(items);
+    assertAcyclic(graph);
+    graph.unresolved.forEach(({ key, reference }) =>
+        console.warn(`${logPrefix} ⚠️ "${key}" depends on "${reference}", which matches no roadmap ID or feature. Ignoring this dependency.`)
     );
 
+    const pendingItems = items.filter(item => {
+        if (!isPendingStatus(item.status) || !isCandidate(item)) {
+            return false;
+        }
+        const unmetDependencies = getUnmetDependencies(graph, item);
+        if (unmetDependencies.length > 0) {
+            console.log(`${logPrefix} Skipping "${getRoadmapItemKey(item)}": waiting for ${unmetDependencies.join(', ')} to be Done.`);
+            return false;
+        }
+        return true;
+    });
+
     if (pendingItems.length === 0) {
         return null;
     }
@@ -199,60 +525,52 @@ async function processAndWriteFiles(
     projectRoot: string,
     aiResponseContent: string,
     expectedFilePaths: string[], // From roadmap (testFilePaths or responsibleFiles)
-    fileTypeDescription: "test" | "source"
-): Promise<{ success: boolean, writtenFiles: string[], actualFileContext: string }> {
-    const parsedFiles = parseAiResponseWithFileHeaders(aiResponseContent);
+    fileTypeDescription: "test" | "source",
+    assumeYes: boolean,
+    onBeforeWrite?: (relativeFilePath: string, currentContent: string | null) => void,
+    editBlocks: boolean = false // Apply SEARCH/REPLACE blocks to the current file instead of treating the block as its full content
+): Promise<{ success: boolean, declined: boolean, writtenFiles: string[], actualFileContext: string, changes: FileChange[] }> {
+    const { files: parsedFiles, diagnostics } = parseAiFileResponse(aiResponseContent);
+    diagnostics.forEach(diagnostic => {
+        const message = `${logPrefix} ${diagnostic.severity === 'error' ? '❌' : '⚠️'} Response ${formatParseDiagnostic(diagnostic)}`;
+        if (diagnostic.severity === 'error') console.error(message);
+        else console.warn(message);
+    });
+    const acceptedFiles: ExtractedFile[] = [];
     let allWritesSuccessful = true;
     const writtenFilesPaths: string[] = [];
+    const changes: FileChange[] = [];
     let actualFileContext = ""; // To capture the content of files AI actually produced
 
     if (parsedFiles.length === 0) {
-        console.warn(`${logPrefix} ⚠️ AI response did not contain any recognizable '// File: ...' headers for ${fileTypeDescription} files. Cannot apply changes automatically.`);
+        console.warn(`${logPrefix} ⚠️ AI response did not contain any usable ${fileTypeDescription} files (neither a JSON file list nor 'File: ...' headers). Cannot apply changes automatically.`);
         console.log("\n--- Raw Gemini Response (Review Manually) ---");
         console.log(aiResponseContent.substring(0, 1000) + (aiResponseContent.length > 1000 ? "..." : ""));
         console.log("--- End Raw Gemini Response ---");
-        return { success: false, writtenFiles: [], actualFileContext };
+        return { success: false, declined: false, writtenFiles: [], actualFileContext, changes };
     }
 
     console.log(`\n${logPrefix} Attempting to apply changes to ${parsedFiles.length} ${fileTypeDescription} file(s) from AI response...`);
 
-    // Create a set of expected absolute paths for quick lookup
-    const expectedAbsolutePaths = new Set(
-        expectedFilePaths.map(p => path.resolve(projectRoot, p.trim()))
-    );
-
     for (const extractedFile of parsedFiles) {
-        const { filePath: relativeFilePathFromAI, content } = extractedFile;
-        const absoluteFilePath = path.resolve(projectRoot, relativeFilePathFromAI);
+        const { content } = extractedFile;
+
+        // The write guard rejects absolute paths, '..', symlink escapes and protected directories before anything else.
+        const guarded = resolveGuardedPath(projectRoot, extractedFile.filePath, extractedFile.action === 'delete' ? null : content);
+        if (!guarded.allowed) {
+            console.error(`  ${logPrefix} ❌ Refusing to write ${fileTypeDescription} file '${extractedFile.filePath}': ${guarded.reason}`);
+            allWritesSuccessful = false;
+            continue;
+        }
+        const relativeFilePathFromAI = guarded.relativePath;
 
         // Validate if the AI-provided path is among the expected paths (more crucial for source files)
         // For test files, AI might create a new one if not specified, which could be acceptable.
         // ADR-001: "Validate that AI-provided file paths match the Test File Path(s) from the roadmap."
         // ADR-001: "Validate that AI-provided file paths match the Responsible File(s) from the roadmap."
-        let pathIsValid = false;
         if (expectedFilePaths.length > 0) {
-            // Check if the AI path (relative to projectRoot) is in the expected list (also relative)
-            const normalizedAiPath = path.normalize(relativeFilePathFromAI).split(path.sep).join('/');
-            pathIsValid = expectedFilePaths.some(expectedRelPath => {
-                const normalizedExpectedPath = path.normalize(expectedRelPath.trim()).split(path.sep).join('/');
-                return normalizedAiPath === normalizedExpectedPath;
-            });
-
-            if (!pathIsValid) {
-                // Check if any glob pattern in expectedFilePaths matches the AI path
-                for (const pattern of expectedFilePaths) {
-                    if (pattern.includes('*')) {
-                        // This is a simplified glob check, for more complex globs, a library might be better
-                        const regex = new RegExp("^" + pattern.replace(/\./g, "\\.").replace(/\*/g, ".*") + "$");
-                        if (regex.test(normalizedAiPath)) {
-                            pathIsValid = true;
-                            break;
-                        }
-                    }
-                }
-            }
-
-            if (!pathIsValid) {
+            // Check if the AI path (relative to projectRoot) is in the expected list, or matched by one of its globs
+            if (!expectedFilePaths.some(pattern => matchesPathPattern(relativeFilePathFromAI, pattern))) {
                 console.warn(`${logPrefix} ⚠️ AI proposed writing to ${fileTypeDescription} file '${relativeFilePathFromAI}', which was not explicitly listed in roadmap's ${fileTypeDescription} files or matched by a glob. Expected: ${expectedFilePaths.join(', ')}. Skipping this file.`);
                 allWritesSuccessful = false; // Consider this a failure in strict mode
                 continue;
@@ -265,21 +583,79 @@ async function processAndWriteFiles(
         } else {
             // For test files, if expectedFilePaths is empty, AI might be inferring path; allow for now.
             console.log(`${logPrefix} Info: No explicit 'Test File Path(s)' in roadmap. AI generated test for '${relativeFilePathFromAI}'.`);
-            pathIsValid = true; // Allow it
         }
 
 
-        if (!content.trim()) {
+        const absoluteFilePath = guarded.absolutePath;
+        if (editBlocks && extractedFile.action !== 'delete' && containsEditBlocks(content)) {
+            const currentContent = fs.existsSync(absoluteFilePath) ? fs.readFileSync(absoluteFilePath, 'utf8') : null;
+            const { blocks, errors } = parseEditBlocks(content);
+            const edited = applyEditBlocks(currentContent, blocks);
+            errors.forEach(error => console.error(`  ${logPrefix} ❌ ${relativeFilePathFromAI}: ${error}`));
+            edited.failures.forEach(({ block, reason }) => {
+                const firstLine = block.search.split('\n').find(line => line.trim())?.trim() ?? '';
+                console.error(`  ${logPrefix} ❌ Edit block at line ${block.line} of ${relativeFilePathFromAI} did not apply: ${reason}${firstLine ? ` (SEARCH starts with "${firstLine.slice(0, 80)}")` : ''}`);
+            });
+            if (errors.length > 0 || edited.failures.length > 0) {
+                console.error(`  ${logPrefix} ❌ Not writing ${relativeFilePathFromAI}: ${edited.failures.length + errors.length} of ${blocks.length + errors.length} edit block(s) could not be applied.`);
+                allWritesSuccessful = false;
+                continue;
+            }
+            // The guard above only saw the edit blocks; the size limit applies to the edited file.
+            const guardedEdit = resolveGuardedPath(projectRoot, relativeFilePathFromAI, edited.content);
+            if (!guardedEdit.allowed) {
+                console.error(`  ${logPrefix} ❌ Refusing to write ${fileTypeDescription} file '${relativeFilePathFromAI}': ${guardedEdit.reason}`);
+                allWritesSuccessful = false;
+                continue;
+            }
+            console.log(`  ${logPrefix} Applied ${edited.applied} edit block(s) to ${relativeFilePathFromAI}${edited.inexact > 0 ? ` (${edited.inexact} matched after ignoring whitespace or fuzzily)` : ''}.`);
+            acceptedFiles.push({ ...extractedFile, filePath: relativeFilePathFromAI, content: edited.content });
+            continue;
+        }
+
+        if (extractedFile.action === 'delete') {
+            if (!fs.existsSync(absoluteFilePath)) {
+                console.warn(`  ${logPrefix} ⚠️ Skipping deletion of ${fileTypeDescription} file ${relativeFilePathFromAI}: it does not exist.`);
+                continue;
+            }
+        } else if (!content.trim()) {
             console.warn(`  ${logPrefix} ⚠️ Skipping empty content block for ${fileTypeDescription} file: ${relativeFilePathFromAI}`);
             continue;
         }
 
-        console.log(`  ${logPrefix} Writing ${fileTypeDescription} changes to: ${relativeFilePathFromAI}`);
+        acceptedFiles.push({ ...extractedFile, filePath: relativeFilePathFromAI });
+    }
+
+    if (acceptedFiles.length > 0) {
+        const approved = await confirm(
+            `Write ${acceptedFiles.length} ${fileTypeDescription} file(s): ${acceptedFiles.map(file => file.action === 'delete' ? `${file.filePath} (delete)` : file.filePath).join(', ')}?`,
+            { assumeYes, onShowDetails: () => showProposedDiffs(projectRoot, acceptedFiles) }
+        );
+        if (!approved) {
+            return { success: false, declined: true, writtenFiles: [], actualFileContext, changes };
+        }
+    }
+
+    for (const { filePath: relativeFilePathFromAI, content, action } of acceptedFiles) {
+        const absoluteFilePath = path.resolve(projectRoot, relativeFilePathFromAI);
+        console.log(`  ${logPrefix} ${action === 'delete' ? 'Deleting' : 'Writing'} ${fileTypeDescription} ${action === 'delete' ? 'file' : 'changes to'}: ${relativeFilePathFromAI}`);
         try {
+            const before = fs.existsSync(absoluteFilePath) ? fs.readFileSync(absoluteFilePath, 'utf8') : null;
+            onBeforeWrite?.(relativeFilePathFromAI, before);
+            if (action === 'delete') {
+                if (deleteOutputFile(absoluteFilePath)) {
+                    changes.push({ filePath: relativeFilePathFromAI, before, after: null });
+                } else {
+                    console.error(`  ${logPrefix} ❌ Failed to delete ${fileTypeDescription} file ${relativeFilePathFromAI}.`);
+                    allWritesSuccessful = false;
+                }
+                continue;
+            }
             const success = writeOutputFile(absoluteFilePath, content);
             if (success) {
                 writtenFilesPaths.push(relativeFilePathFromAI);
-                actualFileContext += `// File: ${relativeFilePathFromAI}\n\n${content}\n\n---\n\n`;
+                changes.push({ filePath: relativeFilePathFromAI, before, after: content });
+                actualFileContext += `${formatFileHeader(relativeFilePathFromAI)}\n\n${content}\n\n---\n\n`;
             } else {
                 console.error(`  ${logPrefix} ❌ Failed to write ${fileTypeDescription} changes to ${relativeFilePathFromAI} (writeOutputFile returned false).`);
                 allWritesSuccessful = false;
@@ -289,134 +665,627 @@ async function processAndWriteFiles(
             allWritesSuccessful = false;
         }
     }
-    return { success: allWritesSuccessful, writtenFiles: writtenFilesPaths, actualFileContext };
+    return { success: allWritesSuccessful, declined: false, writtenFiles: writtenFilesPaths, actualFileContext, changes };
 }
 
 
-export async function execute(args: CliArguments): Promise<void> {
-    if (args.command !== ENHANCEMENT_TYPES.DEVELOP) {
-        throw new Error(`${logPrefix} Handler mismatch: Expected Develop command.`);
-    }
-
-    const { targetPath } = args;
-    const projectRoot = path.resolve(targetPath);
-    console.log(`\n${logPrefix} Starting TDD development cycle for project at: ${projectRoot}`);
-
-    // --- 1. Initialization & Task Identification ---
-    const roadmapPath = path.join(projectRoot, ROADMAP_FILENAME);
-    let roadmapContent: string;
-    try {
-        if (!fs.existsSync(projectRoot) || !fs.statSync(projectRoot).isDirectory()) {
-            throw new Error("Target path must be a directory and exist.");
-        }
-        console.log(`${logPrefix} Reading roadmap file: ${roadmapPath}...`);
-        roadmapContent = readSingleFile(roadmapPath);
-    } catch (e) {
-        throw new Error(`${logPrefix} Failed to access project root or ${ROADMAP_FILENAME}: ${e instanceof Error ? e.message : e}`);
-    }
-
-    const roadmapItems = parseRoadmapTable(roadmapContent);
-    if (roadmapItems.length === 0) {
-        throw new Error(`${logPrefix} Failed to parse any valid items from ${ROADMAP_FILENAME}. Check table format and column headers like 'Status', 'Description', 'Responsible File(s)', 'Test File Path(s)'.`);
-    }
-
-    const currentTask = selectNextTask(roadmapItems);
-    if (!currentTask) {
-        console.log(`\n${logPrefix} ✅ No actionable tasks (Not Started, In Progress, or TDD states) found in ${ROADMAP_FILENAME}.`);
-        return;
-    }
-
-    console.log(`${logPrefix} Selected Task -> Feature: ${currentTask.feature || 'N/A'} (Priority: ${currentTask.priority || 'N/A'}, Status: ${currentTask.status})`);
-    console.log(`${logPrefix}   Description: ${currentTask.description}`);
-    const responsibleFilesList = currentTask.responsibleFiles || [];
-    const testFilePathsList = currentTask.testFilePaths || [];
-    console.log(`${logPrefix}   Responsible File(s): ${responsibleFilesList.join(', ') || 'None Specified (Required for code implementation)'}`);
-    console.log(`${logPrefix}   Test File Path(s): ${testFilePathsList.join(', ') || 'None Specified (Required for test generation)'}`);
-
-    if (!await getUserConfirmation(`Develop this task: "${currentTask.feature || currentTask.description}"?`)) {
-        console.log(`${logPrefix} Task development declined by user.`);
-        return;
-    }
+/**
+ * Red phase, part 1: generates the tests for the task and writes them. Completes the 'tests-written' phase.
+ *
+ * @returns False if the run stops here.
+ */
+async function runTestGenerationPhase(ctx: DevelopContext): Promise<boolean> {
+    const { projectRoot, task, assumeYes } = ctx;
+    const responsibleFilesList = task.responsibleFiles || [];
+    const testFilePathsList = task.testFilePaths || [];
 
-    // --- 2. Test Generation (Red Phase) ---
     console.log(`\n${logPrefix} --- Entering Test Generation (Red) Phase ---`);
-    if (!await getUserConfirmation(`Proceed to generate tests for '${currentTask.feature}'?`)) {
+    if (!await confirm(`Proceed to generate tests for '${task.feature}'?`, { assumeYes })) {
         console.log(`${logPrefix} Test generation skipped by user.`);
-        return;
+        return false;
     }
+    writeRoadmapPhase(ctx, 'testGeneration');
     if (testFilePathsList.length === 0) {
-        console.warn(`${logPrefix} ⚠️ No 'Test File Path(s)' specified in ${ROADMAP_FILENAME} for task '${currentTask.feature}'. Cannot automatically generate tests to specific files. AI will be asked to infer paths.`);
+        console.warn(`${logPrefix} ⚠️ No 'Test File Path(s)' specified in ${ROADMAP_FILENAME} for task '${task.feature}'. Cannot automatically generate tests to specific files. AI will be asked to infer paths.`);
         // Proceed, but AI might create tests in unexpected places if not guided well.
     }
 
     const responsibleFileContext = await gatherFileContext(projectRoot, responsibleFilesList, "responsible files (for test context)");
     const existingTestFileContext = await gatherFileContext(projectRoot, testFilePathsList, "existing test files");
+    const importContext = await gatherImportContext(ctx, [...responsibleFilesList, ...testFilePathsList]);
 
-    const testGenPrompt = generateTestGenerationPrompt(currentTask, responsibleFileContext, existingTestFileContext);
+    const testGenPrompt = generateTestGenerationPrompt(task, responsibleFileContext, existingTestFileContext, importContext);
     console.log(`${logPrefix} Invoking Gemini for test generation...`);
     const testGenResult: GeminiEnhancementResult = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, testGenPrompt); // Develop type uses full prompt
 
     if (testGenResult.type === 'error' || testGenResult.content === null) {
-        throw new Error(`${logPrefix} Gemini service failed during test generation for task "${currentTask.feature}": ${testGenResult.content ?? 'No content returned'}`);
+        throw new Error(`${logPrefix} Gemini service failed during test generation for task "${task.feature}": ${testGenResult.content ?? 'No content returned'}`);
     }
+    recordStep(ctx, 'test-generation', testGenPrompt, testGenResult.content);
 
-    const { success: testsWrittenSuccess, writtenFiles: writtenTestFiles, actualFileContext: actualTestFileContext } = await processAndWriteFiles(
+    const { success: testsWrittenSuccess, declined: testsDeclined, writtenFiles: writtenTestFiles, actualFileContext: actualTestFileContext } = await processAndWriteFiles(
         projectRoot,
         testGenResult.content,
         testFilePathsList,
-        "test"
+        "test",
+        assumeYes,
+        (filePath, currentContent) => trackOriginal(ctx, filePath, currentContent)
     );
 
+    if (testsDeclined) {
+        console.log(`${logPrefix} Generated tests rejected by user. No files were written.`);
+        return false;
+    }
     if (!testsWrittenSuccess || writtenTestFiles.length === 0) {
         console.error(`${logPrefix} ❌ Test generation phase failed to write files or AI response was unparsable. Please review AI output and roadmap. Aborting.`);
         // ADR-001 implies DevLead runs tests. Here, if AI can't produce parsable tests, we should stop.
-        return;
+        return false;
     }
     console.log(`${logPrefix} ✅ ${writtenTestFiles.length} test file(s) written: ${writtenTestFiles.join(', ')}`);
-    console.log(`${logPrefix} IMPORTANT: Please run these tests. They are expected to FAIL. Confirm this before proceeding.`);
+    ctx.generatedTestContext = actualTestFileContext;
+    ctx.session.testFiles = writtenTestFiles;
+    completePhase(ctx, 'tests-written');
+    writeRoadmapPhase(ctx, 'codeImplementation');
+    return true;
+}
+
+/**
+ * Red verification and Green phase: runs the new tests, then generates and writes the implementation.
+ * Completes the 'implemented' phase.
+ *
+ * @returns The changes written by the implementation, or null if the run stops here.
+ */
+async function runImplementationPhase(ctx: DevelopContext): Promise<FileChange[] | null> {
+    const { projectRoot, task, assumeYes, session } = ctx;
+    const responsibleFilesList = task.responsibleFiles || [];
+
+    // The implementation prompt gets the test code plus the real failure output, when available.
+    let failingTestData = ctx.generatedTestContext ?? await gatherFileContext(projectRoot, session.testFiles, "generated test files");
+    const redRun = await runPhaseTests(projectRoot, ctx.testCommand, session.testFiles, 'Red');
+    if (redRun?.status === 'failed') {
+        console.log(`${logPrefix} ✅ Red phase confirmed: the new tests fail as expected.`);
+        failingTestData += formatTestRunForPrompt(redRun);
+    } else if (redRun?.status === 'passed') {
+        console.warn(`${logPrefix} ⚠️ The new tests already PASS, so they do not specify any missing behavior.`);
+        if (!await confirm(`Generate an implementation for '${task.feature}' anyway?`, { assumeYes, defaultAnswer: false })) {
+            console.log(`${logPrefix} Stopping: review the generated tests or the roadmap entry.`);
+            return null;
+        }
+    } else if (redRun?.status === 'error') {
+        console.warn(`${logPrefix} ⚠️ Could not run the tests with '${redRun.command}'. Configure the runner with --test-command. Continuing without test output.`);
+        console.warn(summarizeTestOutput(redRun.output, 2000));
+    }
 
     // --- 3. Code Implementation (Green Phase) ---
     console.log(`\n${logPrefix} --- Entering Code Implementation (Green) Phase ---`);
-    if (!await getUserConfirmation(`Tests written. Assuming they are failing as expected. Proceed to generate implementation for '${currentTask.feature}'?`)) {
+    if (!await confirm(`Proceed to generate implementation for '${task.feature}'?`, { assumeYes })) {
         console.log(`${logPrefix} Code implementation skipped by user.`);
-        return;
+        return null;
     }
     if (responsibleFilesList.length === 0) {
-        console.error(`${logPrefix} ❌ No 'Responsible File(s)' specified in ${ROADMAP_FILENAME} for task '${currentTask.feature}'. Cannot proceed with code implementation. Update the roadmap.`);
-        return;
+        console.error(`${logPrefix} ❌ No 'Responsible File(s)' specified in ${ROADMAP_FILENAME} for task '${task.feature}'. Cannot proceed with code implementation. Update the roadmap.`);
+        return null;
     }
 
     // Context for code gen: feature desc, *actual content of generated tests*, existing responsible file content
-    const codeGenPrompt = generateCodeImplementationPrompt(currentTask, actualTestFileContext, responsibleFileContext);
+    const responsibleFileContext = await gatherFileContext(projectRoot, responsibleFilesList, "responsible files");
+    const importContext = await gatherImportContext(ctx, [...session.testFiles, ...responsibleFilesList]);
+    const codeGenPrompt = generateCodeImplementationPrompt(task, failingTestData, responsibleFileContext, importContext, ctx.editBlocks);
     console.log(`${logPrefix} Invoking Gemini for code implementation...`);
     const codeGenResult: GeminiEnhancementResult = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, codeGenPrompt);
 
     if (codeGenResult.type === 'error' || codeGenResult.content === null) {
-        throw new Error(`${logPrefix} Gemini service failed during code implementation for task "${currentTask.feature}": ${codeGenResult.content ?? 'No content returned'}`);
+        throw new Error(`${logPrefix} Gemini service failed during code implementation for task "${task.feature}": ${codeGenResult.content ?? 'No content returned'}`);
     }
+    recordStep(ctx, 'implementation', codeGenPrompt, codeGenResult.content);
 
-    const { success: codeWrittenSuccess, writtenFiles: writtenSourceFiles } = await processAndWriteFiles(
+    const { success: codeWrittenSuccess, declined: codeDeclined, writtenFiles: writtenSourceFiles, changes } = await processAndWriteFiles(
         projectRoot,
         codeGenResult.content,
         responsibleFilesList,
-        "source"
+        "source",
+        assumeYes,
+        (filePath, currentContent) => trackOriginal(ctx, filePath, currentContent),
+        ctx.editBlocks
     );
 
+    if (codeDeclined) {
+        console.log(`${logPrefix} Generated implementation rejected by user. Test files were kept; source files were not written.`);
+        return null;
+    }
     if (!codeWrittenSuccess || writtenSourceFiles.length === 0) {
         console.error(`${logPrefix} ❌ Code implementation phase failed to write files or AI response was unparsable. Please review AI output, roadmap, and test results.`);
-        return;
+        return null;
     }
     console.log(`${logPrefix} ✅ ${writtenSourceFiles.length} source file(s) written: ${writtenSourceFiles.join(', ')}`);
+    session.sourceFiles = [...new Set([...session.sourceFiles, ...writtenSourceFiles])];
+    completePhase(ctx, 'implemented');
+    return changes;
+}
+
+/**
+ * With `--validate`, type-checks and lints the files written by the session once its tests pass.
+ *
+ * @returns The validation result, or null if validation is off or the tests did not pass.
+ */
+async function validateImplementation(ctx: DevelopContext, greenRun: TestRunResult | null): Promise<ValidationResult | null> {
+    if (!ctx.validate || greenRun?.status !== 'passed') {
+        return null;
+    }
+    return validateFiles(ctx.projectRoot, [...ctx.session.testFiles, ...ctx.session.sourceFiles]);
+}
+
+/**
+ * Green verification and self-healing loop: runs the tests (and, with `--validate`, the type checker and linter)
+ * and asks for fixes until everything passes or `maxIterations` fixes were tried in this run.
+ *
+ * @param initialChanges The implementation written in this run (recorded as iteration 0), or null when resuming.
+ * @returns The last test run (null if the tests were not run) and the last validation (null if none ran).
+ */
+async function runVerificationPhase(ctx: DevelopContext, initialChanges: FileChange[] | null): Promise<{ greenRun: TestRunResult | null; validation: ValidationResult | null }> {
+    const { projectRoot, task, session, maxIterations } = ctx;
+    const responsibleFilesList = task.responsibleFiles || [];
+    const attemptsDir = path.join(projectRoot, session.attemptsDir);
+
+    let greenRun = await runPhaseTests(projectRoot, ctx.testCommand, session.testFiles, 'Green');
+    let validation = await validateImplementation(ctx, greenRun);
+    if (initialChanges) {
+        recordAttempt(attemptsDir, 0, 'Initial implementation', initialChanges, greenRun);
+    }
+
+    let fixesThisRun = 0;
+    while (greenRun && (greenRun.status === 'failed' || validation?.passed === false) && fixesThisRun < maxIterations) {
+        fixesThisRun++;
+        const iteration = session.fixIterations + 1;
+        const failure = greenRun.status === 'failed' ? 'The generated tests still FAIL' : 'The tests pass, but validation reports errors';
+        console.warn(`\n${logPrefix} ❌ ${failure}. Fix iteration ${iteration} (${fixesThisRun}/${maxIterations} in this run)...`);
+        const currentTestContext = await gatherFileContext(projectRoot, session.testFiles, "generated test files");
+        const currentSourceContext = await gatherFileContext(projectRoot, responsibleFilesList, "responsible files");
+        const importContext = await gatherImportContext(ctx, [...session.testFiles, ...responsibleFilesList]);
+        const fixPrompt = generateFixPrompt(task, currentTestContext, currentSourceContext, importContext, greenRun, fixesThisRun, maxIterations, ctx.editBlocks, validation);
+
+        console.log(`${logPrefix} Invoking Gemini for fix iteration ${iteration}...`);
+        const fixResult: GeminiEnhancementResult = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, fixPrompt);
+        if (fixResult.type === 'error' || fixResult.content === null) {
+            console.error(`${logPrefix} ❌ Gemini service failed during fix iteration ${iteration}: ${fixResult.content ?? 'No content returned'}`);
+            break;
+        }
+        recordStep(ctx, `fix-${iteration}`, fixPrompt, fixResult.content);
+
+        const fixWrite = await processAndWriteFiles(projectRoot, fixResult.content, responsibleFilesList, "source", ctx.assumeYes,
+            (filePath, currentContent) => trackOriginal(ctx, filePath, currentContent), ctx.editBlocks);
+        if (fixWrite.declined) {
+            console.log(`${logPrefix} Fix iteration ${iteration} rejected by user. Stopping the fix loop.`);
+            break;
+        }
+        if (fixWrite.writtenFiles.length === 0) {
+            console.error(`${logPrefix} ❌ Fix iteration ${iteration} produced no writable source files. Stopping the fix loop.`);
+            break;
+        }
+        session.fixIterations = iteration;
+        session.sourceFiles = [...new Set([...session.sourceFiles, ...fixWrite.writtenFiles])];
+        saveSession(projectRoot, session);
+
+        greenRun = await runPhaseTests(projectRoot, ctx.testCommand, session.testFiles, 'Green');
+        validation = await validateImplementation(ctx, greenRun);
+        recordAttempt(attemptsDir, iteration, `Fix iteration ${iteration}`, fixWrite.changes, greenRun);
+    }
+
+    if (greenRun?.status === 'passed' && validation?.passed === false) {
+        console.error(`${logPrefix} ❌ The generated tests pass, but validation still reports errors after ${session.fixIterations} fix iteration(s):`);
+        console.error(formatValidationDiagnostics(validation.diagnostics.filter(diagnostic => diagnostic.severity === 'error')));
+    } else if (greenRun?.status === 'passed') {
+        console.log(`${logPrefix} ✅ Green phase confirmed: all generated tests pass${validation ? ' and the written files type-check and lint cleanly' : ''}${session.fixIterations > 0 ? ` after ${session.fixIterations} fix iteration(s)` : ''}.`);
+        writeRoadmapPhase(ctx, 'review');
+    } else if (greenRun?.status === 'failed') {
+        console.error(`${logPrefix} ❌ The generated tests still FAIL after ${session.fixIterations} fix iteration(s):`);
+        console.error(summarizeTestOutput(greenRun.output, 4000));
+    } else if (greenRun?.status === 'error') {
+        console.warn(`${logPrefix} ⚠️ Could not run the tests with '${greenRun.command}'. Run them manually.`);
+    }
+    if (greenRun) {
+        console.log(`${logPrefix} Per-iteration records (diffs and test output): ${attemptsDir}`);
+    }
+    return { greenRun, validation };
+}
+
+/**
+ * Lists uncommitted changes as a readable error, or does nothing if the working tree is clean.
+ */
+async function assertCleanWorkingTree(projectRoot: string): Promise<void> {
+    const changes = await getUncommittedChanges(projectRoot);
+    if (changes.length > 0) {
+        const shown = changes.slice(0, 10).map(line => `  ${line}`).join('\n');
+        throw new Error(`${logPrefix} --git needs a clean working tree. Commit or stash these changes first:\n${shown}${changes.length > 10 ? `\n  ... and ${changes.length - 10} more` : ''}`);
+    }
+}
+
+/**
+ * `--git`: creates the task's feature branch from the current HEAD, or checks out the branch of a resumed session.
+ */
+async function startGitBranch(ctx: DevelopContext): Promise<void> {
+    const { projectRoot, session, task } = ctx;
+    if (session.git) {
+        const current = await getBranchPoint(projectRoot);
+        if (current.ref !== session.git.branch) {
+            await assertCleanWorkingTree(projectRoot);
+            await checkout(projectRoot, session.git.branch);
+            console.log(`${logPrefix} Checked out the session's branch ${session.git.branch}`);
+        }
+        return;
+    }
+    await assertCleanWorkingTree(projectRoot);
+    const base = await getBranchPoint(projectRoot);
+    const branch = await createBranch(projectRoot, toBranchName(task.feature || task.description));
+    session.git = { branch, baseRef: base.ref, baseCommit: base.commit, commits: [] };
+    saveSession(projectRoot, session);
+}
+
+/**
+ * `--git`: commits the given files plus FEATURE_ROADMAP.md on the task's branch. Does nothing without changes.
+ */
+async function commitGitPhase(ctx: DevelopContext, files: string[], subject: string, body: string): Promise<void> {
+    const { projectRoot, session } = ctx;
+    if (!ctx.useGit || !session.git) {
+        return;
+    }
+    const hash = await commitPaths(projectRoot, [...files, ROADMAP_FILENAME], `${subject}\n\n${body}`);
+    if (hash) {
+        session.git.commits.push(hash);
+        // A finished task's session file is already deleted; do not bring it back.
+        if (fs.existsSync(getSessionPath(projectRoot))) saveSession(projectRoot, session);
+        console.log(`${logPrefix} Committed ${hash} on ${session.git.branch}: ${subject}`);
+    }
+}
+
+/**
+ * Deletes the session's branch and returns to the commit it started from, removing files the session created.
+ */
+async function rollBackGitBranch(projectRoot: string, session: DevelopSession): Promise<void> {
+    if (!session.git) {
+        return;
+    }
+    await checkout(projectRoot, session.git.baseRef, true);
+    const failures = restoreOriginals(projectRoot, session);
+    if (failures.length > 0) {
+        console.warn(`${logPrefix} ⚠️ Could not remove or restore: ${failures.join(', ')}`);
+    }
+    await deleteBranch(projectRoot, session.git.branch);
+    deleteSession(projectRoot);
+    console.log(`${logPrefix} Rolled back: back on ${session.git.baseRef}, branch ${session.git.branch} deleted.`);
+}
+
+/**
+ * `--git`: after a task, commits the implementation (or the unfinished work, so the tree stays clean),
+ * or rolls the branch back when the task failed and `--git-rollback` was given.
+ */
+async function finishGitTask(ctx: DevelopContext, result: TaskResult, rollBack: boolean): Promise<void> {
+    const { session, task } = ctx;
+    if (!ctx.useGit || !session.git) {
+        return;
+    }
+    if (result.outcome === 'failed' && rollBack) {
+        await rollBackGitBranch(ctx.projectRoot, session);
+        return;
+    }
+    const feature = task.feature || task.description;
+    // Every file the session touched, so deletions are committed too.
+    const files = [...new Set([...session.testFiles, ...session.sourceFiles, ...Object.keys(session.originals)])];
+    if (result.outcome === 'succeeded') {
+        const fixes = session.fixIterations > 0 ? ` after ${session.fixIterations} fix iteration(s)` : '';
+        await commitGitPhase(ctx, files, `feat: implement ${feature}`, `${task.description}\n\nGreen phase: the generated tests pass${fixes}.`);
+    } else {
+        await commitGitPhase(ctx, files, `wip: ${feature} (${result.detail})`, `${task.description}\n\nThe develop run did not finish: ${result.detail}.`);
+    }
+}
+
+/**
+ * Handles `develop --abort`: restores every file the unfinished session changed and deletes the session.
+ * For a `--git` session, the feature branch is deleted and the base branch checked out instead.
+ */
+async function abortSession(projectRoot: string, assumeYes: boolean): Promise<void> {
+    const session = loadSession(projectRoot);
+    if (!session) {
+        console.log(`${logPrefix} No develop session to abort in ${projectRoot}.`);
+        return;
+    }
+    const files = Object.keys(session.originals);
+    console.log(`${logPrefix} Unfinished session for "${session.task.feature || session.task.description}" (started ${session.startedAt}, last completed phase: ${session.phase}).`);
+    const question = session.git
+        ? `Delete branch "${session.git.branch}" and return to ${session.git.baseRef}?`
+        : `Restore ${files.length} file(s) to their pre-session contents (${files.join(', ') || 'none'})?`;
+    if (!await confirm(question, { assumeYes })) {
+        console.log(`${logPrefix} Abort cancelled. The session was kept.`);
+        return;
+    }
+
+    if (session.git) {
+        await rollBackGitBranch(projectRoot, session);
+        return;
+    }
+    const failures = restoreOriginals(projectRoot, session);
+    if (failures.length > 0) {
+        throw new Error(`${logPrefix} Could not restore ${failures.join(', ')}. The session file was kept so the abort can be retried.`);
+    }
+    deleteSession(projectRoot);
+    console.log(`${logPrefix} ✅ Session aborted: ${files.length} file(s) restored.`);
+}
+
+/**
+ * Runs the TDD phases for the session's task, from its last completed phase, and prints the conclusion.
+ *
+ * @returns How the task ended.
+ */
+async function developTask(ctx: DevelopContext): Promise<TaskResult> {
+    const { projectRoot, session, task } = ctx;
+    if (ctx.useGit) {
+        await startGitBranch(ctx);
+    }
+
+    // --- 2. Test Generation (Red Phase) ---
+    if (session.phase === 'task-selected') {
+        if (!await runTestGenerationPhase(ctx)) {
+            printSessionHint(projectRoot);
+            return { task, outcome: 'failed', detail: 'stopped before the tests were written' };
+        }
+        await commitGitPhase(ctx, session.testFiles, `test: add failing tests for ${task.feature || task.description}`, `${task.description}\n\nRed phase: these tests specify the behavior to implement.`);
+    }
+
+    // --- 3. Code Implementation (Green Phase) ---
+    let implementationChanges: FileChange[] | null = null;
+    if (session.phase === 'tests-written') {
+        implementationChanges = await runImplementationPhase(ctx);
+        if (!implementationChanges) {
+            printSessionHint(projectRoot);
+            return { task, outcome: 'failed', detail: 'stopped before the implementation was written' };
+        }
+    }
+
+    // --- 3b. Verification & Self-Healing Loop ---
+    const { greenRun, validation } = await runVerificationPhase(ctx, implementationChanges);
+    const invalid = greenRun?.status === 'passed' && validation?.passed === false;
+    const keepSession = greenRun?.status === 'failed' || invalid;
+    if (!keepSession) {
+        deleteSession(projectRoot);
+    }
 
     // --- 4. Conclusion ---
-    console.log(`\n${logPrefix} --- TDD Cycle Concluded for Task: ${currentTask.feature} ---`);
+    console.log(`\n${logPrefix} --- TDD Cycle Concluded for Task: ${task.feature} ---`);
     console.log(`${logPrefix} Files Modified/Created:`);
-    writtenTestFiles.forEach(f => console.log(`  - Test: ${f}`));
-    writtenSourceFiles.forEach(f => console.log(`  - Source: ${f}`));
+    session.testFiles.forEach(f => console.log(`  - Test: ${f}`));
+    session.sourceFiles.forEach(f => console.log(`  - Source: ${f}`));
     console.log(`\n${logPrefix} IMPORTANT:`);
-    console.log(`  1. Run all tests for '${currentTask.feature}' again. They should now PASS.`);
+    if (invalid) {
+        console.log(`  1. The generated tests pass, but the type checker or linter still reports errors in the written files. Fix them.`);
+    } else if (greenRun?.status === 'passed') {
+        console.log(`  1. The generated tests pass. Run the full test suite to check for regressions.`);
+    } else {
+        console.log(`  1. The generated tests have not passed yet. Fix the implementation (or the tests) until they PASS.`);
+    }
     console.log(`  2. Review the generated code and tests carefully.`);
     console.log(`  3. Manually refactor if necessary.`);
-    console.log(`  4. Manually update the status of "${currentTask.feature}" in ${ROADMAP_FILENAME} (e.g., to 'Needs Review' or 'Done').`);
+    if (greenRun?.status === 'passed' && !invalid) {
+        console.log(`  4. "${task.feature}" is '${task.status}' in ${ROADMAP_FILENAME}. Set it to 'Done' once reviewed.`);
+    } else if (keepSession) {
+        console.log(`  4. The session was kept: 'develop --resume' runs more fix iterations, 'develop --abort' restores the original files.`);
+    } else {
+        console.log(`  4. "${task.feature}" is '${task.status}' in ${ROADMAP_FILENAME}. Update it once the tests pass.`);
+    }
+
+    if (greenRun === null) {
+        return { task, outcome: 'succeeded', detail: 'previewed only; tests were not run' };
+    }
+    switch (greenRun.status) {
+        case 'passed':
+            return invalid
+                ? { task, outcome: 'failed', detail: `tests pass, but validation reports errors after ${session.fixIterations} fix iteration(s)` }
+                : { task, outcome: 'succeeded', detail: `tests pass (${task.status})` };
+        case 'failed':
+            return { task, outcome: 'failed', detail: `tests still fail after ${session.fixIterations} fix iteration(s)` };
+        default:
+            return { task, outcome: 'failed', detail: `tests could not be run with '${greenRun.command}'` };
+    }
+}
+
+/**
+ * Prints which tasks of a batch succeeded, failed or were skipped. Pending in-scope tasks that were not
+ * attempted are reported as skipped, with the dependencies they still wait for.
+ */
+function printBatchSummary(results: TaskResult[], roadmapContent: string, isInScope: (item: RoadmapItem) => boolean, attempted: Set<string>): void {
+    const items = parseRoadmapTable(roadmapContent);
+    const graph = buildRoadmapGraph(items);
+    const notReached: TaskResult[] = items
+        .filter(item => isInScope(item) && isPendingStatus(item.status) && !attempted.has(getRoadmapItemKey(item)))
+        .map(item => {
+            const waitingFor = getUnmetDependencies(graph, item);
+            return { task: item, outcome: 'skipped', detail: waitingFor.length > 0 ? `waiting for ${waitingFor.join(', ')}` : 'not reached' };
+        });
+    const all = [...results, ...notReached];
+    const count = (outcome: TaskOutcome) => all.filter(result => result.outcome === outcome).length;
+    const icons: Record<TaskOutcome, string> = { succeeded: '✅', failed: '❌', skipped: '⏭️' };
+
+    console.log(`\n${logPrefix} --- Batch Summary: ${count('succeeded')} succeeded, ${count('failed')} failed, ${count('skipped')} skipped ---`);
+    all.forEach(({ task, outcome, detail }) => console.log(`  ${icons[outcome]} ${getRoadmapItemKey(task)}: ${detail}`));
+}
+
+export async function execute(args: CliArguments): Promise<void> {
+    if (args.command !== ENHANCEMENT_TYPES.DEVELOP) {
+        throw new Error(`${logPrefix} Handler mismatch: Expected Develop command.`);
+    }
+
+    const { targetPath } = args;
+    const assumeYes = !!args.yes;
+    const testCommand = args.testCommand?.trim() || DEFAULT_TEST_COMMAND;
+    const maxIterations = args.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    if (!Number.isInteger(maxIterations) || maxIterations < 0) {
+        throw new Error(`${logPrefix} --max-iterations must be a non-negative integer (got ${args.maxIterations}).`);
+    }
+    const contextOptions = resolveDependencyContextOptions(args.contextDepth, args.contextBudget);
+    if (args.resume && args.abort) {
+        throw new Error(`${logPrefix} --resume and --abort cannot be used together.`);
+    }
+    if (args.count !== undefined && (!Number.isInteger(args.count) || args.count < 1)) {
+        throw new Error(`${logPrefix} --count must be a positive integer (got ${args.count}).`);
+    }
+    if (args.all && args.count !== undefined) {
+        throw new Error(`${logPrefix} --all and --count cannot be used together.`);
+    }
+    if (args.git && getWriteMode() !== 'write') {
+        throw new Error(`${logPrefix} --git cannot be combined with --dry-run or --patch.`);
+    }
+    const projectRoot = path.resolve(targetPath);
+    setWriteGuardRoot(projectRoot);
+    setBackupRoot(projectRoot);
+
+    if (args.abort) {
+        await abortSession(projectRoot, assumeYes);
+        return;
+    }
+    console.log(`\n${logPrefix} Starting TDD development cycle for project at: ${projectRoot}`);
+
+    // --- 1. Initialization & Task Identification ---
+    const roadmapPath = path.join(projectRoot, ROADMAP_FILENAME);
+    let roadmapContent: string;
+    try {
+        if (!fs.existsSync(projectRoot) || !fs.statSync(projectRoot).isDirectory()) {
+            throw new Error("Target path must be a directory and exist.");
+        }
+        console.log(`${logPrefix} Reading roadmap file: ${roadmapPath}...`);
+        roadmapContent = readSingleFile(roadmapPath);
+    } catch (e) {
+        throw new Error(`${logPrefix} Failed to access project root or ${ROADMAP_FILENAME}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    const existingSession = loadSession(projectRoot);
+    if (existingSession && !args.resume) {
+        throw new Error(`${logPrefix} An unfinished develop session for "${existingSession.task.feature || existingSession.task.description}" exists (last completed phase: ${existingSession.phase}). Continue it with --resume or restore the original files with --abort.`);
+    }
+    if (!existingSession && args.resume) {
+        throw new Error(`${logPrefix} No develop session to resume in ${projectRoot}.`);
+    }
+
+    // --git: every task gets a branch from the same base; a resumed --git session stays in git mode.
+    const useGit = !!args.git || !!existingSession?.git;
+    let gitBase: GitBranchPoint | null = null;
+    if (useGit) {
+        if (existingSession && !existingSession.git) {
+            throw new Error(`${logPrefix} The unfinished session was started without --git. Resume it without --git, or abort it first.`);
+        }
+        await assertGitRepository(projectRoot);
+        if (existingSession?.git) {
+            gitBase = { ref: existingSession.git.baseRef, commit: existingSession.git.baseCommit };
+        } else {
+            await assertCleanWorkingTree(projectRoot);
+            gitBase = await getBranchPoint(projectRoot);
+        }
+    }
+
+    // Batch mode: --all, --count, --epic and --milestone work through several tasks in selection order.
+    const batch = !!args.all || args.count !== undefined || !!args.epic || !!args.milestone;
+    const limit = args.count ?? (batch ? Infinity : 1);
+    const matches = (value: string | undefined, wanted: string) => value?.trim().toLowerCase() === wanted.trim().toLowerCase();
+    const isInScope = (item: RoadmapItem) =>
+        (!args.epic || matches(item.epic, args.epic)) &&
+        (!args.milestone || matches(item.milestone, args.milestone) || matches(item.version, args.milestone));
+    if (batch) {
+        const scope = [args.epic && `epic "${args.epic}"`, args.milestone && `milestone "${args.milestone}"`].filter(Boolean).join(', ');
+        console.log(`${logPrefix} Batch mode: up to ${Number.isFinite(limit) ? limit : 'all'} task(s)${scope ? ` in ${scope}` : ''}${args.keepGoing ? ', continuing after failures' : ''}.`);
+    }
+
+    const results: TaskResult[] = [];
+    const attempted = new Set<string>();
+    let sessionToResume = existingSession;
+    while (results.filter(result => result.outcome !== 'skipped').length < limit) {
+        if (gitBase && results.some(result => result.outcome !== 'skipped')) {
+            // Each task of a batch branches from the base, not from the previous task's branch.
+            await checkout(projectRoot, gitBase.ref);
+        }
+
+        let session: DevelopSession;
+        if (sessionToResume) {
+            session = sessionToResume;
+            sessionToResume = null;
+            attempted.add(getRoadmapItemKey(session.task as RoadmapItem));
+            console.log(`${logPrefix} Resuming session started ${session.startedAt} -> Feature: ${session.task.feature || 'N/A'} (last completed phase: ${session.phase})`);
+        } else {
+            roadmapContent = readSingleFile(roadmapPath);
+            const roadmapItems = parseRoadmapTable(roadmapContent);
+            if (roadmapItems.length === 0) {
+                throw new Error(`${logPrefix} Failed to parse any valid items from ${ROADMAP_FILENAME}. Check table format and column headers like 'Status', 'Description', 'Responsible File(s)', 'Test File Path(s)'.`);
+            }
+
+            const currentTask = selectNextTask(roadmapItems, item => isInScope(item) && !attempted.has(getRoadmapItemKey(item)));
+            if (!currentTask) {
+                if (results.length === 0) {
+                    console.log(`\n${logPrefix} ✅ No actionable tasks (Not Started, In Progress, or TDD states with all dependencies Done) found in ${ROADMAP_FILENAME}.`);
+                }
+                break;
+            }
+            attempted.add(getRoadmapItemKey(currentTask));
+
+            console.log(`${logPrefix} Selected Task -> Feature: ${currentTask.feature || 'N/A'} (Priority: ${currentTask.priority || 'N/A'}, Status: ${currentTask.status})`);
+            console.log(`${logPrefix}   Description: ${currentTask.description}`);
+            console.log(`${logPrefix}   Responsible File(s): ${currentTask.responsibleFiles?.join(', ') || 'None Specified (Required for code implementation)'}`);
+            console.log(`${logPrefix}   Test File Path(s): ${currentTask.testFilePaths?.join(', ') || 'None Specified (Required for test generation)'}`);
+
+            if (!await confirm(`Develop this task: "${currentTask.feature || currentTask.description}"?`, { assumeYes })) {
+                console.log(`${logPrefix} Task development declined by user.`);
+                results.push({ task: currentTask, outcome: 'skipped', detail: 'declined' });
+                if (!batch) return;
+                continue;
+            }
+            session = createSession(currentTask);
+        }
+
+        const ctx: DevelopContext = {
+            projectRoot,
+            roadmapPath,
+            roadmapContent,
+            task: session.task as RoadmapItem,
+            session,
+            assumeYes,
+            testCommand,
+            maxIterations,
+            useGit,
+            editBlocks: !!args.editBlocks,
+            validate: !!args.validate,
+            contextOptions,
+        };
+
+        let result: TaskResult;
+        let taskError: unknown;
+        try {
+            result = await developTask(ctx);
+        } catch (e) {
+            taskError = e;
+            result = { task: ctx.task, outcome: 'failed', detail: e instanceof Error ? e.message.replace(`${logPrefix} `, '') : String(e) };
+        }
+        await finishGitTask(ctx, result, !!args.gitRollback);
+        if (taskError !== undefined) {
+            if (!batch) throw taskError;
+            console.error(`${logPrefix} ❌ ${taskError instanceof Error ? taskError.message : taskError}`);
+        }
+        results.push(result);
+        roadmapContent = ctx.roadmapContent;
+
+        if (batch && result.outcome === 'failed') {
+            if (!args.keepGoing) {
+                console.error(`${logPrefix} Stopping the batch after the failure of "${getRoadmapItemKey(result.task)}" (use --keep-going to continue with the next task).`);
+                break;
+            }
+            const archivedPath = archiveSession(projectRoot, session);
+            if (archivedPath) {
+                console.warn(`${logPrefix} ⚠️ Moved the unfinished session to ${archivedPath} to continue with the next task. Its files were kept as written.`);
+            }
+        }
+    }
+
+    if (batch) {
+        printBatchSummary(results, roadmapContent, isInScope, attempted);
+        const failed = results.filter(result => result.outcome === 'failed').length;
+        if (failed > 0) {
+            throw new Error(`${logPrefix} Batch finished with ${failed} failed task(s).`);
+        }
+    }
     console.log(`${logPrefix} 'develop' command finished.`);
-}
\ No newline at end of file
+}
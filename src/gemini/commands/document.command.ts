@@ -1,20 +1,48 @@
 import { CliArguments } from '@shared/types/app.type';
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
 import {
-    enhanceCodeWithGemini,
+    enhanceConsolidatedWithGemini,
     GeminiEnhancementResult,
 } from '@/gemini/gemini.service';
 import {
     getConsolidatedSources,
     getTargetFiles,
 } from '@shared/utils/filesystem.utils';
-import { writeOutputFile } from '@shared/utils/file-io.utils';
+import { getWriteMode, writeOutputFile } from '@shared/utils/file-io.utils';
+import { checkWrite } from '@shared/utils/write-guard.utils';
 import { getDirectoryStructure } from '@shared/utils/dir-tree.utils';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 const logPrefix = "[DocumentCommand]";
 
+/**
+ * The file a streamed answer grows in. A temporary file lives in its own directory, which is removed with it.
+ */
+interface StreamFile {
+    path: string;
+    temporary: boolean;
+}
+
+/**
+ * Picks the file a streamed answer grows in: `<output>.partial` when files are written, a temporary file otherwise
+ * (or when the write guard refuses the location; the final write then reports why).
+ */
+function createStreamFile(outputFile: string): StreamFile {
+    const partialFile = `${path.resolve(outputFile)}.partial`;
+    if (getWriteMode() === 'write' && checkWrite(partialFile, 'write', null) === null) {
+        fs.mkdirSync(path.dirname(partialFile), { recursive: true });
+        fs.writeFileSync(partialFile, '', 'utf8');
+        return { path: partialFile, temporary: false };
+    }
+    return { path: path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-document-')), path.basename(outputFile)), temporary: true };
+}
+
+function removeStreamFile(streamFile: StreamFile): void {
+    fs.rmSync(streamFile.temporary ? path.dirname(streamFile.path) : streamFile.path, { recursive: true, force: true });
+}
+
 export async function execute(args: CliArguments): Promise<void> {
     if (args.command !== ENHANCEMENT_TYPES.DOCUMENT) {
         throw new Error(`${logPrefix} Handler mismatch: Expected Document command.`);
@@ -67,23 +95,45 @@ export async function execute(args: CliArguments): Promise<void> {
         throw new Error(`${logPrefix} Failed to consolidate source files into a valid payload.`);
     }
 
-    const options = { docLevel: String(level) };
-    console.log(`${logPrefix} Invoking Gemini service...`);
+    const outputFile = output 
+        ? String(output) 
+        : (level === 'module' ? 'MODULE_README.md' : 'README.md');
+
+    // When streaming, the answer grows in `<output>.partial` next to the output file as it arrives, so an interrupted
+    // run leaves what was received at the target. The output file itself is only written once, with the cleaned-up
+    // final content below, so that it is backed up and a failed stream leaves it untouched. Dry runs and patches
+    // must not touch the project, so they stream into a temporary directory instead.
+    const streamFile = args.stream !== false ? createStreamFile(outputFile) : null;
+    let streamedChars = 0;
+    const options = {
+        docLevel: String(level),
+        onText: streamFile
+            ? (textDelta: string) => {
+                fs.appendFileSync(streamFile.path, textDelta, 'utf8');
+                streamedChars += textDelta.length;
+            }
+            : undefined,
+    };
+    console.log(`${logPrefix} Invoking Gemini service${streamFile ? ` (streaming to ${streamFile.path})` : ''}...`);
 
-    const result: GeminiEnhancementResult = await enhanceCodeWithGemini(
+    const result: GeminiEnhancementResult = await enhanceConsolidatedWithGemini(
         ENHANCEMENT_TYPES.DOCUMENT,
         codeToProcess,
         options
     );
 
     if (result.type === 'error') {
+        if (streamFile && streamedChars > 0) {
+            console.warn(`${logPrefix} ⚠️ The interrupted stream left a partial answer (${streamedChars} characters) in ${streamFile.path}. ${outputFile} was not changed.`);
+        } else if (streamFile) {
+            removeStreamFile(streamFile);
+        }
         console.error(`${logPrefix} ❌ Gemini service failed: ${result.content}`);
         throw new Error(`Gemini service failed: ${result.content}`);
     }
-
-    const outputFile = output 
-        ? String(output) 
-        : (level === 'module' ? 'MODULE_README.md' : 'README.md');
+    if (streamFile) {
+        removeStreamFile(streamFile);
+    }
     
     // Depending on model output, it might be wrapped in markdown
     let finalWriteContent = result.content || "";
@@ -2,13 +2,16 @@ import fs from 'fs';
 import path from 'path';
 import { CliArguments, FileProcessingResult } from '@shared/types/app.type';
 import { getTargetFiles } from '@shared/utils/filesystem.utils';
-import { readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
+import { getWriteMode, readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
+import { formatValidationDiagnostics, validateFiles, ValidationResult } from '@shared/utils/code-validation.utils';
+import { gatherDependencyContext, resolveDependencyContextOptions } from '@shared/utils/import-graph.utils';
 import { enhanceCodeWithGemini, GeminiEnhancementResult } from '@/gemini/gemini.service';
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
 import { extractCodeBlock } from '@/gemini/utils/code.extractor';
 
 const logPrefix = "[GenerateTests]";
 const TEST_DIR_NAME = 'tests'; // Top-level directory for tests
+const DEFAULT_REPAIR_ATTEMPTS = 2;
 
 /**
  * Calculates the mirrored test file path under the top-level test directory.
@@ -57,6 +60,32 @@ function deriveMirroredTestFilePath(sourcePath: string, projectRoot: string = pr
 }
 
 
+/**
+ * Generates a prompt asking the model to fix the type and lint errors of a generated test file.
+ */
+function generateRepairPrompt(relativeSourcePath: string, sourceCode: string, dependencyContext: string, relativeTestFilePath: string, testCode: string, validation: ValidationResult, frameworkHint: string): string {
+    return `
+You are an AI programming assistant. The ${frameworkHint} unit tests below were generated for the source file \`${relativeSourcePath}\`, but the type checker or the linter reports errors in them. Fix the tests.
+
+**Source Under Test (${relativeSourcePath}):**
+${sourceCode}
+${dependencyContext ? `
+**Imported Project Files (signatures only):**
+${dependencyContext.trim()}
+` : ''}
+**Generated Tests (${relativeTestFilePath}):**
+${testCode}
+
+**Type Checker / Linter Diagnostics:**
+${formatValidationDiagnostics(validation.diagnostics)}
+
+**Instructions:**
+1.  Fix every error listed above (wrong import paths, missing or wrong types, unused variables, etc.). Warnings may be fixed too.
+2.  Keep the test cases and what they assert; do not change the source under test.
+3.  Respond ONLY with the complete corrected test file in a single fenced code block.
+`;
+}
+
 /**
  * Executes the GenerateTests command. Reads source file(s), sends them to Gemini
  * for unit test generation, and saves results to corresponding *.test.ts files
@@ -80,6 +109,15 @@ export async function execute(args: CliArguments): Promise<void> {
 
     const { targetPath, prefix, framework } = args;
     const frameworkHint = typeof framework === 'string' ? framework : 'jest';
+    const repairAttempts = args.maxIterations ?? DEFAULT_REPAIR_ATTEMPTS;
+    if (!Number.isInteger(repairAttempts) || repairAttempts < 0) {
+        throw new Error(`${logPrefix} --max-iterations must be a non-negative integer (got ${args.maxIterations}).`);
+    }
+    const contextOptions = resolveDependencyContextOptions(args.contextDepth, args.contextBudget);
+    const validate = !!args.validate && getWriteMode() === 'write';
+    if (args.validate && !validate) {
+        console.warn(`${logPrefix} ⚠️ --validate is ignored: files are only previewed, so there is nothing on disk to check.`);
+    }
 
     console.log(`\n${logPrefix} Generating tests for: ${targetPath}${prefix ? ` with prefix '${prefix}'` : ''}`);
     console.log(`  Using framework hint: ${frameworkHint}`);
@@ -151,11 +189,12 @@ export async function execute(args: CliArguments): Promise<void> {
                 return; // Exit early for this file
             }
 
-            // 3. Invoke Gemini Service
+            // 3. Invoke Gemini Service, with the signatures of the project files the source imports
+            const dependencyContext = gatherDependencyContext(process.cwd(), [sourceFilePath], contextOptions);
             const result: GeminiEnhancementResult = await enhanceCodeWithGemini(
                 ENHANCEMENT_TYPES.GENERATE_TESTS,
                 codeToProcess,
-                { frameworkHint }
+                { frameworkHint, dependencyContext }
             );
 
             // 4. Handle Result
@@ -182,6 +221,34 @@ export async function execute(args: CliArguments): Promise<void> {
             message = `Test file generated: ${relativeTestFilePath}`;
             resultStatus = 'updated';
 
+            // 7. Validate (type-check and lint), feeding the diagnostics back to the model
+            if (validate) {
+                let testCode = extractedCode;
+                let validation = await validateFiles(process.cwd(), [testFilePath]);
+                for (let attempt = 1; !validation.passed && attempt <= repairAttempts; attempt++) {
+                    console.warn(`    ${logPrefix} ⚠️ ${relativeTestFilePath} does not validate. Repair attempt ${attempt} of ${repairAttempts}...`);
+                    // DEVELOP sends the prompt as is.
+                    const repairResult = await enhanceCodeWithGemini(
+                        ENHANCEMENT_TYPES.DEVELOP,
+                        generateRepairPrompt(relativeSourcePath, codeToProcess, dependencyContext, relativeTestFilePath, testCode, validation, frameworkHint)
+                    );
+                    const repairedCode = repairResult.type === 'error' || repairResult.content === null ? null : extractCodeBlock(repairResult.content);
+                    if (!repairedCode) {
+                        console.warn(`    ${logPrefix} ⚠️ The repair attempt returned no usable code. Stopping.`);
+                        break;
+                    }
+                    if (!writeOutputFile(testFilePath, repairedCode)) {
+                        throw new Error(`Failed to write the repaired test file.`);
+                    }
+                    testCode = repairedCode;
+                    validation = await validateFiles(process.cwd(), [testFilePath]);
+                }
+                if (!validation.passed) {
+                    const errorCount = validation.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+                    throw new Error(`Generated tests in ${relativeTestFilePath} still have ${errorCount} type or lint error(s).`);
+                }
+            }
+
         } catch (error) {
             console.error(`    ${logPrefix} ❌ Error processing ${relativeSourcePath}: ${error instanceof Error ? error.message : error}`);
             resultStatus = 'error';
@@ -0,0 +1,44 @@
+// File: src/gemini/commands/history.command.ts
+
+import { CliArguments } from '@shared/types/app.type';
+import { getBackupDirectory, listBackupRuns, setBackupRoot } from '@shared/utils/backup.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+
+const logPrefix = "[HistoryCmd]";
+
+/**
+ * Lists the recorded runs, newest first: run ID, time, command line, whether it was undone, and the files it touched.
+ *
+ * @param args - Command line arguments: optional `limit` (number of runs to show) and `project` (whose backups to list).
+ * @returns Promise resolving when complete.
+ */
+export async function execute(args: CliArguments): Promise<void> {
+    if (args.command !== ENHANCEMENT_TYPES.HISTORY) {
+        throw new Error(`${logPrefix} Handler mismatch: Expected history command.`);
+    }
+    if (args.limit !== undefined && (!Number.isInteger(args.limit) || args.limit < 1)) {
+        throw new Error(`${logPrefix} --limit must be a positive integer.`);
+    }
+    if (args.project) {
+        setBackupRoot(String(args.project));
+    }
+
+    const runs = listBackupRuns();
+    if (runs.length === 0) {
+        console.log(`${logPrefix} No recorded runs in ${getBackupDirectory()}.`);
+        return;
+    }
+    const shown = args.limit ? runs.slice(0, args.limit) : runs;
+    for (const run of shown) {
+        console.log(`\n${run.runId}  ${run.command}${run.undoneAt ? `  (undone ${run.undoneAt})` : ''}`);
+        console.log(`  ${run.commandLine}`);
+        for (const file of run.files) {
+            const change = file.snapshot === null ? 'created ' : file.writtenHash === null ? 'deleted ' : 'modified';
+            console.log(`    ${change}  ${file.path}`);
+        }
+    }
+    if (shown.length < runs.length) {
+        console.log(`\n${logPrefix} ${runs.length - shown.length} older run(s) not shown.`);
+    }
+    console.log(`\n${logPrefix} Restore a run with: undo [runId]`);
+}
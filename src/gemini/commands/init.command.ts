@@ -2,7 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import { CliArguments } from '@shared/types/app.type';
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
-import { writeOutputFile } from '@shared/utils/file-io.utils';
+import { getWriteMode, writeOutputFile } from '@shared/utils/file-io.utils';
+import { setWriteGuardRoot } from '@shared/utils/write-guard.utils';
 
 const logPrefix = "[InitCommand]";
 
@@ -447,10 +448,12 @@ export async function execute(args: CliArguments): Promise<void> {
     const projectRoot = path.resolve(String(targetPath));
     const projPackageName = String(packageName).trim();
     const projDescription = typeof description === 'string' ? String(description).trim() : undefined;
+    setWriteGuardRoot(projectRoot);
 
     console.log(`\n${logPrefix} Initializing new project '${projPackageName}' at: ${projectRoot}`);
 
     // Validate and prepare project directory
+    const previewOnly = getWriteMode() !== 'write';
     if (fs.existsSync(projectRoot)) {
         if (!fs.statSync(projectRoot).isDirectory()) {
             throw new Error(`${logPrefix} Target path '${projectRoot}' exists but is not a directory.`);
@@ -462,13 +465,15 @@ export async function execute(args: CliArguments): Promise<void> {
         if (filesInDir.length > 0 && force) {
             console.warn(`${logPrefix} ⚠️ Target directory '${projectRoot}' is not empty. --force flag is used, proceeding. Existing files with the same name will be overwritten.`);
         }
+    } else if (previewOnly) {
+        console.log(`${logPrefix} Would create project directory: ${projectRoot}`);
     } else {
         console.log(`${logPrefix} Creating project directory: ${projectRoot}`);
         fs.mkdirSync(projectRoot, { recursive: true });
     }
 
-    // Create subdirectories
-    const dirsToCreate = ['src', 'tests', 'docs'];
+    // Create subdirectories (skipped for --dry-run/--patch, which only preview the files below)
+    const dirsToCreate = previewOnly ? [] : ['src', 'tests', 'docs'];
     for (const dir of dirsToCreate) {
         const dirPath = path.join(projectRoot, dir);
         if (!fs.existsSync(dirPath)) {
@@ -1,7 +1,7 @@
 import { CliArguments } from '@shared/types/app.type';
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
 import {
-    enhanceCodeWithGemini,
+    enhanceConsolidatedWithGemini,
     GeminiEnhancementResult,
 } from '@/gemini/gemini.service';
 import {
@@ -9,9 +9,67 @@ import {
     getTargetFiles,
 } from '@shared/utils/filesystem.utils';
 import { readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
+import { ReviewOutputFormat } from '@/gemini/types/review.schema';
+import {
+    formatReviewJson,
+    formatReviewSarif,
+    mapFindingPaths,
+    parseReviewReport,
+} from '@/gemini/utils/review-report.utils';
+import {
+    ChangedFile,
+    DiffSpec,
+    formatChangedFileContext,
+    formatNumberedFile,
+    getChangedFiles,
+    isLineChanged,
+    parseDiffSpec,
+    readChangedFile,
+} from '@shared/utils/git-diff.utils';
+import path from 'path';
 
 const logPrefix = "[ReviewCommand]";
 
+/**
+ * Unchanged lines shown around each changed range in `--diff` mode.
+ */
+const DIFF_CONTEXT_LINES = 20;
+
+/**
+ * Builds the `--diff` payload: changed regions (with context) of the changed files that the normal
+ * file selection (`getTargetFiles`) would include.
+ */
+async function buildDiffPayload(spec: DiffSpec, targetPath: string, targetFiles: string[]): Promise<{ files: ChangedFile[]; payload: string }> {
+    const eligible = new Set(targetFiles.map(file => path.resolve(file)));
+    const files = (await getChangedFiles(spec, targetPath))
+        .filter(file => eligible.has(path.resolve(file.filePath)) && file.ranges.length > 0);
+
+    let payload = `// Diff review: ${spec.label}\n\n`;
+    for (const file of files) {
+        console.log(`  ${logPrefix} Changed: ${file.filePath} (${file.ranges.length} hunk(s))`);
+        payload += formatChangedFileContext(file, await readChangedFile(file, spec.target), DIFF_CONTEXT_LINES);
+    }
+    return { files, payload };
+}
+
+/**
+ * Builds the payload for structured formats: the original text of every target file with numbered lines.
+ * `getConsolidatedSources` drops comments, blank and duplicate lines and minifies JSON, which would shift
+ * the line numbers of the findings.
+ */
+function buildNumberedPayload(targetPath: string, targetFiles: string[]): string {
+    let payload = '';
+    for (const file of targetFiles) {
+        const content = readSingleFile(file);
+        if (!content.trim()) {
+            continue;
+        }
+        // Relative to targetPath, like the headers of consolidated sources.
+        payload += formatNumberedFile(path.relative(targetPath, file).split(path.sep).join('/'), content);
+    }
+    return payload;
+}
+
 export async function execute(args: CliArguments): Promise<void> {
     if (args.command !== ENHANCEMENT_TYPES.REVIEW) {
         throw new Error(`${logPrefix} Handler mismatch: Expected Review command.`);
@@ -19,6 +77,8 @@ export async function execute(args: CliArguments): Promise<void> {
 
     const targetPath = args.targetPath;
     const mode = args.mode || 'quality'; // architecture | quality | explain
+    const format = (args.format || 'markdown') as ReviewOutputFormat;
+    const structured = format !== 'markdown';
 
     if (!targetPath) {
         throw new Error(`${logPrefix} targetPath argument is required.`);
@@ -32,9 +92,28 @@ export async function execute(args: CliArguments): Promise<void> {
     }
 
     let codeToProcess = '';
-    
+    let diffSpec: DiffSpec | null = null;
+    let changedFiles: ChangedFile[] = [];
+
+    if (args.diff !== undefined) {
+         // A bare `--diff` reviews everything not yet committed.
+         diffSpec = parseDiffSpec(String(args.diff) || 'HEAD');
+         console.log(`${logPrefix} Collecting ${diffSpec.label}...`);
+         const diffPayload = await buildDiffPayload(diffSpec, targetPath, filesArray);
+         changedFiles = diffPayload.files;
+         if (changedFiles.length === 0) {
+             console.log(`${logPrefix} No reviewable changes found for ${diffSpec.label} in '${targetPath}'. Nothing to review.`);
+             return;
+         }
+         codeToProcess = diffPayload.payload;
+    } else if (structured) {
+         console.log(`${logPrefix} Numbering the lines of ${filesArray.length} file(s) for structured findings...`);
+         codeToProcess = buildNumberedPayload(targetPath, filesArray);
+         if (!codeToProcess) {
+             throw new Error(`${logPrefix} All target files are empty. Nothing to review.`);
+         }
+    } else if (filesArray.length > 1 || mode === 'architecture') {
     // Attempt consolidation for architecture mode always, or for multi-file targets normally
-    if (filesArray.length > 1 || mode === 'architecture') {
          console.log(`${logPrefix} Target is a directory/multiple files. Consolidating sources...`);
          codeToProcess = await getConsolidatedSources(targetPath, args.prefix);
          if (!codeToProcess) {
@@ -51,20 +130,81 @@ export async function execute(args: CliArguments): Promise<void> {
     }
 
     console.log(`${logPrefix} Invoking Gemini service...`);
-    const options = { reviewMode: String(mode) };
+    // Structured answers are only useful once complete, so they are never streamed to the console.
+    const stream = args.stream !== false && !structured;
+    let streamedText = '';
+    const options = {
+        reviewMode: String(mode),
+        structuredFindings: structured,
+        diffLabel: diffSpec?.label,
+        onText: stream
+            ? (textDelta: string) => {
+                if (!streamedText) console.log(`\n--- Gemini Response ---\n`);
+                streamedText += textDelta;
+                process.stdout.write(textDelta);
+            }
+            : undefined,
+    };
 
-    const result: GeminiEnhancementResult = await enhanceCodeWithGemini(
+    const result: GeminiEnhancementResult = await enhanceConsolidatedWithGemini(
         ENHANCEMENT_TYPES.REVIEW,
         codeToProcess,
         options
     );
 
-    if (result.type === 'error') {
+    if (streamedText) {
+        console.log(`\n\n-----------------------\n`);
+    }
+
+    if (result.type === 'error' || result.content === null) {
         console.error(`${logPrefix} ❌ Gemini service failed: ${result.content}`);
         throw new Error(`Gemini service failed: ${result.content}`);
     }
 
-    console.log(`\n--- Gemini Response ---\n`);
-    console.log(result.content);
-    console.log(`\n-----------------------\n`);
+    let reportContent = result.content;
+    if (structured) {
+        // File headers are relative to targetPath (cwd-relative in diff mode); report paths relative to the working
+        // directory. Headers of files split across chunks carry a "(part n/m)" suffix that the model may copy.
+        const baseDir = diffSpec ? process.cwd() : targetPath;
+        let report = mapFindingPaths(parseReviewReport(result.content), (file) =>
+            path.relative(process.cwd(), path.resolve(baseDir, file.replace(/ \(part \d+\/\d+\)$/, ''))).split(path.sep).join('/')
+        );
+        if (diffSpec) {
+            const changedByPath = new Map(changedFiles.map(file => [file.filePath, file]));
+            const onChangedLines = report.findings.filter(finding => {
+                const file = changedByPath.get(finding.file);
+                return !!file && isLineChanged(file, finding.line);
+            });
+            if (onChangedLines.length < report.findings.length) {
+                console.warn(`${logPrefix} Dropped ${report.findings.length - onChangedLines.length} finding(s) outside the changed lines.`);
+            }
+            report = { ...report, findings: onChangedLines };
+        }
+        console.log(`${logPrefix} Parsed ${report.findings.length} finding(s).`);
+        reportContent = format === 'sarif'
+            ? formatReviewSarif(report)
+            : formatReviewJson(report, { targetPath, mode: String(mode), generatedAt: new Date().toISOString() });
+    }
+
+    if (args.output) {
+        const outputFile = String(args.output);
+        if (!writeOutputFile(outputFile, reportContent)) {
+            throw new Error(`${logPrefix} Failed to write review report: ${outputFile}`);
+        }
+        console.log(`${logPrefix} ✅ Review report (${format}) written to: ${outputFile}`);
+    }
+
+    if (streamedText) {
+        // A finish-reason warning or safety block can arrive after text was already printed.
+        if (result.content.trim() !== streamedText.trim()) {
+            console.warn(`${logPrefix} ⚠️ ${result.content.split('\n')[0]}`);
+        }
+        return;
+    }
+
+    if (!args.output) {
+        console.log(`\n--- Gemini Response ---\n`);
+        console.log(reportContent);
+        console.log(`\n-----------------------\n`);
+    }
 }
@@ -0,0 +1,272 @@
+// File: src/gemini/commands/roadmap.command.ts
+
+import fs from 'fs';
+import path from 'path';
+import { CliArguments } from '@shared/types/app.type';
+import { readSingleFile, writeOutputFile } from '@shared/utils/file-io.utils';
+import {
+    addRoadmapItem,
+    findRoadmapItem,
+    normalizeRoadmapStatus,
+    parseRoadmapTable,
+    ROADMAP_STATUSES,
+    RoadmapIssue,
+    RoadmapItem,
+    updateRoadmapItem,
+    validateRoadmap,
+} from '@shared/utils/feature-roadmap.utils';
+import {
+    assertAcyclic,
+    buildRoadmapGraph,
+    findDependencyCycles,
+    getRoadmapItemKey,
+    getUnmetDependencies,
+    renderDot,
+    renderMermaid,
+} from '@shared/utils/roadmap-graph.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { RoadmapAction, RoadmapGraphFormat } from '@/gemini/types/roadmap.type';
+
+const logPrefix = "[RoadmapCmd]";
+const ROADMAP_FILENAME = 'FEATURE_ROADMAP.md';
+
+/**
+ * Resolves the roadmap file: the target itself if it is a file, otherwise FEATURE_ROADMAP.md inside it.
+ */
+function resolveRoadmapPath(targetPath: string): string {
+    const resolved = path.resolve(targetPath);
+    try {
+        return fs.statSync(resolved).isDirectory() ? path.join(resolved, ROADMAP_FILENAME) : resolved;
+    } catch (e) {
+        throw new Error(`${logPrefix} Cannot access target path: ${resolved}`);
+    }
+}
+
+function loadItems(roadmapContent: string, roadmapPath: string): RoadmapItem[] {
+    const items = parseRoadmapTable(roadmapContent);
+    if (items.length === 0) {
+        throw new Error(`${logPrefix} Failed to parse any valid items from ${roadmapPath}. Run 'roadmap validate' to see why.`);
+    }
+    return items;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+    return value?.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+function requireOption(value: string | undefined, option: string, action: RoadmapAction): string {
+    if (!value?.trim()) {
+        throw new Error(`${logPrefix} ${option} is required for 'roadmap ${action}'.`);
+    }
+    return value.trim();
+}
+
+function requireStatus(status: string): string {
+    const normalized = normalizeRoadmapStatus(status);
+    if (!normalized) {
+        throw new Error(`${logPrefix} Unknown status "${status}". Expected one of: ${ROADMAP_STATUSES.join(', ')}.`);
+    }
+    return normalized;
+}
+
+/**
+ * Prints one line per item (key, status, priority, feature/description), optionally filtered by status.
+ */
+function listItems(roadmapContent: string, roadmapPath: string, statusFilter: string | undefined): void {
+    const items = loadItems(roadmapContent, roadmapPath);
+    const graph = buildRoadmapGraph(items);
+    const selected = statusFilter ? items.filter(item => item.status.toLowerCase() === statusFilter.trim().toLowerCase()) : items;
+    if (selected.length === 0) {
+        console.log(`${logPrefix} No items${statusFilter ? ` with status "${statusFilter}"` : ''}.`);
+        return;
+    }
+
+    const rows = selected.map(item => [getRoadmapItemKey(item), item.status, item.priority || '-', item.feature ? `${item.feature}: ${item.description}` : item.description]);
+    const widths = [0, 1, 2].map(column => Math.max(...rows.map(row => row[column].length)));
+    rows.forEach((row, index) => {
+        const waitingFor = getUnmetDependencies(graph, selected[index]);
+        const line = row.map((cell, column) => column < 3 ? cell.padEnd(widths[column]) : cell).join('  ');
+        console.log(waitingFor.length > 0 ? `${line}  (waiting for ${waitingFor.join(', ')})` : line);
+    });
+}
+
+/**
+ * Prints every field of one item, its unmet dependencies and the items that depend on it.
+ */
+function showItem(roadmapContent: string, roadmapPath: string, reference: string): void {
+    const items = loadItems(roadmapContent, roadmapPath);
+    const item = findRoadmapItem(items, reference);
+    const graph = buildRoadmapGraph(items);
+    const key = getRoadmapItemKey(item);
+
+    const fields: [string, string | undefined][] = [
+        ['ID', item.id],
+        ['Feature', item.feature],
+        ['Description', item.description],
+        ['Status', item.status],
+        ['Progress', item.progressPercent],
+        ['Priority', item.priority],
+        ['Version', item.version],
+        ['Milestone', item.milestone],
+        ['Epic', item.epic],
+        ['Category', item.category],
+        ['Last Updated', item.lastUpdated],
+        ['Responsible File(s)', item.responsibleFiles?.join(', ')],
+        ['Test File Path(s)', item.testFilePaths?.join(', ')],
+        ['Dependencies', item.dependencies],
+        ['Acceptance Criteria', item.acceptanceCriteria],
+        ['Design Spec', item.designSpecLink],
+    ];
+    fields.filter(([, value]) => value).forEach(([label, value]) => console.log(`${`${label}:`.padEnd(21)}${value}`));
+
+    const waitingFor = getUnmetDependencies(graph, item);
+    const dependents = graph.edges.filter(edge => edge.from === key).map(edge => edge.to);
+    console.log(`${'Waiting for:'.padEnd(21)}${waitingFor.join(', ') || 'nothing'}`);
+    console.log(`${'Required by:'.padEnd(21)}${dependents.join(', ') || 'nothing'}`);
+}
+
+/**
+ * Appends a new item built from the command options and writes the roadmap back.
+ */
+function addItem(roadmapContent: string, roadmapPath: string, args: CliArguments): void {
+    const items = parseRoadmapTable(roadmapContent);
+    const item: RoadmapItem = {
+        id: args.id?.trim() || undefined,
+        feature: args.feature?.trim() || undefined,
+        description: requireOption(args.description, '--description', 'add'),
+        status: requireStatus(args.status || 'Not Started'),
+        priority: args.priority,
+        epic: args.epic,
+        milestone: args.milestone,
+        responsibleFiles: splitList(args.responsibleFiles),
+        testFilePaths: splitList(args.testFiles),
+        dependencies: args.dependencies,
+        lastUpdated: new Date().toISOString().slice(0, 10),
+    };
+
+    for (const reference of [item.id, item.feature]) {
+        if (reference && items.some(existing => [existing.id, existing.feature].some(value => value?.toLowerCase() === reference.toLowerCase()))) {
+            throw new Error(`${logPrefix} An item with ID or feature "${reference}" already exists.`);
+        }
+    }
+    const graph = buildRoadmapGraph([...items, item]);
+    graph.unresolved.filter(({ key }) => key === getRoadmapItemKey(item)).forEach(({ reference }) =>
+        console.warn(`${logPrefix} ⚠️ Dependency "${reference}" matches no roadmap ID or feature.`)
+    );
+    assertAcyclic(graph);
+
+    if (!writeOutputFile(roadmapPath, addRoadmapItem(roadmapContent, item))) {
+        throw new Error(`${logPrefix} Failed to write ${roadmapPath}.`);
+    }
+    console.log(`${logPrefix} ✅ Added "${getRoadmapItemKey(item)}" (${item.status}) to ${roadmapPath}`);
+}
+
+/**
+ * Changes an item's status, stamps Last Updated and sets Progress to 100% when the item is Done.
+ */
+function setItemStatus(roadmapContent: string, roadmapPath: string, reference: string, status: string): void {
+    const item = findRoadmapItem(loadItems(roadmapContent, roadmapPath), reference);
+    const normalized = requireStatus(status);
+    const updatedContent = updateRoadmapItem(roadmapContent, item, {
+        status: normalized,
+        progressPercent: normalized === 'Done' ? '100%' : undefined,
+        lastUpdated: new Date().toISOString().slice(0, 10),
+    });
+    if (!writeOutputFile(roadmapPath, updatedContent)) {
+        throw new Error(`${logPrefix} Failed to write ${roadmapPath}.`);
+    }
+    console.log(`${logPrefix} ✅ "${getRoadmapItemKey(item)}": ${item.status} -> ${normalized}`);
+}
+
+/**
+ * Reports table problems and dependency problems.
+ *
+ * @throws {Error} If any error-level issue was found, so the command exits non-zero.
+ */
+function validateItems(roadmapContent: string, roadmapPath: string): void {
+    const issues: RoadmapIssue[] = validateRoadmap(roadmapContent, path.dirname(roadmapPath));
+    const graph = buildRoadmapGraph(parseRoadmapTable(roadmapContent));
+    graph.unresolved.forEach(({ key, reference }) => {
+        const lineIndex = graph.nodes.find(node => node.key === key)?.item.lineIndex;
+        issues.push({ severity: 'warning', line: lineIndex !== undefined ? lineIndex + 1 : undefined, message: `"${key}" depends on "${reference}", which matches no ID or feature.` });
+    });
+    findDependencyCycles(graph).forEach(cycle => issues.push({ severity: 'error', message: `Dependency cycle: ${cycle.join(' -> ')}` }));
+
+    const fileName = path.basename(roadmapPath);
+    issues.forEach(issue => {
+        const message = `${issue.line !== undefined ? `${fileName}:${issue.line}` : fileName}: ${issue.severity}: ${issue.message}`;
+        if (issue.severity === 'error') console.error(message);
+        else console.warn(message);
+    });
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+    if (errorCount > 0) {
+        throw new Error(`${logPrefix} ${fileName} has ${errorCount} error(s) and ${warningCount} warning(s).`);
+    }
+    console.log(`${logPrefix} ✅ ${fileName} is valid${warningCount > 0 ? ` (${warningCount} warning(s))` : ''}.`);
+}
+
+/**
+ * Renders the roadmap dependency graph and prints it, or writes it to `--output`.
+ *
+ * @throws {Error} If the roadmap has no parsable items or its dependencies contain a cycle.
+ */
+function graphRoadmap(roadmapContent: string, roadmapPath: string, format: RoadmapGraphFormat, output: string | undefined): void {
+    const graph = buildRoadmapGraph(loadItems(roadmapContent, roadmapPath));
+    assertAcyclic(graph);
+    graph.unresolved.forEach(({ key, reference }) =>
+        console.warn(`${logPrefix} ⚠️ "${key}" depends on "${reference}", which matches no roadmap ID or feature.`)
+    );
+
+    const rendered = format === 'dot' ? renderDot(graph) : renderMermaid(graph);
+    if (!output) {
+        console.log(rendered);
+        return;
+    }
+    const outputPath = path.resolve(output);
+    if (!writeOutputFile(outputPath, rendered)) {
+        throw new Error(`${logPrefix} Failed to write the roadmap graph to ${outputPath}.`);
+    }
+    console.log(`${logPrefix} ✅ Wrote ${graph.nodes.length} item(s) and ${graph.edges.length} dependency edge(s) to ${outputPath}`);
+}
+
+/**
+ * Executes a `roadmap` subcommand against the FEATURE_ROADMAP.md of the target project.
+ *
+ * @param args - Command line arguments: `action`, `targetPath` (project root or roadmap file), `item` for show/set-status,
+ *               the item fields for add, `status` (filter for list, new status for set-status), `format` and `output` for graph.
+ * @returns Promise resolving when complete.
+ */
+export async function execute(args: CliArguments): Promise<void> {
+    if (args.command !== ENHANCEMENT_TYPES.ROADMAP) {
+        throw new Error(`${logPrefix} Handler mismatch: Expected roadmap command.`);
+    }
+
+    const action = args.action as RoadmapAction;
+    const roadmapPath = resolveRoadmapPath(args.targetPath);
+    const roadmapContent = readSingleFile(roadmapPath);
+
+    switch (action) {
+        case 'list':
+            listItems(roadmapContent, roadmapPath, args.status);
+            return;
+        case 'show':
+            showItem(roadmapContent, roadmapPath, requireOption(args.item, 'An item ID or feature name', action));
+            return;
+        case 'add':
+            addItem(roadmapContent, roadmapPath, args);
+            return;
+        case 'set-status':
+            setItemStatus(roadmapContent, roadmapPath, requireOption(args.item, 'An item ID or feature name', action), requireOption(args.status, '--status', action));
+            return;
+        case 'validate':
+            validateItems(roadmapContent, roadmapPath);
+            return;
+        case 'graph':
+            graphRoadmap(roadmapContent, roadmapPath, (args.format || 'mermaid') as RoadmapGraphFormat, args.output);
+            return;
+        default:
+            throw new Error(`${logPrefix} Unknown roadmap action: ${String(args.action)}`);
+    }
+}
@@ -0,0 +1,58 @@
+// File: src/gemini/commands/run-k6.command.ts
+
+import fs from 'fs';
+import path from 'path';
+import { CliArguments } from '@shared/types/app.type';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { runTestsFromDataSource } from '@/k6/services/k6.service';
+
+const logPrefix = "[RunK6Command]";
+const SUPPORTED_DATA_SOURCE_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Executes the run-k6 command. Validates the data source file and delegates the
+ * generation and execution of the k6 master script to the k6 service.
+ *
+ * @param {CliArguments} args The command line arguments, including the data source path (targetPath) and k6 options.
+ * @returns {Promise<void>} A promise that resolves when the k6 run and its reports are complete.
+ * @throws {Error} If the data source is missing/unsupported or the k6 run fails.
+ */
+export async function execute(args: CliArguments): Promise<void> {
+    if (args.command !== ENHANCEMENT_TYPES.RUN_K6) {
+        throw new Error(`${logPrefix} Handler mismatch: Expected run-k6 command.`);
+    }
+
+    const { targetPath, output, summaryFormat = 'json', htmlReport, summaryCsv, mock } = args;
+
+    if (!targetPath) {
+        throw new Error(`${logPrefix} targetPath argument is required.`);
+    }
+
+    const dataSourcePath = path.resolve(String(targetPath));
+    let stats: fs.Stats;
+    try {
+        stats = fs.statSync(dataSourcePath);
+    } catch (e) {
+        throw new Error(`Cannot access target path: ${targetPath}. ${e instanceof Error ? e.message : ''}`);
+    }
+    if (!stats.isFile()) {
+        throw new Error(`${logPrefix} Data source '${targetPath}' must be a file.`);
+    }
+
+    const extension = path.extname(dataSourcePath).toLowerCase();
+    if (!SUPPORTED_DATA_SOURCE_EXTENSIONS.includes(extension)) {
+        throw new Error(`${logPrefix} Unsupported data source '${extension}'. Expected one of: ${SUPPORTED_DATA_SOURCE_EXTENSIONS.join(', ')}.`);
+    }
+
+    console.log(`\n${logPrefix} Running k6 tests from: ${dataSourcePath}${mock ? ' (with mock server)' : ''}`);
+
+    await runTestsFromDataSource(
+        dataSourcePath,
+        output ? path.resolve(String(output)) : undefined,
+        summaryFormat,
+        htmlReport ? path.resolve(String(htmlReport)) : undefined,
+        undefined,
+        !!mock,
+        summaryCsv ? path.resolve(String(summaryCsv)) : undefined
+    );
+}
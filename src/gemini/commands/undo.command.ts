@@ -0,0 +1,104 @@
+// File: src/gemini/commands/undo.command.ts
+
+import fs from 'fs';
+import path from 'path';
+import { CliArguments } from '@shared/types/app.type';
+import { BackupRun } from '@shared/types/backup.schema';
+import { hashContent, listBackupRuns, loadBackupRun, markRunUndone, readSnapshot, setBackupRoot } from '@shared/utils/backup.utils';
+import { colorizeDiff, createUnifiedDiff } from '@shared/utils/diff.utils';
+import { deleteOutputFile, getWriteMode, writeOutputFile } from '@shared/utils/file-io.utils';
+import { confirm } from '@shared/utils/prompt.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+
+const logPrefix = "[UndoCmd]";
+
+/**
+ * Prints the diff from each file's current content back to its content before the run.
+ */
+function showRestoreDiffs(run: BackupRun): void {
+    const useColor = !!process.stdout.isTTY && !process.env.NO_COLOR;
+    for (const file of run.files) {
+        const absolutePath = path.resolve(run.cwd, file.path);
+        const currentContent = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf8') : null;
+        const diffText = createUnifiedDiff(file.path, currentContent, readSnapshot(run, file));
+        console.log(diffText ? (useColor ? colorizeDiff(diffText) : diffText) : `${logPrefix} No changes for ${file.path}.`);
+    }
+}
+
+/**
+ * Restores every file of a run to its content before the run, deleting files the run created. Files changed again
+ * since the run are skipped unless `force` is set.
+ *
+ * @returns The paths that were skipped and the paths that could not be restored.
+ */
+function restoreRun(run: BackupRun, force: boolean): { skipped: string[]; failed: string[] } {
+    const skipped: string[] = [];
+    const failed: string[] = [];
+    // Newest change first, so a file the run touched more than once ends at its oldest snapshot.
+    for (const file of [...run.files].reverse()) {
+        const absolutePath = path.resolve(run.cwd, file.path);
+        const currentContent = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf8') : null;
+        const currentHash = currentContent === null ? null : hashContent(currentContent);
+        if (!force && currentHash !== file.writtenHash) {
+            console.warn(`${logPrefix} ⚠️ Skipping ${file.path}: it was ${currentContent === null ? 'deleted' : 'changed'} after the run.`);
+            skipped.push(file.path);
+            continue;
+        }
+        const previousContent = readSnapshot(run, file);
+        const restored = previousContent === null ? deleteOutputFile(absolutePath) : writeOutputFile(absolutePath, previousContent);
+        if (!restored) {
+            failed.push(file.path);
+        }
+    }
+    return { skipped, failed };
+}
+
+/**
+ * Restores the files changed by a recorded run (the most recent run that has not been undone, unless a run ID is given).
+ *
+ * @param args - Command line arguments: optional `runId`, `force` to restore files changed since the run (or a run
+ *               that was already undone), `yes` to skip the confirmation prompt, and `project` (whose backups to use).
+ * @returns Promise resolving when complete.
+ * @throws {Error} If the run does not exist or some files could not be restored.
+ */
+export async function execute(args: CliArguments): Promise<void> {
+    if (args.command !== ENHANCEMENT_TYPES.UNDO) {
+        throw new Error(`${logPrefix} Handler mismatch: Expected undo command.`);
+    }
+    if (args.project) {
+        setBackupRoot(String(args.project));
+    }
+
+    const run = args.runId ? loadBackupRun(String(args.runId)) : listBackupRuns().find(candidate => !candidate.undoneAt);
+    if (!run) {
+        console.log(`${logPrefix} Nothing to undo: no recorded runs with file changes. See 'history'.`);
+        return;
+    }
+    if (run.undoneAt && !args.force) {
+        throw new Error(`${logPrefix} Run ${run.runId} was already undone at ${run.undoneAt}. Use --force to restore it again.`);
+    }
+
+    console.log(`${logPrefix} Run ${run.runId} (${run.startedAt}): ${run.commandLine}`);
+    run.files.forEach(file => console.log(`  ${file.snapshot === null ? 'created ' : file.writtenHash === null ? 'deleted ' : 'modified'}  ${file.path}`));
+    const approved = await confirm(`Restore ${run.files.length} file(s) to their content before this run?`, {
+        assumeYes: !!args.yes,
+        onShowDetails: () => showRestoreDiffs(run),
+    });
+    if (!approved) {
+        console.log(`${logPrefix} Undo cancelled.`);
+        return;
+    }
+
+    const { skipped, failed } = restoreRun(run, !!args.force);
+    if (failed.length > 0) {
+        throw new Error(`${logPrefix} Could not restore ${failed.length} file(s): ${failed.join(', ')}`);
+    }
+    if (skipped.length > 0) {
+        console.warn(`${logPrefix} ⚠️ ${skipped.length} file(s) changed after the run were left as they are. Re-run with --force to overwrite them.`);
+        return;
+    }
+    if (getWriteMode() === 'write') {
+        markRunUndone(run);
+        console.log(`${logPrefix} ✅ Restored ${run.files.length} file(s) from run ${run.runId}.`);
+    }
+}
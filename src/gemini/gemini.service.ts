@@ -1,12 +1,12 @@
-import axios, { AxiosError, AxiosResponse } from 'axios';
-// --- Import the validated 'env' object ---
-import { env } from '../config/app.config';
 // Corrected path assuming enhancement.type.ts is now in gemini/types
 import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
 import { extractCodeBlock } from '@/gemini/utils/code.extractor';
-
-// --- Use the validated env object for logging ---
-console.log(`[GeminiService] Initialized. Using model: ${env.GEMINI_MODEL_NAME}`);
+import { getLlmProvider } from '@/gemini/providers/llm-provider.factory';
+import { LlmErrorCategory, LlmTextHandler } from '@/gemini/types/llm-provider.type';
+import { classifyProviderError, logProviderHttpError, readStreamedErrorBody } from '@/gemini/utils/provider-error.utils';
+import { chunkConsolidatedSources, estimateTokens } from '@/gemini/utils/chunking.utils';
+import { computeBackoffDelay, RateLimiter, RetryOptions, sleep } from '@/gemini/utils/retry.utils';
+import { env } from '@/config/app.config';
 
 /**
  * Represents the result of a Gemini enhancement operation.
@@ -22,6 +22,14 @@ export interface GeminiEnhancementResult {
      * The enhanced content.  Will be a string containing the code or text, or null if an error occurred.
      */
     content: string | null;
+    /**
+     * Why the provider call failed. Only set when `type` is 'error' and the failure came from the LLM call.
+     */
+    errorCategory?: LlmErrorCategory;
+    /**
+     * Number of provider calls made, including retries.
+     */
+    attempts?: number;
 }
 
 /**
@@ -34,6 +42,10 @@ interface GeminiEnhancementOptions {
      * This helps the API generate more accurate and relevant responses.
      */
     frameworkHint?: string;
+    /**
+     * Signatures of the project files the code imports (see `gatherDependencyContext`). Used with ENHANCEMENT_TYPES.GENERATE_TESTS.
+     */
+    dependencyContext?: string;
     /**
      * The perspective or goal of the code review. Used with ENHANCEMENT_TYPES.REVIEW.
      */
@@ -42,8 +54,44 @@ interface GeminiEnhancementOptions {
      * The level of detail for documentation. Used with ENHANCEMENT_TYPES.DOCUMENT.
      */
     docLevel?: string;
+    /**
+     * Ask for machine-readable findings (see `ReviewReportSchema`) instead of a Markdown report.
+     * Used with ENHANCEMENT_TYPES.REVIEW for the `json` and `sarif` output formats; the code must carry
+     * line-number prefixes (see `formatNumberedFile` and `formatChangedFileContext`).
+     */
+    structuredFindings?: boolean;
+    /**
+     * Description of the diff under review (e.g., "staged changes"). When set, the REVIEW prompt is told that
+     * the code contains only changed regions with line-number prefixes (see `formatChangedFileContext`).
+     */
+    diffLabel?: string;
+    /**
+     * When set, the response is streamed and each text delta is passed to this handler as it arrives.
+     * For chunked (map-reduce) runs only the final merge is streamed.
+     */
+    onText?: LlmTextHandler;
 }
 
+/**
+ * Output contract appended to REVIEW prompts in structured mode. Mirrors `ReviewReportSchema`.
+ */
+const STRUCTURED_FINDINGS_INSTRUCTIONS = `
+Respond ONLY with a single JSON object (no Markdown, no explanatory text) of this exact shape:
+{
+  "summary": "<short overall assessment>",
+  "findings": [
+    {
+      "file": "<path exactly as in its '// File:' header, without any '(part n/m)' suffix>",
+      "line": <1-based line number where the issue starts>,
+      "endLine": <optional 1-based last line>,
+      "severity": "error" | "warning" | "note",
+      "rule": "<short kebab-case identifier of the issue kind, e.g. 'no-unused-vars'>",
+      "message": "<what is wrong and how to fix it>"
+    }
+  ]
+}
+Each code line starts with its line number ("12 | ..."); use those numbers for "line" and "endLine". Use an empty "findings" array if there is nothing to report.`;
+
 /**
  * Generates a prompt for the Gemini API based on the requested enhancement type and the provided code.
  * The prompt is carefully crafted to guide the API towards producing the desired output.
@@ -91,6 +139,17 @@ Output in Markdown format suitable for an architecture review document.`;
 3.  **Potential Improvements:** Suggest actionable, high-impact improvements for readability, maintainability, or performance. Provide explanations.`;
             }
 
+            if (options?.diffLabel) {
+                reviewFocus = `The code contains only the regions changed in ${options.diffLabel}, with surrounding context. Each line starts with its line number in the new version; lines marked with '+' were added or modified. Review ONLY the changed lines (use the other lines as context) and always cite the line numbers shown.
+${reviewFocus}`;
+            }
+            if (options?.structuredFindings) {
+                reviewFocus += `\n${STRUCTURED_FINDINGS_INSTRUCTIONS}`;
+                if (options.diffLabel) {
+                    reviewFocus += `\nOnly report findings on changed ('+') lines.`;
+                }
+            }
+
             return `
 Analyze the following code snippet or consolidated codebase. ${reviewFocus}
             
@@ -149,7 +208,12 @@ Source Code to Test:
 \`\`\`typescript
 ${code}
 \`\`\`
-`;
+${options?.dependencyContext ? `
+Signatures of the Project Files It Imports (bodies omitted; use them to build correct inputs and mocks):
+\`\`\`typescript
+${options.dependencyContext.trim()}
+\`\`\`
+` : ''}`;
         // No case for Develop here - handled by throwing error above if called
         default:
             // This should only be hit if a non-API type slips through the usesApi check below, indicating a logic error.
@@ -160,84 +224,91 @@ ${code}
 
 
 /**
- * Calls the Gemini API with a given prompt to get a response.
- * This function handles the communication with the Gemini API, including setting headers, handling errors, and parsing the response.
- * @param {string} promptText - The prompt text to send to the Gemini API.
- * @returns {Promise<string | null>} The response text from the Gemini API, or null if an error occurred.
+ * Outcome of `callGeminiApi`: the response text, or a categorized failure once retries are exhausted.
  */
-async function callGeminiApi(promptText: string): Promise<string | null> {
-    console.log(`[GeminiService] Sending request to Gemini API (${promptText.length} chars)...`);
-
-    // --- Construct Endpoint Dynamically ---
-    const apiEndpoint = `https://generativelanguage.googleapis.com/${env.GEMINI_API_VERSION}/models/${env.GEMINI_MODEL_NAME}:generateContent`;
-    // --- Use API Key from env ---
-    const apiKey = env.GEMINI_API_KEY;
-
-    const requestData = { contents: [{ parts: [{ text: promptText }] }] };
-    const config = {
-        headers: { 'Content-Type': 'application/json' },
-        // --- Use API Key from env ---
-        params: { key: apiKey },
-        timeout: 180000 // Increased timeout (3 minutes)
-    };
+type LlmCallOutcome =
+    | { ok: true; text: string; attempts: number }
+    | { ok: false; category: LlmErrorCategory; message: string; attempts: number };
+
+// Shared by every call in the process so concurrent commands (e.g., map-reduce chunks) respect one budget.
+let rateLimiter: RateLimiter | null = null;
+
+function getRateLimiter(): RateLimiter {
+    if (!rateLimiter) {
+        rateLimiter = new RateLimiter(env.LLM_REQUESTS_PER_MINUTE);
+    }
+    return rateLimiter;
+}
 
-    try {
-        // --- Use constructed endpoint ---
-        const response: AxiosResponse = await axios.post(apiEndpoint, requestData, config);
-        const candidate = response.data?.candidates?.[0];
+/**
+ * Sends a prompt to the configured LLM provider (Gemini by default, see `LLM_PROVIDER`).
+ * Provider-specific endpoints and response shapes live in `@/gemini/providers`.
+ * Retryable failures (429, 5xx, timeouts, connection resets) are retried up to `LLM_MAX_RETRIES` times
+ * with exponential backoff and jitter, honoring any `Retry-After` sent by the provider up to `LLM_RETRY_MAX_SERVER_DELAY_MS`.
+ * Every attempt first waits for a slot from the shared `LLM_REQUESTS_PER_MINUTE` limiter.
+ * When streaming, a failure is only retried if no text has been passed to `onText` yet,
+ * since the caller may already have printed or written it.
+ * @param {string} promptText - The prompt text to send to the provider.
+ * @param {LlmTextHandler} [onText] - Optional handler; enables streaming when provided.
+ * @returns {Promise<LlmCallOutcome>} The response text, or the error category of the last failed attempt.
+ */
+async function callGeminiApi(promptText: string, onText?: LlmTextHandler): Promise<LlmCallOutcome> {
+    const provider = getLlmProvider();
+    const retryOptions: RetryOptions = {
+        maxRetries: env.LLM_MAX_RETRIES,
+        baseDelayMs: env.LLM_RETRY_BASE_DELAY_MS,
+        maxDelayMs: env.LLM_RETRY_MAX_DELAY_MS,
+        maxServerDelayMs: env.LLM_RETRY_MAX_SERVER_DELAY_MS,
+    };
+    const maxAttempts = retryOptions.maxRetries + 1;
+    let streamedText = false;
+    const handleText: LlmTextHandler = (textDelta) => {
+        streamedText = true;
+        onText!(textDelta);
+    };
 
-        // --- Finish Reason Handling (remains the same) ---
-        if (candidate?.finishReason && candidate.finishReason !== "STOP") {
-            console.warn(`[GeminiService] Warning: Response generation finished due to reason: ${candidate.finishReason}.`);
-            let blockMessage = `// Gemini Response Issue: ${candidate.finishReason}\n// Generation may be incomplete or blocked.`;
+    for (let attempt = 1; ; attempt++) {
+        await getRateLimiter().acquire();
+        console.log(`[GeminiService] Sending request to ${provider.name} (${provider.model}, ${promptText.length} chars)${attempt > 1 ? ` [attempt ${attempt}/${maxAttempts}]` : ''}...`);
 
-            if (candidate.finishReason === "SAFETY") {
-                console.error("[GeminiService] Response blocked due to safety concerns. Cannot proceed.");
-                blockMessage = `// Gemini Safety Block: The generated content was blocked due to safety filters (${candidate.finishReason}).`;
-                return blockMessage; // Return the block message directly
+        try {
+            let responseText: string | null;
+            if (onText && provider.generateContentStream) {
+                responseText = await provider.generateContentStream(promptText, handleText);
+            } else {
+                responseText = await provider.generateContent(promptText);
+                if (responseText !== null && onText) {
+                    handleText(responseText);
+                }
             }
-            if (candidate.finishReason === "MAX_TOKENS") {
-                console.warn("[GeminiService] Response may be truncated due to maximum token limit.");
+            if (responseText === null) {
+                return { ok: false, category: 'empty_response', message: `No usable response received from ${provider.name}.`, attempts: attempt };
             }
-            if (candidate.finishReason === "RECITATION") {
-                console.warn("[GeminiService] Response may be incomplete due to recitation limits.");
+            console.log(`[GeminiService] Received response (${responseText.length} chars).`);
+            return { ok: true, text: responseText, attempts: attempt };
+        } catch (error) {
+            await readStreamedErrorBody(error);
+            const errorInfo = classifyProviderError(error);
+            if (errorInfo.retryable && attempt < maxAttempts && !streamedText) {
+                const delayMs = computeBackoffDelay(attempt, retryOptions, errorInfo.retryAfterMs);
+                const statusText = errorInfo.status ? `, HTTP ${errorInfo.status}` : '';
+                if (delayMs !== null) {
+                    console.warn(`[GeminiService] Attempt ${attempt}/${maxAttempts} failed (${errorInfo.category}${statusText}). Retrying in ${(delayMs / 1000).toFixed(1)}s...`);
+                    await sleep(delayMs);
+                    continue;
+                }
+                console.warn(`[GeminiService] Attempt ${attempt}/${maxAttempts} failed (${errorInfo.category}${statusText}). ${provider.name} asked to wait ${(errorInfo.retryAfterMs! / 1000).toFixed(1)}s, more than LLM_RETRY_MAX_SERVER_DELAY_MS allows. Not retrying.`);
             }
-            // Prepend warning to text if finished abnormally but not due to safety
-            const responseTextPartial = candidate?.content?.parts?.[0]?.text?.trim() ?? '';
-            return `// Gemini Warning: Finish Reason - ${candidate.finishReason}\n${responseTextPartial}`;
 
+            logProviderHttpError('[GeminiService]', provider.name, error, env.LLM_TIMEOUT_MS);
+            const statusText = errorInfo.status ? ` (HTTP ${errorInfo.status})` : '';
+            return {
+                ok: false,
+                category: errorInfo.category,
+                message: `${provider.name} request failed with ${errorInfo.category}${statusText} after ${attempt} attempt(s): ${errorInfo.message}`,
+                attempts: attempt,
+            };
         }
-        // --- Get Response Text (remains the same) ---
-        const responseText = candidate?.content?.parts?.[0]?.text;
-
-        if (responseText) {
-            console.log(`[GeminiService] Received response (${responseText.trim().length} chars).`);
-            return responseText.trim();
-        } else if (candidate?.finishReason === "SAFETY") {
-            // Already handled above, returns block message
-            return `// Gemini Safety Block: The generated content was blocked due to safety filters (${candidate.finishReason}).`;
-        } else {
-            console.warn("[GeminiService] Received empty or incomplete response text from Gemini API. Check finishReason and potential errors.");
-            console.warn(`[GeminiService] Finish Reason: ${candidate?.finishReason}, Safety Ratings: ${JSON.stringify(candidate?.safetyRatings)}`);
-            return null; // Indicate failure
-        }
-    } catch (error) {
-        // --- Error Handling (remains the same) ---
-        console.error("[GeminiService] ❌ Error calling Gemini API:");
-        const axiosError = error as AxiosError;
-        if (axiosError.response) {
-            console.error(`  Status: ${axiosError.response.status}`);
-            console.error(`  Data: ${JSON.stringify(axiosError.response.data, null, 2)}`);
-            if (axiosError.response.status === 400) { console.error("  Suggestion: Check API key, request format, or prompt content (possible policy violation)."); }
-            else if (axiosError.response.status === 429) { console.error("  Suggestion: Rate limit exceeded. Wait before retrying."); }
-            else if (axiosError.response.status >= 500) { console.error("  Suggestion: Server error on Google's side. Try again later."); }
-        } else if (axiosError.request) {
-            console.error("  Request Error: No response received.", axiosError.code);
-            if (axiosError.code === 'ECONNABORTED') { console.error(`  Suggestion: Request timed out after ${config.timeout / 1000} seconds.`); }
-        } else {
-            console.error('  Setup Error Message:', axiosError.message);
-        }
-        return null; // Indicate failure
     }
 }
 
@@ -281,12 +352,12 @@ export async function enhanceCodeWithGemini(
         finalPrompt = generatePrompt(enhancementType, promptOrCode, options);
     }
 
-    // Call the Gemini API with the final prompt.
-    const rawResponse = await callGeminiApi(finalPrompt);
+    // Call the Gemini API with the final prompt (retries are handled inside).
+    const outcome = await callGeminiApi(finalPrompt, options?.onText);
 
-    // If the API call fails and returns null, return an error result.
-    if (rawResponse === null) {
-        return { type: 'error', content: 'Failed to get a valid response from Gemini API.' };
+    // If the API call ultimately failed, return a categorized error result.
+    if (!outcome.ok) {
+        return { type: 'error', content: outcome.message, errorCategory: outcome.category, attempts: outcome.attempts };
     }
 
     // --- Simple Response Handling (Return as 'text') ---
@@ -294,6 +365,116 @@ export async function enhanceCodeWithGemini(
     // it's safer and more flexible to always return the raw response as 'text' and
     // let the calling command handler extract the specific parts it needs (e.g., using extractCodeBlock).
     // The 'type' field becomes less critical here, mainly distinguishing success ('text' or 'code') from 'error'.
-    return { type: 'text', content: rawResponse };
+    return { type: 'text', content: outcome.text };
+
+}
+
+/**
+ * Builds the "reduce" prompt that merges the partial answers of a chunked review/document run.
+ *
+ * @param {ENHANCEMENT_TYPES} enhancement - REVIEW or DOCUMENT.
+ * @param {string[]} partials - The partial answers, in chunk order.
+ * @param {GeminiEnhancementOptions} [options] - The options of the original request.
+ * @returns {string} The merge prompt.
+ */
+function generateMergePrompt(enhancement: ENHANCEMENT_TYPES, partials: string[], options?: GeminiEnhancementOptions): string {
+    const numberedPartials = partials
+        .map((partial, i) => `--- Partial ${i + 1} of ${partials.length} ---\n${partial}`)
+        .join('\n\n');
+
+    let goal: string;
+    if (enhancement === ENHANCEMENT_TYPES.DOCUMENT) {
+        goal = `Merge these partial documentation drafts into a single ${options?.docLevel === 'module' ? 'module README.md' : 'project README.md'} in Markdown format. Keep one section per topic (title, description, features, modules, technical stack), combine overlapping content, and do not mention that the input was split.`;
+    } else if (options?.structuredFindings) {
+        goal = `Merge these partial JSON code review results into one. Combine the summaries into a single overall assessment and keep every finding unchanged (file, line, severity, rule, message), removing only exact duplicates.\n${STRUCTURED_FINDINGS_INSTRUCTIONS}`;
+    } else {
+        goal = `Merge these partial code review reports (mode: ${options?.reviewMode ?? 'quality'}) into a single coherent report in Markdown format. Keep the same section structure, remove duplicate findings, keep file references, and order improvements by impact. Do not mention that the input was split.`;
+    }
+
+    return `
+The following are partial results, each produced from a different part of the same codebase, because the codebase was too large for a single request.
+
+${goal}
+
+${numberedPartials}
+`;
+}
+
+/**
+ * Like `enhanceCodeWithGemini`, but handles consolidated payloads that exceed `LLM_MAX_INPUT_TOKENS`.
+ * Oversized payloads are split on `// File:` boundaries; each chunk is processed on its own (map)
+ * and the partial answers are merged into one final answer (reduce), repeatedly if the partials
+ * themselves exceed the budget. Payloads within budget are sent in a single request.
+ * Only REVIEW and DOCUMENT support chunking.
+ *
+ * @param {ENHANCEMENT_TYPES} enhancementType - REVIEW or DOCUMENT.
+ * @param {string} consolidatedCode - The consolidated sources (see `getConsolidatedSources`).
+ * @param {GeminiEnhancementOptions} [options] - Review mode / doc level.
+ * @returns {Promise<GeminiEnhancementResult>} The merged result, or the first error encountered.
+ */
+export async function enhanceConsolidatedWithGemini(
+    enhancementType: ENHANCEMENT_TYPES,
+    consolidatedCode: string,
+    options?: GeminiEnhancementOptions
+): Promise<GeminiEnhancementResult> {
+    const maxTokens = env.LLM_MAX_INPUT_TOKENS;
+    const estimatedTokens = estimateTokens(consolidatedCode);
+    const chunkable = enhancementType === ENHANCEMENT_TYPES.REVIEW || enhancementType === ENHANCEMENT_TYPES.DOCUMENT;
 
-}
\ No newline at end of file
+    if (!chunkable || estimatedTokens <= maxTokens) {
+        console.log(`[GeminiService] Payload is ~${estimatedTokens} tokens (budget ${maxTokens}). Sending in a single request.`);
+        return enhanceCodeWithGemini(enhancementType, consolidatedCode, options);
+    }
+
+    const chunks = chunkConsolidatedSources(consolidatedCode, maxTokens);
+    console.log(`[GeminiService] Payload is ~${estimatedTokens} tokens, over the ${maxTokens} token budget. Processing ${chunks.length} chunks (map-reduce)...`);
+
+    let partials: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+        console.log(`[GeminiService] Map step ${i + 1}/${chunks.length} (~${estimateTokens(chunks[i])} tokens)...`);
+        const chunkNote = `NOTE: This is part ${i + 1} of ${chunks.length} of a larger codebase. Cover only the code below; your answer will be merged with the answers for the other parts.\n`;
+        const outcome = await callGeminiApi(chunkNote + generatePrompt(enhancementType, chunks[i], options));
+        if (!outcome.ok) {
+            return { type: 'error', content: `Chunk ${i + 1}/${chunks.length} failed: ${outcome.message}`, errorCategory: outcome.category, attempts: outcome.attempts };
+        }
+        partials.push(outcome.text);
+    }
+
+    // Reduce, in several rounds if the partial answers do not fit in one merge request.
+    while (partials.length > 1) {
+        const groups: string[][] = [[]];
+        for (const partial of partials) {
+            const group = groups[groups.length - 1];
+            if (group.length > 0 && estimateTokens([...group, partial].join('\n\n')) > maxTokens) {
+                groups.push([partial]);
+            } else {
+                group.push(partial);
+            }
+        }
+        if (groups.length === partials.length) {
+            // Every partial fills the budget on its own; merge pairwise so each round still makes progress.
+            groups.length = 0;
+            for (let i = 0; i < partials.length; i += 2) {
+                groups.push(partials.slice(i, i + 2));
+            }
+        }
+
+        console.log(`[GeminiService] Reduce step: merging ${partials.length} partial results into ${groups.length}...`);
+        const merged: string[] = [];
+        for (const group of groups) {
+            if (group.length === 1) {
+                merged.push(group[0]);
+                continue;
+            }
+            // Stream only the last merge, whose output is the final answer.
+            const outcome = await callGeminiApi(generateMergePrompt(enhancementType, group, options), groups.length === 1 ? options?.onText : undefined);
+            if (!outcome.ok) {
+                return { type: 'error', content: `Merging partial results failed: ${outcome.message}`, errorCategory: outcome.category, attempts: outcome.attempts };
+            }
+            merged.push(outcome.text);
+        }
+        partials = merged;
+    }
+
+    return { type: 'text', content: partials[0] };
+}
@@ -0,0 +1,157 @@
+// File: src/gemini/providers/cassette.provider.ts
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CassetteMode, LlmProvider, LlmTextHandler } from '@/gemini/types/llm-provider.type';
+
+const logPrefix = "[CassetteProvider]";
+
+/**
+ * A single recorded prompt → response pair, stored as `<cassetteDir>/<hash>.json`.
+ */
+export interface CassetteEntry {
+    hash: string;
+    provider: string;
+    model: string;
+    recordedAt: string;
+    promptPreview: string;
+    response: string;
+}
+
+/**
+ * Settings for the cassette provider.
+ */
+export interface CassetteProviderOptions {
+    mode: Exclude<CassetteMode, 'off'>;
+    /**
+     * Directory holding the cassette files. Resolved against the working directory.
+     */
+    cassetteDir: string;
+}
+
+/**
+ * Lines that change on every run without changing the meaning of a prompt
+ * (e.g., the header written by getConsolidatedSources). They are dropped before hashing
+ * so replays stay deterministic across runs and machines.
+ */
+const VOLATILE_PROMPT_LINES = [
+    /^\s*\/\/ Consolidated sources from: .*$/gm,
+    /^\s*\/\/ Consolidation timestamp: .*$/gm,
+];
+
+/**
+ * Computes the cassette key for a prompt.
+ *
+ * @param promptText The prompt sent to the provider.
+ * @returns The hex SHA-256 hash of the normalized prompt.
+ */
+export function hashPrompt(promptText: string): string {
+    const normalizedPrompt = VOLATILE_PROMPT_LINES
+        .reduce((text, pattern) => text.replace(pattern, ''), promptText)
+        .replace(/\r\n/g, '\n')
+        .trim();
+    return crypto.createHash('sha256').update(normalizedPrompt).digest('hex');
+}
+
+/**
+ * LLM provider decorator that records responses of the wrapped provider to disk,
+ * or replays them without touching the network.
+ */
+export class CassetteProvider implements LlmProvider {
+    readonly name: string;
+    readonly model: string;
+    private readonly cassetteDir: string;
+    private innerProvider: LlmProvider | null = null;
+
+    /**
+     * @param createInnerProvider Lazily creates the real provider. Never called in 'replay' mode,
+     *                            so replays work without provider credentials.
+     * @param options The cassette mode and directory.
+     */
+    constructor(private readonly createInnerProvider: () => LlmProvider, private readonly options: CassetteProviderOptions) {
+        this.name = `cassette:${options.mode}`;
+        this.model = options.mode === 'replay' ? 'recorded' : this.getInnerProvider().model;
+        this.cassetteDir = path.resolve(options.cassetteDir);
+    }
+
+    async generateContent(promptText: string): Promise<string | null> {
+        return this.generate(promptText);
+    }
+
+    /**
+     * Replays emit the whole recorded response as one delta; recordings stream from the inner provider when it can.
+     */
+    async generateContentStream(promptText: string, onText: LlmTextHandler): Promise<string | null> {
+        return this.generate(promptText, onText);
+    }
+
+    private async generate(promptText: string, onText?: LlmTextHandler): Promise<string | null> {
+        const hash = hashPrompt(promptText);
+        const cassettePath = path.join(this.cassetteDir, `${hash}.json`);
+
+        if (this.options.mode === 'replay') {
+            const replayed = this.replay(hash, cassettePath);
+            if (replayed !== null && onText) {
+                onText(replayed);
+            }
+            return replayed;
+        }
+
+        const inner = this.getInnerProvider();
+        let responseText: string | null;
+        if (onText && inner.generateContentStream) {
+            responseText = await inner.generateContentStream(promptText, onText);
+        } else {
+            responseText = await inner.generateContent(promptText);
+            if (responseText !== null && onText) {
+                onText(responseText);
+            }
+        }
+        if (responseText === null) {
+            console.warn(`${logPrefix} Provider returned no response. Nothing recorded for prompt ${hash.slice(0, 12)}.`);
+            return null;
+        }
+
+        const entry: CassetteEntry = {
+            hash,
+            provider: inner.name,
+            model: inner.model,
+            recordedAt: new Date().toISOString(),
+            promptPreview: promptText.trim().slice(0, 200),
+            response: responseText,
+        };
+        // Cassettes are tool state, not command output: they are written directly, so --dry-run / --patch still
+        // record them and backup runs (and `undo`) leave them alone.
+        try {
+            fs.mkdirSync(this.cassetteDir, { recursive: true });
+            fs.writeFileSync(cassettePath, JSON.stringify(entry, null, 2), 'utf8');
+            console.log(`${logPrefix} Recorded response for prompt ${hash.slice(0, 12)}.`);
+        } catch (e) {
+            console.warn(`${logPrefix} ⚠️ Failed to record response for prompt ${hash.slice(0, 12)}: ${e instanceof Error ? e.message : e}`);
+        }
+        return responseText;
+    }
+
+    private replay(hash: string, cassettePath: string): string | null {
+        if (!fs.existsSync(cassettePath)) {
+            console.error(`${logPrefix} ❌ No recorded response for prompt ${hash.slice(0, 12)} in ${this.cassetteDir}. Run once with --record (or LLM_CASSETTE_MODE=record) to capture it.`);
+            return null;
+        }
+        try {
+            const entry = JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as CassetteEntry;
+            console.log(`${logPrefix} Replaying response for prompt ${hash.slice(0, 12)} (recorded ${entry.recordedAt} from ${entry.provider}/${entry.model}).`);
+            return entry.response;
+        } catch (e) {
+            console.error(`${logPrefix} ❌ Cassette file ${cassettePath} is unreadable: ${e instanceof Error ? e.message : e}`);
+            return null;
+        }
+    }
+
+    private getInnerProvider(): LlmProvider {
+        if (!this.innerProvider) {
+            this.innerProvider = this.createInnerProvider();
+        }
+        return this.innerProvider;
+    }
+}
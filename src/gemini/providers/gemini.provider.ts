@@ -0,0 +1,122 @@
+// File: src/gemini/providers/gemini.provider.ts
+
+import axios, { AxiosResponse } from 'axios';
+import { LlmProvider, LlmTextHandler } from '@/gemini/types/llm-provider.type';
+import { readServerSentEvents } from '@/gemini/utils/stream.utils';
+
+const logPrefix = "[GeminiProvider]";
+
+/**
+ * Connection settings for the Google Generative Language API.
+ */
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model: string;
+    apiVersion: string;
+    timeoutMs: number;
+}
+
+/**
+ * The parts of a `streamGenerateContent` event that are read.
+ */
+interface GeminiStreamEvent {
+    candidates?: {
+        content?: { parts?: { text?: string }[] };
+        finishReason?: string;
+        safetyRatings?: unknown;
+    }[];
+}
+
+/**
+ * LLM provider backed by the Gemini `generateContent` endpoint.
+ */
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    readonly model: string;
+
+    constructor(private readonly options: GeminiProviderOptions) {
+        if (!options.apiKey) {
+            throw new Error(`${logPrefix} GEMINI_API_KEY is required when LLM_PROVIDER is 'gemini'.`);
+        }
+        this.model = options.model;
+    }
+
+    async generateContent(promptText: string): Promise<string | null> {
+        const apiEndpoint = `https://generativelanguage.googleapis.com/${this.options.apiVersion}/models/${this.model}:generateContent`;
+        const requestData = { contents: [{ parts: [{ text: promptText }] }] };
+        const config = {
+            headers: { 'Content-Type': 'application/json' },
+            params: { key: this.options.apiKey },
+            timeout: this.options.timeoutMs,
+        };
+
+        const response: AxiosResponse = await axios.post(apiEndpoint, requestData, config);
+        const candidate = response.data?.candidates?.[0];
+        return this.buildResult(candidate?.content?.parts?.[0]?.text, candidate?.finishReason, candidate?.safetyRatings);
+    }
+
+    async generateContentStream(promptText: string, onText: LlmTextHandler): Promise<string | null> {
+        const apiEndpoint = `https://generativelanguage.googleapis.com/${this.options.apiVersion}/models/${this.model}:streamGenerateContent`;
+        const requestData = { contents: [{ parts: [{ text: promptText }] }] };
+        const config = {
+            headers: { 'Content-Type': 'application/json' },
+            params: { key: this.options.apiKey, alt: 'sse' },
+            timeout: this.options.timeoutMs,
+            responseType: 'stream' as const,
+        };
+
+        const response: AxiosResponse = await axios.post(apiEndpoint, requestData, config);
+        let responseText = '';
+        let finishReason: string | undefined;
+        let safetyRatings: unknown;
+
+        for await (const event of readServerSentEvents<GeminiStreamEvent>(response.data)) {
+            const candidate = event?.candidates?.[0];
+            const delta = (candidate?.content?.parts ?? []).map(part => part.text ?? '').join('');
+            if (delta) {
+                responseText += delta;
+                onText(delta);
+            }
+            safetyRatings = candidate?.safetyRatings ?? safetyRatings;
+            if (candidate?.finishReason) {
+                finishReason = candidate.finishReason;
+                if (finishReason === "SAFETY") {
+                    break; // Nothing more will arrive for a blocked candidate
+                }
+            }
+        }
+
+        return this.buildResult(responseText, finishReason, safetyRatings);
+    }
+
+    /**
+     * Applies the finish-reason handling shared by the blocking and streaming endpoints.
+     */
+    private buildResult(responseText: string | undefined, finishReason: string | undefined, safetyRatings: unknown): string | null {
+        // --- Finish Reason Handling ---
+        if (finishReason && finishReason !== "STOP") {
+            console.warn(`${logPrefix} Warning: Response generation finished due to reason: ${finishReason}.`);
+
+            if (finishReason === "SAFETY") {
+                console.error(`${logPrefix} Response blocked due to safety concerns. Cannot proceed.`);
+                return `// Gemini Safety Block: The generated content was blocked due to safety filters (${finishReason}).`;
+            }
+            if (finishReason === "MAX_TOKENS") {
+                console.warn(`${logPrefix} Response may be truncated due to maximum token limit.`);
+            }
+            if (finishReason === "RECITATION") {
+                console.warn(`${logPrefix} Response may be incomplete due to recitation limits.`);
+            }
+            // Prepend warning to text if finished abnormally but not due to safety
+            return `// Gemini Warning: Finish Reason - ${finishReason}\n${responseText?.trim() ?? ''}`;
+        }
+
+        if (responseText) {
+            return responseText.trim();
+        }
+
+        console.warn(`${logPrefix} Received empty or incomplete response text from Gemini API. Check finishReason and potential errors.`);
+        console.warn(`${logPrefix} Finish Reason: ${finishReason}, Safety Ratings: ${JSON.stringify(safetyRatings)}`);
+        return null;
+    }
+}
@@ -0,0 +1,92 @@
+// File: src/gemini/providers/llm-provider.factory.ts
+
+import { env } from '@/config/app.config';
+import { CassetteMode, LlmProvider, LlmProviderName } from '@/gemini/types/llm-provider.type';
+import { GeminiProvider } from '@/gemini/providers/gemini.provider';
+import { OpenAiProvider } from '@/gemini/providers/openai.provider';
+import { OllamaProvider } from '@/gemini/providers/ollama.provider';
+import { CassetteProvider } from '@/gemini/providers/cassette.provider';
+
+const logPrefix = "[LlmProviderFactory]";
+
+/**
+ * The provider used by the Gemini service. Created lazily from the environment,
+ * or replaced explicitly through `setLlmProvider` (e.g., by tests).
+ */
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Cassette mode set from the CLI (`--record`/`--replay`). Takes precedence over `LLM_CASSETTE_MODE`.
+ */
+let cassetteModeOverride: CassetteMode | null = null;
+
+/**
+ * Creates a provider instance from the validated environment configuration.
+ *
+ * @param {LlmProviderName} providerName - The provider to create. Defaults to `LLM_PROVIDER`.
+ * @returns {LlmProvider} The configured provider.
+ * @throws {Error} If the provider is unknown or its required settings are missing.
+ */
+export function createLlmProvider(providerName: LlmProviderName = env.LLM_PROVIDER): LlmProvider {
+    switch (providerName) {
+        case 'gemini':
+            return new GeminiProvider({
+                apiKey: env.GEMINI_API_KEY ?? '',
+                model: env.GEMINI_MODEL_NAME,
+                apiVersion: env.GEMINI_API_VERSION,
+                timeoutMs: env.LLM_TIMEOUT_MS,
+            });
+        case 'openai':
+            return new OpenAiProvider({
+                apiKey: env.OPENAI_API_KEY,
+                baseUrl: env.OPENAI_BASE_URL,
+                model: env.OPENAI_MODEL_NAME,
+                timeoutMs: env.LLM_TIMEOUT_MS,
+            });
+        case 'ollama':
+            return new OllamaProvider({
+                baseUrl: env.OLLAMA_BASE_URL,
+                model: env.OLLAMA_MODEL_NAME,
+                timeoutMs: env.LLM_TIMEOUT_MS,
+            });
+        default:
+            throw new Error(`${logPrefix} Unknown LLM provider: ${providerName}`);
+    }
+}
+
+/**
+ * Returns the active provider, creating it from the environment on first use.
+ *
+ * @returns {LlmProvider} The provider every AI-backed command sends its prompts to.
+ */
+export function getLlmProvider(): LlmProvider {
+    if (!activeProvider) {
+        const cassetteMode: CassetteMode = cassetteModeOverride ?? env.LLM_CASSETTE_MODE;
+        activeProvider = cassetteMode === 'off'
+            ? createLlmProvider()
+            : new CassetteProvider(() => createLlmProvider(), { mode: cassetteMode, cassetteDir: env.LLM_CASSETTE_DIR });
+        console.log(`${logPrefix} Using provider '${activeProvider.name}' with model: ${activeProvider.model}`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the active provider. Passing null resets it so the next call to
+ * `getLlmProvider` recreates it from the environment.
+ *
+ * @param {LlmProvider | null} provider - The provider to use, or null to reset.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+    activeProvider = provider;
+}
+
+/**
+ * Overrides the cassette mode for the rest of the process (e.g., from the global `--replay` flag)
+ * and resets the active provider so the next call picks up the new mode.
+ *
+ * @param {CassetteMode | null} mode - The mode to use, or null to fall back to `LLM_CASSETTE_MODE`.
+ */
+export function setCassetteMode(mode: CassetteMode | null): void {
+    cassetteModeOverride = mode;
+    activeProvider = null;
+}
@@ -0,0 +1,92 @@
+// File: src/gemini/providers/ollama.provider.ts
+
+import axios, { AxiosResponse } from 'axios';
+import { LlmProvider, LlmTextHandler } from '@/gemini/types/llm-provider.type';
+import { readJsonLines } from '@/gemini/utils/stream.utils';
+
+const logPrefix = "[OllamaProvider]";
+
+/**
+ * Connection settings for a local Ollama-style HTTP server.
+ */
+export interface OllamaProviderOptions {
+    baseUrl: string;
+    model: string;
+    timeoutMs: number;
+}
+
+/**
+ * One line of a streamed `/api/generate` response.
+ */
+interface OllamaStreamEvent {
+    response?: string;
+    done?: boolean;
+    done_reason?: string;
+    error?: string;
+}
+
+/**
+ * LLM provider for a local model served through the Ollama `/api/generate` endpoint.
+ */
+export class OllamaProvider implements LlmProvider {
+    readonly name = 'ollama';
+    readonly model: string;
+
+    constructor(private readonly options: OllamaProviderOptions) {
+        this.model = options.model;
+    }
+
+    async generateContent(promptText: string): Promise<string | null> {
+        const response: AxiosResponse = await axios.post(this.getEndpoint(), { model: this.model, prompt: promptText, stream: false }, {
+            headers: { 'Content-Type': 'application/json' },
+            timeout: this.options.timeoutMs,
+        });
+        return this.buildResult(response.data?.response, response.data?.done_reason);
+    }
+
+    async generateContentStream(promptText: string, onText: LlmTextHandler): Promise<string | null> {
+        const response: AxiosResponse = await axios.post(this.getEndpoint(), { model: this.model, prompt: promptText, stream: true }, {
+            headers: { 'Content-Type': 'application/json' },
+            timeout: this.options.timeoutMs,
+            responseType: 'stream',
+        });
+        let responseText = '';
+        let doneReason: string | undefined;
+
+        for await (const event of readJsonLines<OllamaStreamEvent>(response.data)) {
+            if (event?.error) {
+                throw new Error(`${logPrefix} Ollama stream error: ${event.error}`);
+            }
+            if (event?.response) {
+                responseText += event.response;
+                onText(event.response);
+            }
+            if (event?.done) {
+                doneReason = event.done_reason;
+            }
+        }
+
+        return this.buildResult(responseText, doneReason);
+    }
+
+    private getEndpoint(): string {
+        return `${this.options.baseUrl.replace(/\/+$/, '')}/api/generate`;
+    }
+
+    /**
+     * Applies the done-reason handling shared by the blocking and streaming requests.
+     */
+    private buildResult(responseText: string | undefined, doneReason: string | undefined): string | null {
+        if (doneReason && doneReason !== 'stop') {
+            console.warn(`${logPrefix} Warning: Response generation finished due to reason: ${doneReason}.`);
+            return `// Ollama Warning: Finish Reason - ${doneReason}\n${responseText?.trim() ?? ''}`;
+        }
+
+        if (responseText) {
+            return responseText.trim();
+        }
+
+        console.warn(`${logPrefix} Received empty response text from the Ollama server.`);
+        return null;
+    }
+}
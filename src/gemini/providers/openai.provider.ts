@@ -0,0 +1,115 @@
+// File: src/gemini/providers/openai.provider.ts
+
+import axios, { AxiosResponse } from 'axios';
+import { LlmProvider, LlmTextHandler } from '@/gemini/types/llm-provider.type';
+import { readServerSentEvents } from '@/gemini/utils/stream.utils';
+
+const logPrefix = "[OpenAIProvider]";
+
+/**
+ * Connection settings for an OpenAI-compatible chat completions API.
+ */
+export interface OpenAiProviderOptions {
+    /**
+     * Optional bearer token. Self-hosted compatible servers often run without one.
+     */
+    apiKey?: string;
+    baseUrl: string;
+    model: string;
+    timeoutMs: number;
+}
+
+/**
+ * The parts of a streamed chat completion chunk that are read.
+ */
+interface OpenAiStreamEvent {
+    choices?: {
+        delta?: { content?: string | null };
+        finish_reason?: string | null;
+    }[];
+}
+
+/**
+ * LLM provider for any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI, Azure-compatible gateways, vLLM, LM Studio, ...).
+ */
+export class OpenAiProvider implements LlmProvider {
+    readonly name = 'openai';
+    readonly model: string;
+
+    constructor(private readonly options: OpenAiProviderOptions) {
+        this.model = options.model;
+    }
+
+    async generateContent(promptText: string): Promise<string | null> {
+        const response: AxiosResponse = await axios.post(this.getEndpoint(), this.buildRequest(promptText, false), {
+            headers: this.getHeaders(),
+            timeout: this.options.timeoutMs,
+        });
+        const choice = response.data?.choices?.[0];
+        return this.buildResult(choice?.message?.content, choice?.finish_reason);
+    }
+
+    async generateContentStream(promptText: string, onText: LlmTextHandler): Promise<string | null> {
+        const response: AxiosResponse = await axios.post(this.getEndpoint(), this.buildRequest(promptText, true), {
+            headers: this.getHeaders(),
+            timeout: this.options.timeoutMs,
+            responseType: 'stream',
+        });
+        let responseText = '';
+        let finishReason: string | undefined;
+
+        for await (const event of readServerSentEvents<OpenAiStreamEvent>(response.data)) {
+            const choice = event?.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+                responseText += delta;
+                onText(delta);
+            }
+            finishReason = choice?.finish_reason ?? finishReason;
+        }
+
+        return this.buildResult(responseText, finishReason);
+    }
+
+    private getEndpoint(): string {
+        return `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    }
+
+    private buildRequest(promptText: string, stream: boolean) {
+        return {
+            model: this.model,
+            messages: [{ role: 'user', content: promptText }],
+            ...(stream ? { stream: true } : {}),
+        };
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.options.apiKey) {
+            headers.Authorization = `Bearer ${this.options.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Applies the finish-reason handling shared by the blocking and streaming requests.
+     */
+    private buildResult(responseText: string | undefined, finishReason: string | undefined): string | null {
+        if (finishReason === 'content_filter') {
+            console.error(`${logPrefix} Response blocked by the provider's content filter. Cannot proceed.`);
+            return `// OpenAI Safety Block: The generated content was blocked by the content filter (${finishReason}).`;
+        }
+        if (finishReason && finishReason !== 'stop') {
+            console.warn(`${logPrefix} Warning: Response generation finished due to reason: ${finishReason}.`);
+            return `// OpenAI Warning: Finish Reason - ${finishReason}\n${responseText?.trim() ?? ''}`;
+        }
+
+        if (responseText) {
+            return responseText.trim();
+        }
+
+        console.warn(`${logPrefix} Received empty response text from the OpenAI-compatible API. Finish Reason: ${finishReason}`);
+        return null;
+    }
+}
@@ -0,0 +1,74 @@
+// File: src/gemini/types/develop-session.schema.ts
+
+import { z } from "zod";
+
+/**
+ * Phases of the develop TDD cycle, in order. A session stores the last completed one.
+ * - 'task-selected': the task was confirmed; no tests have been written yet.
+ * - 'tests-written': the generated tests are on disk (Red).
+ * - 'implemented': the implementation is on disk; the tests may still fail (Green / fix loop).
+ */
+export const DEVELOP_PHASES = ["task-selected", "tests-written", "implemented"] as const;
+
+/**
+ * Defines the schema for one model exchange of a develop session.
+ */
+export const DevelopSessionStepSchema = z.object({
+  /** Step name, e.g. "test-generation", "implementation" or "fix-2". */
+  name: z.string().min(1),
+  prompt: z.string(),
+  response: z.string(),
+  /** ISO timestamp of the response. */
+  at: z.string(),
+});
+
+/**
+ * Defines the schema for the git state of a `develop --git` session.
+ */
+export const DevelopSessionGitSchema = z.object({
+  /** The feature branch created for the task. */
+  branch: z.string().min(1),
+  /** The branch (or commit, if HEAD was detached) the feature branch was created from. */
+  baseRef: z.string().min(1),
+  /** The commit the feature branch was created from. */
+  baseCommit: z.string().min(1),
+  /** Short hashes of the commits made by the session, in order. */
+  commits: z.array(z.string()).default([]),
+});
+
+/**
+ * Defines the schema for `.gemini-develop/session.json`, the persisted state of an unfinished develop run.
+ */
+export const DevelopSessionSchema = z.object({
+  version: z.literal(1),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  /** The roadmap item being developed, as parsed when the session started. */
+  task: z.object({ status: z.string(), description: z.string() }).passthrough(),
+  /** The last completed phase. */
+  phase: z.enum(DEVELOP_PHASES),
+  /** Test files written by the session, relative to the project root. */
+  testFiles: z.array(z.string()).default([]),
+  /** Source files written by the session, relative to the project root. */
+  sourceFiles: z.array(z.string()).default([]),
+  /** Number of self-healing fix iterations run so far. */
+  fixIterations: z.number().int().min(0).default(0),
+  /** Directory of the per-iteration records, relative to the project root. */
+  attemptsDir: z.string(),
+  /** Content of every file before the session first wrote it (null if the session created it), keyed by relative path. */
+  originals: z.record(z.string(), z.string().nullable()).default({}),
+  /** Prompts sent and responses received, in order. */
+  steps: z.array(DevelopSessionStepSchema).default([]),
+  /** Branch and commits of a `--git` session; absent otherwise. */
+  git: DevelopSessionGitSchema.optional(),
+});
+
+/**
+ * The TypeScript type for a develop session phase.
+ */
+export type DevelopPhase = typeof DEVELOP_PHASES[number];
+
+/**
+ * The TypeScript type for a develop session, inferred from the Zod schema.
+ */
+export type DevelopSession = z.infer<typeof DevelopSessionSchema>;
@@ -12,6 +12,10 @@ export enum ENHANCEMENT_TYPES {
   DEVELOP = "Develop",
   GENERATE_PROGRESS_REPORT = "GenerateProgressReport",
   INIT = "Init",
+  RUN_K6 = "run-k6",
+  ROADMAP = "roadmap",
+  UNDO = "undo",
+  HISTORY = "history",
 }
 
 /**
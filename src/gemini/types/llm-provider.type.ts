@@ -0,0 +1,74 @@
+/**
+ * Supported LLM provider identifiers, selected via the `LLM_PROVIDER` environment variable.
+ */
+export type LlmProviderName = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * Cassette modes for LLM calls, selected via `LLM_CASSETTE_MODE` or the global `--record`/`--replay` flags.
+ * - 'off': call the provider directly.
+ * - 'record': call the provider and store each prompt-hash → response pair on disk.
+ * - 'replay': serve responses from disk only, without any network access.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Category of a failed LLM call, carried by `GeminiEnhancementResult` so callers can react
+ * (e.g., wait on 'rate_limit', fix credentials on 'auth') instead of parsing messages.
+ */
+export type LlmErrorCategory =
+    | 'rate_limit'
+    | 'server'
+    | 'timeout'
+    | 'network'
+    | 'auth'
+    | 'bad_request'
+    | 'not_found'
+    | 'empty_response'
+    | 'unknown';
+
+/**
+ * Receives the text of a streamed response as it arrives, one delta at a time.
+ */
+export type LlmTextHandler = (textDelta: string) => void;
+
+/**
+ * Contract implemented by every LLM backend used by the CLI.
+ * The Gemini service only talks to this interface, so commands (review, document,
+ * generate-tests, develop) run unchanged against whichever provider is configured,
+ * and tests can inject a fake provider instead of mocking HTTP calls.
+ *
+ * @interface LlmProvider
+ */
+export interface LlmProvider {
+    /**
+     * Identifier of the provider (used in log messages).
+     */
+    readonly name: LlmProviderName | string;
+
+    /**
+     * The model the provider sends requests to.
+     */
+    readonly model: string;
+
+    /**
+     * Sends a single prompt to the model and returns the generated text.
+     *
+     * @param {string} promptText - The fully formed prompt.
+     * @returns {Promise<string | null>} The (trimmed) response text, a `// <Provider> Warning/Safety Block` annotated
+     *                                   text for abnormal finishes, or null if no usable response was received.
+     * @throws {Error} The underlying HTTP error (e.g., an AxiosError) so the caller can classify and retry it.
+     */
+    generateContent(promptText: string): Promise<string | null>;
+
+    /**
+     * Streaming variant of `generateContent`: text deltas are passed to `onText` as they arrive.
+     * Optional; the service falls back to `generateContent` (one single delta) for providers without it.
+     *
+     * @param {string} promptText - The fully formed prompt.
+     * @param {LlmTextHandler} onText - Called with each text delta, in order.
+     * @returns {Promise<string | null>} The complete response, annotated exactly like `generateContent`
+     *                                   (so a finish-reason warning or safety block may follow text already streamed).
+     * @throws {Error} The underlying HTTP error, as for `generateContent`.
+     */
+    generateContentStream?(promptText: string, onText: LlmTextHandler): Promise<string | null>;
+}
@@ -0,0 +1,51 @@
+// File: src/gemini/types/review.schema.ts
+
+import { z } from "zod";
+
+/**
+ * Output formats supported by the `review` command.
+ * 'markdown' is the free-form report; 'json' and 'sarif' are built from structured findings.
+ */
+export type ReviewOutputFormat = 'markdown' | 'json' | 'sarif';
+
+/**
+ * Defines the schema for a single review finding returned by the model in structured mode.
+ * Severities use the SARIF levels so findings map 1:1 onto code-scanning results.
+ */
+export const ReviewFindingSchema = z.object({
+  /** Path of the file, exactly as given in its `// File:` header. */
+  file: z.string().min(1),
+  /** 1-based line where the issue starts. Models sometimes send numbers as strings, so values are coerced. */
+  line: z.coerce.number().int().min(1),
+  /** Optional 1-based last line of the issue. */
+  endLine: z.coerce.number().int().min(1).optional(),
+  /** How serious the issue is. */
+  severity: z.preprocess(
+    (val) => (typeof val === 'string' ? val.toLowerCase() : val),
+    z.enum(["error", "warning", "note"])
+  ),
+  /** Short, stable kebab-case identifier of the issue kind (e.g., "no-unused-vars", "god-class"). */
+  rule: z.string().min(1),
+  /** Explanation of the issue and the suggested fix. */
+  message: z.string().min(1),
+});
+
+/**
+ * Defines the schema for the complete structured review report.
+ */
+export const ReviewReportSchema = z.object({
+  /** A short overall assessment. */
+  summary: z.string().default(''),
+  /** The individual findings (may be empty). */
+  findings: z.array(ReviewFindingSchema),
+});
+
+/**
+ * The TypeScript type for a review finding, inferred from the Zod schema.
+ */
+export type ReviewFinding = z.infer<typeof ReviewFindingSchema>;
+
+/**
+ * The TypeScript type for a structured review report, inferred from the Zod schema.
+ */
+export type ReviewReport = z.infer<typeof ReviewReportSchema>;
@@ -0,0 +1,21 @@
+// File: src/gemini/types/roadmap.type.ts
+
+/**
+ * Subcommands of the `roadmap` command.
+ * - 'list': print every item, optionally filtered by status.
+ * - 'show': print all fields and the dependencies of one item.
+ * - 'add': append an item to the table.
+ * - 'set-status': change an item's status (and Last Updated).
+ * - 'validate': report malformed rows, unknown statuses, missing columns and missing files.
+ * - 'graph': render the dependency graph of FEATURE_ROADMAP.md.
+ */
+export const ROADMAP_ACTIONS = ['list', 'show', 'add', 'set-status', 'validate', 'graph'] as const;
+
+export type RoadmapAction = typeof ROADMAP_ACTIONS[number];
+
+/**
+ * Output formats of `roadmap graph`: a Mermaid flowchart or a Graphviz DOT digraph.
+ */
+export const ROADMAP_GRAPH_FORMATS = ['mermaid', 'dot'] as const;
+
+export type RoadmapGraphFormat = typeof ROADMAP_GRAPH_FORMATS[number];
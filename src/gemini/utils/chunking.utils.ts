@@ -0,0 +1,119 @@
+// src/gemini/utils/chunking.utils.ts
+// Token estimation and file-boundary chunking for consolidated source payloads.
+
+/**
+ * Rough characters-per-token ratio for source code. Providers tokenize differently,
+ * so estimates are deliberately conservative rather than exact.
+ */
+const CHARS_PER_TOKEN = 4;
+
+const FILE_HEADER_REGEX = /^\/\/\s*File:\s*(\S+)\s*$/gm;
+
+/**
+ * A single file section of a consolidated payload, including its `// File:` header line.
+ */
+export interface FileSection {
+    filePath: string;
+    text: string;
+}
+
+/**
+ * Estimates the number of tokens in a text.
+ *
+ * @param text The text to measure.
+ * @returns The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits a consolidated payload (as produced by `getConsolidatedSources`) on its `// File:` headers.
+ *
+ * @param payload The consolidated sources.
+ * @returns The text before the first header (the consolidation banner, possibly empty) and one section per file.
+ */
+export function splitByFileBoundaries(payload: string): { preamble: string; sections: FileSection[] } {
+    const headers = [...payload.matchAll(FILE_HEADER_REGEX)];
+    if (headers.length === 0) {
+        return { preamble: '', sections: [{ filePath: '(unnamed)', text: payload }] };
+    }
+
+    const sections: FileSection[] = headers.map((header, i) => ({
+        filePath: header[1],
+        text: payload.slice(header.index!, i + 1 < headers.length ? headers[i + 1].index! : payload.length),
+    }));
+    return { preamble: payload.slice(0, headers[0].index!), sections };
+}
+
+/**
+ * Splits one file section that is larger than the budget into line-aligned parts,
+ * each re-labelled with a `// File: <path> (part n/m)` header.
+ */
+function splitOversizedSection(section: FileSection, maxTokens: number): string[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    // Drop the original header line, if any (the '(unnamed)' section of a payload without headers has none);
+    // hard-split any single line longer than the budget (e.g., minified JSON).
+    const sectionLines = section.text.split('\n');
+    const startsWithHeader = new RegExp(FILE_HEADER_REGEX.source).test(sectionLines[0]);
+    const lines = (startsWithHeader ? sectionLines.slice(1) : sectionLines).flatMap(line => {
+        const pieces: string[] = [];
+        for (let start = 0; start < line.length; start += maxChars) {
+            pieces.push(line.slice(start, start + maxChars));
+        }
+        return pieces.length > 0 ? pieces : [line];
+    });
+    const parts: string[] = [];
+    let current = '';
+
+    for (const line of lines) {
+        if (current.length > 0 && current.length + line.length + 1 > maxChars) {
+            parts.push(current);
+            current = '';
+        }
+        current += `${line}\n`;
+    }
+    if (current.trim().length > 0) {
+        parts.push(current);
+    }
+
+    return parts.map((part, i) => `// File: ${section.filePath} (part ${i + 1}/${parts.length})\n${part}`);
+}
+
+/**
+ * Groups the files of a consolidated payload into chunks that each fit in `maxTokens`.
+ * Files are never split unless a single file exceeds the budget on its own.
+ *
+ * @param payload The consolidated sources.
+ * @param maxTokens The token budget per chunk (for the code only, excluding the prompt instructions).
+ * @returns The chunks, in file order. A payload within budget yields a single chunk.
+ */
+export function chunkConsolidatedSources(payload: string, maxTokens: number): string[] {
+    if (estimateTokens(payload) <= maxTokens) {
+        return [payload];
+    }
+
+    const { sections } = splitByFileBoundaries(payload);
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const section of sections) {
+        if (estimateTokens(section.text) > maxTokens) {
+            if (current) {
+                chunks.push(current);
+                current = '';
+            }
+            chunks.push(...splitOversizedSection(section, maxTokens));
+            continue;
+        }
+        if (current && estimateTokens(current + section.text) > maxTokens) {
+            chunks.push(current);
+            current = '';
+        }
+        current += section.text;
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
@@ -0,0 +1,134 @@
+// src/gemini/utils/develop-session.utils.ts
+// Persistence of unfinished develop runs (.gemini-develop/session.json), used by `develop --resume` and `develop --abort`.
+
+import fs from 'fs';
+import path from 'path';
+import { DevelopSession, DevelopSessionSchema } from '@/gemini/types/develop-session.schema';
+import { getWriteMode, writeOutputFile } from '@shared/utils/file-io.utils';
+
+const logPrefix = "[DevelopSession]";
+
+const SESSION_FILE = path.join('.gemini-develop', 'session.json');
+
+/**
+ * Returns the absolute path of the session file of a project.
+ */
+export function getSessionPath(projectRoot: string): string {
+    return path.join(projectRoot, SESSION_FILE);
+}
+
+/**
+ * Loads the project's unfinished develop session.
+ *
+ * @param projectRoot The project root.
+ * @returns The session, or null if there is none.
+ * @throws {Error} If the session file exists but is not valid JSON or does not match `DevelopSessionSchema`.
+ */
+export function loadSession(projectRoot: string): DevelopSession | null {
+    const sessionPath = getSessionPath(projectRoot);
+    if (!fs.existsSync(sessionPath)) {
+        return null;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(sessionPath, 'utf8'));
+    } catch (e) {
+        throw new Error(`${logPrefix} ${sessionPath} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    const validationResult = DevelopSessionSchema.safeParse(parsed);
+    if (!validationResult.success) {
+        const issues = validationResult.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        throw new Error(`${logPrefix} ${sessionPath} is not a valid develop session: ${issues}`);
+    }
+    return validationResult.data;
+}
+
+/**
+ * Saves the session (with a fresh `updatedAt`). Nothing is persisted when writes are only previewed,
+ * since a dry run changes no files that could be resumed or restored.
+ */
+export function saveSession(projectRoot: string, session: DevelopSession): void {
+    session.updatedAt = new Date().toISOString();
+    if (getWriteMode() !== 'write') {
+        return;
+    }
+    const sessionPath = getSessionPath(projectRoot);
+    fs.mkdirSync(path.dirname(sessionPath), { recursive: true });
+    fs.writeFileSync(sessionPath, `${JSON.stringify(session, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Deletes the session file, if any.
+ */
+export function deleteSession(projectRoot: string): void {
+    if (getWriteMode() !== 'write') {
+        return;
+    }
+    fs.rmSync(getSessionPath(projectRoot), { force: true });
+}
+
+/**
+ * Records a file's content before the session first changes it. Later calls for the same file are ignored,
+ * so `originals` always holds the pre-session content.
+ *
+ * @param session The session to update.
+ * @param relativePath Path relative to the project root.
+ * @param content The current content, or null if the file does not exist yet.
+ * @returns True if this was the first change to the file.
+ */
+export function rememberOriginal(session: DevelopSession, relativePath: string, content: string | null): boolean {
+    const key = relativePath.split(path.sep).join('/');
+    if (Object.prototype.hasOwnProperty.call(session.originals, key)) {
+        return false;
+    }
+    session.originals[key] = content;
+    return true;
+}
+
+/**
+ * Restores every file the session changed to its pre-session content, deleting files the session created.
+ *
+ * @param projectRoot The project root.
+ * @param session The session to roll back.
+ * @returns The relative paths that could not be restored (empty on full success).
+ */
+export function restoreOriginals(projectRoot: string, session: DevelopSession): string[] {
+    const failures: string[] = [];
+    for (const [relativePath, content] of Object.entries(session.originals)) {
+        const absolutePath = path.resolve(projectRoot, relativePath);
+        if (content !== null) {
+            if (!writeOutputFile(absolutePath, content)) failures.push(relativePath);
+            continue;
+        }
+        if (getWriteMode() !== 'write') {
+            console.log(`${logPrefix} [${getWriteMode()}] Would delete ${relativePath}`);
+            continue;
+        }
+        try {
+            fs.rmSync(absolutePath, { force: true });
+            console.log(`${logPrefix} Deleted ${relativePath}`);
+        } catch (e) {
+            console.error(`${logPrefix} ❌ Could not delete ${relativePath}: ${e instanceof Error ? e.message : e}`);
+            failures.push(relativePath);
+        }
+    }
+    return failures;
+}
+
+/**
+ * Moves the session file into the session's attempts directory, so a new session can start while the
+ * unfinished one stays available for inspection. Used by `develop --keep-going` after a failed task.
+ *
+ * @returns The archived file's path relative to the project root, or null if there was no session file to move.
+ */
+export function archiveSession(projectRoot: string, session: DevelopSession): string | null {
+    const sessionPath = getSessionPath(projectRoot);
+    if (getWriteMode() !== 'write' || !fs.existsSync(sessionPath)) {
+        return null;
+    }
+    const archivedPath = path.join(projectRoot, session.attemptsDir, 'session.json');
+    fs.mkdirSync(path.dirname(archivedPath), { recursive: true });
+    fs.renameSync(sessionPath, archivedPath);
+    return path.relative(projectRoot, archivedPath);
+}
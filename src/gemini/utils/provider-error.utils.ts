@@ -0,0 +1,179 @@
+// src/gemini/utils/provider-error.utils.ts
+// Shared classification and logging for HTTP failures raised by LLM providers.
+
+import { AxiosError } from 'axios';
+import { Readable } from 'stream';
+import { LlmErrorCategory } from '@/gemini/types/llm-provider.type';
+import { readText } from '@/gemini/utils/stream.utils';
+
+/**
+ * Structured description of a failed provider call.
+ */
+export interface ProviderErrorInfo {
+    category: LlmErrorCategory;
+    /**
+     * Whether the same request may succeed if sent again (rate limits, server errors, timeouts, network resets).
+     */
+    retryable: boolean;
+    /**
+     * HTTP status code, when a response was received.
+     */
+    status?: number;
+    /**
+     * Server-requested delay before retrying (from `Retry-After` or Gemini's `RetryInfo`), in milliseconds.
+     */
+    retryAfterMs?: number;
+    message: string;
+}
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'EPIPE', 'EAI_AGAIN', 'ECONNREFUSED', 'ENETUNREACH']);
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+/** Error bodies are short; anything beyond this is not worth logging. */
+const MAX_ERROR_BODY_CHARS = 64 * 1024;
+
+/**
+ * Parses a `Retry-After` header value (delta-seconds or HTTP-date) into milliseconds.
+ *
+ * @param value The raw header value.
+ * @param now The current time in milliseconds (injectable for tests).
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+    const raw = String(value).trim();
+    if (/^\d+(\.\d+)?$/.test(raw)) {
+        return Math.round(parseFloat(raw) * 1000);
+    }
+    const date = Date.parse(raw);
+    if (!isNaN(date)) {
+        return Math.max(0, date - now);
+    }
+    return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Reads Gemini's `google.rpc.RetryInfo` detail (e.g., `"retryDelay": "30s"`) from an error body.
+ */
+function parseGeminiRetryDelay(data: unknown): number | undefined {
+    const error = isRecord(data) ? data.error : undefined;
+    const details: unknown[] = isRecord(error) && Array.isArray(error.details) ? error.details : [];
+    for (const detail of details) {
+        const match = isRecord(detail) && typeof detail.retryDelay === 'string' ? detail.retryDelay.match(/^(\d+(?:\.\d+)?)s$/) : null;
+        if (match) {
+            return Math.round(parseFloat(match[1]) * 1000);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Streaming requests (`responseType: 'stream'`) receive the body of an error response as an unread stream.
+ * Replaces it with the body text, parsed as JSON when possible, so that the error can be classified
+ * (e.g., Gemini's `RetryInfo`) and logged. Other errors are left untouched.
+ *
+ * @param error The error thrown by the provider.
+ */
+export async function readStreamedErrorBody(error: unknown): Promise<void> {
+    const response = (error as AxiosError | undefined)?.response;
+    if (!response || !(response.data instanceof Readable)) {
+        return;
+    }
+    let body = '';
+    try {
+        body = await readText(response.data, MAX_ERROR_BODY_CHARS);
+    } catch {
+        // The connection failed while reading the body; classify by status alone.
+    }
+    try {
+        response.data = JSON.parse(body);
+    } catch {
+        response.data = body;
+    }
+}
+
+/**
+ * Classifies an error thrown by an LLM provider.
+ *
+ * @param error The error thrown by the provider (usually an AxiosError).
+ * @returns The error category, whether it is retryable, and any server-requested retry delay.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorInfo {
+    const axiosError = error as AxiosError;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (axiosError?.response) {
+        const status = axiosError.response.status;
+        const headers: Record<string, unknown> = (axiosError.response.headers as Record<string, unknown>) ?? {};
+        const retryAfterMs = parseRetryAfter(headers['retry-after']) ?? parseGeminiRetryDelay(axiosError.response.data);
+
+        if (status === 429) return { category: 'rate_limit', retryable: true, status, retryAfterMs, message };
+        if (status === 408) return { category: 'timeout', retryable: true, status, retryAfterMs, message };
+        if (status >= 500) return { category: 'server', retryable: true, status, retryAfterMs, message };
+        if (status === 401 || status === 403) return { category: 'auth', retryable: false, status, message };
+        if (status === 404) return { category: 'not_found', retryable: false, status, message };
+        if (status >= 400) return { category: 'bad_request', retryable: false, status, message };
+        return { category: 'unknown', retryable: false, status, message };
+    }
+
+    const code = axiosError?.code;
+    if (code && TIMEOUT_CODES.has(code)) {
+        return { category: 'timeout', retryable: true, message };
+    }
+    if (code && RETRYABLE_NETWORK_CODES.has(code)) {
+        return { category: 'network', retryable: true, message };
+    }
+    if (axiosError?.request) {
+        return { category: 'network', retryable: false, message };
+    }
+    return { category: 'unknown', retryable: false, message };
+}
+
+/**
+ * Formats an error body for the log. Bodies that cannot be serialized (e.g., an unread response stream)
+ * are described instead.
+ */
+function formatErrorData(data: unknown): string {
+    if (data instanceof Readable) {
+        return '(streamed response body not read)';
+    }
+    try {
+        return JSON.stringify(data, null, 2);
+    } catch {
+        return String(data);
+    }
+}
+
+/**
+ * Logs an HTTP error raised while calling an LLM provider, with a short suggestion
+ * based on the status code or the failure mode (timeout, no response, setup error).
+ *
+ * @param logPrefix The log prefix of the caller (e.g., "[GeminiService]").
+ * @param providerLabel Human-readable provider name used in messages (e.g., "gemini").
+ * @param error The error thrown by axios.
+ * @param timeoutMs The request timeout, used to explain ECONNABORTED errors.
+ */
+export function logProviderHttpError(logPrefix: string, providerLabel: string, error: unknown, timeoutMs: number): void {
+    console.error(`${logPrefix} ❌ Error calling ${providerLabel}:`);
+    const axiosError = error as AxiosError;
+    if (axiosError.response) {
+        console.error(`  Status: ${axiosError.response.status}`);
+        console.error(`  Data: ${formatErrorData(axiosError.response.data)}`);
+        if (axiosError.response.status === 400) { console.error("  Suggestion: Check API key, request format, or prompt content (possible policy violation)."); }
+        else if (axiosError.response.status === 401 || axiosError.response.status === 403) { console.error("  Suggestion: Check the API key and its permissions for the configured model."); }
+        else if (axiosError.response.status === 404) { console.error("  Suggestion: Check the base URL and model name."); }
+        else if (axiosError.response.status === 429) { console.error("  Suggestion: Rate limit still exceeded after retries. Lower LLM_REQUESTS_PER_MINUTE or raise LLM_MAX_RETRIES."); }
+        else if (axiosError.response.status >= 500) { console.error(`  Suggestion: Server error on the ${providerLabel} side. Try again later.`); }
+    } else if (axiosError.request) {
+        console.error("  Request Error: No response received.", axiosError.code);
+        if (axiosError.code === 'ECONNABORTED') { console.error(`  Suggestion: Request timed out after ${timeoutMs / 1000} seconds.`); }
+        if (axiosError.code === 'ECONNREFUSED') { console.error(`  Suggestion: Is the ${providerLabel} server running and reachable?`); }
+    } else {
+        console.error('  Setup Error Message:', axiosError.message);
+    }
+}
@@ -0,0 +1,106 @@
+// src/gemini/utils/retry.utils.ts
+// Backoff and client-side rate limiting for LLM provider calls.
+
+const logPrefix = "[RateLimiter]";
+const WINDOW_MS = 60_000;
+
+/**
+ * Settings for retrying failed provider calls.
+ */
+export interface RetryOptions {
+    /**
+     * Number of retries after the first attempt (0 disables retrying).
+     */
+    maxRetries: number;
+    /**
+     * Delay before the first retry; doubled on each subsequent retry.
+     */
+    baseDelayMs: number;
+    /**
+     * Upper bound for the computed exponential delay.
+     */
+    maxDelayMs: number;
+    /**
+     * Longest server-requested delay (Retry-After) worth waiting for. A longer request usually means an exhausted
+     * quota, so the call fails instead of retrying.
+     */
+    maxServerDelayMs: number;
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Computes the delay before the next retry using exponential backoff with jitter.
+ * When the server asked for a specific delay (Retry-After), that delay is used instead,
+ * unless it exceeds `maxServerDelayMs`.
+ *
+ * @param retryNumber The 1-based retry number.
+ * @param options The retry settings.
+ * @param retryAfterMs Optional server-requested delay.
+ * @param random Random source in [0, 1) (injectable for tests).
+ * @returns The delay in milliseconds, or null if the server asked to wait longer than `maxServerDelayMs`.
+ */
+export function computeBackoffDelay(
+    retryNumber: number,
+    options: RetryOptions,
+    retryAfterMs?: number,
+    random: () => number = Math.random
+): number | null {
+    if (retryAfterMs !== undefined && retryAfterMs >= 0) {
+        return retryAfterMs <= options.maxServerDelayMs ? retryAfterMs : null;
+    }
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retryNumber - 1));
+    // "Equal jitter": keep half of the delay, randomize the other half to spread out concurrent retries.
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Sliding-window limiter allowing at most `requestsPerMinute` acquisitions in any 60 second window.
+ * Acquisitions are queued, so concurrent callers sharing one instance are served in order.
+ */
+export class RateLimiter {
+    private timestamps: number[] = [];
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param requestsPerMinute Maximum requests per minute. 0 (or less) disables limiting.
+     * @param now Clock (injectable for tests).
+     * @param wait Sleep function (injectable for tests).
+     */
+    constructor(
+        private readonly requestsPerMinute: number,
+        private readonly now: () => number = Date.now,
+        private readonly wait: (ms: number) => Promise<void> = sleep
+    ) { }
+
+    /**
+     * Waits until a request slot is available and claims it.
+     */
+    acquire(): Promise<void> {
+        const slot = this.queue.then(() => this.waitForSlot());
+        this.queue = slot.catch(() => undefined);
+        return slot;
+    }
+
+    private async waitForSlot(): Promise<void> {
+        if (!(this.requestsPerMinute > 0)) {
+            return;
+        }
+        for (;;) {
+            const currentTime = this.now();
+            this.timestamps = this.timestamps.filter(t => currentTime - t < WINDOW_MS);
+            if (this.timestamps.length < this.requestsPerMinute) {
+                this.timestamps.push(currentTime);
+                return;
+            }
+            const waitMs = WINDOW_MS - (currentTime - this.timestamps[0]);
+            console.log(`${logPrefix} Client-side limit of ${this.requestsPerMinute} requests/minute reached. Waiting ${(waitMs / 1000).toFixed(1)}s...`);
+            await this.wait(waitMs);
+        }
+    }
+}
@@ -0,0 +1,107 @@
+// src/gemini/utils/review-report.utils.ts
+// Parsing and formatting of structured review findings (JSON and SARIF output of the review command).
+
+import { ReviewFinding, ReviewReport, ReviewReportSchema } from '@/gemini/types/review.schema';
+
+const logPrefix = "[ReviewReport]";
+
+const TOOL_NAME = 'gemini-cli-tools';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Metadata stored alongside the findings in the JSON output, so reports can be compared over time.
+ */
+export interface ReviewReportMetadata {
+    targetPath: string;
+    mode: string;
+    generatedAt: string;
+}
+
+/**
+ * Parses and validates the model's structured review answer.
+ * Accepts the JSON object bare, wrapped in a ```json fence, or surrounded by stray prose.
+ *
+ * @param responseText The raw model response.
+ * @returns The validated report.
+ * @throws {Error} If no JSON object is found or it does not match `ReviewReportSchema`.
+ */
+export function parseReviewReport(responseText: string): ReviewReport {
+    const fenced = responseText.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+    const candidate = fenced ? fenced[1] : responseText;
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new Error(`${logPrefix} The model response does not contain a JSON object.`);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(candidate.slice(start, end + 1));
+    } catch (e) {
+        throw new Error(`${logPrefix} The model response is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+
+    const validationResult = ReviewReportSchema.safeParse(parsed);
+    if (!validationResult.success) {
+        const issues = validationResult.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        throw new Error(`${logPrefix} The model response does not match the findings schema: ${issues}`);
+    }
+    return validationResult.data;
+}
+
+/**
+ * Rewrites finding paths with the given function (e.g., to make them relative to the repository root).
+ */
+export function mapFindingPaths(report: ReviewReport, mapPath: (file: string) => string): ReviewReport {
+    return { ...report, findings: report.findings.map(finding => ({ ...finding, file: mapPath(finding.file) })) };
+}
+
+/**
+ * Serializes a report as the `--format json` output.
+ */
+export function formatReviewJson(report: ReviewReport, metadata: ReviewReportMetadata): string {
+    return JSON.stringify({ tool: TOOL_NAME, ...metadata, summary: report.summary, findings: report.findings }, null, 2);
+}
+
+/**
+ * Converts a report into a SARIF 2.1.0 log, suitable for code-scanning dashboards.
+ *
+ * @param report The validated report.
+ * @param toolVersion Optional version of the tool recorded in the log.
+ * @returns The SARIF log as a pretty-printed JSON string.
+ */
+export function formatReviewSarif(report: ReviewReport, toolVersion?: string): string {
+    const ruleIds = [...new Set(report.findings.map(finding => finding.rule))].sort();
+
+    const toResult = (finding: ReviewFinding) => ({
+        ruleId: finding.rule,
+        ruleIndex: ruleIds.indexOf(finding.rule),
+        level: finding.severity,
+        message: { text: finding.message },
+        locations: [{
+            physicalLocation: {
+                artifactLocation: { uri: finding.file.split('\\').join('/') },
+                region: {
+                    startLine: finding.line,
+                    ...(finding.endLine && finding.endLine >= finding.line ? { endLine: finding.endLine } : {}),
+                },
+            },
+        }],
+    });
+
+    const sarifLog = {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    ...(toolVersion ? { version: toolVersion } : {}),
+                    rules: ruleIds.map(id => ({ id, shortDescription: { text: id } })),
+                },
+            },
+            results: report.findings.map(toResult),
+        }],
+    };
+    return JSON.stringify(sarifLog, null, 2);
+}
@@ -0,0 +1,89 @@
+// src/gemini/utils/stream.utils.ts
+// Line-oriented readers for streamed LLM HTTP responses (server-sent events and NDJSON).
+
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Splits a byte/string stream into lines, buffering partial lines across chunks.
+ * Multi-byte UTF-8 characters split across chunks are decoded once complete.
+ *
+ * @param stream The response body (e.g., the Node Readable returned by axios with `responseType: 'stream'`).
+ * @returns An async iterator over complete lines (without the trailing newline).
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+            buffer = buffer.slice(newlineIndex + 1);
+        }
+    }
+    buffer += decoder.end();
+    if (buffer.length > 0) {
+        yield buffer.replace(/\r$/, '');
+    }
+}
+
+/**
+ * Reads a whole byte/string stream as UTF-8 text, stopping once `maxChars` characters have been read.
+ *
+ * @param stream The response body.
+ * @param maxChars Read limit; the stream is closed once it is reached.
+ * @returns The text read.
+ */
+export async function readText(stream: AsyncIterable<Buffer | string>, maxChars: number = Infinity): Promise<string> {
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    for await (const chunk of stream) {
+        text += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        if (text.length >= maxChars) {
+            return text.slice(0, maxChars);
+        }
+    }
+    return text + decoder.end();
+}
+
+/**
+ * Reads the `data:` payloads of a server-sent events stream, parsed as JSON.
+ * Multi-line data fields are joined; the OpenAI-style `[DONE]` sentinel ends the stream.
+ * The payloads are not validated: `T` describes what the caller expects and should keep its fields optional.
+ *
+ * @param stream The response body.
+ * @returns An async iterator over the parsed event payloads.
+ */
+export async function* readServerSentEvents<T = unknown>(stream: AsyncIterable<Buffer | string>): AsyncGenerator<T> {
+    let dataLines: string[] = [];
+    for await (const line of readLines(stream)) {
+        if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trimStart());
+            continue;
+        }
+        if (line === '' && dataLines.length > 0) {
+            const data = dataLines.join('\n');
+            dataLines = [];
+            if (data === '[DONE]') return;
+            yield JSON.parse(data) as T;
+        }
+    }
+    if (dataLines.length > 0 && dataLines.join('\n') !== '[DONE]') {
+        yield JSON.parse(dataLines.join('\n')) as T;
+    }
+}
+
+/**
+ * Reads a newline-delimited JSON stream (one JSON object per line), skipping blank lines.
+ * As with `readServerSentEvents`, `T` is not validated.
+ *
+ * @param stream The response body.
+ * @returns An async iterator over the parsed objects.
+ */
+export async function* readJsonLines<T = unknown>(stream: AsyncIterable<Buffer | string>): AsyncGenerator<T> {
+    for await (const line of readLines(stream)) {
+        if (line.trim()) {
+            yield JSON.parse(line) as T;
+        }
+    }
+}
@@ -42,6 +42,10 @@ export const EXCLUDE_PATTERNS: Set<string> = new Set([
   "public",
   "logs",
   "storage",
+
+  // Tool output (recorded LLM responses)
+  ".gemini-cassettes",
+  ".gemini-backups",
 ]);
 
 /**
@@ -10,16 +10,30 @@ import * as path from "path";
 const logPrefix = "[FileSystemHelper]";
 
 /**
- * Converts a simple wildcard pattern (e.g., "*.ts", "file.*") into a RegExp object.
- * This is a helper function to enable glob-like file matching for exclusions.
- * @param pattern The wildcard string.
- * @returns A RegExp object for matching against filenames.
+ * Converts a glob into an anchored RegExp: `*` matches within one path segment, `**` across segments,
+ * `?` one character. This is the one glob matcher of the tool, used for filename wildcards, `--pattern`
+ * and the file paths of roadmap tasks.
+ * @param pattern The glob, with forward slashes.
+ * @param ignoreCase Match case-insensitively (used for filenames).
+ * @returns A RegExp matching the whole path or name.
  */
-function wildcardToRegex(pattern: string): RegExp {
-    // Escape regex special characters, then convert wildcard '*' to '.*'
-    const escapedPattern = pattern.replace(/[-\/\\^$+.()|[\]{}]/g, '\\$&');
-    const regexPattern = escapedPattern.replace(/\*/g, '.*');
-    return new RegExp(`^${regexPattern}$`, 'i'); // Anchor to start/end and make case-insensitive
+export function globToRegExp(pattern: string, ignoreCase: boolean = false): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const crossesSegment = pattern[i + 2] === '/';
+            source += crossesSegment ? '(?:.*/)?' : '.*';
+            i += crossesSegment ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
 }
 
 
@@ -48,7 +62,7 @@ export async function getAllFiles(
     excludeFilenames: Set<string>,
     excludeWildcards: Set<string>
 ): Promise<string[]> {
-    const wildcardRegexes = Array.from(excludeWildcards).map(wildcardToRegex);
+    const wildcardRegexes = Array.from(excludeWildcards).map(pattern => globToRegExp(pattern, true));
     let results: string[] = [];
     try {
         const list = await fs.readdir(dir); // Read the contents of the directory
@@ -1,6 +1,8 @@
 // File: src/shared/types/app.type.ts
 
 import { ENHANCEMENT_TYPES } from '../../gemini/types/enhancement.type';
+import { ReviewOutputFormat } from '../../gemini/types/review.schema';
+import { RoadmapAction, RoadmapGraphFormat } from '../../gemini/types/roadmap.type';
 
 /**
  * Represents the unified command-line arguments passed to the application,
@@ -36,6 +38,7 @@ export interface CliArguments {
     withPathComments?: boolean;
     stripComments?: boolean; // New flag for stripped-down consolidations
     minify?: boolean; // New flag for extreme LLM-density consolidations
+    skeleton?: boolean; // Signatures-only consolidations (see `toSignatureSkeleton`)
 
     /**
      * Optional name for the generated interface.
@@ -44,8 +47,8 @@ export interface CliArguments {
     interfaceName?: string;
 
     /**
-     * Path for the output Markdown file.
-     * Used by `GenerateStructureDoc` and `AnalyzeArchitecture`.
+     * Path for the output file.
+     * Used by `document` (Markdown), `review` (report in the selected `format`), `roadmap graph` (rendered graph) and `run-k6` (summary directory).
      */
     output?: string;
 
@@ -67,12 +70,227 @@ export interface CliArguments {
      */
     exclude?: string;
 
+    /**
+     * Output format: the review report ('markdown', 'json' or 'sarif') or the roadmap graph ('mermaid' or 'dot').
+     * Used by the `review` and `roadmap graph` commands.
+     */
+    format?: ReviewOutputFormat | RoadmapGraphFormat;
+
+    /**
+     * Git base for a diff-scoped review: a ref (working tree vs ref), a range (`a..b`), `staged` or `worktree`.
+     * Used by the `review` command.
+     */
+    diff?: string;
+
+    /**
+     * Flag to stream the LLM response as it arrives (default true; `--no-stream` disables it).
+     * Used by the `review` and `document` commands.
+     */
+    stream?: boolean;
+
     /**
      * Optional testing framework hint.
      * Used by the `GenerateTests` command.
      */
     framework?: string;
 
+    /**
+     * Format of the raw k6 summary export written to the output directory.
+     * Used by the `run-k6` command.
+     */
+    summaryFormat?: 'json' | 'csv';
+
+    /**
+     * Optional path for the generated k6 HTML report.
+     * Used by the `run-k6` command.
+     */
+    htmlReport?: string;
+
+    /**
+     * Optional path for the aggregated per-test summary CSV (requires `summaryFormat: 'csv'`).
+     * Used by the `run-k6` command.
+     */
+    summaryCsv?: string;
+
+    /**
+     * Flag to start the local mock server for the duration of the k6 run.
+     * Used by the `run-k6` command.
+     */
+    mock?: boolean;
+
+    /**
+     * Flag to approve every confirmation prompt automatically (needed for non-interactive runs).
+     * Used by the `develop` command.
+     */
+    yes?: boolean;
+
+    /**
+     * Shell command that runs the generated tests; test file paths are appended or replace `{files}`.
+     * Used by the `develop` command. Defaults to `npx jest`.
+     */
+    testCommand?: string;
+
+    /**
+     * Maximum number of self-healing fix iterations after the implementation when tests still fail (0 disables).
+     * Used by the `develop` command (defaults to 3) and, for repairs of tests that fail `--validate`, by the `generate-tests` command (defaults to 2).
+     */
+    maxIterations?: number;
+
+    /**
+     * Flag to type-check (`tsc --noEmit`) and lint (ESLint) the written files and feed the errors back to the model.
+     * Used by the `develop` and `generate-tests` commands.
+     */
+    validate?: boolean;
+
+    /**
+     * How many levels of project imports are followed to add signatures-only context (0 disables it).
+     * Used by the `develop` and `generate-tests` commands.
+     */
+    contextDepth?: number;
+
+    /**
+     * Byte budget for the signatures-only context of imported project files.
+     * Used by the `develop` and `generate-tests` commands.
+     */
+    contextBudget?: number;
+
+    /**
+     * Flag to continue the unfinished develop session (`.gemini-develop/session.json`) from its last completed phase.
+     * Used by the `develop` command.
+     */
+    resume?: boolean;
+
+    /**
+     * Flag to discard the unfinished develop session, restoring every file it changed.
+     * Used by the `develop` command.
+     */
+    abort?: boolean;
+
+    /**
+     * The subcommand to run (e.g., 'graph').
+     * Used by the `roadmap` command.
+     */
+    action?: RoadmapAction;
+
+    /**
+     * ID or feature name of a roadmap item.
+     * Used by the `roadmap show` and `roadmap set-status` commands.
+     */
+    item?: string;
+
+    /**
+     * Roadmap status: the new status for `set-status` and `add`, or the filter for `list`.
+     * Used by the `roadmap` command.
+     */
+    status?: string;
+
+    /**
+     * Fields of a new roadmap item. `description` is required; file lists are comma-separated.
+     * Used by the `roadmap add` command.
+     */
+    id?: string;
+    feature?: string;
+    description?: string;
+    priority?: string;
+    /**
+     * Epic of a new roadmap item, or the epic whose tasks to develop in batch mode.
+     * Used by the `roadmap add` and `develop` commands.
+     */
+    epic?: string;
+    /**
+     * Milestone of a new roadmap item, or the milestone/version whose tasks to develop in batch mode.
+     * Used by the `roadmap add` and `develop` commands.
+     */
+    milestone?: string;
+    responsibleFiles?: string;
+    testFiles?: string;
+    dependencies?: string;
+
+    /**
+     * Flag to develop every actionable task, one after another.
+     * Used by the `develop` command.
+     */
+    all?: boolean;
+
+    /**
+     * Maximum number of tasks to develop in one run.
+     * Used by the `develop` command.
+     */
+    count?: number;
+
+    /**
+     * Flag to continue a batch with the next task after a task fails.
+     * Used by the `develop` command.
+     */
+    keepGoing?: boolean;
+
+    /**
+     * Flag to develop each task on its own branch, committing the Red (tests) and Green (implementation) phases.
+     * Used by the `develop` command.
+     */
+    git?: boolean;
+
+    /**
+     * Flag to delete a task's branch and return to the base branch when the task fails (requires `git`).
+     * Used by the `develop` command.
+     */
+    gitRollback?: boolean;
+
+    /**
+     * Flag to ask the model for SEARCH/REPLACE edit blocks instead of complete files when implementing and fixing code.
+     * Used by the `develop` command.
+     */
+    editBlocks?: boolean;
+
+    /**
+     * Global flag: record every LLM prompt/response pair to the cassette directory.
+     */
+    record?: boolean;
+
+    /**
+     * Global flag: serve LLM responses from the cassette directory without network access.
+     */
+    replay?: boolean;
+
+    /**
+     * Global flag: print a unified diff of every proposed file write instead of writing to disk.
+     */
+    dryRun?: boolean;
+
+    /**
+     * Global option: write every proposed file change to this git-applyable patch file instead of to disk.
+     */
+    patch?: string;
+
+    /**
+     * Global option: append every allowed and denied file write to this JSON Lines audit log.
+     */
+    auditLog?: string;
+
+    /**
+     * ID of a recorded run (as listed by `history`).
+     * Used by the `undo` command. Defaults to the most recent run that has not been undone.
+     */
+    runId?: string;
+
+    /**
+     * Flag to proceed despite a safety check.
+     * Used by the `init` command (non-empty directory) and the `undo` command (files changed since the run, or a run already undone).
+     */
+    force?: boolean;
+
+    /**
+     * Maximum number of runs to list.
+     * Used by the `history` command.
+     */
+    limit?: number;
+
+    /**
+     * Project root whose backup store (`.gemini-backups/`) is used. Defaults to the current directory.
+     * Used by the `undo` and `history` commands.
+     */
+    project?: string;
+
     // --- Standard yargs properties ---
     [key: string]: unknown;
     _: (string | number)[];
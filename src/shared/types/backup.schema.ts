@@ -0,0 +1,43 @@
+// File: src/shared/types/backup.schema.ts
+
+import { z } from "zod";
+
+/**
+ * Defines the schema for one file changed during a run.
+ */
+export const BackupFileSchema = z.object({
+  /** Path of the file, relative to the directory the run was started from. */
+  path: z.string().min(1),
+  /** Name of the snapshot of the previous content in the run's directory, or null if the run created the file. */
+  snapshot: z.string().nullable(),
+  /** SHA-256 of the content the run last wrote, or null if the run deleted the file. Used to detect later edits. */
+  writtenHash: z.string().nullable(),
+});
+
+/**
+ * Defines the schema for `<backup dir>/<runId>/run.json`, the manifest of one run's backups.
+ */
+export const BackupRunSchema = z.object({
+  version: z.literal(1),
+  runId: z.string().min(1),
+  /** The command that made the changes, e.g. "Develop". */
+  command: z.string(),
+  /** The full command line, for display. */
+  commandLine: z.string(),
+  /** Absolute path of the directory the run was started from; file paths are relative to it. */
+  cwd: z.string(),
+  startedAt: z.string(),
+  /** When the run was restored by `undo`; absent until then. */
+  undoneAt: z.string().optional(),
+  files: z.array(BackupFileSchema).default([]),
+});
+
+/**
+ * The TypeScript type for one backed-up file, inferred from the Zod schema.
+ */
+export type BackupFile = z.infer<typeof BackupFileSchema>;
+
+/**
+ * The TypeScript type for a run manifest, inferred from the Zod schema.
+ */
+export type BackupRun = z.infer<typeof BackupRunSchema>;
@@ -0,0 +1,52 @@
+// File: src/shared/types/file-response.schema.ts
+
+import { z } from "zod";
+
+/**
+ * The version of the structured multi-file response protocol that prompts ask for and the parser understands.
+ */
+export const FILE_RESPONSE_VERSION = 1;
+
+/**
+ * What to do with a file. 'create' and 'modify' carry the complete new content; 'delete' carries none.
+ */
+export const FileActionSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? val.toLowerCase() : val),
+  z.enum(["create", "modify", "delete"])
+);
+
+/**
+ * Defines the schema for one file in a structured multi-file response.
+ */
+export const FileResponseEntrySchema = z.object({
+  /** Path of the file, relative to the project root. */
+  path: z.string().trim().min(1),
+  /** What to do with the file. */
+  action: FileActionSchema,
+  /** The complete file content. Required unless the action is 'delete'. */
+  content: z.string().optional(),
+}).superRefine((entry, ctx) => {
+  if (entry.action !== 'delete' && entry.content === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['content'], message: `Required for action '${entry.action}'` });
+  }
+});
+
+/**
+ * Defines the envelope of a structured multi-file response: `{ "version": 1, "files": [...] }`.
+ * Entries are validated one by one (see `FileResponseEntrySchema`), so one bad entry does not discard the others.
+ */
+export const FileResponseSchema = z.object({
+  /** Protocol version. Models sometimes send numbers as strings, so the value is coerced. */
+  version: z.coerce.number().int().optional(),
+  files: z.array(z.unknown()),
+});
+
+/**
+ * The TypeScript type for a file action, inferred from the Zod schema.
+ */
+export type FileAction = z.infer<typeof FileActionSchema>;
+
+/**
+ * The TypeScript type for one file of a structured response, inferred from the Zod schema.
+ */
+export type FileResponseEntry = z.infer<typeof FileResponseEntrySchema>;
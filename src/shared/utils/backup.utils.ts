@@ -0,0 +1,208 @@
+// src/shared/utils/backup.utils.ts
+// Per-run backups of every file a command overwrites or deletes, restored by `undo` and listed by `history`.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BackupFile, BackupRun, BackupRunSchema } from '@shared/types/backup.schema';
+
+const logPrefix = "[Backup]";
+
+/**
+ * Default backup directory, relative to the project root (see `setBackupRoot`).
+ */
+export const BACKUP_DIR = '.gemini-backups';
+
+const MANIFEST_FILE = 'run.json';
+const SNAPSHOT_DIR = 'files';
+
+let configuredDirectory: string | null = null;
+let backupDirectory: string | null = null;
+let activeRun: BackupRun | null = null;
+
+/**
+ * Sets the directory runs are stored in, or disables backups (null, the default). Ends any active run.
+ *
+ * @param directory The backup directory; a relative path is relative to `projectRoot`.
+ * @param projectRoot The project root (default: the working directory).
+ */
+export function configureBackups(directory: string | null, projectRoot: string = process.cwd()): void {
+    configuredDirectory = directory;
+    backupDirectory = directory ? path.resolve(projectRoot, directory) : null;
+    activeRun = null;
+}
+
+/**
+ * Moves a relative backup directory to another project root, for commands that work on a project other than the
+ * working directory (e.g., `develop ../app`). Must be called before the active run changes any file.
+ *
+ * @throws {Error} If the active run has already stored backups.
+ */
+export function setBackupRoot(projectRoot: string): void {
+    if (!configuredDirectory) {
+        return;
+    }
+    if (activeRun && activeRun.files.length > 0) {
+        throw new Error(`${logPrefix} The backup directory cannot be moved after the run has changed files.`);
+    }
+    backupDirectory = path.resolve(projectRoot, configuredDirectory);
+    if (activeRun) {
+        activeRun.runId = unusedRunId(backupDirectory, activeRun.startedAt.replace(/[:.]/g, '-'));
+    }
+}
+
+/**
+ * Returns the configured backup directory, or null if backups are disabled.
+ */
+export function getBackupDirectory(): string | null {
+    return backupDirectory;
+}
+
+/**
+ * SHA-256 of a file's content, as stored in `BackupFile.writtenHash`.
+ */
+export function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function requireBackupDirectory(): string {
+    if (!backupDirectory) {
+        throw new Error(`${logPrefix} Backups are not configured.`);
+    }
+    return backupDirectory;
+}
+
+function saveManifest(run: BackupRun): void {
+    const runDirectory = path.join(requireBackupDirectory(), run.runId);
+    fs.mkdirSync(runDirectory, { recursive: true });
+    fs.writeFileSync(path.join(runDirectory, MANIFEST_FILE), `${JSON.stringify(run, null, 2)}\n`, 'utf8');
+}
+
+function unusedRunId(directory: string, base: string): string {
+    let runId = base;
+    for (let suffix = 2; fs.existsSync(path.join(directory, runId)); suffix++) {
+        runId = `${base}-${suffix}`;
+    }
+    return runId;
+}
+
+/**
+ * Starts recording backups for a command run. Nothing is stored until the run first changes a file.
+ * Does nothing while backups are disabled.
+ *
+ * @param command The command being run, e.g. "Develop".
+ * @param commandLine The full command line, for `history`.
+ */
+export function startBackupRun(command: string, commandLine: string): void {
+    if (!backupDirectory) {
+        return;
+    }
+    const startedAt = new Date().toISOString();
+    const runId = unusedRunId(backupDirectory, startedAt.replace(/[:.]/g, '-'));
+    activeRun = { version: 1, runId, command, commandLine, cwd: process.cwd(), startedAt, files: [] };
+}
+
+/**
+ * Ends the active run.
+ *
+ * @returns The run, or null if there was none or it changed no files.
+ */
+export function finishBackupRun(): BackupRun | null {
+    const run = activeRun;
+    activeRun = null;
+    return run && run.files.length > 0 ? run : null;
+}
+
+/**
+ * Snapshots a file before the active run first changes it, and records what the run writes. Called by file-io
+ * before every write and deletion; does nothing outside a run.
+ *
+ * @param absolutePath The file about to be written or deleted.
+ * @param newContent The content about to be written, or null for a deletion.
+ * @throws {Error} If the snapshot or the manifest cannot be written.
+ */
+export function backupBeforeWrite(absolutePath: string, newContent: string | null): void {
+    if (!activeRun) {
+        return;
+    }
+    const relativePath = path.relative(activeRun.cwd, path.resolve(absolutePath)).split(path.sep).join('/');
+    let entry = activeRun.files.find(file => file.path === relativePath);
+    try {
+        if (!entry) {
+            let snapshot: string | null = null;
+            if (fs.existsSync(absolutePath)) {
+                snapshot = path.posix.join(SNAPSHOT_DIR, `${activeRun.files.length + 1}-${path.basename(absolutePath)}`);
+                const snapshotPath = path.join(requireBackupDirectory(), activeRun.runId, snapshot);
+                fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+                fs.copyFileSync(absolutePath, snapshotPath);
+            }
+            entry = { path: relativePath, snapshot, writtenHash: null };
+            activeRun.files.push(entry);
+        }
+        entry.writtenHash = newContent === null ? null : hashContent(newContent);
+        saveManifest(activeRun);
+    } catch (e) {
+        throw new Error(`${logPrefix} Could not back up ${relativePath}: ${e instanceof Error ? e.message : e}`);
+    }
+}
+
+/**
+ * Lists the stored runs, newest first. Directories without a valid manifest are skipped with a warning.
+ */
+export function listBackupRuns(): BackupRun[] {
+    const directory = requireBackupDirectory();
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+    const runs: BackupRun[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        try {
+            runs.push(loadBackupRun(entry.name));
+        } catch (e) {
+            console.warn(`${logPrefix} ⚠️ Skipping ${entry.name}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt) || b.runId.localeCompare(a.runId));
+}
+
+/**
+ * Loads one run's manifest.
+ *
+ * @throws {Error} If the run does not exist or its manifest is invalid.
+ */
+export function loadBackupRun(runId: string): BackupRun {
+    const manifestPath = path.join(requireBackupDirectory(), path.basename(runId), MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+        throw new Error(`${logPrefix} No backup run '${runId}'.`);
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch (e) {
+        throw new Error(`${logPrefix} ${manifestPath} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    const validationResult = BackupRunSchema.safeParse(parsed);
+    if (!validationResult.success) {
+        const issues = validationResult.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        throw new Error(`${logPrefix} ${manifestPath} is not a valid backup manifest: ${issues}`);
+    }
+    return validationResult.data;
+}
+
+/**
+ * Reads the content a file had before the run changed it.
+ *
+ * @returns The content, or null if the run created the file.
+ */
+export function readSnapshot(run: BackupRun, file: BackupFile): string | null {
+    return file.snapshot === null ? null : fs.readFileSync(path.join(requireBackupDirectory(), run.runId, file.snapshot), 'utf8');
+}
+
+/**
+ * Records that a run was restored, so `undo` without a run ID moves on to the previous run.
+ */
+export function markRunUndone(run: BackupRun): void {
+    run.undoneAt = new Date().toISOString();
+    saveManifest(run);
+}
@@ -0,0 +1,246 @@
+// File: src/shared/utils/code-validation.utils.ts
+
+import fs from 'fs';
+import path from 'path';
+import { buildTestCommand, runTestCommand, summarizeTestOutput } from './test-runner.utils';
+
+const logPrefix = "[Validation]";
+
+export type ValidationTool = 'tsc' | 'eslint';
+
+/**
+ * One problem reported by the type checker or the linter.
+ */
+export interface ValidationDiagnostic {
+    tool: ValidationTool;
+    /** Path relative to the project root, with forward slashes. */
+    file: string;
+    line: number;
+    column: number;
+    severity: 'error' | 'warning';
+    /** The TypeScript error code (e.g. "TS2307") or the ESLint rule ID. */
+    code?: string;
+    message: string;
+}
+
+/**
+ * The outcome of one tool. 'skipped' means the tool is not configured or could not run, so it says nothing about the code.
+ */
+export interface ValidationCheck {
+    tool: ValidationTool;
+    status: 'passed' | 'failed' | 'skipped';
+    command?: string;
+    /** Why the check was skipped, how many diagnostics outside the validated files were ignored, or which files tsc did not check. */
+    note?: string;
+}
+
+export interface ValidationResult {
+    /** False if any check reported an error in a validated file. Warnings do not fail validation. */
+    passed: boolean;
+    checks: ValidationCheck[];
+    /** Diagnostics in the validated files. */
+    diagnostics: ValidationDiagnostic[];
+}
+
+// --listFiles prints the program's files after the diagnostics, so files outside the tsconfig.json program can be told apart.
+const TSC_COMMAND = 'npx --no-install tsc --noEmit --pretty false --listFiles -p tsconfig.json';
+const ESLINT_COMMAND = 'npx --no-install eslint --format json';
+
+const ESLINT_CONFIG_FILES = [
+    'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+    '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml',
+];
+const LINTABLE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const TYPE_CHECKED_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts']);
+
+// e.g. "src/a.ts(3,5): error TS2307: Cannot find module './b'."
+const TSC_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+
+function toProjectPath(projectRoot: string, filePath: string): string {
+    return path.relative(projectRoot, path.resolve(projectRoot, filePath)).split(path.sep).join('/');
+}
+
+/**
+ * Parses `tsc --pretty false` output. Indented continuation lines are appended to the message they belong to.
+ *
+ * @param output The compiler output.
+ * @param projectRoot The directory tsc ran in; file paths are made relative to it.
+ */
+export function parseTscOutput(output: string, projectRoot: string): ValidationDiagnostic[] {
+    const diagnostics: ValidationDiagnostic[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(TSC_DIAGNOSTIC);
+        if (match) {
+            const [, file, lineNumber, column, severity, code, message] = match;
+            diagnostics.push({
+                tool: 'tsc',
+                file: toProjectPath(projectRoot, file),
+                line: Number(lineNumber),
+                column: Number(column),
+                severity: severity as ValidationDiagnostic['severity'],
+                code,
+                message,
+            });
+        } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+            diagnostics[diagnostics.length - 1].message += `\n${line.trimEnd()}`;
+        }
+    }
+    return diagnostics;
+}
+
+/**
+ * Parses `eslint --format json` output.
+ *
+ * @returns The diagnostics, or null if the output contains no ESLint JSON report.
+ */
+export function parseEslintOutput(output: string, projectRoot: string): ValidationDiagnostic[] | null {
+    const start = output.indexOf('[');
+    const end = output.lastIndexOf(']');
+    if (start === -1 || end < start) {
+        return null;
+    }
+    let results: unknown;
+    try {
+        results = JSON.parse(output.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(results)) {
+        return null;
+    }
+    return results.flatMap((result: { filePath?: string; messages?: { ruleId?: string | null; severity?: number; message?: string; line?: number; column?: number }[] }) =>
+        (result.messages ?? []).map(message => ({
+            tool: 'eslint' as const,
+            file: toProjectPath(projectRoot, result.filePath ?? ''),
+            line: message.line ?? 0,
+            column: message.column ?? 0,
+            severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+            code: message.ruleId ?? undefined,
+            message: message.message ?? '',
+        }))
+    );
+}
+
+/**
+ * Finds the validated TypeScript files that are not part of the program `tsc --listFiles` printed, e.g. tests outside
+ * the tsconfig.json `include`. tsc reports nothing for those files, which must not count as a pass.
+ *
+ * @returns The files outside the program, or an empty list if the output lists no files.
+ */
+function findFilesOutsideProgram(output: string, projectRoot: string, files: string[]): string[] {
+    const listed = output.split(/\r?\n/).map(line => line.trim()).filter(line => path.isAbsolute(line) && !TSC_DIAGNOSTIC.test(line));
+    if (listed.length === 0) {
+        return [];
+    }
+    // tsc prints real paths.
+    const realRoot = fs.realpathSync(projectRoot);
+    const program = new Set(listed.map(file => toProjectPath(realRoot, file)));
+    return files.filter(file => !program.has(toProjectPath(realRoot, fs.realpathSync(path.join(projectRoot, file)))));
+}
+
+function hasEslintConfig(projectRoot: string): boolean {
+    if (ESLINT_CONFIG_FILES.some(file => fs.existsSync(path.join(projectRoot, file)))) {
+        return true;
+    }
+    try {
+        return !!JSON.parse(fs.readFileSync(path.join(projectRoot, 'package.json'), 'utf8')).eslintConfig;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Type-checks the whole project with its own tsconfig.json and keeps the diagnostics of the validated files,
+ * so existing errors elsewhere in the project do not fail the check. Validated files the tsconfig.json does not
+ * include are not checked and are named in the note; if no validated file is included, the check is skipped.
+ */
+async function runTypeCheck(projectRoot: string, files: Set<string>): Promise<{ check: ValidationCheck; diagnostics: ValidationDiagnostic[] }> {
+    if (!fs.existsSync(path.join(projectRoot, 'tsconfig.json'))) {
+        return { check: { tool: 'tsc', status: 'skipped', note: 'no tsconfig.json in the project root' }, diagnostics: [] };
+    }
+    const result = await runTestCommand(TSC_COMMAND, projectRoot, { echo: false });
+    const all = parseTscOutput(result.output, projectRoot);
+    if (result.status === 'error' || (result.status === 'failed' && all.length === 0)) {
+        return { check: { tool: 'tsc', status: 'skipped', command: TSC_COMMAND, note: `tsc did not run: ${summarizeTestOutput(result.output, 300)}` }, diagnostics: [] };
+    }
+    const typeChecked = [...files].filter(file => TYPE_CHECKED_EXTENSIONS.has(path.extname(file)) && fs.existsSync(path.join(projectRoot, file)));
+    const outsideProgram = findFilesOutsideProgram(result.output, projectRoot, typeChecked);
+    const outsideNote = `not included by tsconfig.json, so not type-checked: ${outsideProgram.join(', ')}`;
+    if (outsideProgram.length > 0 && outsideProgram.length === typeChecked.length) {
+        return { check: { tool: 'tsc', status: 'skipped', command: TSC_COMMAND, note: outsideNote }, diagnostics: [] };
+    }
+    const diagnostics = all.filter(diagnostic => files.has(diagnostic.file));
+    const ignored = all.length - diagnostics.length;
+    const notes = [
+        ...(ignored > 0 ? [`${ignored} diagnostic(s) in other files ignored`] : []),
+        ...(outsideProgram.length > 0 ? [outsideNote] : []),
+    ];
+    return {
+        check: {
+            tool: 'tsc',
+            status: diagnostics.some(diagnostic => diagnostic.severity === 'error') ? 'failed' : 'passed',
+            command: TSC_COMMAND,
+            note: notes.length > 0 ? notes.join('; ') : undefined,
+        },
+        diagnostics,
+    };
+}
+
+/**
+ * Lints the validated JavaScript/TypeScript files with the project's ESLint configuration.
+ */
+async function runLint(projectRoot: string, files: string[]): Promise<{ check: ValidationCheck; diagnostics: ValidationDiagnostic[] }> {
+    const lintable = files.filter(file => LINTABLE_EXTENSIONS.has(path.extname(file)) && fs.existsSync(path.join(projectRoot, file)));
+    if (lintable.length === 0) {
+        return { check: { tool: 'eslint', status: 'skipped', note: 'no lintable files' }, diagnostics: [] };
+    }
+    if (!hasEslintConfig(projectRoot)) {
+        return { check: { tool: 'eslint', status: 'skipped', note: 'no ESLint configuration in the project root' }, diagnostics: [] };
+    }
+    const command = buildTestCommand(ESLINT_COMMAND, lintable);
+    const result = await runTestCommand(command, projectRoot, { echo: false });
+    // Exit code 2 means ESLint itself failed (e.g. an invalid configuration).
+    const diagnostics = result.status === 'error' || result.exitCode === 2 ? null : parseEslintOutput(result.output, projectRoot);
+    if (diagnostics === null) {
+        return { check: { tool: 'eslint', status: 'skipped', command, note: `eslint did not run: ${summarizeTestOutput(result.output, 300)}` }, diagnostics: [] };
+    }
+    return {
+        check: { tool: 'eslint', status: diagnostics.some(diagnostic => diagnostic.severity === 'error') ? 'failed' : 'passed', command },
+        diagnostics,
+    };
+}
+
+/**
+ * Formats diagnostics one per line, e.g. `src/a.ts:3:5 - error TS2307 (tsc): Cannot find module './b'.`
+ */
+export function formatValidationDiagnostics(diagnostics: ValidationDiagnostic[]): string {
+    return diagnostics
+        .map(diagnostic => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.severity}${diagnostic.code ? ` ${diagnostic.code}` : ''} (${diagnostic.tool}): ${diagnostic.message}`)
+        .join('\n');
+}
+
+/**
+ * Validates written files: type-checks the project (`tsc --noEmit` with its tsconfig.json) and lints the files with ESLint.
+ * Each tool is skipped when the project does not configure it or it is not installed. Only diagnostics in the given
+ * files count.
+ *
+ * @param projectRoot The project root (where tsconfig.json and the ESLint configuration live).
+ * @param files The files to validate, relative to the project root.
+ * @returns The checks and the diagnostics in the given files; never rejects.
+ */
+export async function validateFiles(projectRoot: string, files: string[]): Promise<ValidationResult> {
+    const projectFiles = [...new Set(files.map(file => toProjectPath(projectRoot, file)))];
+    console.log(`${logPrefix} Validating ${projectFiles.length} file(s): ${projectFiles.join(', ')}`);
+
+    const results = [await runTypeCheck(projectRoot, new Set(projectFiles)), await runLint(projectRoot, projectFiles)];
+    const checks = results.map(result => result.check);
+    const diagnostics = results.flatMap(result => result.diagnostics);
+    for (const check of checks) {
+        const icon = check.status === 'passed' ? '✅' : check.status === 'failed' ? '❌' : '⚠️';
+        console.log(`${logPrefix} ${icon} ${check.tool}: ${check.status}${check.note ? ` (${check.note})` : ''}`);
+    }
+    if (diagnostics.length > 0) {
+        console.log(formatValidationDiagnostics(diagnostics));
+    }
+    return { passed: checks.every(check => check.status !== 'failed'), checks, diagnostics };
+}
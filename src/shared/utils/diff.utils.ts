@@ -0,0 +1,170 @@
+// File: src/shared/utils/diff.utils.ts
+
+/**
+ * Number of unchanged lines shown around each change, as in `git diff`.
+ */
+const DEFAULT_CONTEXT_LINES = 3;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * A single line-level edit: kept (' '), removed ('-') or added ('+').
+ * Lines keep their trailing '\n' (the last line of a file may have none).
+ */
+interface LineEdit {
+    op: ' ' | '-' | '+';
+    line: string;
+}
+
+/**
+ * Splits text into lines, keeping each line's '\n' so a missing final newline is a real difference.
+ */
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Computes a minimal line edit script with the Myers O(ND) algorithm,
+ * after trimming the common prefix and suffix (which keeps typical edits cheap).
+ */
+function diffLines(oldLines: string[], newLines: string[]): LineEdit[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) suffix++;
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    const trace: number[][] = [];
+
+    outer:
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice());
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) break outer;
+        }
+    }
+
+    // Backtrack through the recorded V arrays to recover the edit script.
+    const middle: LineEdit[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const vd = trace[d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])) ? k + 1 : k - 1;
+        const prevX = vd[offset + prevK];
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) { middle.push({ op: ' ', line: a[--x] }); y--; }
+        if (x === prevX) middle.push({ op: '+', line: b[--y] });
+        else middle.push({ op: '-', line: a[--x] });
+    }
+    while (x > 0 && y > 0) { middle.push({ op: ' ', line: a[--x] }); y--; }
+    middle.reverse();
+
+    return [
+        ...oldLines.slice(0, prefix).map(line => ({ op: ' ' as const, line })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(line => ({ op: ' ' as const, line })),
+    ];
+}
+
+function formatEditLine(edit: LineEdit): string {
+    return edit.line.endsWith('\n')
+        ? `${edit.op}${edit.line.slice(0, -1)}`
+        : `${edit.op}${edit.line}\n${NO_NEWLINE_MARKER}`;
+}
+
+/**
+ * Creates a git-style unified diff for one file, suitable for `git apply`.
+ *
+ * @param filePath Path written in the diff headers (relative, forward slashes).
+ * @param oldContent Current content, or null if the file does not exist yet.
+ * @param newContent Proposed content, or null if the file is deleted.
+ * @param contextLines Unchanged lines shown around each change.
+ * @returns The diff text (ending with a newline), or an empty string if nothing changes.
+ */
+export function createUnifiedDiff(filePath: string, oldContent: string | null, newContent: string | null, contextLines: number = DEFAULT_CONTEXT_LINES): string {
+    if (oldContent === newContent) {
+        return '';
+    }
+    const edits = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+
+    const header = [`diff --git a/${filePath} b/${filePath}`];
+    if (oldContent === null) {
+        header.push('new file mode 100644', '--- /dev/null');
+    } else if (newContent === null) {
+        header.push('deleted file mode 100644', `--- a/${filePath}`);
+    } else {
+        header.push(`--- a/${filePath}`);
+    }
+    header.push(newContent === null ? '+++ /dev/null' : `+++ b/${filePath}`);
+
+    // Group changed edits (with their context) into hunks.
+    const hunks: string[] = [];
+    let i = 0;
+    let oldLine = 1;
+    let newLine = 1;
+    const positions = edits.map(edit => {
+        const position = { oldLine, newLine };
+        if (edit.op !== '+') oldLine++;
+        if (edit.op !== '-') newLine++;
+        return position;
+    });
+
+    while (i < edits.length) {
+        if (edits[i].op === ' ') { i++; continue; }
+        const start = Math.max(0, i - contextLines);
+        let end = i;
+        // Extend the hunk while the next change is within 2 * context lines.
+        while (end < edits.length) {
+            if (edits[end].op !== ' ') { end++; continue; }
+            let next = end;
+            while (next < edits.length && edits[next].op === ' ') next++;
+            if (next < edits.length && next - end <= 2 * contextLines) { end = next; continue; }
+            end = Math.min(edits.length, end + contextLines);
+            break;
+        }
+
+        const slice = edits.slice(start, end);
+        const oldCount = slice.filter(edit => edit.op !== '+').length;
+        const newCount = slice.filter(edit => edit.op !== '-').length;
+        const oldStart = oldCount === 0 ? positions[start].oldLine - 1 : positions[start].oldLine;
+        const newStart = newCount === 0 ? positions[start].newLine - 1 : positions[start].newLine;
+        hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...slice.map(formatEditLine));
+        i = end;
+    }
+
+    return `${[...header, ...hunks].join('\n')}\n`;
+}
+
+/**
+ * Adds ANSI colors to a unified diff (headers bold, hunks cyan, removals red, additions green).
+ *
+ * @param diffText The diff produced by `createUnifiedDiff`.
+ * @returns The colored diff.
+ */
+export function colorizeDiff(diffText: string): string {
+    return diffText
+        .split('\n')
+        .map(line => {
+            if (/^(diff --git|new file mode|--- |\+\+\+ )/.test(line)) return `\x1b[1m${line}\x1b[0m`;
+            if (line.startsWith('@@')) return `\x1b[36m${line}\x1b[0m`;
+            if (line.startsWith('+')) return `\x1b[32m${line}\x1b[0m`;
+            if (line.startsWith('-')) return `\x1b[31m${line}\x1b[0m`;
+            return line;
+        })
+        .join('\n');
+}
@@ -0,0 +1,249 @@
+// src/shared/utils/edit-block.utils.ts
+// SEARCH/REPLACE edit blocks: targeted edits a model returns instead of rewriting whole files.
+
+/**
+ * One edit: the lines to find in the file and the lines that replace them.
+ */
+export interface EditBlock {
+    search: string;
+    replace: string;
+    /**
+     * 1-based line of the `<<<<<<< SEARCH` marker within the file block, for error messages.
+     */
+    line: number;
+}
+
+/**
+ * An edit that could not be applied, and why.
+ */
+export interface EditBlockFailure {
+    block: EditBlock;
+    reason: string;
+}
+
+export interface EditBlockResult {
+    /**
+     * The content after applying every block that matched.
+     */
+    content: string;
+    applied: number;
+    /**
+     * How many of the applied blocks only matched after ignoring whitespace or with fuzzy matching.
+     */
+    inexact: number;
+    failures: EditBlockFailure[];
+}
+
+const SEARCH_MARKER = /^[ \t]*<{5,9}[ \t]*SEARCH[ \t]*$/;
+const DIVIDER_MARKER = /^[ \t]*={5,9}[ \t]*$/;
+const REPLACE_MARKER = /^[ \t]*>{5,9}[ \t]*REPLACE[ \t]*$/;
+
+// Minimum average line similarity for a fuzzy match.
+const FUZZY_THRESHOLD = 0.85;
+
+/**
+ * Checks whether a file block contains SEARCH/REPLACE edits (rather than the complete file content).
+ */
+export function containsEditBlocks(text: string): boolean {
+    return text.split(/\r?\n/).some(line => SEARCH_MARKER.test(line));
+}
+
+/**
+ * Parses the SEARCH/REPLACE blocks of one file block:
+ *
+ *     <<<<<<< SEARCH
+ *     lines copied from the current file
+ *     =======
+ *     the lines that replace them
+ *     >>>>>>> REPLACE
+ *
+ * Text between blocks is ignored.
+ *
+ * @returns The blocks in order, and a message for each malformed block.
+ */
+export function parseEditBlocks(text: string): { blocks: EditBlock[]; errors: string[] } {
+    const lines = text.split(/\r?\n/);
+    const blocks: EditBlock[] = [];
+    const errors: string[] = [];
+
+    let index = 0;
+    while (index < lines.length) {
+        if (!SEARCH_MARKER.test(lines[index])) {
+            index++;
+            continue;
+        }
+        const start = index;
+        const divider = lines.findIndex((line, lineIndex) => lineIndex > start && (DIVIDER_MARKER.test(line) || SEARCH_MARKER.test(line)));
+        if (divider === -1 || !DIVIDER_MARKER.test(lines[divider])) {
+            errors.push(`The SEARCH block at line ${start + 1} has no "=======" divider.`);
+            index = divider === -1 ? lines.length : divider;
+            continue;
+        }
+        const end = lines.findIndex((line, lineIndex) => lineIndex > divider && (REPLACE_MARKER.test(line) || SEARCH_MARKER.test(line)));
+        if (end === -1 || !REPLACE_MARKER.test(lines[end])) {
+            errors.push(`The SEARCH block at line ${start + 1} has no ">>>>>>> REPLACE" marker.`);
+            index = end === -1 ? lines.length : end;
+            continue;
+        }
+        blocks.push({ search: lines.slice(start + 1, divider).join('\n'), replace: lines.slice(divider + 1, end).join('\n'), line: start + 1 });
+        index = end + 1;
+    }
+    return { blocks, errors };
+}
+
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) start++;
+    while (end > start && !lines[end - 1].trim()) end--;
+    return lines.slice(start, end);
+}
+
+function leadingWhitespace(line: string): string {
+    return line.match(/^[ \t]*/)![0];
+}
+
+function normalizeWhitespace(line: string): string {
+    return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Similarity of two lines between 0 and 1 (Dice coefficient of character bigrams, whitespace-insensitive).
+ */
+function lineSimilarity(a: string, b: string): number {
+    const left = normalizeWhitespace(a);
+    const right = normalizeWhitespace(b);
+    if (left === right) return 1;
+    if (left.length < 2 || right.length < 2) return 0;
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < left.length - 1; i++) {
+        const bigram = left.slice(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < right.length - 1; i++) {
+        const bigram = right.slice(i, i + 2);
+        const count = bigrams.get(bigram) ?? 0;
+        if (count > 0) {
+            shared++;
+            bigrams.set(bigram, count - 1);
+        }
+    }
+    return (2 * shared) / (left.length + right.length - 2);
+}
+
+/**
+ * Re-indents the replacement by the indentation difference between the SEARCH text and the lines it matched,
+ * so a block written at the wrong indentation level still fits in.
+ */
+function reindent(replaceLines: string[], searchLine: string, matchedLine: string): string[] {
+    const searchIndent = leadingWhitespace(searchLine);
+    const matchedIndent = leadingWhitespace(matchedLine);
+    if (matchedIndent.startsWith(searchIndent)) {
+        const extra = matchedIndent.slice(searchIndent.length);
+        return replaceLines.map(line => line.trim() ? extra + line : line);
+    }
+    if (searchIndent.startsWith(matchedIndent)) {
+        const surplus = searchIndent.slice(matchedIndent.length);
+        return replaceLines.map(line => line.startsWith(surplus) ? line.slice(surplus.length) : line);
+    }
+    return replaceLines;
+}
+
+/**
+ * Applies one block to the content.
+ *
+ * @returns The new content and whether the match was exact, or the reason it could not be applied.
+ */
+function applyEditBlock(content: string, block: EditBlock): { content: string; exact: boolean } | { reason: string } {
+    // 1. Exact match of the SEARCH text, covering whole lines.
+    const occurrences: number[] = [];
+    for (let index = block.search ? content.indexOf(block.search) : -1; index !== -1; index = content.indexOf(block.search, index + 1)) {
+        const end = index + block.search.length;
+        const startsLine = index === 0 || content[index - 1] === '\n';
+        const endsLine = end === content.length || content[end] === '\n' || block.search.endsWith('\n');
+        if (startsLine && endsLine) occurrences.push(index);
+    }
+    if (occurrences.length > 1) {
+        return { reason: `SEARCH matches ${occurrences.length} places; include more surrounding lines to make it unique.` };
+    }
+    if (occurrences.length === 1) {
+        const [index] = occurrences;
+        return { content: content.slice(0, index) + block.replace + content.slice(index + block.search.length), exact: true };
+    }
+
+    const searchLines = trimBlankLines(block.search.split('\n'));
+    const replaceLines = trimBlankLines(block.replace.split('\n'));
+    const contentLines = content.split('\n');
+    if (searchLines.length === 0) {
+        return { reason: 'SEARCH is empty. An empty SEARCH can only create a new file.' };
+    }
+
+    // 2. Same lines, ignoring indentation and whitespace differences. 3. Fuzzy: the most similar window of lines.
+    const windows: { start: number; score: number }[] = [];
+    for (let start = 0; start + searchLines.length <= contentLines.length; start++) {
+        let total = 0;
+        for (let offset = 0; offset < searchLines.length; offset++) {
+            total += lineSimilarity(contentLines[start + offset], searchLines[offset]);
+        }
+        windows.push({ start, score: total / searchLines.length });
+    }
+    const best = windows.reduce((max, window) => Math.max(max, window.score), 0);
+    if (best < FUZZY_THRESHOLD) {
+        return { reason: `SEARCH does not match the file (closest match: ${Math.round(best * 100)}% similar).` };
+    }
+    const matches = windows.filter(window => window.score === best);
+    if (matches.length > 1) {
+        return { reason: `SEARCH matches ${matches.length} places equally well; include more surrounding lines to make it unique.` };
+    }
+
+    const { start } = matches[0];
+    const firstSearchLine = searchLines.find(line => line.trim()) ?? '';
+    const firstMatchedLine = contentLines.slice(start, start + searchLines.length).find(line => line.trim()) ?? '';
+    const replacement = reindent(replaceLines, firstSearchLine, firstMatchedLine);
+    contentLines.splice(start, searchLines.length, ...replacement);
+    return { content: contentLines.join('\n'), exact: false };
+}
+
+/**
+ * Applies SEARCH/REPLACE blocks in order. Each SEARCH must match exactly one place: first verbatim, then line by line
+ * ignoring whitespace, then fuzzily (lines at least 85% similar on average). Blocks that cannot be applied are reported,
+ * and the remaining blocks are still applied.
+ *
+ * Blocks are parsed with LF line endings; a file with CRLF line endings is matched with LF and keeps CRLF.
+ *
+ * @param original The current file content, or null if the file does not exist. Only a single block with an empty SEARCH
+ *                 can create a file.
+ * @param blocks The parsed blocks.
+ */
+export function applyEditBlocks(original: string | null, blocks: EditBlock[]): EditBlockResult {
+    const crlf = original?.includes('\r\n') ?? false;
+    const result: EditBlockResult = { content: crlf ? original!.replace(/\r\n/g, '\n') : original ?? '', applied: 0, inexact: 0, failures: [] };
+    for (const block of blocks) {
+        if (!block.search.trim()) {
+            if (result.content.trim()) {
+                result.failures.push({ block, reason: 'SEARCH is empty, but the file is not. An empty SEARCH can only create a new file.' });
+            } else {
+                result.content = block.replace;
+                result.applied++;
+            }
+            continue;
+        }
+        if (original === null && result.applied === 0) {
+            result.failures.push({ block, reason: 'The file does not exist. Give the complete content of a new file instead of SEARCH/REPLACE blocks.' });
+            continue;
+        }
+        const applied = applyEditBlock(result.content, block);
+        if ('reason' in applied) {
+            result.failures.push({ block, reason: applied.reason });
+            continue;
+        }
+        result.content = applied.content;
+        result.applied++;
+        if (!applied.exact) result.inexact++;
+    }
+    if (crlf) {
+        result.content = result.content.replace(/\r?\n/g, '\r\n');
+    }
+    return result;
+}
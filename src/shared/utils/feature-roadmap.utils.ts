@@ -1,9 +1,14 @@
 // src/shared/utils/feature-roadmap.utils.ts
 
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+
 const logPrefix = "[RoadmapUtil]";
 
 // Interface representing a row parsed from FEATURE_ROADMAP.md
 export interface RoadmapItem {
+    id?: string; // Optional short identifier (e.g., "F-001"), usable in Dependencies instead of the feature name
     version?: string;
     milestone?: string;
     releaseDate?: string;
@@ -21,12 +26,39 @@ export interface RoadmapItem {
     dependencies?: string;
     acceptanceCriteria?: string;
     designSpecLink?: string;
+    lineIndex?: number; // 0-based line of the row in FEATURE_ROADMAP.md, used to write updates back
+}
+
+// Statuses understood by the develop workflow and the roadmap command, in workflow order (matched case-insensitively)
+export const ROADMAP_STATUSES = [
+    'Not Started',
+    'In Progress',
+    'TDD - Test Generation',
+    'TDD - Code Implementation',
+    'Needs Review',
+    'Blocked',
+    'Done',
+] as const;
+
+// A problem found by `validateRoadmap`. `line` is 1-based; it is absent for table-wide problems.
+export interface RoadmapIssue {
+    severity: 'error' | 'warning';
+    line?: number;
+    message: string;
+}
+
+// Columns of a roadmap row that the develop workflow updates as it progresses
+export interface RoadmapItemUpdate {
+    status?: string;
+    progressPercent?: string;
+    lastUpdated?: string;
 }
 
 // Finds the index of columns based on header text (case-insensitive, flexible matching)
-function findColumnIndices(headerCells: string[]): { [key in keyof RoadmapItem]?: number } {
+function mapHeaderColumns(headerCells: string[]): { [key in keyof RoadmapItem]?: number } {
     const indices: { [key in keyof RoadmapItem]?: number } = {};
     const mapping: { [key: string]: keyof RoadmapItem } = {
+        'id': 'id',
         'version': 'version',
         'milestone': 'milestone',
         'release date': 'releaseDate',
@@ -56,7 +88,7 @@ function findColumnIndices(headerCells: string[]): { [key in keyof RoadmapItem]?
                 if (indices[mapping[key]] === undefined) {
                     indices[mapping[key]] = index;
                 }
-            } else if (lowerHeader.includes(key)) { // Fallback to includes, but prefer exact/prefix match
+            } else if (key.length > 3 && lowerHeader.includes(key)) { // Fallback to includes, but prefer exact/prefix match (short keys like 'id' would match inside other words)
                 if (indices[mapping[key]] === undefined) {
                     indices[mapping[key]] = index;
                 }
@@ -64,6 +96,13 @@ function findColumnIndices(headerCells: string[]): { [key in keyof RoadmapItem]?
         }
     });
 
+    return indices;
+}
+
+// Maps the header columns and reports missing essential/important columns
+function findColumnIndices(headerCells: string[]): { [key in keyof RoadmapItem]?: number } {
+    const indices = mapHeaderColumns(headerCells);
+
     // Basic validation
     if (indices.status === undefined) console.error(`${logPrefix} 'Status' column not found in FEATURE_ROADMAP header.`);
     if (indices.description === undefined) console.error(`${logPrefix} 'Description' column not found in FEATURE_ROADMAP header.`);
@@ -75,6 +114,20 @@ function findColumnIndices(headerCells: string[]): { [key in keyof RoadmapItem]?
 }
 
 
+// Splits a file list cell ("src/a.ts, [b](src/b.ts)") into paths
+function parseFileList(fileListString: string | undefined): string[] {
+    if (!fileListString) return [];
+    return fileListString
+        .split(',')
+        .map(f => f.trim().replace(/\[([^\]]+)\]\(.*?\)/g, '$1')) // Handle markdown links
+        .filter(f => f); // Remove empty strings
+}
+
+// Checks whether the cells of a table line look like a roadmap header
+function isHeaderCandidate(cells: string[]): boolean {
+    return cells.length > 3 && cells.some(h => /^(Feature|Status|Description|Responsible File\(s\)|Priority|Test File Path\(s\))/i.test(h.trim()));
+}
+
 export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
     const lines = markdownContent.split('\n');
     const items: RoadmapItem[] = [];
@@ -83,7 +136,8 @@ export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
     let headerFound = false;
     let separatorFound = false;
 
-    for (const line of lines) {
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        const line = lines[lineIndex];
         const trimmedLine = line.trim();
         if (!trimmedLine.startsWith('|') || !trimmedLine.endsWith('|')) {
             continue; // Skip non-table lines
@@ -92,7 +146,7 @@ export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
         const cells = trimmedLine.split('|').map(cell => cell.trim()).slice(1, -1); // Extract cells
 
         if (!headerFound) {
-            if (cells.length > 3 && cells.some(h => /^(Feature|Status|Description|Responsible File\(s\)|Priority|Test File Path\(s\))/i.test(h.trim()))) {
+            if (isHeaderCandidate(cells)) {
                 headerCells = cells;
                 columnIndices = findColumnIndices(headerCells);
                 if (columnIndices.status === undefined || columnIndices.description === undefined) {
@@ -129,18 +183,11 @@ export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
 
 
         try {
-            const parseFileList = (fileListString: string | undefined): string[] => {
-                if (!fileListString) return [];
-                return fileListString
-                    .split(',')
-                    .map(f => f.trim().replace(/\[([^\]]+)\]\(.*?\)/g, '$1')) // Handle markdown links
-                    .filter(f => f); // Remove empty strings
-            };
-
             const responsibleFiles = parseFileList(columnIndices.responsibleFiles !== undefined ? cells[columnIndices.responsibleFiles] : undefined);
             const testFilePaths = parseFileList(columnIndices.testFilePaths !== undefined ? cells[columnIndices.testFilePaths] : undefined);
 
             const item: RoadmapItem = {
+                id: columnIndices.id !== undefined ? cells[columnIndices.id] || undefined : undefined,
                 version: columnIndices.version !== undefined ? cells[columnIndices.version] : undefined,
                 milestone: columnIndices.milestone !== undefined ? cells[columnIndices.milestone] : undefined,
                 releaseDate: columnIndices.releaseDate !== undefined ? cells[columnIndices.releaseDate] : undefined,
@@ -158,6 +205,7 @@ export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
                 dependencies: columnIndices.dependencies !== undefined ? cells[columnIndices.dependencies] : undefined,
                 acceptanceCriteria: columnIndices.acceptanceCriteria !== undefined ? cells[columnIndices.acceptanceCriteria] : undefined,
                 designSpecLink: columnIndices.designSpecLink !== undefined ? cells[columnIndices.designSpecLink] : undefined,
+                lineIndex,
             };
 
             if (!item.status || !item.description) {
@@ -187,4 +235,303 @@ export function parseRoadmapTable(markdownContent: string): RoadmapItem[] {
     }
 
     return items;
-}
\ No newline at end of file
+}
+
+const UPDATABLE_COLUMNS: (keyof RoadmapItemUpdate)[] = ['status', 'progressPercent', 'lastUpdated'];
+
+// Columns that `addRoadmapItem` can fill, in no particular order (the table's header decides the order)
+const WRITABLE_COLUMNS: (keyof RoadmapItem)[] = [
+    'id', 'version', 'milestone', 'releaseDate', 'lastUpdated', 'status', 'progressPercent', 'priority', 'epic', 'okrGoal',
+    'category', 'feature', 'description', 'responsibleFiles', 'testFilePaths', 'dependencies', 'acceptanceCriteria', 'designSpecLink',
+];
+
+// Splits a table line into the text before the first '|', the raw cells (with their padding) and the text after the last '|'
+function splitRawCells(line: string): { before: string; cells: string[]; after: string } {
+    const parts = line.split('|');
+    return { before: parts[0], cells: parts.slice(1, -1), after: parts[parts.length - 1] };
+}
+
+function isTableLine(line: string | undefined): boolean {
+    const trimmedLine = (line ?? '').trim();
+    return trimmedLine.startsWith('|') && trimmedLine.endsWith('|');
+}
+
+function cellText(rawCell: string | undefined): string {
+    return (rawCell ?? '').trim();
+}
+
+// Finds the line of the item's row: its recorded lineIndex if it still holds the same row, otherwise a row with the same feature and description
+function locateRow(lines: string[], item: RoadmapItem, isSameRow: (lineIndex: number) => boolean): number {
+    if (item.lineIndex !== undefined && isSameRow(item.lineIndex)) {
+        return item.lineIndex;
+    }
+    const matches = lines.map((_, index) => index).filter(isSameRow);
+    if (matches.length !== 1) {
+        throw new Error(`${logPrefix} Could not find a unique FEATURE_ROADMAP.md row for "${item.feature || item.description}" (${matches.length} matches).`);
+    }
+    return matches[0];
+}
+
+// Finds the first roadmap table (header with Status and Description columns) and the block of table lines it spans
+function findRoadmapTable(lines: string[]): { start: number; end: number; columns: { [key in keyof RoadmapItem]?: number } } | null {
+    for (let start = 0; start < lines.length; start++) {
+        if (!isTableLine(lines[start])) continue;
+        const headerCells = splitRawCells(lines[start].trim()).cells.map(cellText);
+        if (!isHeaderCandidate(headerCells)) continue;
+        const columns = mapHeaderColumns(headerCells);
+        if (columns.status === undefined || columns.description === undefined) continue;
+
+        let end = start;
+        while (end + 1 < lines.length && isTableLine(lines[end + 1])) end++;
+        return { start, end, columns };
+    }
+    return null;
+}
+
+// Writes a value into a cell of a table row. In an aligned column (same width on every line of the table)
+// the cell keeps its width, and the whole column is widened if the value does not fit; otherwise the cell is written as `| value |`.
+function setTableCell(lines: string[], tableStart: number, tableEnd: number, rowIndex: number, column: number, value: string): void {
+    const row = splitRawCells(lines[rowIndex]);
+    if (column >= row.cells.length || cellText(row.cells[column]) === value) return;
+
+    const widths = new Set<number>();
+    for (let i = tableStart; i <= tableEnd; i++) {
+        widths.add(splitRawCells(lines[i]).cells[column]?.length ?? -1);
+    }
+    const width = row.cells[column].length;
+    const neededWidth = value.length + 2;
+    const aligned = widths.size === 1;
+
+    if (neededWidth > width && aligned) {
+        // Aligned column: widen it on every line of the table.
+        const extra = neededWidth - width;
+        for (let i = tableStart; i <= tableEnd; i++) {
+            const other = splitRawCells(lines[i]);
+            const cell = other.cells[column];
+            other.cells[column] = /^\s*:?-+:?\s*$/.test(cell) ? cell.replace(/-+/, dashes => dashes + '-'.repeat(extra)) : cell + ' '.repeat(extra);
+            lines[i] = [other.before, ...other.cells, other.after].join('|');
+        }
+    }
+
+    const updatedRow = splitRawCells(lines[rowIndex]);
+    updatedRow.cells[column] = aligned ? ` ${value} `.padEnd(updatedRow.cells[column].length) : ` ${value} `;
+    lines[rowIndex] = [updatedRow.before, ...updatedRow.cells, updatedRow.after].join('|');
+}
+
+// Cell values are written verbatim, so they must not break the table structure
+function assertCellValue(column: string, value: string): void {
+    if (/[|\r\n]/.test(value)) {
+        throw new Error(`${logPrefix} The ${column} value "${value}" cannot contain '|' or line breaks.`);
+    }
+}
+
+/**
+ * Rewrites the item's row of the roadmap table with new Status, Progress and Last Updated values.
+ * Only the cells of existing columns are changed; all other content is preserved byte for byte.
+ * In an aligned column (same width on every line of the table) the cell keeps its width, and the whole
+ * column is widened if the new value does not fit; otherwise the cell is written as `| value |`.
+ *
+ * @param markdownContent The current FEATURE_ROADMAP.md content.
+ * @param item The item to update, as returned by `parseRoadmapTable`.
+ * @param updates The new values. Columns missing from the table are ignored.
+ * @returns The updated content (identical to the input if nothing changed).
+ * @throws {Error} If the item's row cannot be found, or a value contains '|' or a line break.
+ */
+export function updateRoadmapItem(markdownContent: string, item: RoadmapItem, updates: RoadmapItemUpdate): string {
+    const lines = markdownContent.split('\n');
+
+    // Each table is a block of consecutive '|' lines whose first line is the header.
+    const findTableStart = (lineIndex: number): number => {
+        let start = lineIndex;
+        while (start > 0 && isTableLine(lines[start - 1])) start--;
+        return start;
+    };
+    const columnsForRow = (lineIndex: number) => mapHeaderColumns(splitRawCells(lines[findTableStart(lineIndex)].trim()).cells.map(cellText));
+
+    const isSameRow = (lineIndex: number): boolean => {
+        if (!isTableLine(lines[lineIndex]) || findTableStart(lineIndex) === lineIndex) return false;
+        const columns = columnsForRow(lineIndex);
+        const cells = splitRawCells(lines[lineIndex]).cells;
+        if (columns.description === undefined || cellText(cells[columns.description]) !== item.description) return false;
+        return columns.feature === undefined || item.feature === undefined || cellText(cells[columns.feature]) === item.feature;
+    };
+
+    const rowIndex = locateRow(lines, item, isSameRow);
+    const tableStart = findTableStart(rowIndex);
+    let tableEnd = rowIndex;
+    while (tableEnd + 1 < lines.length && isTableLine(lines[tableEnd + 1])) tableEnd++;
+    const columns = columnsForRow(rowIndex);
+
+    for (const key of UPDATABLE_COLUMNS) {
+        const value = updates[key];
+        const column = columns[key];
+        if (value === undefined || column === undefined) continue;
+        assertCellValue(key, value);
+        setTableCell(lines, tableStart, tableEnd, rowIndex, column, value);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Appends a row to the end of the roadmap table. Values are placed under the matching header columns;
+ * aligned columns keep their alignment (and are widened if needed), as in `updateRoadmapItem`.
+ *
+ * @param markdownContent The current FEATURE_ROADMAP.md content.
+ * @param item The new item. File lists are written comma-separated; fields without a column are ignored with a warning.
+ * @returns The updated content.
+ * @throws {Error} If there is no roadmap table, or a value contains '|' or a line break.
+ */
+export function addRoadmapItem(markdownContent: string, item: RoadmapItem): string {
+    const lines = markdownContent.split('\n');
+    const table = findRoadmapTable(lines);
+    if (!table) {
+        throw new Error(`${logPrefix} No roadmap table with 'Status' and 'Description' columns found in FEATURE_ROADMAP.md.`);
+    }
+
+    const values: { column: number; value: string }[] = [];
+    const ignored: string[] = [];
+    for (const key of WRITABLE_COLUMNS) {
+        const raw = item[key];
+        const value = Array.isArray(raw) ? raw.join(', ') : raw === undefined ? '' : String(raw).trim();
+        if (!value) continue;
+        assertCellValue(key, value);
+        const column = table.columns[key];
+        if (column === undefined) {
+            ignored.push(key);
+        } else {
+            values.push({ column, value });
+        }
+    }
+    if (ignored.length > 0) {
+        console.warn(`${logPrefix} FEATURE_ROADMAP.md has no column for: ${ignored.join(', ')}. These values were not written.`);
+    }
+
+    // Start from an empty row shaped like the header: aligned columns get their full width, others a single space.
+    const header = splitRawCells(lines[table.start]);
+    const emptyCells = header.cells.map((cell, column) => {
+        const widths = new Set<number>();
+        for (let i = table.start; i <= table.end; i++) {
+            widths.add(splitRawCells(lines[i]).cells[column]?.length ?? -1);
+        }
+        return widths.size === 1 ? ' '.repeat(cell.length) : ' ';
+    });
+    const rowIndex = table.end + 1;
+    lines.splice(rowIndex, 0, [header.before, ...emptyCells, header.after.trimEnd()].join('|'));
+
+    for (const { column, value } of values) {
+        setTableCell(lines, table.start, rowIndex, rowIndex, column, value);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Finds an item by ID or feature name (case-insensitive).
+ *
+ * @throws {Error} If no item, or more than one item, matches.
+ */
+export function findRoadmapItem(items: RoadmapItem[], reference: string): RoadmapItem {
+    const normalized = reference.trim().toLowerCase();
+    const byId = items.filter(item => item.id?.toLowerCase() === normalized);
+    const matches = byId.length > 0 ? byId : items.filter(item => item.feature?.toLowerCase() === normalized);
+    if (matches.length === 0) {
+        throw new Error(`${logPrefix} No FEATURE_ROADMAP.md item with ID or feature "${reference}".`);
+    }
+    if (matches.length > 1) {
+        throw new Error(`${logPrefix} "${reference}" matches ${matches.length} FEATURE_ROADMAP.md items. Give them distinct IDs or feature names.`);
+    }
+    return matches[0];
+}
+
+/**
+ * Finds the known status matching a value (case-insensitive), e.g. "done" -> "Done".
+ */
+export function normalizeRoadmapStatus(status: string): string | undefined {
+    return ROADMAP_STATUSES.find(known => known.toLowerCase() === status.trim().toLowerCase());
+}
+
+/**
+ * Checks whether a roadmap status means the item is finished: 'Done', in any case. Used by validation, the dependency
+ * graph and task selection alike.
+ */
+export function isDoneStatus(status: string | undefined): boolean {
+    return normalizeRoadmapStatus(status ?? '') === 'Done';
+}
+
+/**
+ * Checks the roadmap table for problems that make `parseRoadmapTable` skip rows or the develop workflow misbehave:
+ * missing columns, malformed rows, empty or unknown statuses, duplicate IDs/features and referenced files that do not exist.
+ * Files of 'Not Started' items are not checked, since develop creates them; missing files of Done items are errors.
+ * Entries containing `*` are glob patterns, expanded the way develop expands them; they are reported if they match nothing.
+ *
+ * @param markdownContent The FEATURE_ROADMAP.md content.
+ * @param projectRoot Directory that the file paths are relative to.
+ * @returns The issues found, in line order (empty if the roadmap is valid).
+ */
+export function validateRoadmap(markdownContent: string, projectRoot: string): RoadmapIssue[] {
+    const lines = markdownContent.split('\n');
+    const table = findRoadmapTable(lines);
+    if (!table) {
+        return [{ severity: 'error', message: "No roadmap table with 'Status' and 'Description' columns found." }];
+    }
+
+    const issues: RoadmapIssue[] = [];
+    const { columns } = table;
+    const headerLine = table.start + 1;
+    if (columns.responsibleFiles === undefined) {
+        issues.push({ severity: 'error', line: headerLine, message: "Missing 'Responsible File(s)' column. develop cannot implement tasks without it." });
+    }
+    if (columns.testFilePaths === undefined) {
+        issues.push({ severity: 'error', line: headerLine, message: "Missing 'Test File Path(s)' column. develop cannot generate tests without it." });
+    }
+
+    const headerCount = splitRawCells(lines[table.start].trim()).cells.length;
+    const separatorCells = table.end > table.start ? splitRawCells(lines[table.start + 1].trim()).cells : [];
+    const hasSeparator = separatorCells.length > 0 && separatorCells.every(cell => /^\s*:?-+:?\s*$/.test(cell));
+    if (!hasSeparator) {
+        issues.push({ severity: 'error', line: headerLine + 1, message: "Missing '|---|---|' separator line after the header." });
+    }
+
+    const seen = new Map<string, number>();
+    for (let lineIndex = table.start + (hasSeparator ? 2 : 1); lineIndex <= table.end; lineIndex++) {
+        const line = lineIndex + 1;
+        const cells = splitRawCells(lines[lineIndex].trim()).cells.map(cellText);
+        if (cells.length !== headerCount) {
+            issues.push({ severity: 'error', line, message: `Row has ${cells.length} cells but the header has ${headerCount}; the row is skipped.` });
+            continue;
+        }
+
+        const cell = (key: keyof RoadmapItem) => columns[key] !== undefined ? cells[columns[key] as number] : '';
+        const status = cell('status');
+        if (!cell('description')) {
+            issues.push({ severity: 'error', line, message: 'Row has no Description; the row is skipped.' });
+        }
+        if (!status) {
+            issues.push({ severity: 'error', line, message: 'Row has no Status; the row is skipped.' });
+        } else if (!normalizeRoadmapStatus(status)) {
+            issues.push({ severity: 'error', line, message: `Unknown status "${status}". Expected one of: ${ROADMAP_STATUSES.join(', ')}.` });
+        }
+
+        for (const key of [cell('id'), cell('feature')].filter(Boolean).map(value => value.toLowerCase())) {
+            const firstLine = seen.get(key);
+            if (firstLine !== undefined) {
+                issues.push({ severity: 'error', line, message: `Duplicate ID or feature "${key}" (first used on line ${firstLine}).` });
+            } else {
+                seen.set(key, line);
+            }
+        }
+
+        if (/^not started$/i.test(status)) continue;
+        const done = isDoneStatus(status);
+        for (const filePath of [...parseFileList(cell('responsibleFiles')), ...parseFileList(cell('testFilePaths'))]) {
+            if (!filePath.includes('*')) {
+                if (!fs.existsSync(path.resolve(projectRoot, filePath))) {
+                    issues.push({ severity: done ? 'error' : 'warning', line, message: `Referenced file does not exist: ${filePath}` });
+                }
+            } else if (globSync(filePath, { cwd: projectRoot, nodir: true }).length === 0) {
+                issues.push({ severity: done ? 'error' : 'warning', line, message: `Glob pattern matches no files: ${filePath}` });
+            }
+        }
+    }
+    return issues;
+}
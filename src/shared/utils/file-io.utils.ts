@@ -2,6 +2,9 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { colorizeDiff, createUnifiedDiff } from './diff.utils';
+import { checkWrite } from './write-guard.utils';
+import { backupBeforeWrite } from './backup.utils';
 
 /**
  * A prefix used in log messages to identify the source as the FileIO utility.
@@ -9,6 +12,106 @@ import * as path from 'path';
  */
 const logPrefix = "[FileIO]";
 
+/**
+ * How file writes are handled, set once per run from the global `--dry-run` / `--patch` flags.
+ * - 'write': write to disk (default).
+ * - 'dry-run': print a colored unified diff of each proposed write and leave the disk untouched.
+ * - 'patch': collect the diffs so they can be saved as one git-applyable patch file.
+ */
+export type WriteMode = 'write' | 'dry-run' | 'patch';
+
+let writeMode: WriteMode = 'write';
+let pendingPatch = '';
+/** The directory the paths of the collected patch are relative to (see `findPatchRoot`). */
+let pendingPatchRoot: string | null = null;
+
+/**
+ * Sets how subsequent `writeOutputFile` / `updateFileContent` calls behave, and clears any collected patch.
+ */
+export function setWriteMode(mode: WriteMode): void {
+    writeMode = mode;
+    pendingPatch = '';
+    pendingPatchRoot = null;
+}
+
+/**
+ * Returns the current write mode.
+ */
+export function getWriteMode(): WriteMode {
+    return writeMode;
+}
+
+/**
+ * Finds the directory that diff paths are relative to: the top level of the git work tree containing the file,
+ * which is where `git apply` resolves them, or the working directory for files outside a repository.
+ */
+function findPatchRoot(filePath: string): string {
+    for (let dir = path.dirname(path.resolve(filePath)); ; dir = path.dirname(dir)) {
+        if (fs.existsSync(path.join(dir, '.git'))) {
+            return dir;
+        }
+        if (path.dirname(dir) === dir) {
+            return process.cwd();
+        }
+    }
+}
+
+/**
+ * Handles a write in 'dry-run' or 'patch' mode: diffs the proposed content (null for a deletion) against the file on disk
+ * and prints or collects the diff. Never touches the disk.
+ */
+function previewWrite(filePath: string, content: string | null): boolean {
+    const relativeFilePath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+    const patchRoot = findPatchRoot(filePath);
+    const currentContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+    const diffText = createUnifiedDiff(path.relative(patchRoot, path.resolve(filePath)).split(path.sep).join('/'), currentContent, content);
+    const kind = currentContent === null ? 'new file' : content === null ? 'deletion' : 'changes';
+
+    if (!diffText) {
+        console.log(`${logPrefix} No changes for ${relativeFilePath}.`);
+    } else if (writeMode === 'dry-run') {
+        console.log(`${logPrefix} [dry-run] Proposed ${kind}: ${relativeFilePath}`);
+        const useColor = !!process.stdout.isTTY && !process.env.NO_COLOR;
+        console.log(useColor ? colorizeDiff(diffText) : diffText);
+    } else {
+        if (pendingPatchRoot !== null && pendingPatchRoot !== patchRoot) {
+            console.warn(`${logPrefix} ⚠️ ${relativeFilePath} is outside ${pendingPatchRoot}; the patch spans several repositories and will not apply from one directory.`);
+        }
+        pendingPatch += diffText;
+        pendingPatchRoot ??= patchRoot;
+        console.log(`${logPrefix} [patch] Collected ${kind}: ${relativeFilePath}`);
+    }
+    return true;
+}
+
+/**
+ * Writes the diffs collected in 'patch' mode to a single patch file (applicable with `git apply`).
+ * The patch file itself is always written, regardless of the write mode.
+ *
+ * @param {string} patchFilePath - Where to write the patch.
+ * @returns {boolean} True if the patch was written (or there was nothing to write), false on error.
+ */
+export function writePendingPatch(patchFilePath: string): boolean {
+    if (!pendingPatch) {
+        console.log(`${logPrefix} No file changes proposed. Patch file not written.`);
+        return true;
+    }
+    try {
+        fs.mkdirSync(path.dirname(patchFilePath), { recursive: true });
+        fs.writeFileSync(patchFilePath, pendingPatch, 'utf8');
+        const applyCommand = pendingPatchRoot && pendingPatchRoot !== process.cwd()
+            ? `git -C ${pendingPatchRoot} apply ${path.resolve(patchFilePath)}`
+            : `git apply ${patchFilePath}`;
+        console.log(`${logPrefix} ✅ Patch written to ${patchFilePath}. Apply it with: ${applyCommand}`);
+        pendingPatch = '';
+        pendingPatchRoot = null;
+        return true;
+    } catch (writeError) {
+        console.error(`${logPrefix} ❌ Error writing patch file ${patchFilePath}: ${writeError instanceof Error ? writeError.message : writeError}`);
+        return false;
+    }
+}
+
 /**
  * Reads the content of a single file synchronously.
  *
@@ -52,7 +155,15 @@ export function readSingleFile(filePath: string): string {
  * @returns {boolean} True if the file was successfully updated, false otherwise.  A return value of false indicates an error during the write process.
  */
 export function updateFileContent(filePath: string, newContent: string): boolean {
+    const deniedReason = checkWrite(filePath, 'write', newContent);
+    if (deniedReason) {
+        console.error(`${logPrefix} ❌ Write guard denied writing ${path.relative(process.cwd(), filePath)}: ${deniedReason}`);
+        return false;
+    }
     // Create a relative file path for logging purposes.
+    if (writeMode !== 'write') {
+        return previewWrite(filePath, newContent);
+    }
     const relativeFilePath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
     // Add a warning log before overwriting a file. This is good practice to alert the user of potential data loss.
     console.warn(`${logPrefix} ⚠️ Attempting to overwrite ${relativeFilePath}...`);
@@ -66,6 +177,8 @@ export function updateFileContent(filePath: string, newContent: string): boolean
             // Log the creation of the directory.
             console.log(`${logPrefix} Created directory: ${path.relative(process.cwd(), outputDir)}`);
         }
+        // Snapshot the previous content for `undo` (a no-op outside a backup run).
+        backupBeforeWrite(filePath, newContent);
         // Write the new content to the file in UTF-8 encoding.
         fs.writeFileSync(filePath, newContent, 'utf8');
         // Log the successful update.
@@ -83,12 +196,22 @@ export function updateFileContent(filePath: string, newContent: string): boolean
  *
  * This function writes the provided content to a file specified by `outputFilePath`.  If the file's directory
  * does not exist, it will be created recursively. The function returns a boolean indicating the success of the write operation.
+ * In 'dry-run' and 'patch' write modes (see `setWriteMode`), nothing is written; the change is shown or collected as a diff instead.
+ * Every write first passes the write guard (see `checkWrite`), which enforces the size limit and records it in the audit log.
  *
  * @param {string} outputFilePath - The path to the output file. Can be absolute or relative.
  * @param {string} content - The content to write to the output file.
- * @returns {boolean} True if the file was successfully written, false otherwise. A return value of false indicates an error during the write process.
+ * @returns {boolean} True if the file was successfully written, false otherwise. A return value of false indicates an error during the write process or a write denied by the guard.
  */
 export function writeOutputFile(outputFilePath: string, content: string): boolean {
+    const deniedReason = checkWrite(outputFilePath, 'write', content);
+    if (deniedReason) {
+        console.error(`${logPrefix} ❌ Write guard denied writing ${path.relative(process.cwd(), outputFilePath)}: ${deniedReason}`);
+        return false;
+    }
+    if (writeMode !== 'write') {
+        return previewWrite(outputFilePath, content);
+    }
     // Create a relative output path for logging purposes.
     const relativeOutputPath = path.relative(process.cwd(), outputFilePath).split(path.sep).join('/');
     // Log the intention to write to the output file.
@@ -103,6 +226,8 @@ export function writeOutputFile(outputFilePath: string, content: string): boolea
             // Log the creation of the directory.
             console.log(`${logPrefix} Created directory: ${path.relative(process.cwd(), outputDir)}`);
         }
+        // Snapshot the previous content for `undo` (a no-op outside a backup run).
+        backupBeforeWrite(outputFilePath, content);
         // Write the content to the output file in UTF-8 encoding.
         fs.writeFileSync(outputFilePath, content, 'utf8');
         // Log the successful write.
@@ -113,4 +238,35 @@ export function writeOutputFile(outputFilePath: string, content: string): boolea
         console.error(`${logPrefix} ❌ Error writing output file ${relativeOutputPath}: ${writeError instanceof Error ? writeError.message : writeError}`);
         return false;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Deletes a file. In 'dry-run' and 'patch' write modes (see `setWriteMode`), nothing is deleted; the deletion is shown or collected as a diff instead.
+ *
+ * @param {string} filePath - The path to the file to delete. Can be absolute or relative.
+ * @returns {boolean} True if the file was deleted (or did not exist), false on error.
+ */
+export function deleteOutputFile(filePath: string): boolean {
+    const relativeFilePath = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+    if (!fs.existsSync(filePath)) {
+        console.log(`${logPrefix} Nothing to delete: ${relativeFilePath} does not exist.`);
+        return true;
+    }
+    const deniedReason = checkWrite(filePath, 'delete', null);
+    if (deniedReason) {
+        console.error(`${logPrefix} ❌ Write guard denied deleting ${path.relative(process.cwd(), filePath)}: ${deniedReason}`);
+        return false;
+    }
+    if (writeMode !== 'write') {
+        return previewWrite(filePath, null);
+    }
+    try {
+        backupBeforeWrite(filePath, null);
+        fs.unlinkSync(filePath);
+        console.log(`${logPrefix} ✅ Deleted ${relativeFilePath}.`);
+        return true;
+    } catch (deleteError) {
+        console.error(`${logPrefix} ❌ Error deleting file ${relativeFilePath}: ${deleteError instanceof Error ? deleteError.message : deleteError}`);
+        return false;
+    }
+}
@@ -3,57 +3,11 @@
 import { promises as fs } from "fs";
 import * as path from "path";
 import { INCLUDE_EXTENSIONS, EXCLUDE_PATTERNS, EXCLUDE_FILENAMES, EXCLUDE_FILENAME_WILDCARDS } from '../constants/filesystem.constants';
-import { filterLines, getAllFiles } from "../helpers/filesystem.helper";
+import { filterLines, getAllFiles, globToRegExp } from "../helpers/filesystem.helper";
+import { supportsSignatureSkeleton, toSignatureSkeleton } from "./ts-skeleton.utils";
 
 const logPrefix = "[FileSystemUtil]";
 
-// --- ADD patternToRegex HELPER ---
-/**
- * Converts a simple glob-like pattern (*aaa, aaa*, *aaa*, aaa) to a RegExp.
- * Case-insensitive matching.
- * Escapes basic regex special characters in the non-wildcard part.
- */
-function patternToRegex(pattern: string): RegExp {
-    // Escape common regex special characters in the pattern body
-    const escapeRegex = (s: string) => s.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
-
-    let regexPattern = pattern;
-    let startsWithWildcard = false;
-    let endsWithWildcard = false;
-
-    if (regexPattern.startsWith('*')) {
-        startsWithWildcard = true;
-        regexPattern = regexPattern.substring(1);
-    }
-    if (regexPattern.endsWith('*')) {
-        endsWithWildcard = true;
-        regexPattern = regexPattern.substring(0, regexPattern.length - 1);
-    }
-
-    // Escape the remaining core part
-    const corePattern = escapeRegex(regexPattern);
-
-    if (!corePattern && (startsWithWildcard || endsWithWildcard)) {
-        // Handle '*' or '**' -> match anything (non-empty)
-        return /.+/i;
-    }
-
-    if (startsWithWildcard && endsWithWildcard) {
-        // Contains: *aaa* -> /aaa/i
-        return new RegExp(corePattern, 'i');
-    } else if (startsWithWildcard) {
-        // Ends with: *aaa -> /aaa$/i
-        return new RegExp(corePattern + '$', 'i');
-    } else if (endsWithWildcard) {
-        // Starts with: aaa* -> /^aaa/i
-        return new RegExp('^' + corePattern, 'i');
-    } else {
-        // Exact match: aaa -> /^aaa$/i
-        return new RegExp('^' + corePattern + '$', 'i');
-    }
-}
-// --- END HELPER ---
-
 
 // getTargetFiles function remains the same (uses only prefix)
 export async function getTargetFiles(rootDir: string, filePrefix: string = ""): Promise<string[]> {
@@ -93,7 +47,11 @@ export async function getTargetFiles(rootDir: string, filePrefix: string = ""):
  *
  * @param {string} rootDir - The root directory to consolidate files from.
  * @param {string} [filePrefix] - Optional file prefix filter (used ONLY if pattern is not provided).
- * @param {string} [pattern] - Optional filename pattern filter (e.g., "*aaa", "aaa*", "*aaa*"). Takes precedence over filePrefix.
+ * @param {string} [pattern] - Optional case-insensitive filename glob (e.g., "*aaa", "aaa*", "*aaa*", "a?c.ts"). Takes precedence over filePrefix.
+ * @param {boolean} [stripComments] - Strip comments and boilerplate (see `filterLines`).
+ * @param {boolean} [minify] - Compress the output further (see `filterLines`).
+ * @param {boolean} [skeleton] - Reduce TypeScript/JavaScript files to their exported declarations, types and signatures
+ *                               (see `toSignatureSkeleton`). Other files are included as they are.
  * @returns {Promise<string>} A promise resolving to the consolidated content string.
  * @throws {Error} If the root directory is not accessible.
  */
@@ -102,7 +60,8 @@ export async function getConsolidatedSources(
     filePrefix?: string, // Keep for other commands
     pattern?: string,     // Add pattern
     stripComments: boolean = false,
-    minify: boolean = false
+    minify: boolean = false,
+    skeleton: boolean = false
 ): Promise<string> {
     // Determine which filter is active and log appropriately
     let activeFilterLog = '';
@@ -111,12 +70,12 @@ export async function getConsolidatedSources(
 
     if (pattern) {
         activeFilterLog = `, pattern: '${pattern}'`;
-        filterRegex = patternToRegex(pattern);
+        filterRegex = globToRegExp(pattern, true);
     } else if (filePrefix) {
         activeFilterLog = `, prefix: '${filePrefix}'`;
         usePrefix = true;
     }
-    console.log(`${logPrefix} Starting consolidation for root: ${rootDir}${activeFilterLog}`);
+    console.log(`${logPrefix} Starting consolidation for root: ${rootDir}${activeFilterLog}${skeleton ? ' (signatures only)' : ''}`);
 
     const seenFiles: Set<string> = new Set();
     const now = new Date().toISOString().slice(0, 19).replace("T", " ");
@@ -181,6 +140,10 @@ export async function getConsolidatedSources(
                 }
             }
             
+            if (skeleton && supportsSignatureSkeleton(fileName)) {
+                fileData = toSignatureSkeleton(fileData, fileName);
+            }
+
             lines = fileData.split(/\r?\n/);
         } catch (error) {
             console.warn(`  ${logPrefix} Warning: Error reading ${friendlyPath}. Skipping. Error: ${error instanceof Error ? error.message : error}`);
@@ -0,0 +1,292 @@
+// File: src/shared/utils/git-diff.utils.ts
+
+import fs from 'fs/promises';
+import path from 'path';
+import { runGit } from './git.utils';
+
+const logPrefix = "[GitDiff]";
+
+/** C escapes used by git when it quotes a path (see `core.quotePath`). */
+const GIT_QUOTE_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/**
+ * A contiguous range of added/modified lines in the new version of a file (1-based, inclusive).
+ */
+export interface ChangedRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A file changed relative to the diff base.
+ */
+export interface ChangedFile {
+    /**
+     * Path relative to the current working directory, with forward slashes.
+     */
+    filePath: string;
+    /**
+     * Path relative to the repository root, with forward slashes.
+     */
+    repoPath: string;
+    /**
+     * Absolute path of the repository root.
+     */
+    repoRoot: string;
+    /**
+     * Changed line ranges in the new version. Empty for pure deletions inside the file.
+     */
+    ranges: ChangedRange[];
+}
+
+/**
+ * Where the "new" side of a diff comes from.
+ * - 'worktree': files on disk (`git diff <ref>` or `git diff`).
+ * - 'index': the staged version (`git diff --cached`).
+ * - a commit-ish: the right-hand side of a range (`a..b`, `a...b`).
+ */
+export type DiffTarget = 'worktree' | 'index' | { ref: string };
+
+/**
+ * A parsed `--diff` specification.
+ */
+export interface DiffSpec {
+    /**
+     * Arguments passed to `git diff` (before the `--` pathspec separator).
+     */
+    gitArgs: string[];
+    target: DiffTarget;
+    /**
+     * Human-readable description used in logs and prompts.
+     */
+    label: string;
+}
+
+/**
+ * Interprets the value of `review --diff`.
+ * - `staged` / `cached`: staged changes against HEAD.
+ * - `worktree` / `unstaged`: unstaged changes against the index.
+ * - `<a>..<b>` or `<a>...<b>`: a commit range.
+ * - any other ref (e.g., `main`, `HEAD~3`): the working tree against that ref.
+ *
+ * @param base The raw `--diff` value.
+ * @returns The git arguments and the source of the new file versions.
+ * @throws {Error} If the value is empty or looks like an option.
+ */
+export function parseDiffSpec(base: string): DiffSpec {
+    const value = base.trim();
+    if (!value || value.startsWith('-')) {
+        throw new Error(`${logPrefix} Invalid --diff base '${base}'. Use a git ref, a range (a..b), 'staged' or 'worktree'.`);
+    }
+    if (value === 'staged' || value === 'cached') {
+        return { gitArgs: ['--cached'], target: 'index', label: 'staged changes' };
+    }
+    if (value === 'worktree' || value === 'unstaged') {
+        return { gitArgs: [], target: 'worktree', label: 'unstaged changes' };
+    }
+    const range = value.match(/^(.*?)(\.\.\.?)(.*)$/);
+    if (range) {
+        const head = range[3] || 'HEAD';
+        return { gitArgs: [value], target: { ref: head }, label: `commit range ${value}` };
+    }
+    return { gitArgs: [value], target: 'worktree', label: `working tree against ${value}` };
+}
+
+/**
+ * Undoes git's quoting of unusual paths: a path with control characters, quotes, backslashes or non-ASCII
+ * characters is printed in double quotes, with C escapes and octal-escaped UTF-8 bytes (`"caf\303\251.ts"`).
+ *
+ * @param value A path as printed by git, quoted or not.
+ * @returns The path itself.
+ */
+export function unquoteGitPath(value: string): string {
+    if (!value.startsWith('"') || !value.endsWith('"') || value.length < 2) {
+        return value;
+    }
+    const bytes: number[] = [];
+    for (const [token, escape] of value.slice(1, -1).matchAll(/\\([0-7]{3}|[\s\S])|[^\\]+/g)) {
+        if (escape === undefined) {
+            bytes.push(...Buffer.from(token, 'utf8'));
+        } else if (/^[0-7]{3}$/.test(escape)) {
+            bytes.push(parseInt(escape, 8));
+        } else {
+            bytes.push(GIT_QUOTE_ESCAPES[escape] ?? escape.charCodeAt(0));
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+}
+
+/**
+ * Parses `git diff --unified=0` output into the changed line ranges of each file.
+ * Deleted files are skipped; renamed files are reported under their new path; quoted paths are unquoted.
+ *
+ * @param diffText The raw diff output.
+ * @returns The changed files in diff order, with repository-relative paths.
+ */
+export function parseUnifiedDiff(diffText: string): { repoPath: string; ranges: ChangedRange[] }[] {
+    const files: { repoPath: string; ranges: ChangedRange[] }[] = [];
+    let current: { repoPath: string; ranges: ChangedRange[] } | null = null;
+
+    for (const line of diffText.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            current = null;
+            continue;
+        }
+        if (line.startsWith('+++ ')) {
+            // git appends a tab to paths containing spaces.
+            const newPath = unquoteGitPath(line.slice(4).replace(/\t$/, ''));
+            if (newPath === '/dev/null') {
+                current = null; // Deleted file: nothing to review
+                continue;
+            }
+            current = { repoPath: newPath.replace(/^b\//, ''), ranges: [] };
+            files.push(current);
+            continue;
+        }
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (hunk && current) {
+            const start = parseInt(hunk[1], 10);
+            const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+            if (count > 0) {
+                current.ranges.push({ start, end: start + count - 1 });
+            }
+        }
+    }
+    return files;
+}
+
+/**
+ * Lists untracked files (not ignored) under `pathspec` as entirely added files.
+ */
+async function getUntrackedFiles(repoRoot: string, pathspec: string): Promise<{ repoPath: string; ranges: ChangedRange[] }[]> {
+    const output = await runGit(['ls-files', '--others', '--exclude-standard', '-z', '--', pathspec], repoRoot);
+    const files: { repoPath: string; ranges: ChangedRange[] }[] = [];
+    for (const repoPath of output.split('\0').filter(Boolean)) {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(repoRoot, repoPath), 'utf8');
+        } catch (error) {
+            console.warn(`${logPrefix} ⚠️ Could not read untracked file ${repoPath}: ${error instanceof Error ? error.message : error}`);
+            continue;
+        }
+        const lineCount = content.split(/\r?\n/).length - (/\n$/.test(content) ? 1 : 0);
+        files.push({ repoPath, ranges: content ? [{ start: 1, end: lineCount }] : [] });
+    }
+    return files;
+}
+
+/**
+ * Lists the files (and changed line ranges) that differ from the diff base, limited to `targetPath`.
+ * When the new side is the working tree, untracked files count as added.
+ *
+ * @param spec The parsed `--diff` specification.
+ * @param targetPath Directory or file used as the git pathspec; its repository is the one compared.
+ * @returns The changed files, or an empty array if nothing changed.
+ * @throws {Error} If git is unavailable, the path is not inside a repository, or the ref is unknown.
+ */
+export async function getChangedFiles(spec: DiffSpec, targetPath: string): Promise<ChangedFile[]> {
+    const cwd = process.cwd();
+    const pathspec = path.resolve(targetPath);
+    const stats = await fs.stat(pathspec).catch(() => null);
+    const repoRoot = (await runGit(['rev-parse', '--show-toplevel'], stats?.isDirectory() ? pathspec : path.dirname(pathspec))).trim();
+    const diffText = await runGit(
+        ['diff', '--unified=0', '--no-color', '--no-ext-diff', '-M', ...spec.gitArgs, '--', pathspec],
+        repoRoot
+    );
+    console.log(`${logPrefix} Collected diff for ${spec.label} (${diffText.length} characters).`);
+
+    const files = parseUnifiedDiff(diffText);
+    if (spec.target === 'worktree') {
+        const untracked = await getUntrackedFiles(repoRoot, pathspec);
+        if (untracked.length > 0) {
+            console.log(`${logPrefix} Including ${untracked.length} untracked file(s).`);
+        }
+        files.push(...untracked);
+    }
+    return files.map(file => ({
+        ...file,
+        repoRoot,
+        filePath: path.relative(cwd, path.join(repoRoot, file.repoPath)).split(path.sep).join('/'),
+    }));
+}
+
+/**
+ * Reads the new version of a changed file from the working tree, the index or a commit.
+ *
+ * @param file The changed file.
+ * @param target Where the new version lives.
+ * @returns The file content.
+ * @throws {Error} If the file cannot be read.
+ */
+export async function readChangedFile(file: ChangedFile, target: DiffTarget): Promise<string> {
+    if (target === 'worktree') {
+        return fs.readFile(file.filePath, 'utf8');
+    }
+    const object = target === 'index' ? `:${file.repoPath}` : `${target.ref}:${file.repoPath}`;
+    return runGit(['show', object], file.repoRoot);
+}
+
+/**
+ * Formats the changed regions of a file, plus surrounding context, as a prompt section.
+ * Every line is prefixed with its line number in the new version; changed lines are marked with '+',
+ * so the model can cite exact line numbers. Skipped regions are shown as a single '...' line.
+ *
+ * @param file The changed file.
+ * @param content The new version of the file.
+ * @param contextLines Number of unchanged lines to include around each changed range.
+ * @returns The section, starting with a `// File:` header.
+ */
+export function formatChangedFileContext(file: ChangedFile, content: string, contextLines: number): string {
+    const lines = content.split(/\r?\n/);
+    const width = String(lines.length).length;
+
+    // Merge the context windows of all ranges into sorted, non-overlapping windows.
+    const windows: ChangedRange[] = [];
+    for (const range of [...file.ranges].sort((a, b) => a.start - b.start)) {
+        const start = Math.max(1, range.start - contextLines);
+        const end = Math.min(lines.length, range.end + contextLines);
+        const last = windows[windows.length - 1];
+        if (last && start <= last.end + 1) {
+            last.end = Math.max(last.end, end);
+        } else {
+            windows.push({ start, end });
+        }
+    }
+
+    const changedSummary = file.ranges.map(range => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`)).join(', ');
+    const output = [`// File: ${file.filePath}`, `// Changed lines: ${changedSummary || 'none (deletions only)'}`];
+    windows.forEach((window, i) => {
+        if (i > 0 || window.start > 1) {
+            output.push('...');
+        }
+        for (let lineNumber = window.start; lineNumber <= window.end; lineNumber++) {
+            output.push(`${isLineChanged(file, lineNumber) ? '+' : ' '} ${String(lineNumber).padStart(width)} | ${lines[lineNumber - 1]}`);
+        }
+    });
+    return `${output.join('\n')}\n\n`;
+}
+
+/**
+ * Formats a whole file as a prompt section in the style of `formatChangedFileContext`: every line of the original
+ * text, unfiltered, prefixed with its line number. The numbers survive chunking, so findings cite the file's own lines.
+ *
+ * @param filePath The path shown in the `// File:` header.
+ * @param content The file content.
+ * @returns The section, starting with a `// File:` header.
+ */
+export function formatNumberedFile(filePath: string, content: string): string {
+    const lines = content.split(/\r?\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop(); // Trailing newline
+    }
+    const width = String(lines.length).length;
+    const output = [`// File: ${filePath}`, ...lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`)];
+    return `${output.join('\n')}\n\n`;
+}
+
+/**
+ * Checks whether a 1-based line number lies inside one of the changed ranges of a file.
+ */
+export function isLineChanged(file: ChangedFile, lineNumber: number): boolean {
+    return file.ranges.some(range => lineNumber >= range.start && lineNumber <= range.end);
+}
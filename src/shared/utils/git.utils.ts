@@ -0,0 +1,160 @@
+// File: src/shared/utils/git.utils.ts
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { BACKUP_DIR } from './backup.utils';
+
+const execFileAsync = promisify(execFile);
+const logPrefix = "[Git]";
+
+// Working files of the develop workflow and the backup store, relative to the project root; they never make a tree
+// "dirty" and are never committed.
+const TOOL_STATE_DIRS = ['.gemini-develop/', `${BACKUP_DIR}/`];
+
+/**
+ * Runs git and returns its standard output.
+ *
+ * @throws {Error} With git's error output if git is missing or exits with an error.
+ */
+export async function runGit(args: string[], cwd: string): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        return stdout;
+    } catch (error) {
+        const stderr = typeof error === 'object' && error !== null && 'stderr' in error ? String(error.stderr).trim() : '';
+        const details = stderr || (error instanceof Error ? error.message : String(error));
+        throw new Error(`${logPrefix} git ${args.join(' ')} failed: ${details}`);
+    }
+}
+
+/**
+ * Where a develop branch was created from, so it can be returned to or rolled back.
+ */
+export interface GitBranchPoint {
+    /**
+     * The branch that was checked out, or the commit hash if HEAD was detached.
+     */
+    ref: string;
+    commit: string;
+}
+
+/**
+ * Checks that the directory is inside a git work tree with at least one commit.
+ *
+ * @throws {Error} If git is unavailable, the directory is not in a repository, or the repository has no commits.
+ */
+export async function assertGitRepository(cwd: string): Promise<void> {
+    await runGit(['rev-parse', '--is-inside-work-tree'], cwd);
+    await runGit(['rev-parse', '--verify', 'HEAD'], cwd);
+}
+
+/**
+ * Lists uncommitted changes (staged, unstaged and untracked), ignoring the tool's state directories in `cwd`
+ * (`.gemini-develop/` and the backup store).
+ *
+ * @param cwd The project root; it may be a subdirectory of the repository.
+ * @returns `git status --porcelain` lines (`XY path`, or `XY from -> to` for renames), empty if the tree is clean.
+ */
+export async function getUncommittedChanges(cwd: string): Promise<string[]> {
+    // Porcelain paths are relative to the repository root, so the state directories get the project's prefix.
+    const prefix = (await runGit(['rev-parse', '--show-prefix'], cwd)).trim();
+    const isToolState = (filePath: string) => TOOL_STATE_DIRS.some(directory => filePath.startsWith(`${prefix}${directory}`));
+    // -z leaves paths unquoted: "XY path" entries, each rename or copy followed by its source path.
+    const entries = (await runGit(['status', '--porcelain', '-z', '--untracked-files=all'], cwd)).split('\0');
+    const changes: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.length < 4) continue;
+        const status = entry.slice(0, 2);
+        const filePath = entry.slice(3);
+        const fromPath = /[RC]/.test(status) ? entries[++i] : undefined;
+        if (isToolState(filePath) && (fromPath === undefined || isToolState(fromPath))) continue;
+        changes.push(fromPath === undefined ? entry : `${status} ${fromPath} -> ${filePath}`);
+    }
+    return changes;
+}
+
+/**
+ * Returns the checked-out branch (or the commit, if HEAD is detached) and the current commit.
+ */
+export async function getBranchPoint(cwd: string): Promise<GitBranchPoint> {
+    const commit = (await runGit(['rev-parse', 'HEAD'], cwd)).trim();
+    const branch = (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+    return { ref: branch === 'HEAD' ? commit : branch, commit };
+}
+
+async function branchExists(cwd: string, branch: string): Promise<boolean> {
+    try {
+        await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], cwd);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Builds a branch name from a feature name, e.g. "User Login (v2)" -> "feature/user-login-v2".
+ */
+export function toBranchName(feature: string, prefix: string = 'feature/'): string {
+    const slug = feature.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50).replace(/-+$/, '');
+    return `${prefix}${slug || 'task'}`;
+}
+
+/**
+ * Creates a branch at HEAD and checks it out. If the name is taken, a numeric suffix is added ("-2", "-3", ...).
+ *
+ * @returns The name of the created branch.
+ */
+export async function createBranch(cwd: string, branch: string): Promise<string> {
+    let name = branch;
+    for (let suffix = 2; await branchExists(cwd, name); suffix++) {
+        name = `${branch}-${suffix}`;
+    }
+    await runGit(['checkout', '-q', '-b', name], cwd);
+    console.log(`${logPrefix} Created and checked out branch ${name}`);
+    return name;
+}
+
+/**
+ * Checks out a branch or commit.
+ *
+ * @param force Discard local changes to tracked files (`git checkout -f`).
+ */
+export async function checkout(cwd: string, ref: string, force: boolean = false): Promise<void> {
+    await runGit(['checkout', '-q', ...(force ? ['-f'] : []), ref], cwd);
+}
+
+/**
+ * Deletes a local branch, even if it is not merged.
+ */
+export async function deleteBranch(cwd: string, branch: string): Promise<void> {
+    await runGit(['branch', '-q', '-D', branch], cwd);
+    console.log(`${logPrefix} Deleted branch ${branch}`);
+}
+
+/**
+ * Stages the given paths (including deletions) and commits them.
+ *
+ * @param cwd Directory the paths are relative to.
+ * @param paths Files to commit. Paths without changes are fine; unknown paths are skipped.
+ * @param message The commit message (subject, blank line, body).
+ * @returns The short hash of the new commit, or null if the paths had no changes.
+ */
+export async function commitPaths(cwd: string, paths: string[], message: string): Promise<string | null> {
+    const existing: string[] = [];
+    for (const filePath of new Set(paths)) {
+        // Skip paths git knows nothing about (neither on disk nor in the index), which would fail `git add`.
+        const known = (await runGit(['ls-files', '--cached', '--others', '--deleted', '--', filePath], cwd)).trim();
+        if (known) existing.push(filePath);
+    }
+    if (existing.length === 0) {
+        return null;
+    }
+    await runGit(['add', '-A', '--', ...existing], cwd);
+    const staged = (await runGit(['diff', '--cached', '--name-only', '--', ...existing], cwd)).trim();
+    if (!staged) {
+        return null;
+    }
+    await runGit(['commit', '-q', '-m', message, '--', ...existing], cwd);
+    return (await runGit(['rev-parse', '--short', 'HEAD'], cwd)).trim();
+}
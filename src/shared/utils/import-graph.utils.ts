@@ -0,0 +1,200 @@
+// File: src/shared/utils/import-graph.utils.ts
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { formatFileHeader } from './multi-file.parser';
+import { toSignatureSkeleton } from './ts-skeleton.utils';
+
+const logPrefix = "[ImportGraph]";
+
+/** How many import levels are followed by default: the files the given files import directly. */
+export const DEFAULT_CONTEXT_DEPTH = 1;
+/** Default byte budget for the signatures of imported files. */
+export const DEFAULT_CONTEXT_BUDGET = 32 * 1024;
+
+const SOURCE_EXTENSIONS = new Set<string>([
+    ts.Extension.Ts, ts.Extension.Tsx, ts.Extension.Dts, ts.Extension.Mts, ts.Extension.Cts, ts.Extension.Dmts, ts.Extension.Dcts,
+    ts.Extension.Js, ts.Extension.Jsx, ts.Extension.Mjs, ts.Extension.Cjs,
+]);
+
+/**
+ * A project file reached by following imports from the given files.
+ */
+export interface ImportedModule {
+    /** Path relative to the project root, with forward slashes. */
+    path: string;
+    /** 1 for a file imported directly by one of the given files, 2 for a file imported by such a file, and so on. */
+    depth: number;
+    /** The file whose import led here. */
+    importedBy: string;
+}
+
+export interface DependencyContextOptions {
+    /** Import levels to follow (default `DEFAULT_CONTEXT_DEPTH`); 0 disables the dependency context. */
+    maxDepth?: number;
+    /** Maximum size in bytes of the returned context (default `DEFAULT_CONTEXT_BUDGET`). */
+    maxBytes?: number;
+}
+
+/**
+ * Checks the `--context-depth` and `--context-budget` options and applies the defaults.
+ *
+ * @throws Error if the depth is not a non-negative integer or the budget is not a positive integer.
+ */
+export function resolveDependencyContextOptions(contextDepth?: number, contextBudget?: number): Required<DependencyContextOptions> {
+    const maxDepth = contextDepth ?? DEFAULT_CONTEXT_DEPTH;
+    const maxBytes = contextBudget ?? DEFAULT_CONTEXT_BUDGET;
+    if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+        throw new Error(`${logPrefix} --context-depth must be a non-negative integer (got ${contextDepth}).`);
+    }
+    if (!Number.isInteger(maxBytes) || maxBytes <= 0) {
+        throw new Error(`${logPrefix} --context-budget must be a positive number of bytes (got ${contextBudget}).`);
+    }
+    return { maxDepth, maxBytes };
+}
+
+/**
+ * Reads the compiler options of the project's tsconfig.json (following `extends`), so that `paths` aliases such as
+ * `@/*` and `baseUrl` resolve the way the compiler resolves them. Without a usable tsconfig.json, relative imports
+ * still resolve with the default options.
+ */
+export function loadCompilerOptions(projectRoot: string): ts.CompilerOptions {
+    const configPath = path.join(projectRoot, 'tsconfig.json');
+    if (!fs.existsSync(configPath)) {
+        return { allowJs: true };
+    }
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+        console.warn(`${logPrefix} ⚠️ Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, ' ')}. Only relative imports are followed.`);
+        return { allowJs: true };
+    }
+    // Only the options are needed, so the `include` globs are not expanded.
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+    const { options } = ts.parseJsonConfigFileContent(config, host, projectRoot, undefined, configPath);
+    return { ...options, allowJs: true };
+}
+
+function realPath(filePath: string): string {
+    try {
+        return fs.realpathSync(filePath);
+    } catch {
+        return path.resolve(filePath);
+    }
+}
+
+function isInside(directory: string, filePath: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves one import of `containingFile` to a source file of the project, or null for packages,
+ * files outside the project and anything that does not resolve.
+ */
+function resolveImport(specifier: string, containingFile: string, options: ts.CompilerOptions, projectRoot: string): string | null {
+    const resolved = ts.resolveModuleName(specifier, containingFile, options, ts.sys).resolvedModule;
+    if (!resolved || resolved.isExternalLibraryImport || !SOURCE_EXTENSIONS.has(resolved.extension)) {
+        return null;
+    }
+    const resolvedFile = realPath(resolved.resolvedFileName);
+    return isInside(projectRoot, resolvedFile) && !resolvedFile.split(path.sep).includes('node_modules') ? resolvedFile : null;
+}
+
+/**
+ * Follows the imports (static, dynamic, `require` and `export ... from`) of the given files breadth-first.
+ *
+ * @param projectRoot The project root; its tsconfig.json supplies the module resolution options.
+ * @param entryFiles The files to start from, absolute or relative to the project root. Missing files are ignored.
+ * @param maxDepth How many import levels to follow.
+ * @returns The imported project files, nearest first, without the entry files themselves.
+ */
+export function resolveImportGraph(projectRoot: string, entryFiles: string[], maxDepth: number = DEFAULT_CONTEXT_DEPTH): ImportedModule[] {
+    const root = realPath(projectRoot);
+    const toProjectPath = (filePath: string) => path.relative(root, filePath).split(path.sep).join('/');
+    const options = loadCompilerOptions(root);
+
+    let frontier = entryFiles
+        .map(file => path.resolve(projectRoot, file))
+        .filter(file => fs.existsSync(file) && fs.statSync(file).isFile())
+        .map(realPath);
+    const seen = new Set(frontier);
+    const modules: ImportedModule[] = [];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const file of frontier) {
+            let content: string;
+            try {
+                content = fs.readFileSync(file, 'utf8');
+            } catch (e) {
+                console.warn(`${logPrefix} ⚠️ Could not read ${toProjectPath(file)}: ${e instanceof Error ? e.message : e}`);
+                continue;
+            }
+            for (const { fileName: specifier } of ts.preProcessFile(content, true, true).importedFiles) {
+                const resolved = resolveImport(specifier, file, options, root);
+                if (!resolved || seen.has(resolved)) {
+                    continue;
+                }
+                seen.add(resolved);
+                modules.push({ path: toProjectPath(resolved), depth, importedBy: toProjectPath(file) });
+                next.push(resolved);
+            }
+        }
+        frontier = next;
+    }
+    return modules;
+}
+
+/**
+ * Builds prompt context from the project files that the given files import: the signatures of each file
+ * (see `toSignatureSkeleton`) under a `File:` header, nearest imports first. Files that would exceed the byte budget
+ * are left out and reported.
+ *
+ * @param projectRoot The project root.
+ * @param entryFiles The files whose imports are followed, absolute or relative to the project root.
+ * @param options Depth and byte budget.
+ * @returns The context, or an empty string if nothing was found or the context is disabled.
+ */
+export function gatherDependencyContext(projectRoot: string, entryFiles: string[], options: DependencyContextOptions = {}): string {
+    const maxDepth = options.maxDepth ?? DEFAULT_CONTEXT_DEPTH;
+    const maxBytes = options.maxBytes ?? DEFAULT_CONTEXT_BUDGET;
+    if (maxDepth <= 0 || maxBytes <= 0 || entryFiles.length === 0) {
+        return '';
+    }
+
+    const modules = resolveImportGraph(projectRoot, entryFiles, maxDepth);
+    let context = '';
+    let usedBytes = 0;
+    const included: string[] = [];
+    const omitted: string[] = [];
+    for (const imported of modules) {
+        let skeleton: string;
+        try {
+            skeleton = toSignatureSkeleton(fs.readFileSync(path.join(realPath(projectRoot), imported.path), 'utf8'), imported.path);
+        } catch (e) {
+            console.warn(`${logPrefix} ⚠️ Could not read ${imported.path}: ${e instanceof Error ? e.message : e}`);
+            continue;
+        }
+        if (!skeleton.trim()) {
+            continue;
+        }
+        const block = `${formatFileHeader(imported.path)}\n\n${skeleton}\n\n---\n\n`;
+        const blockBytes = Buffer.byteLength(block, 'utf8');
+        if (usedBytes + blockBytes > maxBytes) {
+            omitted.push(imported.path);
+            continue;
+        }
+        context += block;
+        usedBytes += blockBytes;
+        included.push(imported.path);
+    }
+
+    if (included.length > 0) {
+        console.log(`${logPrefix} Added the signatures of ${included.length} imported file(s) (${usedBytes} of ${maxBytes} bytes): ${included.join(', ')}`);
+    }
+    if (omitted.length > 0) {
+        console.warn(`${logPrefix} ⚠️ Byte budget of ${maxBytes} reached. Left out ${omitted.length} imported file(s): ${omitted.join(', ')}`);
+    }
+    return context;
+}
@@ -1,5 +1,8 @@
 // File: src/gemini/utils/multi-file.parser.ts
 
+import path from 'path';
+import { FILE_RESPONSE_VERSION, FileAction, FileResponseEntrySchema, FileResponseSchema } from '@shared/types/file-response.schema';
+
 const logPrefix = "[MultiFileParser]";
 
 /**
@@ -7,99 +10,328 @@ const logPrefix = "[MultiFileParser]";
  */
 export interface ExtractedFile {
     /**
-     * The relative path to the file, as specified in the `// File: path/to/file.ext` header.
+     * The relative path to the file, as given in the JSON response or in the `File: path/to/file.ext` header.
      */
     filePath: string;
     /**
-     * The content of the file.
+     * The content of the file. Empty for a 'delete'.
      */
     content: string;
+    /**
+     * The action from the JSON protocol. Header blocks have none: they always carry the complete content (create or modify).
+     */
+    action?: FileAction;
 }
 
 /**
- * Parses a text response from an AI that is expected to contain one or more
- * file blocks, each demarcated by a `// File: path/to/file.ext` header.
- * It also attempts to strip Markdown code block fences if they wrap the content of a file segment.
+ * A problem found while parsing a response. Blocks that cannot be used are reported here instead of being dropped silently.
+ */
+export interface ParseDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    /**
+     * 1-based line of the response the problem refers to, if any.
+     */
+    line?: number;
+}
+
+/**
+ * The result of parsing a multi-file response.
+ */
+export interface FileResponse {
+    /**
+     * How the files were found: the JSON protocol, the `File:` header fallback, or not at all.
+     */
+    format: 'json' | 'headers' | 'none';
+    files: ExtractedFile[];
+    diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * How a file header is written as a comment in the file's language.
+ */
+export interface CommentSyntax {
+    start: string;
+    end?: string;
+}
+
+const HASH_COMMENT_EXTENSIONS = new Set(['py', 'pyi', 'rb', 'sh', 'bash', 'zsh', 'fish', 'ps1', 'pl', 'r', 'yml', 'yaml', 'toml', 'conf', 'cfg', 'env', 'properties', 'mk', 'cmake', 'tf', 'nix', 'ex', 'exs', 'jl', 'dockerfile', 'gitignore', 'dockerignore', 'npmignore', 'editorconfig']);
+const HASH_COMMENT_FILENAMES = new Set(['dockerfile', 'containerfile', 'makefile', 'gnumakefile', 'gemfile', 'rakefile', 'procfile', 'vagrantfile', 'brewfile', 'cmakelists.txt']);
+const DASH_COMMENT_EXTENSIONS = new Set(['sql', 'lua', 'hs', 'elm', 'ada', 'adb', 'ads']);
+const SEMICOLON_COMMENT_EXTENSIONS = new Set(['ini', 'clj', 'cljs', 'edn', 'lisp', 'el', 'scm', 'rkt', 'asm', 's']);
+const MARKUP_COMMENT_EXTENSIONS = new Set(['html', 'htm', 'xml', 'svg', 'md', 'markdown', 'vue', 'xhtml', 'csproj', 'xaml']);
+const BLOCK_COMMENT_EXTENSIONS = new Set(['css']);
+
+// A header line: a comment marker of any supported language, then "File: <path>", optionally bolded or closed (`*/`, `-->`).
+const FILE_HEADER_REGEX = /^[ \t]*(?:\/\/|#{1,6}|--|;{1,2}|\/\*|<!--)[ \t]*(?:\*\*)?[ \t]*File:[ \t]*(.*?)[ \t]*(?:\*\/|-->)?[ \t]*$/;
+const FENCE_OPEN_REGEX = /^[ \t]*```[ \t]*([\w+#.-]*)[ \t]*$/;
+const FENCE_CLOSE_REGEX = /^[ \t]*```[ \t]*$/;
+const INVALID_PATH_CHARS = /[\s<>"|?*]/;
+
+/**
+ * Returns the comment syntax a file header should use for the given file (e.g., `#` for Python, YAML and Dockerfiles,
+ * `<!-- -->` for HTML and Markdown). Defaults to `//`.
+ */
+export function getCommentSyntax(filePath: string): CommentSyntax {
+    const baseName = path.posix.basename(filePath.replace(/\\/g, '/')).toLowerCase();
+    const extension = baseName.includes('.') ? baseName.slice(baseName.lastIndexOf('.') + 1) : '';
+    if (HASH_COMMENT_FILENAMES.has(baseName) || baseName.startsWith('dockerfile.') || HASH_COMMENT_EXTENSIONS.has(extension)) return { start: '#' };
+    if (DASH_COMMENT_EXTENSIONS.has(extension)) return { start: '--' };
+    if (SEMICOLON_COMMENT_EXTENSIONS.has(extension)) return { start: ';' };
+    if (MARKUP_COMMENT_EXTENSIONS.has(extension)) return { start: '<!--', end: '-->' };
+    if (BLOCK_COMMENT_EXTENSIONS.has(extension)) return { start: '/*', end: '*/' };
+    return { start: '//' };
+}
+
+/**
+ * Formats the `File:` header line for a file in its language's comment syntax (e.g., "# File: app/main.py").
+ */
+export function formatFileHeader(filePath: string): string {
+    const { start, end } = getCommentSyntax(filePath);
+    return end ? `${start} File: ${filePath} ${end}` : `${start} File: ${filePath}`;
+}
+
+/**
+ * Cleans a path taken from a header or JSON entry (quotes, backticks, bold markers, leading "./").
  *
- * @param responseText The raw text response from the AI.
- * @returns An array of ExtractedFile objects. If no valid file headers are found,
- *          an empty array is returned.
+ * @returns The cleaned path, or an error message if it cannot be a file path.
  */
-export function parseAiResponseWithFileHeaders(responseText: string): ExtractedFile[] {
-    const extractedFiles: ExtractedFile[] = [];
-    if (!responseText || responseText.trim() === '') {
-        console.warn(`${logPrefix} Received empty or whitespace-only responseText. Cannot parse files.`);
-        return extractedFiles;
+function cleanFilePath(rawPath: string): { filePath: string } | { error: string } {
+    const filePath = rawPath.trim().replace(/^\*\*|\*\*$/g, '').replace(/^[`'"]+|[`'"]+$/g, '').trim().replace(/^(\.\/)+/, '');
+    if (!filePath) {
+        return { error: 'The file path is empty.' };
+    }
+    if (INVALID_PATH_CHARS.test(filePath) || filePath.endsWith('/')) {
+        return { error: `"${rawPath.trim()}" is not a valid file path.` };
     }
+    return { filePath };
+}
 
-    const fileHeaderRegex = /^\s*\/\/\s*File:\s*([^\s\n\r]+)\s*$/gm;
+/**
+ * Finds the JSON payload of a structured response: a ```json fence, or a JSON object that starts a line and mentions "files".
+ */
+function findJsonCandidate(responseText: string): string | null {
+    const fenced = responseText.match(/```json[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*```/i);
+    if (fenced) {
+        return fenced[1];
+    }
+    const start = responseText.trimStart().startsWith('{') ? responseText.indexOf('{') : responseText.search(/^\{/m);
+    const end = responseText.lastIndexOf('}');
+    if (start === -1 || end <= start || (start > 0 && !/"files"\s*:/.test(responseText))) {
+        return null;
+    }
+    return responseText.slice(start, end + 1);
+}
+
+/**
+ * Parses the JSON protocol. Returns null if the text does not contain a usable JSON envelope (the caller falls back to headers).
+ */
+function parseJsonResponse(responseText: string, diagnostics: ParseDiagnostic[]): ExtractedFile[] | null {
+    const candidate = findJsonCandidate(responseText);
+    if (candidate === null) {
+        return null;
+    }
 
-    let match;
-    const matches = [];
-    while ((match = fileHeaderRegex.exec(responseText)) !== null) {
-        matches.push({
-            filePath: match[1].trim(),
-            startIndex: match.index,
-            headerLength: match[0].length,
-        });
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(candidate);
+    } catch (e) {
+        diagnostics.push({ severity: 'warning', message: `The response looks like JSON but could not be parsed (${e instanceof Error ? e.message : e}). Falling back to file headers.` });
+        return null;
+    }
+    const envelope = FileResponseSchema.safeParse(parsed);
+    if (!envelope.success) {
+        const issues = envelope.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        diagnostics.push({ severity: 'warning', message: `The JSON in the response is not a file response (${issues}). Falling back to file headers.` });
+        return null;
     }
 
-    if (matches.length === 0) {
-        console.warn(`${logPrefix} No "// File: ..." headers found in the AI response.`);
-        return extractedFiles;
+    const { version, files } = envelope.data;
+    if (version === undefined) {
+        diagnostics.push({ severity: 'warning', message: `The JSON response has no "version"; assuming version ${FILE_RESPONSE_VERSION}.` });
+    } else if (version !== FILE_RESPONSE_VERSION) {
+        diagnostics.push({ severity: 'error', message: `Unsupported response protocol version ${version} (expected ${FILE_RESPONSE_VERSION}).` });
+        return [];
     }
 
-    for (let i = 0; i < matches.length; i++) {
-        const currentMatch = matches[i];
-        const contentStartIndex = currentMatch.startIndex + currentMatch.headerLength;
+    const extractedFiles: ExtractedFile[] = [];
+    files.forEach((rawEntry, index) => {
+        const entry = FileResponseEntrySchema.safeParse(rawEntry);
+        const label = `files[${index}]${typeof (rawEntry as { path?: unknown })?.path === 'string' ? ` (${(rawEntry as { path: string }).path})` : ''}`;
+        if (!entry.success) {
+            const issues = entry.error.issues.map(issue => `${issue.path.join('.') || '(entry)'}: ${issue.message}`).join('; ');
+            diagnostics.push({ severity: 'error', message: `Skipped ${label}: ${issues}` });
+            return;
+        }
+        const cleaned = cleanFilePath(entry.data.path);
+        if ('error' in cleaned) {
+            diagnostics.push({ severity: 'error', message: `Skipped ${label}: ${cleaned.error}` });
+            return;
+        }
+        extractedFiles.push({ filePath: cleaned.filePath, content: entry.data.action === 'delete' ? '' : entry.data.content ?? '', action: entry.data.action });
+    });
+    return extractedFiles;
+}
+
+/**
+ * Parses the header fallback: file blocks introduced by a `File: path` comment line in any supported comment syntax
+ * (`//`, `#`, `--`, `;`, `/* *\/`, `<!-- -->`). The header may sit above a Markdown code fence or be its first line.
+ * Text outside the fences (prose the model added) is ignored and reported.
+ */
+function parseHeaderResponse(responseText: string, diagnostics: ParseDiagnostic[]): ExtractedFile[] {
+    const lines = responseText.split(/\r?\n/);
 
-        let contentEndIndex: number;
-        if (i + 1 < matches.length) {
-            contentEndIndex = matches[i + 1].startIndex;
-        } else {
-            contentEndIndex = responseText.length;
+    // Find the headers and whether each one is the first line inside a code fence (the fence opener then belongs to it).
+    // A header further down inside a fence is part of the file's content.
+    // `start` is the first line of the block: the header, or the fence opener above it.
+    const headers: { line: number; rawPath: string; fenceLine: number | null; start: number }[] = [];
+    let fenceDepth = 0;
+    let lastOpenerLine = -1;
+    lines.forEach((line, index) => {
+        const header = line.match(FILE_HEADER_REGEX);
+        if (header) {
+            const startsFence = fenceDepth > 0 && lines.slice(lastOpenerLine + 1, index).every(between => !between.trim());
+            if (fenceDepth === 0 || startsFence) {
+                headers.push({ line: index, rawPath: header[1], fenceLine: startsFence ? lastOpenerLine : null, start: startsFence ? lastOpenerLine : index });
+                // An unclosed fence of the previous block must not swallow this one.
+                fenceDepth = startsFence ? 1 : 0;
+            }
+            return;
+        }
+        const opener = line.match(FENCE_OPEN_REGEX);
+        if (opener && (opener[1] || fenceDepth === 0)) {
+            fenceDepth++;
+            lastOpenerLine = index;
+        } else if (FENCE_CLOSE_REGEX.test(line) && fenceDepth > 0) {
+            fenceDepth--;
         }
+    });
 
-        let fileContent = responseText.substring(contentStartIndex, contentEndIndex);
+    // Models often repeat the header as the first line of the code ("# File: a.py" above and inside the fence): keep one.
+    for (let i = headers.length - 1; i > 0; i--) {
+        const previous = headers[i - 1];
+        const between = lines.slice(previous.line + 1, headers[i].line);
+        if (previous.rawPath.trim() === headers[i].rawPath.trim() && between.every(line => !line.trim() || FENCE_OPEN_REGEX.test(line))) {
+            headers[i].start = previous.start;
+            headers.splice(i - 1, 1);
+        }
+    }
+
+    if (headers.length === 0) {
+        return [];
+    }
 
-        // 1. Basic trim to remove surrounding whitespace from the segment
-        fileContent = fileContent.trim();
+    const prelude = lines.slice(0, headers[0].start).filter(line => line.trim()).length;
+    if (prelude > 0) {
+        diagnostics.push({ severity: 'warning', line: 1, message: `Ignored ${prelude} line(s) of text before the first file header.` });
+    }
 
-        // 2. Attempt to detect and remove Markdown code block fences if they wrap THE ENTIRE fileContent segment
-        // This regex attempts to match:
-        // ```[optional_lang_specifier]
-        // code_content
-        // ```
-        // It's multiline and dotAll (implicitly via [\s\S]) to handle newlines in code_content.
-        const markdownBlockRegex = /^```(?:[a-zA-Z0-9-+_]+)?\s*\n([\s\S]*?)\n?\s*```$/;
-        const matchResult = fileContent.match(markdownBlockRegex);
+    const extractedFiles: ExtractedFile[] = [];
+    headers.forEach((header, index) => {
+        const end = index + 1 < headers.length ? headers[index + 1].start : lines.length;
+        let bodyStart = header.line + 1;
+        let body = lines.slice(bodyStart, end);
+        const lineNumber = header.line + 1;
 
-        if (matchResult && matchResult[1]) {
-            // If the entire segment was a Markdown block, use its inner content
-            fileContent = matchResult[1].trim(); // Trim the inner content as well
-            console.log(`${logPrefix} Stripped Markdown code block fences for file: ${currentMatch.filePath}`);
+        const cleaned = cleanFilePath(header.rawPath);
+        if ('error' in cleaned) {
+            diagnostics.push({ severity: 'error', line: lineNumber, message: `Skipped a file block: ${cleaned.error}` });
+            return;
         }
-        // If no such wrapping block is found, the content is used as is (after the initial trim).
+        const { filePath } = cleaned;
 
-        if (!currentMatch.filePath) {
-            console.warn(`${logPrefix} Skipping a block due to missing file path in header: ${responseText.substring(currentMatch.startIndex, currentMatch.startIndex + 50)}...`);
-            continue;
+        let fenced = header.fenceLine !== null;
+        if (!fenced) {
+            const firstText = body.findIndex(line => line.trim());
+            if (firstText !== -1 && FENCE_OPEN_REGEX.test(body[firstText])) {
+                body = body.slice(firstText + 1);
+                bodyStart += firstText + 1;
+                fenced = true;
+            }
         }
-
-        if (currentMatch.filePath.length < 3 || !currentMatch.filePath.includes('/') && !currentMatch.filePath.includes('.')) {
-            console.warn(`${logPrefix} Skipping block due to potentially invalid file path: "${currentMatch.filePath}"`);
-            continue;
+        if (fenced) {
+            let closer = -1;
+            body.forEach((line, bodyIndex) => { if (FENCE_CLOSE_REGEX.test(line)) closer = bodyIndex; });
+            if (closer === -1) {
+                diagnostics.push({ severity: 'warning', line: lineNumber, message: `The code block of ${filePath} is not closed; using everything up to the next header.` });
+            } else {
+                const trailing = body.slice(closer + 1).filter(line => line.trim()).length;
+                if (trailing > 0) {
+                    const firstTrailing = body.findIndex((line, bodyIndex) => bodyIndex > closer && line.trim());
+                    diagnostics.push({ severity: 'warning', line: bodyStart + firstTrailing + 1, message: `Ignored ${trailing} line(s) of text after the code block of ${filePath}.` });
+                }
+                body = body.slice(0, closer);
+            }
         }
 
-        extractedFiles.push({
-            filePath: currentMatch.filePath,
-            content: fileContent,
-        });
+        const content = body.join('\n').replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+        extractedFiles.push({ filePath, content });
+    });
+    return extractedFiles;
+}
+
+/**
+ * Parses a multi-file model response. The structured protocol is tried first:
+ * `{ "version": 1, "files": [{ "path", "action": "create" | "modify" | "delete", "content" }] }`,
+ * bare, in a ```json fence, or after some prose. If the response has no usable JSON, `File:` headers are used instead.
+ *
+ * @param responseText The raw text response from the AI.
+ * @returns The files found, how they were found, and every problem met on the way (invalid entries or paths,
+ *          ignored prose, duplicate paths). When several blocks name the same path, the last one wins.
+ */
+export function parseAiFileResponse(responseText: string): FileResponse {
+    const diagnostics: ParseDiagnostic[] = [];
+    if (!responseText || responseText.trim() === '') {
+        diagnostics.push({ severity: 'error', message: 'The response is empty.' });
+        return { format: 'none', files: [], diagnostics };
     }
 
-    if (extractedFiles.length > 0) {
-        console.log(`${logPrefix} Successfully parsed ${extractedFiles.length} file(s) from AI response.`);
+    const jsonFiles = parseJsonResponse(responseText, diagnostics);
+    const format = jsonFiles !== null ? 'json' : 'headers';
+    const parsedFiles = jsonFiles ?? parseHeaderResponse(responseText, diagnostics);
+
+    const files: ExtractedFile[] = [];
+    for (const file of parsedFiles) {
+        const previous = files.findIndex(existing => existing.filePath === file.filePath);
+        if (previous !== -1) {
+            diagnostics.push({ severity: 'warning', message: `${file.filePath} appears more than once; the last block is used.` });
+            files.splice(previous, 1);
+        }
+        files.push(file);
     }
 
+    if (files.length === 0) {
+        if (!diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+            diagnostics.push({ severity: 'error', message: 'No files found: the response has neither a JSON file list nor "File: path" headers.' });
+        }
+        return { format: 'none', files, diagnostics };
+    }
+    console.log(`${logPrefix} Parsed ${files.length} file(s) from the ${format === 'json' ? 'JSON' : 'header-based'} response.`);
+    return { format, files, diagnostics };
+}
+
+/**
+ * Parses a text response from an AI that is expected to contain one or more
+ * file blocks, each demarcated by a `File: path/to/file.ext` header comment (`//`, `#`, `--`, ...).
+ * Markdown code block fences around (or containing) a file block are stripped.
+ *
+ * @param responseText The raw text response from the AI.
+ * @returns An array of ExtractedFile objects. If no valid file headers are found,
+ *          an empty array is returned. Problems are logged as warnings.
+ */
+export function parseAiResponseWithFileHeaders(responseText: string): ExtractedFile[] {
+    const diagnostics: ParseDiagnostic[] = [];
+    const extractedFiles = responseText?.trim() ? parseHeaderResponse(responseText, diagnostics) : [];
+    if (extractedFiles.length === 0) {
+        diagnostics.push({ severity: 'warning', message: 'No "File: ..." headers found in the AI response.' });
+    }
+    diagnostics.forEach(diagnostic => console.warn(`${logPrefix} ${formatParseDiagnostic(diagnostic)}`));
     return extractedFiles;
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a diagnostic for display, e.g. "line 12: warning: Ignored 2 line(s) of text after the code block of a.ts."
+ */
+export function formatParseDiagnostic(diagnostic: ParseDiagnostic): string {
+    return `${diagnostic.line !== undefined ? `line ${diagnostic.line}: ` : ''}${diagnostic.severity}: ${diagnostic.message}`;
+}
@@ -0,0 +1,99 @@
+// File: src/shared/utils/prompt.utils.ts
+
+import readline from 'readline';
+
+const logPrefix = "[Prompt]";
+
+interface LineReader {
+    rl: readline.Interface;
+    lines: AsyncIterableIterator<string>;
+}
+
+// One reader per input stream for the whole process. A new readline interface per prompt would lose the answers that
+// arrived (typed or pasted ahead) while the previous interface was being closed.
+const lineReaders = new WeakMap<NodeJS.ReadableStream, LineReader>();
+
+function getLineReader(input: NodeJS.ReadableStream): LineReader {
+    let reader = lineReaders.get(input);
+    if (!reader) {
+        const rl = readline.createInterface({ input, terminal: false });
+        reader = { rl, lines: rl[Symbol.asyncIterator]() };
+        lineReaders.set(input, reader);
+    }
+    return reader;
+}
+
+/**
+ * Options for `confirm`.
+ */
+export interface ConfirmOptions {
+    /**
+     * Approve without asking (the `--yes` flag). Required when stdin is not a TTY.
+     */
+    assumeYes?: boolean;
+    /**
+     * Answer used when the user just presses Enter. Defaults to true ("Y/n").
+     */
+    defaultAnswer?: boolean;
+    /**
+     * If set, the prompt offers a 'd' answer that calls this function (e.g., to print a diff) and asks again.
+     */
+    onShowDetails?: () => void;
+    /**
+     * Streams used for the prompt. Default to process.stdin / process.stdout (overridable for tests).
+     */
+    input?: NodeJS.ReadableStream & { isTTY?: boolean };
+    output?: NodeJS.WritableStream;
+}
+
+/**
+ * Asks a yes/no question on the terminal.
+ * - With `assumeYes`, approves immediately (and logs that it did).
+ * - When stdin is not a TTY (CI, pipes) and `assumeYes` is not set, refuses without waiting for input.
+ * - Accepts y/yes and n/no (case-insensitive); an empty answer selects the default; 'd' shows details if offered.
+ *   Closing the input (Ctrl+D) counts as "no".
+ *
+ * @param message The question to ask, without the answer hint.
+ * @param options See `ConfirmOptions`.
+ * @returns True if the action was approved.
+ */
+export async function confirm(message: string, options: ConfirmOptions = {}): Promise<boolean> {
+    const { assumeYes = false, defaultAnswer = true, onShowDetails } = options;
+    const input = options.input ?? process.stdin;
+    const output = options.output ?? process.stdout;
+
+    if (assumeYes) {
+        console.log(`${logPrefix} ${message} -> yes (--yes)`);
+        return true;
+    }
+    if (!input.isTTY) {
+        console.warn(`${logPrefix} ${message} -> no (stdin is not a TTY; re-run with --yes to approve automatically)`);
+        return false;
+    }
+
+    const hint = `${defaultAnswer ? 'Y/n' : 'y/N'}${onShowDetails ? '/d' : ''}`;
+    const { rl, lines } = getLineReader(input);
+    rl.resume();
+    try {
+        for (;;) {
+            output.write(`${message} [${hint}] `);
+            const { value: answer, done } = await lines.next();
+            if (done) {
+                output.write('\n');
+                return false;
+            }
+            const normalized = answer.trim().toLowerCase();
+            if (normalized === '') return defaultAnswer;
+            if (normalized === 'y' || normalized === 'yes') return true;
+            if (normalized === 'n' || normalized === 'no') return false;
+            if (onShowDetails && (normalized === 'd' || normalized === 'diff')) {
+                onShowDetails();
+                continue;
+            }
+            output.write(`Please answer 'y' or 'n'${onShowDetails ? ", or 'd' to view the diff" : ''}.\n`);
+        }
+    } finally {
+        // Paused between prompts, so the open input does not keep the process alive. Lines already read stay queued.
+        rl.pause();
+    }
+}
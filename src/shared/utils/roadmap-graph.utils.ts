@@ -0,0 +1,201 @@
+// src/shared/utils/roadmap-graph.utils.ts
+// Dependency graph (DAG) of FEATURE_ROADMAP.md items: resolution, cycle detection, ordering and rendering.
+
+import { isDoneStatus, RoadmapItem } from './feature-roadmap.utils';
+
+const logPrefix = "[RoadmapGraph]";
+
+/**
+ * A roadmap item in the dependency graph. `key` is the item's ID, else its feature name, else its description.
+ */
+export interface RoadmapNode {
+    key: string;
+    item: RoadmapItem;
+}
+
+/**
+ * A resolved dependency: `from` must be Done before `to` can start.
+ */
+export interface RoadmapEdge {
+    from: string;
+    to: string;
+}
+
+export interface RoadmapGraph {
+    nodes: RoadmapNode[];
+    edges: RoadmapEdge[];
+    /**
+     * Dependency references that match no item's ID or feature name.
+     */
+    unresolved: { key: string; reference: string }[];
+}
+
+// Cell values meaning "no dependencies"
+const EMPTY_DEPENDENCY = /^(-+|none|n\/a|na|tbd)$/i;
+
+/**
+ * Returns the key that identifies an item in the graph and in dependency lists.
+ */
+export function getRoadmapItemKey(item: RoadmapItem): string {
+    return (item.id || item.feature || item.description).trim();
+}
+
+/**
+ * Splits a Dependencies cell ("F-001, Login; Sign up") into references. Markdown links are reduced to their text.
+ */
+export function parseDependencyList(dependencies: string | undefined): string[] {
+    if (!dependencies) return [];
+    return dependencies
+        .split(/[,;]/)
+        .map(reference => reference.trim().replace(/\[([^\]]+)\]\(.*?\)/g, '$1').trim())
+        .filter(reference => reference && !EMPTY_DEPENDENCY.test(reference));
+}
+
+/**
+ * Resolves every item's Dependencies (by ID or feature name, case-insensitive) into graph edges.
+ *
+ * @param items The parsed roadmap items.
+ * @returns The graph. Items with the same key are merged into the first one; unknown references are reported in `unresolved`.
+ */
+export function buildRoadmapGraph(items: RoadmapItem[]): RoadmapGraph {
+    const nodes: RoadmapNode[] = [];
+    const byReference = new Map<string, string>();
+    for (const item of items) {
+        const key = getRoadmapItemKey(item);
+        if (nodes.some(node => node.key === key)) {
+            console.warn(`${logPrefix} Duplicate roadmap item "${key}". Only the first one is used in the dependency graph.`);
+            continue;
+        }
+        nodes.push({ key, item });
+        for (const reference of [item.id, item.feature]) {
+            const normalized = reference?.trim().toLowerCase();
+            if (normalized && !byReference.has(normalized)) byReference.set(normalized, key);
+        }
+    }
+
+    const edges: RoadmapEdge[] = [];
+    const unresolved: RoadmapGraph['unresolved'] = [];
+    for (const { key, item } of nodes) {
+        for (const reference of parseDependencyList(item.dependencies)) {
+            const from = byReference.get(reference.toLowerCase());
+            if (from === undefined) {
+                unresolved.push({ key, reference });
+            } else if (!edges.some(edge => edge.from === from && edge.to === key)) {
+                edges.push({ from, to: key });
+            }
+        }
+    }
+    return { nodes, edges, unresolved };
+}
+
+/**
+ * Finds dependency cycles with a depth-first search.
+ *
+ * @returns Each cycle as a list of keys that starts and ends with the same key (e.g., ["A", "B", "A"]). Empty if the graph is a DAG.
+ */
+export function findDependencyCycles(graph: RoadmapGraph): string[][] {
+    const dependents = new Map<string, string[]>(graph.nodes.map(node => [node.key, []]));
+    graph.edges.forEach(edge => dependents.get(edge.from)?.push(edge.to));
+
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (key: string): void => {
+        state.set(key, 'visiting');
+        stack.push(key);
+        for (const next of dependents.get(key) ?? []) {
+            if (state.get(next) === 'visiting') {
+                cycles.push([...stack.slice(stack.indexOf(next)), next]);
+            } else if (!state.has(next)) {
+                visit(next);
+            }
+        }
+        stack.pop();
+        state.set(key, 'done');
+    };
+    graph.nodes.forEach(node => { if (!state.has(node.key)) visit(node.key); });
+    return cycles;
+}
+
+/**
+ * Throws if the roadmap dependencies contain a cycle.
+ *
+ * @throws {Error} Listing every cycle as "A -> B -> A".
+ */
+export function assertAcyclic(graph: RoadmapGraph): void {
+    const cycles = findDependencyCycles(graph);
+    if (cycles.length > 0) {
+        throw new Error(`${logPrefix} Dependency cycle(s) in FEATURE_ROADMAP.md: ${cycles.map(cycle => cycle.join(' -> ')).join('; ')}. Fix the Dependencies column.`);
+    }
+}
+
+/**
+ * Orders the items so every item comes after its dependencies (Kahn's algorithm, stable with respect to roadmap order).
+ *
+ * @throws {Error} If the graph has a cycle.
+ */
+export function topologicalOrder(graph: RoadmapGraph): RoadmapNode[] {
+    assertAcyclic(graph);
+    const remaining = new Map<string, number>(graph.nodes.map(node => [node.key, 0]));
+    graph.edges.forEach(edge => remaining.set(edge.to, (remaining.get(edge.to) ?? 0) + 1));
+
+    const ordered: RoadmapNode[] = [];
+    const pending = [...graph.nodes];
+    while (pending.length > 0) {
+        const index = pending.findIndex(node => remaining.get(node.key) === 0);
+        const [node] = pending.splice(index, 1);
+        ordered.push(node);
+        graph.edges.filter(edge => edge.from === node.key).forEach(edge => remaining.set(edge.to, (remaining.get(edge.to) ?? 0) - 1));
+    }
+    return ordered;
+}
+
+/**
+ * Returns the keys of the item's dependencies that are not Done yet.
+ */
+export function getUnmetDependencies(graph: RoadmapGraph, item: RoadmapItem): string[] {
+    const key = getRoadmapItemKey(item);
+    return graph.edges
+        .filter(edge => edge.to === key)
+        .map(edge => graph.nodes.find(node => node.key === edge.from))
+        .filter((node): node is RoadmapNode => !!node && !isDoneStatus(node.item.status))
+        .map(node => node.key);
+}
+
+function nodeLabel(node: RoadmapNode): string {
+    const title = node.item.id && node.item.feature ? `${node.item.id}: ${node.item.feature}` : node.key;
+    return `${title} (${node.item.status})`;
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart. Done items are styled as finished.
+ */
+export function renderMermaid(graph: RoadmapGraph): string {
+    const ids = new Map(graph.nodes.map((node, index) => [node.key, `n${index + 1}`]));
+    const escape = (text: string) => text.replace(/"/g, '#quot;');
+    const lines = ['flowchart TD'];
+    graph.nodes.forEach(node => lines.push(`    ${ids.get(node.key)}["${escape(nodeLabel(node))}"]`));
+    graph.edges.forEach(edge => lines.push(`    ${ids.get(edge.from)} --> ${ids.get(edge.to)}`));
+    const doneIds = graph.nodes.filter(node => isDoneStatus(node.item.status)).map(node => ids.get(node.key));
+    if (doneIds.length > 0) {
+        lines.push('    classDef done fill:#d4edda,stroke:#28a745;');
+        lines.push(`    class ${doneIds.join(',')} done;`);
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders the graph in Graphviz DOT format. Done items are filled green.
+ */
+export function renderDot(graph: RoadmapGraph): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = ['digraph roadmap {', '    rankdir=LR;', '    node [shape=box];'];
+    graph.nodes.forEach(node => {
+        const style = isDoneStatus(node.item.status) ? ', style=filled, fillcolor="#d4edda"' : '';
+        lines.push(`    ${quote(node.key)} [label=${quote(nodeLabel(node))}${style}];`);
+    });
+    graph.edges.forEach(edge => lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)};`));
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,155 @@
+// File: src/shared/utils/test-runner.utils.ts
+
+import { spawn } from 'child_process';
+
+const logPrefix = "[TestRunner]";
+
+/**
+ * Test command used when none is configured. The test file paths are appended to it.
+ */
+export const DEFAULT_TEST_COMMAND = 'npx jest';
+
+/**
+ * Placeholder that, if present in a test command, is replaced with the test file paths instead of appending them.
+ */
+const FILES_PLACEHOLDER = '{files}';
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Result of running the project's test command.
+ * - 'passed' / 'failed': the runner exited with code 0 / non-zero.
+ * - 'error': the runner could not be started (e.g., command not found) or timed out, so the result says nothing about the tests.
+ */
+export interface TestRunResult {
+    command: string;
+    status: 'passed' | 'failed' | 'error';
+    exitCode: number | null;
+    /**
+     * Combined stdout and stderr, in arrival order.
+     */
+    output: string;
+}
+
+export interface TestRunOptions {
+    timeoutMs?: number;
+    /**
+     * Mirror the runner's output to the console while it runs (default true).
+     */
+    echo?: boolean;
+}
+
+function quoteArgument(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+/**
+ * Builds the shell command for the given test files: replaces `{files}` if present, otherwise appends the paths.
+ *
+ * @param command The configured test command (e.g., "npx jest" or "npx vitest run {files} --reporter dot").
+ * @param testFiles Test file paths, relative to the directory the command runs in.
+ * @returns The full command line.
+ */
+export function buildTestCommand(command: string, testFiles: string[]): string {
+    const files = testFiles.map(quoteArgument).join(' ');
+    if (command.includes(FILES_PLACEHOLDER)) {
+        return command.split(FILES_PLACEHOLDER).join(files);
+    }
+    return files ? `${command.trim()} ${files}` : command.trim();
+}
+
+/**
+ * Runs a test command through the shell and captures its output. On POSIX the command runs in its own process group,
+ * which is stopped when the command times out, when this process gets SIGINT or SIGTERM (e.g. Ctrl+C), and when it exits.
+ *
+ * @param command The full command line (see `buildTestCommand`).
+ * @param cwd Directory to run the command in (usually the project root).
+ * @param options Timeout and echo settings.
+ * @returns The outcome; never rejects.
+ */
+export function runTestCommand(command: string, cwd: string, options: TestRunOptions = {}): Promise<TestRunResult> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, echo = true } = options;
+    console.log(`${logPrefix} Running: ${command} (in ${cwd})`);
+
+    return new Promise(resolve => {
+        let output = '';
+        let settled = false;
+        const finish = (result: Omit<TestRunResult, 'command' | 'output'>) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            process.off('SIGINT', forwardSignal);
+            process.off('SIGTERM', forwardSignal);
+            process.off('exit', stopOnExit);
+            resolve({ command, output, ...result });
+        };
+
+        // On POSIX the command gets its own process group, so stopping it also stops the runner's workers and watchers.
+        // Being detached, the group does not receive the terminal's Ctrl+C, so signals are forwarded to it.
+        const detached = process.platform !== 'win32';
+        const child = spawn(command, { cwd, shell: true, detached, env: { ...process.env, CI: process.env.CI ?? 'true' } });
+        const stopChild = (signal: NodeJS.Signals = 'SIGTERM') => {
+            try {
+                if (detached && child.pid) process.kill(-child.pid, signal);
+                else child.kill(signal);
+            } catch {
+                // The process already exited.
+            }
+        };
+        const forwardSignal = (signal: NodeJS.Signals) => {
+            stopChild(signal);
+            process.off('SIGINT', forwardSignal);
+            process.off('SIGTERM', forwardSignal);
+            // Without this listener the signal would have ended the process; let it do so now.
+            if (process.listenerCount(signal) === 0) {
+                process.kill(process.pid, signal);
+            }
+        };
+        const stopOnExit = () => stopChild();
+        process.on('SIGINT', forwardSignal);
+        process.on('SIGTERM', forwardSignal);
+        process.on('exit', stopOnExit);
+        const collect = (chunk: Buffer) => {
+            const text = chunk.toString();
+            output += text;
+            if (echo) process.stdout.write(text);
+        };
+        child.stdout?.on('data', collect);
+        child.stderr?.on('data', collect);
+
+        const timer = setTimeout(() => {
+            output += `\n${logPrefix} Test command timed out after ${timeoutMs} ms.\n`;
+            stopChild();
+            finish({ status: 'error', exitCode: null });
+        }, timeoutMs);
+
+        child.on('error', error => {
+            output += `\n${logPrefix} Failed to start test command: ${error.message}\n`;
+            finish({ status: 'error', exitCode: null });
+        });
+        child.on('close', code => {
+            // 126/127: the shell could not execute or find the command.
+            if (code === 126 || code === 127) {
+                finish({ status: 'error', exitCode: code });
+            } else {
+                finish({ status: code === 0 ? 'passed' : 'failed', exitCode: code });
+            }
+        });
+    });
+}
+
+/**
+ * Prepares test runner output for a prompt: strips ANSI colors and keeps the end of long output,
+ * where runners print failure details and summaries.
+ *
+ * @param output The raw runner output.
+ * @param maxChars Maximum number of characters to keep.
+ * @returns The cleaned, possibly truncated output.
+ */
+export function summarizeTestOutput(output: string, maxChars: number = 12000): string {
+    const clean = output.replace(/\x1b\[[0-9;]*m/g, '').trim();
+    if (clean.length <= maxChars) {
+        return clean;
+    }
+    return `[... ${clean.length - maxChars} earlier characters truncated ...]\n${clean.slice(clean.length - maxChars)}`;
+}
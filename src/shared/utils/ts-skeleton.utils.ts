@@ -0,0 +1,158 @@
+// File: src/shared/utils/ts-skeleton.utils.ts
+
+import path from 'path';
+import ts from 'typescript';
+
+/** Extensions the TypeScript parser understands. Other files have no skeleton. */
+const SKELETON_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+/** Replaces elided function bodies. */
+const ELIDED_BODY = '{ ... }';
+/** Longer variable and property initializers are elided; shorter ones (constants, small objects) are kept. */
+const MAX_INITIALIZER_LENGTH = 300;
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+/**
+ * Names exported through `export { a, b as c };` or `export default a;` rather than an `export` modifier.
+ */
+function collectLocalExports(sourceFile: ts.SourceFile): Set<string> {
+    const names = new Set<string>();
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            statement.exportClause.elements.forEach(element => names.add((element.propertyName ?? element.name).text));
+        } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+            names.add(statement.expression.text);
+        }
+    }
+    return names;
+}
+
+/**
+ * The source text from the node's first token (after its doc comment) up to `end`.
+ */
+function sliceFrom(sourceFile: ts.SourceFile, node: ts.Node, end: number): string {
+    return sourceFile.text.slice(node.getStart(sourceFile), end).trimEnd();
+}
+
+/**
+ * A function, method or accessor without its body: `function sum(a: number, b: number): number;`.
+ */
+function signatureOf(sourceFile: ts.SourceFile, node: ts.FunctionLikeDeclaration): string {
+    return node.body ? `${sliceFrom(sourceFile, node, node.body.getStart(sourceFile))};` : node.getText(sourceFile);
+}
+
+/**
+ * A variable or property with its initializer elided when it is a function or too long to be worth showing.
+ */
+function initializedSkeleton(sourceFile: ts.SourceFile, node: ts.VariableDeclaration | ts.PropertyDeclaration): string {
+    const initializer = node.initializer;
+    if (!initializer) {
+        return sliceFrom(sourceFile, node, node.end);
+    }
+    if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        return `${sliceFrom(sourceFile, node, initializer.body.getStart(sourceFile))} ${ELIDED_BODY}`;
+    }
+    if (node.type) {
+        return sliceFrom(sourceFile, node, node.type.end);
+    }
+    if (initializer.getText(sourceFile).length <= MAX_INITIALIZER_LENGTH) {
+        return sliceFrom(sourceFile, node, initializer.end);
+    }
+    return `${sliceFrom(sourceFile, node, initializer.getStart(sourceFile))} ...`;
+}
+
+function classMemberSkeleton(sourceFile: ts.SourceFile, member: ts.ClassElement): string | null {
+    if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) {
+        return null;
+    }
+    if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        return signatureOf(sourceFile, member);
+    }
+    if (ts.isPropertyDeclaration(member)) {
+        return `${initializedSkeleton(sourceFile, member).replace(/;$/, '')};`;
+    }
+    if (ts.isSemicolonClassElement(member) || ts.isClassStaticBlockDeclaration(member)) {
+        return null;
+    }
+    return member.getText(sourceFile);
+}
+
+function classSkeleton(sourceFile: ts.SourceFile, node: ts.ClassDeclaration): string {
+    // `members.pos` is just after the opening brace.
+    const header = sliceFrom(sourceFile, node, node.members.pos);
+    const members = node.members
+        .map(member => classMemberSkeleton(sourceFile, member))
+        .filter((member): member is string => member !== null);
+    return members.length > 0 ? `${header}\n${members.map(member => `    ${member}`).join('\n')}\n}` : `${header}}`;
+}
+
+function variableStatementSkeleton(sourceFile: ts.SourceFile, node: ts.VariableStatement, exported: boolean, localExports: Set<string>): string | null {
+    const declarations = node.declarationList.declarations
+        .filter(declaration => exported || (ts.isIdentifier(declaration.name) && localExports.has(declaration.name.text)));
+    if (declarations.length === 0) {
+        return null;
+    }
+    // e.g. "export const" or "export declare let"
+    const keyword = sliceFrom(sourceFile, node, node.declarationList.declarations[0].getStart(sourceFile));
+    return declarations.map(declaration => `${keyword} ${initializedSkeleton(sourceFile, declaration)};`).join('\n');
+}
+
+function statementSkeleton(sourceFile: ts.SourceFile, statement: ts.Statement, localExports: Set<string>): string | null {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isLocallyExported = (name: ts.Identifier | undefined) => !!name && localExports.has(name.text);
+
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+        // Kept even when not exported: exported signatures may refer to them.
+        return statement.getText(sourceFile);
+    }
+    if (ts.isExportDeclaration(statement)) {
+        return statement.getText(sourceFile);
+    }
+    if (ts.isExportAssignment(statement)) {
+        return ts.isIdentifier(statement.expression)
+            ? statement.getText(sourceFile)
+            : `${sliceFrom(sourceFile, statement, statement.expression.getStart(sourceFile))} ...;`;
+    }
+    if (ts.isFunctionDeclaration(statement)) {
+        return exported || isLocallyExported(statement.name) ? signatureOf(sourceFile, statement) : null;
+    }
+    if (ts.isClassDeclaration(statement)) {
+        return exported || isLocallyExported(statement.name) ? classSkeleton(sourceFile, statement) : null;
+    }
+    if (ts.isVariableStatement(statement)) {
+        return variableStatementSkeleton(sourceFile, statement, exported, localExports);
+    }
+    if (ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) {
+        return exported || (ts.isIdentifier(statement.name) && isLocallyExported(statement.name)) ? statement.getText(sourceFile) : null;
+    }
+    // Imports and top-level code are left out.
+    return null;
+}
+
+/**
+ * Checks whether `toSignatureSkeleton` can reduce the file, i.e. whether it is a TypeScript or JavaScript file.
+ */
+export function supportsSignatureSkeleton(fileName: string): boolean {
+    return SKELETON_EXTENSIONS.has(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Reduces a TypeScript or JavaScript file to its API: exported declarations, every type and interface definition,
+ * and function, method and accessor signatures with their bodies elided. Imports, private class members and
+ * top-level code are dropped, as are comments.
+ *
+ * @param content The file content.
+ * @param fileName The file name; its extension selects the parser (e.g. `.tsx`, `.js`).
+ * @returns One declaration per line or block, or an empty string if the file declares nothing worth showing.
+ */
+export function toSignatureSkeleton(content: string, fileName: string): string {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const localExports = collectLocalExports(sourceFile);
+    return sourceFile.statements
+        .map(statement => statementSkeleton(sourceFile, statement, localExports))
+        .filter((skeleton): skeleton is string => skeleton !== null)
+        .join('\n');
+}
@@ -0,0 +1,242 @@
+// src/shared/utils/write-guard.utils.ts
+// Central guard for file writes: path safety for model-proposed paths, a size limit and an audit log of every decision.
+
+import fs from 'fs';
+import path from 'path';
+import { globToRegExp } from '../helpers/filesystem.helper';
+
+const logPrefix = "[WriteGuard]";
+
+export const DEFAULT_MAX_WRITE_BYTES = 1024 * 1024;
+
+/**
+ * Directories no write may ever touch, whatever the configuration.
+ */
+export const ALWAYS_PROTECTED_DIRECTORIES: readonly string[] = ['node_modules', '.git'];
+
+export type WriteOperation = 'write' | 'delete';
+
+/**
+ * One allowed or denied write.
+ */
+export interface WriteAuditEntry {
+    time: string;
+    operation: WriteOperation;
+    /**
+     * The path as requested (relative to the project root for model-proposed paths).
+     */
+    path: string;
+    allowed: boolean;
+    bytes?: number;
+    reason?: string;
+}
+
+export interface WriteGuardOptions {
+    /**
+     * Largest file a write may produce, in bytes.
+     */
+    maxFileBytes?: number;
+    /**
+     * Directory names (or root-relative directory paths) that model-proposed paths must not enter, e.g. EXCLUDE_PATTERNS.
+     * `ALWAYS_PROTECTED_DIRECTORIES` are always included.
+     */
+    protectedDirectories?: Iterable<string>;
+    /**
+     * File that every decision is appended to as one JSON line. Null disables the file (decisions are still kept in memory).
+     */
+    auditLogPath?: string | null;
+    /**
+     * The directory protected directories are relative to (default: the working directory). See `setWriteGuardRoot`.
+     */
+    projectRoot?: string;
+}
+
+/**
+ * The result of checking a model-proposed path.
+ */
+export type GuardedPath =
+    | { allowed: true; absolutePath: string; relativePath: string }
+    | { allowed: false; reason: string };
+
+let maxFileBytes = DEFAULT_MAX_WRITE_BYTES;
+let protectedDirectories = new Set<string>(ALWAYS_PROTECTED_DIRECTORIES);
+let auditLogPath: string | null = null;
+let auditLog: WriteAuditEntry[] = [];
+let projectRoot = process.cwd();
+
+/**
+ * Configures the guard for the rest of the run and clears the in-memory audit log. Unset options keep their defaults.
+ */
+export function configureWriteGuard(options: WriteGuardOptions = {}): void {
+    maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_WRITE_BYTES;
+    protectedDirectories = new Set([...ALWAYS_PROTECTED_DIRECTORIES, ...(options.protectedDirectories ?? [])]);
+    auditLogPath = options.auditLogPath ? path.resolve(options.auditLogPath) : null;
+    auditLog = [];
+    projectRoot = path.resolve(options.projectRoot ?? process.cwd());
+}
+
+/**
+ * Sets the project root that `checkWrite` checks writes against, for commands that work on a project other than
+ * the working directory (e.g., `develop ../app`). Keeps the audit log.
+ */
+export function setWriteGuardRoot(root: string): void {
+    projectRoot = path.resolve(root);
+}
+
+/**
+ * Returns every decision recorded since the guard was last configured.
+ */
+export function getWriteAuditLog(): WriteAuditEntry[] {
+    return [...auditLog];
+}
+
+function record(entry: Omit<WriteAuditEntry, 'time'>): void {
+    const fullEntry: WriteAuditEntry = { time: new Date().toISOString(), ...entry };
+    auditLog.push(fullEntry);
+    if (auditLogPath) {
+        try {
+            fs.mkdirSync(path.dirname(auditLogPath), { recursive: true });
+            fs.appendFileSync(auditLogPath, `${JSON.stringify(fullEntry)}\n`, 'utf8');
+        } catch (e) {
+            console.warn(`${logPrefix} ⚠️ Could not append to the audit log ${auditLogPath}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+}
+
+/**
+ * Checks whether a root-relative path matches a path or glob from the roadmap (e.g. "src/**\/*.ts").
+ * Both are compared in normalized form with forward slashes.
+ */
+export function matchesPathPattern(relativePath: string, pattern: string): boolean {
+    const normalize = (value: string) => path.posix.normalize(value.trim().replace(/\\/g, '/')).replace(/^\.\//, '');
+    const normalizedPath = normalize(relativePath);
+    const normalizedPattern = normalize(pattern);
+    return /[*?]/.test(normalizedPattern) ? globToRegExp(normalizedPattern).test(normalizedPath) : normalizedPath === normalizedPattern;
+}
+
+/**
+ * Finds the real location of a path that may not exist yet: resolves its deepest existing ancestor and follows
+ * dangling symbolic links along the way.
+ */
+function realLocation(absolutePath: string, linksFollowed = 0): string {
+    if (fs.existsSync(absolutePath)) {
+        return fs.realpathSync(absolutePath);
+    }
+    const parent = path.dirname(absolutePath);
+    if (fs.lstatSync(absolutePath, { throwIfNoEntry: false })?.isSymbolicLink() && linksFollowed < 40) {
+        return realLocation(path.resolve(parent, fs.readlinkSync(absolutePath)), linksFollowed + 1);
+    }
+    return parent === absolutePath ? absolutePath : path.join(realLocation(parent, linksFollowed), path.basename(absolutePath));
+}
+
+function protectedDirectoryOf(relativePath: string): string | undefined {
+    const directories = relativePath.split('/').slice(0, -1);
+    return [...protectedDirectories].find(entry => {
+        const normalized = entry.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+        return normalized.includes('/')
+            ? relativePath.startsWith(`${normalized}/`)
+            : directories.includes(normalized);
+    });
+}
+
+/**
+ * Checks where a write lands. Inside the project root, the path must not enter a protected directory, neither as
+ * written nor after resolving symbolic links, and must not leave the root through a symbolic link. Paths outside the
+ * root (e.g., an explicit `--output ../notes.md`) are only kept out of `ALWAYS_PROTECTED_DIRECTORIES` below the
+ * directory they share with the root. Only root-relative segments are matched, so a project that itself lives under
+ * `node_modules` can still be written to.
+ *
+ * @returns Null if the location is allowed, otherwise the reason it is not.
+ */
+function locationError(root: string, absolutePath: string): string | null {
+    const toSlashed = (value: string) => value.split(path.sep).join('/');
+    const relativePath = toSlashed(path.relative(root, absolutePath));
+    if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+        const segments = relativePath.split('/').filter(segment => segment !== '..').slice(0, -1);
+        const protectedSegment = ALWAYS_PROTECTED_DIRECTORIES.find(directory => segments.includes(directory));
+        return protectedSegment ? `Writes into '${protectedSegment}' directories are not allowed.` : null;
+    }
+
+    const protectedDirectory = protectedDirectoryOf(relativePath);
+    if (protectedDirectory) {
+        return `Writes into '${protectedDirectory}' directories are not allowed.`;
+    }
+    const realRoot = realLocation(root);
+    const realTarget = realLocation(absolutePath);
+    const fromRoot = toSlashed(path.relative(realRoot, realTarget));
+    if (!fromRoot || fromRoot.startsWith('../') || path.isAbsolute(fromRoot)) {
+        return `The path resolves outside the project root (to ${realTarget}) through a symbolic link.`;
+    }
+    const realProtectedDirectory = protectedDirectoryOf(fromRoot);
+    return realProtectedDirectory ? `The path resolves into a '${realProtectedDirectory}' directory through a symbolic link.` : null;
+}
+
+function sizeError(bytes: number): string | null {
+    return bytes > maxFileBytes ? `${bytes} bytes exceeds the ${maxFileBytes}-byte limit per file.` : null;
+}
+
+/**
+ * Checks a path proposed by the model before anything is written. Rejects absolute paths, `..` segments, paths that
+ * escape the root through a symlink, paths inside protected directories, and content above the size limit.
+ * Denials are recorded in the audit log; allowed writes are recorded when `writeOutputFile` / `deleteOutputFile` run.
+ *
+ * @param root The project root the path is relative to.
+ * @param requestedPath The path from the model's response.
+ * @param content The content to write, or null for a deletion.
+ */
+export function resolveGuardedPath(root: string, requestedPath: string, content: string | null): GuardedPath {
+    const operation: WriteOperation = content === null ? 'delete' : 'write';
+    const deny = (reason: string): GuardedPath => {
+        record({ operation, path: requestedPath, allowed: false, reason, bytes: content === null ? undefined : Buffer.byteLength(content) });
+        return { allowed: false, reason };
+    };
+
+    const slashed = requestedPath.trim().replace(/\\/g, '/');
+    if (!slashed || slashed.includes('\0')) {
+        return deny('The path is empty or contains a NUL character.');
+    }
+    if (path.isAbsolute(requestedPath) || path.posix.isAbsolute(slashed) || /^[a-zA-Z]:/.test(slashed) || slashed.startsWith('~')) {
+        return deny('Absolute paths are not allowed; use a path relative to the project root.');
+    }
+    if (slashed.split('/').includes('..')) {
+        return deny("Paths may not contain '..' segments.");
+    }
+    const relativePath = path.posix.normalize(slashed).replace(/^\.\//, '');
+    const absolutePath = path.resolve(root, relativePath);
+    const badLocation = locationError(path.resolve(root), absolutePath);
+    if (badLocation) {
+        return deny(badLocation);
+    }
+    const tooLarge = content === null ? null : sizeError(Buffer.byteLength(content));
+    if (tooLarge) {
+        return deny(tooLarge);
+    }
+    return { allowed: true, absolutePath, relativePath };
+}
+
+/**
+ * The central check every file write and deletion goes through (called by file-io): keeps writes out of protected
+ * directories and symbolic links leaving the project root (see `setWriteGuardRoot`), enforces the size limit,
+ * and records the decision in the audit log.
+ *
+ * @returns Null if the write is allowed, otherwise the reason it was denied.
+ */
+export function checkWrite(absolutePath: string, operation: WriteOperation, content: string | null): string | null {
+    const displayPath = path.relative(process.cwd(), absolutePath).split(path.sep).join('/') || absolutePath;
+    const bytes = content === null ? undefined : Buffer.byteLength(content);
+    const reason = locationError(projectRoot, path.resolve(absolutePath)) ?? (bytes !== undefined ? sizeError(bytes) : null);
+    record({ operation, path: displayPath, allowed: !reason, bytes, reason: reason ?? undefined });
+    return reason;
+}
+
+/**
+ * Prints how many writes were allowed and lists the denied ones. Prints nothing if nothing was written.
+ */
+export function printWriteAuditSummary(): void {
+    if (auditLog.length === 0) {
+        return;
+    }
+    const denied = auditLog.filter(entry => !entry.allowed);
+    console.log(`${logPrefix} ${auditLog.length - denied.length} write(s) allowed, ${denied.length} denied${auditLogPath ? ` (audit log: ${auditLogPath})` : ''}.`);
+    denied.forEach(entry => console.log(`${logPrefix}   ⛔ ${entry.operation} ${entry.path}: ${entry.reason}`));
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import yargs, { Argv, Options, PositionalOptions } from 'yargs';
+import { runCli } from '@/gemini/cli/gemini.cli';
+import { runCommandLogic } from '@/gemini/cli/gemini.handler';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+
+jest.mock('yargs');
+jest.mock('yargs/helpers', () => ({
+    hideBin: jest.fn().mockImplementation((args) => args),
+}));
+jest.mock('@/gemini/cli/gemini.handler', () => ({
+    runCommandLogic: jest.fn(),
+}));
+
+const mockedYargs = yargs as jest.Mocked<typeof yargs>;
+const mockedRunCommandLogic = runCommandLogic as jest.MockedFunction<typeof runCommandLogic>;
+
+type CommandBuilder = (yargsInstance: Argv) => Argv;
+type CommandHandler = (argv: Record<string, unknown>) => Promise<void>;
+type CommandCall = [string, string, CommandBuilder, CommandHandler];
+type ArgvCheck = (argv: Record<string, unknown>) => boolean;
+
+type ChainedMethod = (...args: unknown[]) => MockedYargs;
+
+/**
+ * The chainable yargs methods `runCli` calls, each returning the instance.
+ */
+interface MockedYargs {
+    options: jest.Mock<ChainedMethod>;
+    conflicts: jest.Mock<ChainedMethod>;
+    command: jest.Mock<(...args: CommandCall) => MockedYargs>;
+    demandCommand: jest.Mock<ChainedMethod>;
+    strict: jest.Mock<ChainedMethod>;
+    help: jest.Mock<ChainedMethod>;
+    alias: jest.Mock<ChainedMethod>;
+    wrap: jest.Mock<ChainedMethod>;
+    fail: jest.Mock<ChainedMethod>;
+    parseAsync: jest.Mock<() => Promise<void>>;
+}
+
+/**
+ * The builder methods the run-k6 command calls, recording what they receive.
+ */
+interface RecordingArgv {
+    positional: jest.Mock<(name: string, config: PositionalOptions) => RecordingArgv>;
+    option: jest.Mock<(name: string, config: Options) => RecordingArgv>;
+    check: jest.Mock<(check: ArgvCheck) => RecordingArgv>;
+}
+
+/**
+ * Runs the CLI against a chainable yargs mock and returns the registration call for run-k6.
+ */
+async function getRunK6Registration(): Promise<CommandCall> {
+    const chained = () => jest.fn<ChainedMethod>(() => mockYargsInstance);
+    const mockYargsInstance: MockedYargs = {
+        options: chained(),
+        conflicts: chained(),
+        command: jest.fn<(...args: CommandCall) => MockedYargs>(() => mockYargsInstance),
+        demandCommand: chained(),
+        strict: chained(),
+        help: chained(),
+        alias: chained(),
+        wrap: chained(),
+        fail: chained(),
+        parseAsync: jest.fn<() => Promise<void>>(() => Promise.resolve()),
+    };
+    mockedYargs.mockReturnValue(mockYargsInstance as unknown as Argv);
+
+    await runCli(['node', 'script.js', ENHANCEMENT_TYPES.RUN_K6, 'data.csv']);
+
+    const calls = mockYargsInstance.command.mock.calls;
+    const registration = calls.find(([name]) => name === `${ENHANCEMENT_TYPES.RUN_K6} <targetPath>`);
+    if (!registration) {
+        throw new Error('run-k6 command was not registered.');
+    }
+    return registration;
+}
+
+/**
+ * Invokes a command builder with a recording yargs mock.
+ */
+function buildOptions(builder: CommandBuilder) {
+    const options: Record<string, Options> = {};
+    const checks: ArgvCheck[] = [];
+    const builderInstance: RecordingArgv = {
+        positional: jest.fn<(name: string, config: PositionalOptions) => RecordingArgv>(() => builderInstance),
+        option: jest.fn((name: string, config: Options) => {
+            options[name] = config;
+            return builderInstance;
+        }),
+        check: jest.fn((fn: ArgvCheck) => {
+            checks.push(fn);
+            return builderInstance;
+        }),
+    };
+    builder(builderInstance as unknown as Argv);
+    return { builderInstance, options, checks };
+}
+
+describe('runCli - run-k6 command', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        mockedRunCommandLogic.mockResolvedValue(undefined);
+    });
+
+    it('should register the run-k6 command', async () => {
+        const [name, description] = await getRunK6Registration();
+        expect(name).toBe('run-k6 <targetPath>');
+        expect(description).toContain('k6');
+    });
+
+    it('should define all run-k6 options', async () => {
+        const [, , builder] = await getRunK6Registration();
+        const { builderInstance, options } = buildOptions(builder);
+
+        expect(builderInstance.positional).toHaveBeenCalledWith('targetPath', expect.objectContaining({ demandOption: true }));
+        expect(Object.keys(options).sort()).toEqual(['htmlReport', 'mock', 'output', 'summaryCsv', 'summaryFormat']);
+        expect(options.summaryFormat).toEqual(expect.objectContaining({ default: 'json', choices: ['json', 'csv'] }));
+        expect(options.mock).toEqual(expect.objectContaining({ type: 'boolean', default: false }));
+    });
+
+    it('should reject --summaryCsv without csv summary format or output directory', async () => {
+        const [, , builder] = await getRunK6Registration();
+        const { checks } = buildOptions(builder);
+        const check = checks[0];
+
+        expect(() => check({ summaryCsv: 'summary.csv', summaryFormat: 'json', output: 'out' })).toThrow('--summaryFormat csv');
+        expect(() => check({ summaryCsv: 'summary.csv', summaryFormat: 'csv' })).toThrow('--output');
+        expect(check({ summaryCsv: 'summary.csv', summaryFormat: 'csv', output: 'out' })).toBe(true);
+        expect(check({ summaryFormat: 'json' })).toBe(true);
+    });
+
+    it('should dispatch run-k6 through runCommandLogic', async () => {
+        const [, , , handler] = await getRunK6Registration();
+        const argv = { targetPath: 'data.csv', mock: true, summaryFormat: 'csv', _: [], $0: 'cli' };
+
+        await handler(argv);
+
+        expect(mockedRunCommandLogic).toHaveBeenCalledWith({ ...argv, command: ENHANCEMENT_TYPES.RUN_K6 });
+    });
+});
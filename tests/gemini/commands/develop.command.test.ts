@@ -0,0 +1,532 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute } from '@/gemini/commands/develop.command';
+import { enhanceCodeWithGemini } from '@/gemini/gemini.service';
+import { confirm } from '@shared/utils/prompt.utils';
+import { runTestCommand } from '@shared/utils/test-runner.utils';
+import { validateFiles } from '@shared/utils/code-validation.utils';
+import { configureWriteGuard, getWriteAuditLog } from '@shared/utils/write-guard.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+jest.mock('@/gemini/gemini.service', () => ({
+    enhanceCodeWithGemini: jest.fn(),
+}));
+jest.mock('@shared/utils/prompt.utils', () => ({
+    confirm: jest.fn(),
+}));
+jest.mock('@shared/utils/test-runner.utils', () => ({
+    ...jest.requireActual<object>('@shared/utils/test-runner.utils'),
+    runTestCommand: jest.fn(),
+}));
+
+jest.mock('@shared/utils/code-validation.utils', () => ({
+    ...jest.requireActual<object>('@shared/utils/code-validation.utils'),
+    validateFiles: jest.fn(),
+}));
+
+const mockedEnhance = enhanceCodeWithGemini as jest.MockedFunction<typeof enhanceCodeWithGemini>;
+const mockedConfirm = confirm as jest.MockedFunction<typeof confirm>;
+const mockedRunTests = runTestCommand as jest.MockedFunction<typeof runTestCommand>;
+const mockedValidate = validateFiles as jest.MockedFunction<typeof validateFiles>;
+
+const ROADMAP = [
+    '| Status | Priority | Feature | Description | Responsible File(s) | Test File Path(s) |',
+    '|---|---|---|---|---|---|',
+    '| Not Started | P1 | Sum | Add two numbers | src/sum.ts | tests/sum.test.ts |',
+    '',
+].join('\n');
+
+describe('develop command', () => {
+    let projectRoot: string;
+    let logSpy: jest.SpiedFunction<typeof console.log>;
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'develop-'));
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), ROADMAP);
+        mockedEnhance
+            .mockResolvedValueOnce({ type: 'code', content: "// File: tests/sum.test.ts\nimport { sum } from '../src/sum';\ntest('sum', () => expect(sum(1, 2)).toBe(3));" })
+            .mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\nexport const sum = (a: number, b: number) => a + b;' });
+        mockedRunTests
+            .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: "Cannot find module '../src/sum'" })
+            .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'passed', exitCode: 0, output: 'Tests: 1 passed' });
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        jest.restoreAllMocks();
+        mockedEnhance.mockReset();
+        mockedConfirm.mockReset();
+        mockedRunTests.mockReset();
+        mockedValidate.mockReset();
+    });
+
+    const buildArgs = (overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command: ENHANCEMENT_TYPES.DEVELOP,
+        targetPath: projectRoot,
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    it('should pass --yes to every prompt and write the approved files', async () => {
+        mockedConfirm.mockResolvedValue(true);
+
+        await execute(buildArgs({ yes: true }));
+
+        expect(mockedConfirm).toHaveBeenCalledTimes(5);
+        for (const call of mockedConfirm.mock.calls) {
+            expect(call[1]).toEqual(expect.objectContaining({ assumeYes: true }));
+        }
+        expect(fs.readFileSync(path.join(projectRoot, 'tests/sum.test.ts'), 'utf8')).toContain("test('sum'");
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toContain('export const sum');
+        expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toContain('| Needs Review | P1 | Sum |');
+    });
+
+    it('should apply a JSON file response, including deletions, and ask for that format', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), ROADMAP.replace('| src/sum.ts |', '| src/sum.ts, src/legacy-sum.ts |'));
+        fs.mkdirSync(path.join(projectRoot, 'src'));
+        fs.writeFileSync(path.join(projectRoot, 'src/legacy-sum.ts'), 'export const add = () => 0;\n');
+        mockedConfirm.mockResolvedValue(true);
+        mockedEnhance.mockReset();
+        mockedEnhance
+            .mockResolvedValueOnce({ type: 'code', content: JSON.stringify({ version: 1, files: [{ path: 'tests/sum.test.ts', action: 'create', content: "test('sum', () => {});\n" }] }) })
+            .mockResolvedValueOnce({ type: 'code', content: '```json\n' + JSON.stringify({ version: 1, files: [
+                { path: 'src/sum.ts', action: 'create', content: 'export const sum = (a: number, b: number) => a + b;\n' },
+                { path: 'src/legacy-sum.ts', action: 'delete' },
+            ] }) + '\n```' });
+
+        await execute(buildArgs({ yes: true }));
+
+        expect(mockedEnhance.mock.calls[0][1]).toContain('{"version": 1, "files": [');
+        expect(fs.readFileSync(path.join(projectRoot, 'tests/sum.test.ts'), 'utf8')).toBe("test('sum', () => {});\n");
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toBe('export const sum = (a: number, b: number) => a + b;\n');
+        expect(fs.existsSync(path.join(projectRoot, 'src/legacy-sum.ts'))).toBe(false);
+        expect(mockedConfirm).toHaveBeenCalledWith('Write 2 source file(s): src/sum.ts, src/legacy-sum.ts (delete)?', expect.anything());
+    });
+
+    it('should apply SEARCH/REPLACE edit blocks with --edit-blocks and refuse to write a file whose blocks do not apply', async () => {
+        fs.mkdirSync(path.join(projectRoot, 'src'));
+        fs.writeFileSync(path.join(projectRoot, 'src/sum.ts'), '// Math helpers\nexport const sum = (a: number, b: number) => 0;\n');
+        mockedConfirm.mockResolvedValue(true);
+        mockedEnhance.mockReset();
+        mockedEnhance
+            .mockResolvedValueOnce({ type: 'code', content: "// File: tests/sum.test.ts\ntest('sum', () => {});" })
+            .mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\n<<<<<<< SEARCH\nexport const sum = (a: number, b: number) => 0;\n=======\nexport const sum = (a: number, b: number) => a - b;\n>>>>>>> REPLACE' })
+            .mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\n<<<<<<< SEARCH\nexport const total = 0;\n=======\nexport const total = 1;\n>>>>>>> REPLACE' });
+        mockedRunTests.mockReset();
+        mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'Expected 3' });
+
+        await execute(buildArgs({ yes: true, editBlocks: true, maxIterations: 1 }));
+
+        expect(mockedEnhance.mock.calls[1][1]).toContain('<<<<<<< SEARCH');
+        expect(mockedEnhance.mock.calls[2][1]).toContain('<<<<<<< SEARCH');
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toBe('// Math helpers\nexport const sum = (a: number, b: number) => a - b;\n');
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Edit block at line 1 of src/sum.ts did not apply: SEARCH does not match the file'));
+    });
+
+    it('should apply the size limit to the edited file rather than to its edit blocks', async () => {
+        const padding = `// ${'x'.repeat(100)}\n`;
+        fs.mkdirSync(path.join(projectRoot, 'src'));
+        fs.writeFileSync(path.join(projectRoot, 'src/sum.ts'), `${padding}export const sum = (a: number, b: number) => 0;\n`);
+        configureWriteGuard({ maxFileBytes: 150 });
+        mockedConfirm.mockResolvedValue(true);
+        mockedEnhance.mockReset();
+        mockedEnhance
+            .mockResolvedValueOnce({ type: 'code', content: "// File: tests/sum.test.ts\ntest('sum', () => {});" })
+            .mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\n<<<<<<< SEARCH\nexport const sum = (a: number, b: number) => 0;\n=======\nexport const sum = (a: number, b: number) => a + b; // add both numbers\n>>>>>>> REPLACE' });
+
+        try {
+            await execute(buildArgs({ yes: true, editBlocks: true, maxIterations: 0 }));
+        } finally {
+            configureWriteGuard();
+        }
+
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toContain('=> 0;');
+        expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/Refusing to write source file 'src\/sum\.ts': \d+ bytes exceeds the 150-byte limit/));
+    });
+
+    it('should refuse AI-proposed paths that leave the project root or enter protected directories', async () => {
+        mockedConfirm.mockResolvedValue(true);
+        mockedEnhance.mockReset();
+        mockedEnhance
+            .mockResolvedValueOnce({ type: 'code', content: "// File: tests/sum.test.ts\ntest('sum', () => {});" })
+            .mockResolvedValueOnce({ type: 'code', content: '// File: ../escape.ts\nexport {};\n// File: node_modules/sum/index.js\nmodule.exports = {};\n// File: src/sum.ts\nexport const sum = (a: number, b: number) => a + b;' });
+
+        await execute(buildArgs({ yes: true }));
+
+        expect(fs.existsSync(path.join(projectRoot, '..', 'escape.ts'))).toBe(false);
+        expect(fs.existsSync(path.join(projectRoot, 'node_modules'))).toBe(false);
+        expect(fs.existsSync(path.join(projectRoot, 'src/sum.ts'))).toBe(true);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Refusing to write source file '../escape.ts': Paths may not contain '..' segments."));
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Refusing to write source file 'node_modules/sum/index.js': Writes into 'node_modules' directories are not allowed."));
+    });
+
+    it('should run the tests in both phases and pass the Red failure output to the implementation prompt', async () => {
+        mockedConfirm.mockResolvedValue(true);
+
+        await execute(buildArgs({ yes: true, testCommand: 'npx vitest run {files}' }));
+
+        expect(mockedRunTests).toHaveBeenCalledTimes(2);
+        expect(mockedRunTests).toHaveBeenCalledWith('npx vitest run tests/sum.test.ts', projectRoot);
+        const implementationPrompt = mockedEnhance.mock.calls[1][1];
+        expect(implementationPrompt).toContain("test('sum'");
+        expect(implementationPrompt).toContain("Cannot find module '../src/sum'");
+        const printed = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+        expect(printed).toContain('Green phase confirmed');
+    });
+
+    it('should ask before implementing when the new tests already pass', async () => {
+        mockedRunTests.mockReset();
+        mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'passed', exitCode: 0, output: '' });
+        mockedConfirm.mockImplementation(async message => !message.includes('anyway'));
+
+        await execute(buildArgs());
+
+        expect(mockedConfirm).toHaveBeenCalledWith(expect.stringContaining('anyway'), expect.objectContaining({ defaultAnswer: false }));
+        expect(mockedEnhance).toHaveBeenCalledTimes(1);
+        expect(fs.existsSync(path.join(projectRoot, 'src'))).toBe(false);
+    });
+
+    it('should stop before calling the model when the task is declined', async () => {
+        mockedConfirm.mockResolvedValue(false);
+
+        await execute(buildArgs());
+
+        expect(mockedConfirm).toHaveBeenCalledTimes(1);
+        expect(mockedEnhance).not.toHaveBeenCalled();
+    });
+
+    it('should feed --validate errors into the fix loop once the tests pass', async () => {
+        mockedConfirm.mockResolvedValue(true);
+        mockedRunTests.mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'passed', exitCode: 0, output: 'Tests: 1 passed' });
+        mockedEnhance.mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\nexport const sum = (a: number, b: number): number => a + b;' });
+        mockedValidate
+            .mockResolvedValueOnce({
+                passed: false,
+                checks: [{ tool: 'tsc', status: 'failed', command: 'npx --no-install tsc --noEmit --pretty false -p tsconfig.json' }],
+                diagnostics: [{ tool: 'tsc', file: 'src/sum.ts', line: 1, column: 14, severity: 'error', code: 'TS7006', message: "Parameter 'a' implicitly has an 'any' type." }],
+            })
+            .mockResolvedValueOnce({ passed: true, checks: [], diagnostics: [] });
+
+        await execute(buildArgs({ yes: true, validate: true }));
+
+        expect(mockedValidate).toHaveBeenCalledWith(projectRoot, ['tests/sum.test.ts', 'src/sum.ts']);
+        const fixPrompt = mockedEnhance.mock.calls[2][1];
+        expect(fixPrompt).toContain('makes its unit tests pass, but the type checker or the linter reports errors');
+        expect(fixPrompt).toContain("src/sum.ts:1:14 - error TS7006 (tsc): Parameter 'a' implicitly has an 'any' type.");
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toContain('): number =>');
+        expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toContain('| Needs Review | P1 | Sum |');
+    });
+
+    it('should not mark the task for review while --validate still reports errors', async () => {
+        mockedConfirm.mockResolvedValue(true);
+        mockedValidate.mockResolvedValue({
+            passed: false,
+            checks: [{ tool: 'eslint', status: 'failed', command: 'npx --no-install eslint --format json src/sum.ts' }],
+            diagnostics: [{ tool: 'eslint', file: 'src/sum.ts', line: 1, column: 1, severity: 'error', code: 'no-var', message: 'Unexpected var.' }],
+        });
+
+        await execute(buildArgs({ yes: true, validate: true, maxIterations: 0 }));
+
+        expect(mockedEnhance).toHaveBeenCalledTimes(2);
+        expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).not.toContain('Needs Review');
+        expect(fs.existsSync(path.join(projectRoot, '.gemini-develop', 'session.json'))).toBe(true);
+        expect(console.error).toHaveBeenCalledWith('src/sum.ts:1:1 - error no-var (eslint): Unexpected var.');
+    });
+
+    it('should add the signatures of imported project files to the prompts, within --context-depth', async () => {
+        fs.mkdirSync(path.join(projectRoot, 'src', 'math'), { recursive: true });
+        fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } }));
+        fs.writeFileSync(path.join(projectRoot, 'src/sum.ts'), "import { Operands } from '@/math/operands';\nexport const sum = (operands: Operands) => 0;\n");
+        fs.writeFileSync(path.join(projectRoot, 'src/math/operands.ts'), "import { round } from './round';\nexport interface Operands { a: number; b: number }\n");
+        fs.writeFileSync(path.join(projectRoot, 'src/math/round.ts'), 'export function round(value: number): number {\n    return Math.round(value);\n}\n');
+        mockedConfirm.mockResolvedValue(true);
+
+        await execute(buildArgs({ yes: true }));
+
+        const testGenPrompt = mockedEnhance.mock.calls[0][1];
+        expect(testGenPrompt).toContain('**Imported Project Files (signatures only, bodies omitted - for reference):**\n// File: src/math/operands.ts\n\nexport interface Operands { a: number; b: number }');
+        expect(testGenPrompt).not.toContain('src/math/round.ts');
+        expect(mockedEnhance.mock.calls[1][1]).toContain('export interface Operands');
+
+        mockedEnhance.mockReset();
+        mockedEnhance.mockResolvedValueOnce({ type: 'error', content: 'stop' });
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), ROADMAP);
+        fs.writeFileSync(path.join(projectRoot, 'src/sum.ts'), "import { Operands } from '@/math/operands';\n");
+        await expect(execute(buildArgs({ yes: true, contextDepth: 2, contextBudget: 4096 }))).rejects.toThrow('stop');
+        expect(mockedEnhance.mock.calls[0][1]).toContain('// File: src/math/round.ts\n\nexport function round(value: number): number;');
+        await expect(execute(buildArgs({ yes: true, contextDepth: -1 }))).rejects.toThrow('--context-depth must be a non-negative integer');
+    });
+
+    it('should offer a diff of the proposed files and write nothing when they are rejected', async () => {
+        mockedConfirm.mockImplementation(async (message, options) => {
+            if (!message.startsWith('Write ')) return true;
+            options?.onShowDetails?.();
+            return false;
+        });
+
+        await execute(buildArgs());
+
+        expect(mockedConfirm).toHaveBeenCalledWith('Write 1 test file(s): tests/sum.test.ts?', expect.objectContaining({ assumeYes: false }));
+        const printed = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+        expect(printed).toContain('--- /dev/null\n+++ b/tests/sum.test.ts');
+        expect(fs.existsSync(path.join(projectRoot, 'tests'))).toBe(false);
+        expect(mockedEnhance).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-prompt with the failure output until the tests pass and record each iteration', async () => {
+        mockedConfirm.mockResolvedValue(true);
+        mockedRunTests.mockReset();
+        mockedRunTests
+            .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'sum is not defined' })
+            .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'Expected: 3 Received: -1' })
+            .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'passed', exitCode: 0, output: 'Tests: 1 passed' });
+        mockedEnhance.mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\nexport const sum = (a: number, b: number) => a + b; // fixed' });
+
+        await execute(buildArgs({ yes: true }));
+
+        expect(mockedEnhance).toHaveBeenCalledTimes(3);
+        const fixPrompt = mockedEnhance.mock.calls[2][1];
+        expect(fixPrompt).toContain('Expected: 3 Received: -1');
+        expect(fixPrompt).toContain('// File: src/sum.ts');
+        expect(fixPrompt).toContain('attempt 1 of 3');
+        expect(fs.readFileSync(path.join(projectRoot, 'src/sum.ts'), 'utf8')).toContain('// fixed');
+
+        const [runDir] = fs.readdirSync(path.join(projectRoot, '.gemini-develop', 'attempts'));
+        expect(runDir).toMatch(/-sum$/);
+        const records = fs.readdirSync(path.join(projectRoot, '.gemini-develop', 'attempts', runDir)).sort();
+        expect(records).toEqual(['iteration-0.md', 'iteration-1.md']);
+        const fixRecord = fs.readFileSync(path.join(projectRoot, '.gemini-develop', 'attempts', runDir, 'iteration-1.md'), 'utf8');
+        expect(fixRecord).toContain('- Tests: passed');
+        expect(fixRecord).toContain('+export const sum = (a: number, b: number) => a + b; // fixed');
+        // Session state bypasses the guarded write pipeline (and with it backups and undo).
+        expect(getWriteAuditLog().filter(entry => entry.path.includes('.gemini-develop'))).toEqual([]);
+    });
+
+    it('should stop after --max-iterations fix attempts', async () => {
+        mockedConfirm.mockResolvedValue(true);
+        mockedRunTests.mockReset();
+        mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'still failing' });
+        mockedEnhance.mockResolvedValue({ type: 'code', content: '// File: src/sum.ts\nexport const sum = () => 0;' });
+
+        await execute(buildArgs({ yes: true, maxIterations: 2 }));
+
+        expect(mockedEnhance).toHaveBeenCalledTimes(4);
+        expect(mockedRunTests).toHaveBeenCalledTimes(4);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('still FAIL after 2 fix iteration(s)'));
+        expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toContain('| TDD - Code Implementation | P1 | Sum |');
+    });
+
+    it('should skip tasks whose dependencies are not Done', async () => {
+        mockedConfirm.mockResolvedValue(false);
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), [
+            '| ID | Status | Priority | Feature | Description | Dependencies | Responsible File(s) | Test File Path(s) |',
+            '|---|---|---|---|---|---|---|---|',
+            '| F-2 | Not Started | P0 | Total | Sum a list | F-1 | src/total.ts | tests/total.test.ts |',
+            '| F-1 | Not Started | P1 | Sum | Add two numbers | | src/sum.ts | tests/sum.test.ts |',
+        ].join('\n'));
+
+        await execute(buildArgs());
+
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Skipping "F-2": waiting for F-1'));
+        expect(mockedConfirm).toHaveBeenCalledWith('Develop this task: "Sum"?', expect.anything());
+    });
+
+    it('should refuse to select a task when the dependencies form a cycle', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), [
+            '| Status | Feature | Description | Dependencies | Responsible File(s) |',
+            '|---|---|---|---|---|',
+            '| Not Started | Sum | Add two numbers | Total | src/sum.ts |',
+            '| Not Started | Total | Sum a list | Sum | src/total.ts |',
+        ].join('\n'));
+
+        await expect(execute(buildArgs())).rejects.toThrow('Sum -> Total -> Sum');
+        expect(mockedEnhance).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid --max-iterations value', async () => {
+        await expect(execute(buildArgs({ maxIterations: -1 }))).rejects.toThrow('--max-iterations');
+    });
+
+    describe('batch mode', () => {
+        const BATCH_ROADMAP = [
+            '| Status | Priority | Epic | Feature | Description | Responsible File(s) | Test File Path(s) |',
+            '|---|---|---|---|---|---|---|',
+            '| Not Started | P1 | Math | Sum | Add two numbers | src/sum.ts | tests/sum.test.ts |',
+            '| Not Started | P2 | Math | Diff | Subtract two numbers | src/diff.ts | tests/diff.test.ts |',
+            '| Not Started | P3 | Text | Upper | Uppercase a string | src/upper.ts | tests/upper.test.ts |',
+            '',
+        ].join('\n');
+        const red = { command: 'npx jest', status: 'failed', exitCode: 1, output: 'red' } as const;
+        const green = { command: 'npx jest', status: 'passed', exitCode: 0, output: 'green' } as const;
+        const readRoadmap = () => fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8');
+
+        beforeEach(() => {
+            fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), BATCH_ROADMAP);
+            mockedConfirm.mockResolvedValue(true);
+            mockedEnhance.mockReset();
+            mockedEnhance.mockImplementation(async (_type, prompt) => {
+                const name = ['sum', 'diff', 'upper'].find(candidate => prompt.includes(`src/${candidate}.ts`)) ?? 'unknown';
+                return prompt.includes('Instructions for Test Generation')
+                    ? { type: 'code', content: `// File: tests/${name}.test.ts\ntest('${name}', () => {});` }
+                    : { type: 'code', content: `// File: src/${name}.ts\nexport const ${name} = 1;` };
+            });
+            mockedRunTests.mockReset();
+        });
+
+        it('should develop the tasks of an epic in selection order and print a summary', async () => {
+            mockedRunTests.mockResolvedValueOnce(red).mockResolvedValueOnce(green).mockResolvedValueOnce(red).mockResolvedValueOnce(green);
+
+            await execute(buildArgs({ yes: true, epic: 'math' }));
+
+            expect(readRoadmap()).toContain('| Needs Review | P1 | Math | Sum |');
+            expect(readRoadmap()).toContain('| Needs Review | P2 | Math | Diff |');
+            expect(readRoadmap()).toContain('| Not Started | P3 | Text | Upper |');
+            expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Batch Summary: 2 succeeded, 0 failed, 0 skipped'));
+        });
+
+        it('should stop at the first failure and report the remaining tasks as skipped', async () => {
+            mockedRunTests.mockResolvedValue(red);
+
+            await expect(execute(buildArgs({ yes: true, all: true, maxIterations: 0 }))).rejects.toThrow('Batch finished with 1 failed task(s)');
+
+            expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Batch Summary: 0 succeeded, 1 failed, 2 skipped'));
+            expect(logSpy).toHaveBeenCalledWith('  ⏭️ Diff: not reached');
+            expect(fs.existsSync(path.join(projectRoot, '.gemini-develop', 'session.json'))).toBe(true);
+        });
+
+        it('should continue after a failure with --keep-going and set the failed session aside', async () => {
+            mockedRunTests.mockResolvedValueOnce(red).mockResolvedValueOnce(red).mockResolvedValueOnce(red).mockResolvedValueOnce(green);
+
+            await expect(execute(buildArgs({ yes: true, count: 2, keepGoing: true, maxIterations: 0 }))).rejects.toThrow('1 failed task(s)');
+
+            expect(readRoadmap()).toContain('| TDD - Code Implementation | P1 | Math | Sum |');
+            expect(readRoadmap()).toContain('| Needs Review | P2 | Math | Diff |');
+            expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Batch Summary: 1 succeeded, 1 failed, 1 skipped'));
+            expect(fs.existsSync(path.join(projectRoot, '.gemini-develop', 'session.json'))).toBe(false);
+            const attempts = fs.readdirSync(path.join(projectRoot, '.gemini-develop', 'attempts'));
+            expect(attempts.some(dir => dir.endsWith('-sum') && fs.existsSync(path.join(projectRoot, '.gemini-develop', 'attempts', dir, 'session.json')))).toBe(true);
+        });
+
+        it('should reject an invalid --count', async () => {
+            await expect(execute(buildArgs({ count: 0 }))).rejects.toThrow('--count must be a positive integer');
+        });
+    });
+
+    describe('git mode', () => {
+        const git = (...args: string[]) => execFileSync('git', args, { cwd: projectRoot, stdio: 'pipe' }).toString().trim();
+
+        beforeEach(() => {
+            git('init', '-q', '-b', 'main');
+            git('config', 'user.email', 'test@example.com');
+            git('config', 'user.name', 'Test');
+            git('add', '.');
+            git('commit', '-q', '-m', 'initial');
+            mockedConfirm.mockResolvedValue(true);
+        });
+
+        it('should develop on a feature branch with separate Red and Green commits', async () => {
+            await execute(buildArgs({ yes: true, git: true }));
+
+            expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('feature/sum');
+            expect(git('log', '--format=%s', 'main..HEAD').split('\n')).toEqual(['feat: implement Sum', 'test: add failing tests for Sum']);
+            expect(git('show', '--name-only', '--format=', 'HEAD~1').split('\n')).toEqual(['FEATURE_ROADMAP.md', 'tests/sum.test.ts']);
+            expect(git('show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual(['FEATURE_ROADMAP.md', 'src/sum.ts']);
+            expect(git('status', '--porcelain')).toBe('?? .gemini-develop/');
+            expect(fs.existsSync(path.join(projectRoot, '.gemini-develop', 'session.json'))).toBe(false);
+        });
+
+        it('should refuse to start on a dirty working tree', async () => {
+            fs.writeFileSync(path.join(projectRoot, 'notes.txt'), 'uncommitted');
+
+            await expect(execute(buildArgs({ yes: true, git: true }))).rejects.toThrow('--git needs a clean working tree');
+            expect(mockedEnhance).not.toHaveBeenCalled();
+        });
+
+        it('should delete the branch and return to the base on failure with --git-rollback', async () => {
+            mockedRunTests.mockReset();
+            mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'failing' });
+
+            await execute(buildArgs({ yes: true, git: true, gitRollback: true, maxIterations: 0 }));
+
+            expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+            expect(git('branch', '--list', 'feature/*')).toBe('');
+            expect(fs.existsSync(path.join(projectRoot, 'src/sum.ts'))).toBe(false);
+            expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toBe(ROADMAP);
+            expect(fs.existsSync(path.join(projectRoot, '.gemini-develop', 'session.json'))).toBe(false);
+        });
+
+        it('should keep a failed task committed as work in progress without --git-rollback', async () => {
+            mockedRunTests.mockReset();
+            mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'failing' });
+
+            await execute(buildArgs({ yes: true, git: true, maxIterations: 0 }));
+
+            expect(git('log', '-1', '--format=%s')).toBe('wip: Sum (tests still fail after 0 fix iteration(s))');
+            expect(git('status', '--porcelain')).toBe('?? .gemini-develop/');
+            expect(JSON.parse(fs.readFileSync(path.join(projectRoot, '.gemini-develop', 'session.json'), 'utf8')).git.branch).toBe('feature/sum');
+        });
+    });
+
+    describe('sessions', () => {
+        const sessionPath = () => path.join(projectRoot, '.gemini-develop', 'session.json');
+
+        it('should resume after a failure between the Red and Green phases without regenerating tests', async () => {
+            mockedConfirm.mockResolvedValue(true);
+            mockedEnhance.mockReset();
+            mockedEnhance
+                .mockResolvedValueOnce({ type: 'code', content: "// File: tests/sum.test.ts\ntest('sum', () => {});" })
+                .mockResolvedValueOnce({ type: 'error', content: 'quota exceeded' });
+
+            await expect(execute(buildArgs({ yes: true }))).rejects.toThrow('quota exceeded');
+            const saved = JSON.parse(fs.readFileSync(sessionPath(), 'utf8'));
+            expect(saved.phase).toBe('tests-written');
+            expect(saved.testFiles).toEqual(['tests/sum.test.ts']);
+            expect(saved.steps.map((step: { name: string }) => step.name)).toEqual(['test-generation']);
+
+            await expect(execute(buildArgs({ yes: true }))).rejects.toThrow('Continue it with --resume');
+
+            mockedEnhance.mockReset();
+            mockedEnhance.mockResolvedValueOnce({ type: 'code', content: '// File: src/sum.ts\nexport const sum = (a: number, b: number) => a + b;' });
+            mockedRunTests.mockReset();
+            mockedRunTests
+                .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'red' })
+                .mockResolvedValueOnce({ command: 'npx jest tests/sum.test.ts', status: 'passed', exitCode: 0, output: 'green' });
+
+            await execute(buildArgs({ yes: true, resume: true }));
+
+            expect(mockedEnhance).toHaveBeenCalledTimes(1);
+            expect(mockedEnhance.mock.calls[0][1]).toContain("test('sum', () => {});");
+            expect(fs.existsSync(path.join(projectRoot, 'src/sum.ts'))).toBe(true);
+            expect(fs.existsSync(sessionPath())).toBe(false);
+        });
+
+        it('should restore the pre-session files on --abort', async () => {
+            mockedConfirm.mockResolvedValue(true);
+            mockedRunTests.mockReset();
+            mockedRunTests.mockResolvedValue({ command: 'npx jest tests/sum.test.ts', status: 'failed', exitCode: 1, output: 'failing' });
+
+            await execute(buildArgs({ yes: true, maxIterations: 0 }));
+            expect(fs.existsSync(sessionPath())).toBe(true);
+            expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).not.toBe(ROADMAP);
+
+            await execute(buildArgs({ yes: true, abort: true }));
+
+            expect(fs.existsSync(path.join(projectRoot, 'src/sum.ts'))).toBe(false);
+            expect(fs.existsSync(path.join(projectRoot, 'tests/sum.test.ts'))).toBe(false);
+            expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toBe(ROADMAP);
+            expect(fs.existsSync(sessionPath())).toBe(false);
+        });
+
+        it('should refuse --resume without a session', async () => {
+            await expect(execute(buildArgs({ resume: true }))).rejects.toThrow('No develop session to resume');
+        });
+    });
+});
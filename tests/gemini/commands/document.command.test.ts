@@ -0,0 +1,116 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute } from '@/gemini/commands/document.command';
+import { enhanceConsolidatedWithGemini } from '@/gemini/gemini.service';
+import { getConsolidatedSources, getTargetFiles } from '@shared/utils/filesystem.utils';
+import { setWriteMode } from '@shared/utils/file-io.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+jest.mock('@/gemini/gemini.service', () => ({
+    enhanceConsolidatedWithGemini: jest.fn(),
+}));
+jest.mock('@shared/utils/filesystem.utils', () => ({
+    getConsolidatedSources: jest.fn(),
+    getTargetFiles: jest.fn(),
+}));
+jest.mock('@shared/utils/dir-tree.utils', () => ({
+    getDirectoryStructure: jest.fn(),
+}));
+
+const mockedEnhance = enhanceConsolidatedWithGemini as jest.MockedFunction<typeof enhanceConsolidatedWithGemini>;
+const mockedGetTargetFiles = getTargetFiles as jest.MockedFunction<typeof getTargetFiles>;
+const mockedConsolidate = getConsolidatedSources as jest.MockedFunction<typeof getConsolidatedSources>;
+
+describe('document command', () => {
+    let tempDir: string;
+    let outputFile: string;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'document-'));
+        outputFile = path.join(tempDir, 'README.md');
+        fs.writeFileSync(outputFile, '# Existing README\n');
+        mockedGetTargetFiles.mockResolvedValue(['a.ts']);
+        mockedConsolidate.mockResolvedValue('// File: a.ts\nexport const a = 1;\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const buildArgs = (overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command: ENHANCEMENT_TYPES.DOCUMENT,
+        targetPath: 'src',
+        output: outputFile,
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    it('should stream into a partial file next to the output file and write the output file once the answer is complete', async () => {
+        let streamedTo: string | undefined;
+        mockedEnhance.mockImplementation(async (_type, _code, options) => {
+            options?.onText?.('# Pro');
+            options?.onText?.('ject');
+            // The output file is untouched while the answer is still arriving.
+            expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Existing README\n');
+            expect(fs.readFileSync(`${outputFile}.partial`, 'utf8')).toBe('# Project');
+            return { type: 'text', content: '```markdown\n# Project\n```' };
+        });
+        jest.mocked(console.log).mockImplementation((message?: unknown) => {
+            const match = String(message).match(/streaming to (.+)\)\.\.\.$/);
+            if (match) streamedTo = match[1];
+        });
+
+        await execute(buildArgs());
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Project');
+        expect(streamedTo).toBe(`${outputFile}.partial`);
+        expect(fs.existsSync(streamedTo!)).toBe(false);
+    });
+
+    it('should leave the output file unchanged and keep the partial answer when the stream fails', async () => {
+        mockedEnhance.mockImplementation(async (_type, _code, options) => {
+            options?.onText?.('# Partial');
+            return { type: 'error', content: 'server error' };
+        });
+
+        await expect(execute(buildArgs())).rejects.toThrow('Gemini service failed: server error');
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Existing README\n');
+        expect(fs.readFileSync(`${outputFile}.partial`, 'utf8')).toBe('# Partial');
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`in ${outputFile}.partial.`));
+    });
+
+    it('should stream into a temporary file and leave the project untouched in dry-run mode', async () => {
+        setWriteMode('dry-run');
+        mockedEnhance.mockImplementation(async (_type, _code, options) => {
+            options?.onText?.('# Project');
+            return { type: 'text', content: '# Project' };
+        });
+
+        try {
+            await execute(buildArgs());
+        } finally {
+            setWriteMode('write');
+        }
+
+        expect(fs.readdirSync(tempDir)).toEqual(['README.md']);
+        expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Existing README\n');
+    });
+
+    it('should not stream with --no-stream', async () => {
+        mockedEnhance.mockResolvedValue({ type: 'text', content: '# Project' });
+
+        await execute(buildArgs({ stream: false }));
+
+        expect(mockedEnhance.mock.calls[0][2]?.onText).toBeUndefined();
+        expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Project');
+    });
+});
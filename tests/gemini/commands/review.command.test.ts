@@ -0,0 +1,162 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute } from '@/gemini/commands/review.command';
+import { enhanceConsolidatedWithGemini } from '@/gemini/gemini.service';
+import { getConsolidatedSources, getTargetFiles } from '@shared/utils/filesystem.utils';
+import { getChangedFiles, readChangedFile } from '@shared/utils/git-diff.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+jest.mock('@/gemini/gemini.service', () => ({
+    enhanceConsolidatedWithGemini: jest.fn(),
+}));
+jest.mock('@shared/utils/filesystem.utils', () => ({
+    getConsolidatedSources: jest.fn(),
+    getTargetFiles: jest.fn(),
+}));
+
+jest.mock('@shared/utils/git-diff.utils', () => ({
+    ...jest.requireActual<object>('@shared/utils/git-diff.utils'),
+    getChangedFiles: jest.fn(),
+    readChangedFile: jest.fn(),
+}));
+
+const mockedEnhance = enhanceConsolidatedWithGemini as jest.MockedFunction<typeof enhanceConsolidatedWithGemini>;
+const mockedGetTargetFiles = getTargetFiles as jest.MockedFunction<typeof getTargetFiles>;
+const mockedConsolidate = getConsolidatedSources as jest.MockedFunction<typeof getConsolidatedSources>;
+const mockedGetChangedFiles = getChangedFiles as jest.MockedFunction<typeof getChangedFiles>;
+const mockedReadChangedFile = readChangedFile as jest.MockedFunction<typeof readChangedFile>;
+
+describe('review command', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-'));
+        mockedGetTargetFiles.mockResolvedValue(['a.ts', 'b.ts']);
+        mockedConsolidate.mockResolvedValue('// File: a.ts\nconst a: any = 1;\n// File: b.ts\nexport {};\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const buildArgs = (overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command: ENHANCEMENT_TYPES.REVIEW,
+        targetPath: 'src',
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    /**
+     * Writes the files of a structured review into `<tempDir>/src`, which is then the target path.
+     */
+    const writeSources = (files: Record<string, string>): string => {
+        const srcDir = path.join(tempDir, 'src');
+        fs.mkdirSync(srcDir);
+        for (const [name, content] of Object.entries(files)) {
+            fs.writeFileSync(path.join(srcDir, name), content);
+        }
+        mockedGetTargetFiles.mockResolvedValue(Object.keys(files).map(name => path.join(srcDir, name)));
+        return srcDir;
+    };
+
+    it('should request structured findings and write a SARIF report', async () => {
+        const srcDir = writeSources({ 'a.ts': 'const a: any = 1;\n', 'b.ts': 'export {};\n' });
+        mockedEnhance.mockResolvedValue({
+            type: 'text',
+            content: '{"summary":"ok","findings":[{"file":"a.ts","line":1,"severity":"warning","rule":"no-any","message":"Avoid any."}]}',
+        });
+        const outputFile = path.join(tempDir, 'review.sarif');
+
+        await execute(buildArgs({ targetPath: srcDir, format: 'sarif', output: outputFile }));
+
+        expect(mockedEnhance).toHaveBeenCalledWith(
+            ENHANCEMENT_TYPES.REVIEW,
+            expect.any(String),
+            expect.objectContaining({ structuredFindings: true, onText: undefined })
+        );
+        const sarif = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+        expect(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri)
+            .toBe(path.relative(process.cwd(), path.join(srcDir, 'a.ts')).split(path.sep).join('/'));
+    });
+
+    it('should send the original lines, numbered, for structured findings', async () => {
+        const config = '{\n  "name": "demo",\n\n  "private": true\n}\n';
+        const source = '// File: src/old-name.ts\n\nconst a = 1;\nconst a = 1;\n';
+        const srcDir = writeSources({ 'config.json': config, 'a.ts': source });
+        mockedEnhance.mockResolvedValue({
+            type: 'text',
+            content: '{"summary":"ok","findings":[{"file":"a.ts (part 2/2)","line":4,"severity":"error","rule":"redeclare","message":"Duplicate."}]}',
+        });
+        const outputFile = path.join(tempDir, 'review.json');
+
+        await execute(buildArgs({ targetPath: srcDir, format: 'json', output: outputFile }));
+
+        expect(mockedConsolidate).not.toHaveBeenCalled();
+        const payload = mockedEnhance.mock.calls[0][1];
+        expect(payload).toContain('// File: config.json\n1 | {\n2 |   "name": "demo",\n3 | \n4 |   "private": true\n5 | }\n\n');
+        expect(payload).toContain('// File: a.ts\n1 | // File: src/old-name.ts\n2 | \n3 | const a = 1;\n4 | const a = 1;\n\n');
+        const report = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+        expect(report.findings[0]).toMatchObject({ file: path.relative(process.cwd(), path.join(srcDir, 'a.ts')).split(path.sep).join('/'), line: 4 });
+    });
+
+    it('should write the Markdown answer as is', async () => {
+        mockedEnhance.mockResolvedValue({ type: 'text', content: '# Review\nAll good.' });
+        const outputFile = path.join(tempDir, 'review.md');
+
+        await execute(buildArgs({ output: outputFile, stream: false }));
+
+        expect(fs.readFileSync(outputFile, 'utf8')).toBe('# Review\nAll good.');
+    });
+
+    it('should fail when the structured answer does not match the schema', async () => {
+        const srcDir = writeSources({ 'a.ts': 'const a: any = 1;\n' });
+        mockedEnhance.mockResolvedValue({ type: 'text', content: '{"findings":[{"file":"a.ts"}]}' });
+
+        await expect(execute(buildArgs({ targetPath: srcDir, format: 'json' }))).rejects.toThrow('does not match the findings schema');
+    });
+
+    it('should review only changed hunks and keep findings on changed lines', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        mockedGetTargetFiles.mockResolvedValue([path.resolve('src/a.ts'), path.resolve('src/b.ts')]);
+        mockedGetChangedFiles.mockResolvedValue([
+            { filePath: 'src/a.ts', repoPath: 'src/a.ts', repoRoot: process.cwd(), ranges: [{ start: 2, end: 3 }] },
+            { filePath: 'docs/c.md', repoPath: 'docs/c.md', repoRoot: process.cwd(), ranges: [{ start: 1, end: 1 }] },
+        ]);
+        mockedReadChangedFile.mockResolvedValue('one\ntwo\nthree\nfour\n');
+        mockedEnhance.mockResolvedValue({
+            type: 'text',
+            content: JSON.stringify({
+                summary: 'ok',
+                findings: [
+                    { file: 'src/a.ts', line: 3, severity: 'error', rule: 'changed', message: 'On a changed line.' },
+                    { file: 'src/a.ts', line: 4, severity: 'note', rule: 'context', message: 'On a context line.' },
+                ],
+            }),
+        });
+        const outputFile = path.join(tempDir, 'review.json');
+
+        await execute(buildArgs({ diff: 'main', format: 'json', output: outputFile }));
+
+        const [, payload, options] = mockedEnhance.mock.calls[0];
+        expect(payload).toContain('// File: src/a.ts\n// Changed lines: 2-3');
+        expect(payload).toContain('+ 3 | three');
+        expect(payload).not.toContain('docs/c.md');
+        expect(options).toMatchObject({ diffLabel: 'working tree against main' });
+        const report = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+        expect(report.findings.map((finding: { rule: string }) => finding.rule)).toEqual(['changed']);
+    });
+
+    it('should stop without calling the model when nothing changed', async () => {
+        mockedGetChangedFiles.mockResolvedValue([]);
+
+        await execute(buildArgs({ diff: 'staged' }));
+
+        expect(mockedEnhance).not.toHaveBeenCalled();
+    });
+});
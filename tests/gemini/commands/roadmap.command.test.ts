@@ -0,0 +1,108 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute } from '@/gemini/commands/roadmap.command';
+import { parseRoadmapTable } from '@shared/utils/feature-roadmap.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+const ROADMAP = [
+    '| ID | Status | Feature | Description | Dependencies |',
+    '|---|---|---|---|---|',
+    '| F-1 | Done | Login | Sign in | |',
+    '| F-2 | Not Started | Cart | Add items | F-1 |',
+    '',
+].join('\n');
+
+describe('roadmap command', () => {
+    let projectRoot: string;
+    let logSpy: jest.SpiedFunction<typeof console.log>;
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'roadmap-'));
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), ROADMAP);
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const buildArgs = (overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command: ENHANCEMENT_TYPES.ROADMAP,
+        action: 'graph',
+        targetPath: projectRoot,
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    it('should print the graph as Mermaid by default', async () => {
+        await execute(buildArgs());
+
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('n1 --> n2'));
+    });
+
+    it('should write the DOT graph to --output', async () => {
+        const output = path.join(projectRoot, 'docs', 'roadmap.dot');
+
+        await execute(buildArgs({ format: 'dot', output }));
+
+        expect(fs.readFileSync(output, 'utf8')).toContain('"F-1" -> "F-2";');
+    });
+
+    it('should list items with their unmet dependencies', async () => {
+        await execute(buildArgs({ action: 'list' }));
+
+        expect(logSpy).toHaveBeenCalledWith('F-1  Done         -  Login: Sign in');
+        expect(logSpy).toHaveBeenCalledWith('F-2  Not Started  -  Cart: Add items');
+
+        logSpy.mockClear();
+        await execute(buildArgs({ action: 'list', status: 'done' }));
+
+        expect(logSpy).toHaveBeenCalledWith('F-1  Done  -  Login: Sign in');
+        expect(logSpy).not.toHaveBeenCalledWith(expect.stringContaining('F-2'));
+    });
+
+    it('should show an item and the items that depend on it', async () => {
+        await execute(buildArgs({ action: 'show', item: 'login' }));
+
+        expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/^Description: +Sign in$/));
+        expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/^Required by: +F-2$/));
+    });
+
+    it('should add an item and refuse duplicates', async () => {
+        await execute(buildArgs({ action: 'add', id: 'F-3', feature: 'Checkout', description: 'Pay for the cart', dependencies: 'F-2' }));
+
+        const items = parseRoadmapTable(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8'));
+        expect(items[2]).toEqual(expect.objectContaining({ id: 'F-3', status: 'Not Started', feature: 'Checkout', dependencies: 'F-2' }));
+
+        await expect(execute(buildArgs({ action: 'add', feature: 'checkout', description: 'Again' }))).rejects.toThrow('already exists');
+        await expect(execute(buildArgs({ action: 'add', feature: 'Refunds' }))).rejects.toThrow('--description is required');
+    });
+
+    it('should set a known status', async () => {
+        await execute(buildArgs({ action: 'set-status', item: 'F-2', status: 'in progress' }));
+
+        expect(fs.readFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), 'utf8')).toContain('| F-2 | In Progress | Cart |');
+        await expect(execute(buildArgs({ action: 'set-status', item: 'F-2', status: 'Shipped' }))).rejects.toThrow('Unknown status "Shipped"');
+    });
+
+    it('should fail validation and print each issue', async () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await expect(execute(buildArgs({ action: 'validate' }))).rejects.toThrow('has 2 error(s)');
+
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("FEATURE_ROADMAP.md:1: error: Missing 'Responsible File(s)' column"));
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("FEATURE_ROADMAP.md:1: error: Missing 'Test File Path(s)' column"));
+    });
+
+    it('should fail on a dependency cycle', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'FEATURE_ROADMAP.md'), ROADMAP.replace('| Sign in | |', '| Sign in | Cart |'));
+
+        await expect(execute(buildArgs())).rejects.toThrow('F-1 -> F-2 -> F-1');
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute } from '@/gemini/commands/run-k6.command';
+import { runTestsFromDataSource } from '@/k6/services/k6.service';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+jest.mock('@/k6/services/k6.service', () => ({
+    runTestsFromDataSource: jest.fn(),
+}));
+
+const mockedRunTests = runTestsFromDataSource as jest.MockedFunction<typeof runTestsFromDataSource>;
+
+describe('run-k6 command', () => {
+    let tempDir: string;
+    let dataFile: string;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-k6-'));
+        dataFile = path.join(tempDir, 'tests.csv');
+        fs.writeFileSync(dataFile, 'testName,method,url\n');
+        mockedRunTests.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const buildArgs = (overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command: ENHANCEMENT_TYPES.RUN_K6,
+        targetPath: dataFile,
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    it('should pass resolved options to the k6 service', async () => {
+        await execute(buildArgs({
+            output: 'results',
+            summaryFormat: 'csv',
+            htmlReport: 'report.html',
+            summaryCsv: 'summary.csv',
+            mock: true,
+        }));
+
+        expect(mockedRunTests).toHaveBeenCalledWith(
+            dataFile,
+            path.resolve('results'),
+            'csv',
+            path.resolve('report.html'),
+            undefined,
+            true,
+            path.resolve('summary.csv')
+        );
+    });
+
+    it('should default to a json summary without the mock server', async () => {
+        await execute(buildArgs());
+
+        expect(mockedRunTests).toHaveBeenCalledWith(dataFile, undefined, 'json', undefined, undefined, false, undefined);
+    });
+
+    it('should reject a missing data source', async () => {
+        await expect(execute(buildArgs({ targetPath: path.join(tempDir, 'missing.csv') }))).rejects.toThrow('Cannot access target path');
+        expect(mockedRunTests).not.toHaveBeenCalled();
+    });
+
+    it('should reject a directory as the data source', async () => {
+        await expect(execute(buildArgs({ targetPath: tempDir }))).rejects.toThrow(`Data source '${tempDir}' must be a file.`);
+        expect(mockedRunTests).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported data source extensions', async () => {
+        const jsonFile = path.join(tempDir, 'tests.json');
+        fs.writeFileSync(jsonFile, '[]');
+
+        await expect(execute(buildArgs({ targetPath: jsonFile }))).rejects.toThrow('Unsupported data source');
+    });
+
+    it('should reject a mismatched command', async () => {
+        await expect(execute(buildArgs({ command: ENHANCEMENT_TYPES.REVIEW }))).rejects.toThrow('Handler mismatch');
+    });
+});
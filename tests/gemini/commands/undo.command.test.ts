@@ -0,0 +1,112 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execute as undo } from '@/gemini/commands/undo.command';
+import { execute as history } from '@/gemini/commands/history.command';
+import { configureBackups, finishBackupRun, listBackupRuns, startBackupRun } from '@shared/utils/backup.utils';
+import { writeOutputFile } from '@shared/utils/file-io.utils';
+import { confirm } from '@shared/utils/prompt.utils';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { CliArguments } from '@shared/types/app.type';
+
+jest.mock('@shared/utils/prompt.utils', () => ({
+    confirm: jest.fn(),
+}));
+
+const mockedConfirm = confirm as jest.MockedFunction<typeof confirm>;
+
+describe('undo and history commands', () => {
+    let workDir: string;
+    let logSpy: jest.SpiedFunction<typeof console.log>;
+
+    const recordRun = (commandLine: string, writes: Record<string, string>) => {
+        startBackupRun(ENHANCEMENT_TYPES.DEVELOP, commandLine);
+        Object.entries(writes).forEach(([file, content]) => writeOutputFile(path.join(workDir, file), content));
+        return finishBackupRun()!;
+    };
+
+    const buildArgs = (command: ENHANCEMENT_TYPES, overrides: Partial<CliArguments> = {}): CliArguments => ({
+        command,
+        targetPath: '',
+        _: [],
+        $0: 'cli',
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'undo-'));
+        configureBackups(path.join(workDir, '.gemini-backups'));
+        fs.writeFileSync(path.join(workDir, 'a.ts'), 'original a');
+        mockedConfirm.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        mockedConfirm.mockReset();
+        configureBackups(null);
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should restore the most recent run, then the one before it', async () => {
+        recordRun('Develop first', { 'a.ts': 'first a' });
+        recordRun('Develop second', { 'a.ts': 'second a', 'b.ts': 'new b' });
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { yes: true }));
+
+        expect(mockedConfirm).toHaveBeenCalledWith('Restore 2 file(s) to their content before this run?', expect.objectContaining({ assumeYes: true }));
+        expect(fs.readFileSync(path.join(workDir, 'a.ts'), 'utf8')).toBe('first a');
+        expect(fs.existsSync(path.join(workDir, 'b.ts'))).toBe(false);
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { yes: true }));
+
+        expect(fs.readFileSync(path.join(workDir, 'a.ts'), 'utf8')).toBe('original a');
+        expect(listBackupRuns().every(run => run.undoneAt)).toBe(true);
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { yes: true }));
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Nothing to undo'));
+    });
+
+    it('should leave files changed after the run unless --force is given', async () => {
+        const run = recordRun('Develop', { 'a.ts': 'generated a' });
+        fs.writeFileSync(path.join(workDir, 'a.ts'), 'edited by hand');
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { runId: run.runId }));
+
+        expect(fs.readFileSync(path.join(workDir, 'a.ts'), 'utf8')).toBe('edited by hand');
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('a.ts: it was changed after the run.'));
+        expect(listBackupRuns()[0].undoneAt).toBeUndefined();
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { runId: run.runId, force: true }));
+
+        expect(fs.readFileSync(path.join(workDir, 'a.ts'), 'utf8')).toBe('original a');
+        await expect(undo(buildArgs(ENHANCEMENT_TYPES.UNDO, { runId: run.runId }))).rejects.toThrow(`Run ${run.runId} was already undone`);
+    });
+
+    it('should change nothing when the restore is declined', async () => {
+        recordRun('Develop', { 'a.ts': 'generated a' });
+        mockedConfirm.mockResolvedValue(false);
+
+        await undo(buildArgs(ENHANCEMENT_TYPES.UNDO));
+
+        expect(fs.readFileSync(path.join(workDir, 'a.ts'), 'utf8')).toBe('generated a');
+        expect(listBackupRuns()[0].undoneAt).toBeUndefined();
+    });
+
+    it('should list runs with their command line and the files they touched', async () => {
+        recordRun('Develop . --yes', { 'a.ts': 'first a' });
+        const second = recordRun('generate-tests src/b.ts', { 'b.test.ts': 'test' });
+
+        await history(buildArgs(ENHANCEMENT_TYPES.HISTORY, { limit: 1 }));
+
+        const output = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+        expect(output).toContain(second.runId);
+        expect(output).toContain('generate-tests src/b.ts');
+        expect(output).toMatch(/created {2}.*b\.test\.ts/);
+        expect(output).not.toContain('Develop . --yes');
+        expect(output).toContain('1 older run(s) not shown.');
+        await expect(history(buildArgs(ENHANCEMENT_TYPES.HISTORY, { limit: 0 }))).rejects.toThrow('--limit must be a positive integer.');
+    });
+});
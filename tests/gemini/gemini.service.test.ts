@@ -0,0 +1,280 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Readable } from 'stream';
+import { enhanceCodeWithGemini, enhanceConsolidatedWithGemini } from '@/gemini/gemini.service';
+import { setLlmProvider } from '@/gemini/providers/llm-provider.factory';
+import { ENHANCEMENT_TYPES } from '@/gemini/types/enhancement.type';
+import { LlmProvider } from '@/gemini/types/llm-provider.type';
+
+jest.mock('@/config/app.config', () => ({
+    env: {
+        LLM_PROVIDER: 'gemini',
+        GEMINI_MODEL_NAME: 'test-model',
+        GEMINI_API_VERSION: 'v1beta',
+        LLM_TIMEOUT_MS: 1000,
+        LLM_MAX_RETRIES: 2,
+        LLM_RETRY_BASE_DELAY_MS: 0,
+        LLM_RETRY_MAX_DELAY_MS: 0,
+        LLM_RETRY_MAX_SERVER_DELAY_MS: 60000,
+        LLM_REQUESTS_PER_MINUTE: 0,
+        LLM_MAX_INPUT_TOKENS: 100,
+    },
+}));
+
+/**
+ * Creates a fake provider that records prompts and returns a canned response.
+ */
+function createFakeProvider(response: string | null) {
+    const prompts: string[] = [];
+    const provider: LlmProvider = {
+        name: 'fake',
+        model: 'fake-model',
+        generateContent: jest.fn(async (promptText: string) => {
+            prompts.push(promptText);
+            return response;
+        }),
+    };
+    return { provider, prompts };
+}
+
+describe('enhanceCodeWithGemini', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setLlmProvider(null);
+        jest.restoreAllMocks();
+    });
+
+    it('should send the Develop prompt unchanged to the injected provider', async () => {
+        const { provider, prompts } = createFakeProvider('// File: src/a.ts\nexport const a = 1;');
+        setLlmProvider(provider);
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'FULL PROMPT');
+
+        expect(prompts).toEqual(['FULL PROMPT']);
+        expect(result).toEqual({ type: 'text', content: '// File: src/a.ts\nexport const a = 1;' });
+    });
+
+    it('should build the review prompt before calling the provider', async () => {
+        const { provider, prompts } = createFakeProvider('Looks good.');
+        setLlmProvider(provider);
+
+        await enhanceCodeWithGemini(ENHANCEMENT_TYPES.REVIEW, 'const x = 1;', { reviewMode: 'explain' });
+
+        expect(prompts[0]).toContain('const x = 1;');
+        expect(prompts[0]).toContain('explaining this code');
+    });
+
+    it('should return an error result when the provider returns null', async () => {
+        const { provider } = createFakeProvider(null);
+        setLlmProvider(provider);
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.GENERATE_TESTS, 'const x = 1;');
+
+        expect(result.type).toBe('error');
+        expect(result.errorCategory).toBe('empty_response');
+    });
+
+    it('should retry rate-limited calls and succeed once the provider recovers', async () => {
+        const generateContent = jest.fn<LlmProvider['generateContent']>()
+            .mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '0' }, data: {} } })
+            .mockRejectedValueOnce({ response: { status: 503, headers: {}, data: {} } })
+            .mockResolvedValueOnce('Recovered.');
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT');
+
+        expect(generateContent).toHaveBeenCalledTimes(3);
+        expect(result).toEqual({ type: 'text', content: 'Recovered.' });
+    });
+
+    it('should give up after LLM_MAX_RETRIES and report the error category', async () => {
+        const generateContent = jest.fn<LlmProvider['generateContent']>()
+            .mockRejectedValue({ response: { status: 500, headers: {}, data: {} } });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT');
+
+        expect(generateContent).toHaveBeenCalledTimes(3);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'server', attempts: 3 });
+    });
+
+    it('should fail instead of waiting when the provider asks for a delay above LLM_RETRY_MAX_SERVER_DELAY_MS', async () => {
+        const generateContent = jest.fn<LlmProvider['generateContent']>()
+            .mockRejectedValue({ response: { status: 429, headers: { 'retry-after': '3600' }, data: {} } });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT');
+
+        expect(generateContent).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'rate_limit', attempts: 1 });
+    });
+
+    it('should not retry authentication failures', async () => {
+        const generateContent = jest.fn<LlmProvider['generateContent']>()
+            .mockRejectedValue({ response: { status: 401, headers: {}, data: {} } });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT');
+
+        expect(generateContent).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'auth', attempts: 1 });
+    });
+
+    it('should not call the provider for local-only enhancement types', async () => {
+        const { provider } = createFakeProvider('unused');
+        setLlmProvider(provider);
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.CONSOLIDATE, 'const x = 1;');
+
+        expect(result.type).toBe('error');
+        expect(provider.generateContent).not.toHaveBeenCalled();
+    });
+});
+
+describe('enhanceConsolidatedWithGemini', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setLlmProvider(null);
+        jest.restoreAllMocks();
+    });
+
+    const file = (name: string) => `// File: ${name}\n\n${'x'.repeat(300)}\n\n`;
+
+    it('should send payloads within budget in a single request', async () => {
+        const { provider, prompts } = createFakeProvider('Single report.');
+        setLlmProvider(provider);
+
+        const result = await enhanceConsolidatedWithGemini(ENHANCEMENT_TYPES.REVIEW, file('a.ts').slice(0, 200));
+
+        expect(prompts).toHaveLength(1);
+        expect(result).toEqual({ type: 'text', content: 'Single report.' });
+    });
+
+    it('should review oversized payloads chunk by chunk and merge the partial reports', async () => {
+        const { provider, prompts } = createFakeProvider('Partial or merged report.');
+        setLlmProvider(provider);
+
+        const result = await enhanceConsolidatedWithGemini(ENHANCEMENT_TYPES.REVIEW, file('a.ts') + file('b.ts'), { reviewMode: 'quality' });
+
+        expect(prompts).toHaveLength(3);
+        expect(prompts[0]).toContain('part 1 of 2');
+        expect(prompts[0]).toContain('// File: a.ts');
+        expect(prompts[0]).not.toContain('// File: b.ts');
+        expect(prompts[1]).toContain('// File: b.ts');
+        expect(prompts[2]).toContain('Merge these partial code review reports');
+        expect(result).toEqual({ type: 'text', content: 'Partial or merged report.' });
+    });
+
+    it('should stop with an error result when a chunk fails', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const { provider } = createFakeProvider(null);
+        setLlmProvider(provider);
+
+        const result = await enhanceConsolidatedWithGemini(ENHANCEMENT_TYPES.DOCUMENT, file('a.ts') + file('b.ts'));
+
+        expect(provider.generateContent).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'empty_response' });
+        expect(result.content).toContain('Chunk 1/2 failed');
+    });
+});
+
+describe('streaming', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setLlmProvider(null);
+        jest.restoreAllMocks();
+    });
+
+    it('should pass streamed deltas to onText and return the full response', async () => {
+        setLlmProvider({
+            name: 'fake',
+            model: 'fake-model',
+            generateContent: jest.fn(async () => 'unused'),
+            generateContentStream: jest.fn(async (_prompt: string, onText: (delta: string) => void) => {
+                onText('Hel');
+                onText('lo');
+                return 'Hello';
+            }),
+        });
+        const deltas: string[] = [];
+
+        const result = await enhanceConsolidatedWithGemini(ENHANCEMENT_TYPES.REVIEW, 'const x = 1;', { onText: (delta) => deltas.push(delta) });
+
+        expect(deltas).toEqual(['Hel', 'lo']);
+        expect(result).toEqual({ type: 'text', content: 'Hello' });
+    });
+
+    it('should emit the whole response once for providers without streaming support', async () => {
+        const { provider } = createFakeProvider('Complete answer.');
+        setLlmProvider(provider);
+        const deltas: string[] = [];
+
+        await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT', { onText: (delta) => deltas.push(delta) });
+
+        expect(deltas).toEqual(['Complete answer.']);
+    });
+
+    it('should read and classify the body of a streamed error response', async () => {
+        const body = JSON.stringify({ error: { code: 400, message: 'Invalid argument', status: 'INVALID_ARGUMENT' } });
+        const generateContentStream = jest.fn(async () => {
+            throw { message: 'Request failed with status code 400', response: { status: 400, headers: {}, data: Readable.from([Buffer.from(body)]) } };
+        });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent: jest.fn(async () => 'unused'), generateContentStream });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT', { onText: () => {} });
+
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'bad_request', attempts: 1 });
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid argument'));
+    });
+
+    it("should honor Gemini's RetryInfo from a streamed 429 body", async () => {
+        const body = JSON.stringify({ error: { details: [{ retryDelay: '3600s' }] } });
+        const generateContentStream = jest.fn(async () => {
+            throw { response: { status: 429, headers: {}, data: Readable.from([Buffer.from(body)]) } };
+        });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent: jest.fn(async () => 'unused'), generateContentStream });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT', { onText: () => {} });
+
+        // The requested delay exceeds LLM_RETRY_MAX_SERVER_DELAY_MS, which is only known from the body.
+        expect(generateContentStream).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'rate_limit' });
+    });
+
+    it('should retry a streamed 5xx with a plain-text body', async () => {
+        const generateContentStream = jest.fn<(prompt: string, onText: (delta: string) => void) => Promise<string | null>>()
+            .mockRejectedValueOnce({ response: { status: 503, headers: {}, data: Readable.from(['Service Unavailable']) } })
+            .mockResolvedValueOnce('Recovered.');
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent: jest.fn(async () => 'unused'), generateContentStream });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT', { onText: () => {} });
+
+        expect(generateContentStream).toHaveBeenCalledTimes(2);
+        expect(result).toEqual({ type: 'text', content: 'Recovered.' });
+    });
+
+    it('should not retry once part of the answer has been streamed', async () => {
+        const generateContentStream = jest.fn(async (_prompt: string, onText: (delta: string) => void) => {
+            onText('partial');
+            throw { response: { status: 503, headers: {}, data: {} } };
+        });
+        setLlmProvider({ name: 'fake', model: 'fake-model', generateContent: jest.fn(async () => 'unused'), generateContentStream });
+
+        const result = await enhanceCodeWithGemini(ENHANCEMENT_TYPES.DEVELOP, 'PROMPT', { onText: () => {} });
+
+        expect(generateContentStream).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ type: 'error', errorCategory: 'server' });
+    });
+});
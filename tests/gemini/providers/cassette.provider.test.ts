@@ -0,0 +1,84 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CassetteProvider, hashPrompt } from '@/gemini/providers/cassette.provider';
+import { LlmProvider } from '@/gemini/types/llm-provider.type';
+import { setWriteMode } from '@shared/utils/file-io.utils';
+import { configureBackups, finishBackupRun, startBackupRun } from '@shared/utils/backup.utils';
+
+describe('CassetteProvider', () => {
+    let cassetteDir: string;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        cassetteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(cassetteDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    const createInner = (response: string | null): LlmProvider => ({
+        name: 'fake',
+        model: 'fake-model',
+        generateContent: jest.fn(async () => response),
+    });
+
+    it('should record responses and replay them without the inner provider', async () => {
+        const inner = createInner('recorded answer');
+        const recorder = new CassetteProvider(() => inner, { mode: 'record', cassetteDir });
+
+        await expect(recorder.generateContent('prompt A')).resolves.toBe('recorded answer');
+        expect(fs.readdirSync(cassetteDir)).toEqual([`${hashPrompt('prompt A')}.json`]);
+
+        const createReplayInner = jest.fn(() => createInner('network answer'));
+        const replayer = new CassetteProvider(createReplayInner, { mode: 'replay', cassetteDir });
+
+        await expect(replayer.generateContent('prompt A')).resolves.toBe('recorded answer');
+        expect(createReplayInner).not.toHaveBeenCalled();
+    });
+
+    it('should keep recordings out of backup runs and record with --dry-run', async () => {
+        configureBackups(path.join(cassetteDir, 'backups'));
+        const recorder = new CassetteProvider(() => createInner('recorded answer'), { mode: 'record', cassetteDir });
+        try {
+            startBackupRun('review', 'review src --record');
+            await recorder.generateContent('prompt B');
+            expect(finishBackupRun()).toBeNull();
+
+            setWriteMode('dry-run');
+            await recorder.generateContent('prompt C');
+        } finally {
+            setWriteMode('write');
+            configureBackups(null);
+        }
+
+        expect(fs.existsSync(path.join(cassetteDir, `${hashPrompt('prompt B')}.json`))).toBe(true);
+        expect(fs.existsSync(path.join(cassetteDir, `${hashPrompt('prompt C')}.json`))).toBe(true);
+    });
+
+    it('should return null on a replay miss', async () => {
+        const replayer = new CassetteProvider(() => createInner('unused'), { mode: 'replay', cassetteDir });
+
+        await expect(replayer.generateContent('never recorded')).resolves.toBeNull();
+    });
+
+    it('should not record failed provider calls', async () => {
+        const recorder = new CassetteProvider(() => createInner(null), { mode: 'record', cassetteDir });
+
+        await expect(recorder.generateContent('prompt B')).resolves.toBeNull();
+        expect(fs.readdirSync(cassetteDir)).toEqual([]);
+    });
+
+    it('should ignore consolidation timestamps and roots when hashing prompts', () => {
+        const first = '// Consolidated sources from: /home/a/project\n// Consolidation timestamp: 2024-01-01 10:00:00\ncode';
+        const second = '// Consolidated sources from: /ci/build/project\n// Consolidation timestamp: 2025-06-30 23:59:59\ncode';
+
+        expect(hashPrompt(first)).toBe(hashPrompt(second));
+        expect(hashPrompt(first)).not.toBe(hashPrompt('other code'));
+    });
+});
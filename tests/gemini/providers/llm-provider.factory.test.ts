@@ -0,0 +1,172 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { createLlmProvider, getLlmProvider, setCassetteMode, setLlmProvider } from '@/gemini/providers/llm-provider.factory';
+import { GeminiProvider } from '@/gemini/providers/gemini.provider';
+import { OpenAiProvider } from '@/gemini/providers/openai.provider';
+import { OllamaProvider } from '@/gemini/providers/ollama.provider';
+import { CassetteProvider } from '@/gemini/providers/cassette.provider';
+
+jest.mock('axios');
+jest.mock('@/config/app.config', () => ({
+    env: {
+        LLM_PROVIDER: 'ollama',
+        LLM_TIMEOUT_MS: 1000,
+        LLM_CASSETTE_MODE: 'off',
+        LLM_CASSETTE_DIR: '.gemini-cassettes',
+        GEMINI_API_KEY: undefined,
+        GEMINI_MODEL_NAME: 'gemini-test',
+        GEMINI_API_VERSION: 'v1beta',
+        OPENAI_API_KEY: 'sk-test',
+        OPENAI_BASE_URL: 'http://openai.local/v1/',
+        OPENAI_MODEL_NAME: 'gpt-test',
+        OLLAMA_BASE_URL: 'http://ollama.local',
+        OLLAMA_MODEL_NAME: 'llama-test',
+    },
+}));
+
+const mockedPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+describe('LLM provider factory', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setLlmProvider(null);
+        setCassetteMode(null);
+        jest.restoreAllMocks();
+    });
+
+    it('should create the provider named by LLM_PROVIDER by default', () => {
+        const provider = getLlmProvider();
+        expect(provider).toBeInstanceOf(OllamaProvider);
+        expect(provider.model).toBe('llama-test');
+        expect(getLlmProvider()).toBe(provider);
+    });
+
+    it('should create an OpenAI-compatible provider', () => {
+        expect(createLlmProvider('openai')).toBeInstanceOf(OpenAiProvider);
+    });
+
+    it('should refuse to create the Gemini provider without an API key', () => {
+        expect(() => createLlmProvider('gemini')).toThrow('GEMINI_API_KEY is required');
+    });
+
+    it('should wrap the provider in a cassette when a cassette mode is set', () => {
+        setCassetteMode('replay');
+        const provider = getLlmProvider();
+        expect(provider).toBeInstanceOf(CassetteProvider);
+        expect(provider.name).toBe('cassette:replay');
+    });
+
+    it('should prefer an injected provider', () => {
+        const fake = { name: 'fake', model: 'm', generateContent: jest.fn(async () => 'ok') };
+        setLlmProvider(fake);
+        expect(getLlmProvider()).toBe(fake);
+    });
+});
+
+describe('LLM providers', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should call the OpenAI chat completions endpoint with a bearer token', async () => {
+        mockedPost.mockResolvedValue({ data: { choices: [{ message: { content: ' hello ' }, finish_reason: 'stop' }] } });
+        const provider = createLlmProvider('openai');
+
+        await expect(provider.generateContent('prompt')).resolves.toBe('hello');
+        expect(mockedPost).toHaveBeenCalledWith(
+            'http://openai.local/v1/chat/completions',
+            { model: 'gpt-test', messages: [{ role: 'user', content: 'prompt' }] },
+            expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer sk-test' }) })
+        );
+    });
+
+    it('should annotate truncated OpenAI responses', async () => {
+        mockedPost.mockResolvedValue({ data: { choices: [{ message: { content: 'partial' }, finish_reason: 'length' }] } });
+
+        await expect(createLlmProvider('openai').generateContent('prompt')).resolves.toBe('// OpenAI Warning: Finish Reason - length\npartial');
+    });
+
+    it('should call the Ollama generate endpoint without streaming', async () => {
+        mockedPost.mockResolvedValue({ data: { response: 'local answer', done_reason: 'stop' } });
+
+        await expect(createLlmProvider('ollama').generateContent('prompt')).resolves.toBe('local answer');
+        expect(mockedPost).toHaveBeenCalledWith(
+            'http://ollama.local/api/generate',
+            { model: 'llama-test', prompt: 'prompt', stream: false },
+            expect.any(Object)
+        );
+    });
+
+    it('should return the Gemini safety block message', async () => {
+        mockedPost.mockResolvedValue({ data: { candidates: [{ finishReason: 'SAFETY' }] } });
+        const provider = new GeminiProvider({ apiKey: 'key', model: 'gemini-test', apiVersion: 'v1beta', timeoutMs: 1000 });
+
+        await expect(provider.generateContent('prompt')).resolves.toContain('Gemini Safety Block');
+    });
+
+    it('should rethrow HTTP errors so the service can classify and retry them', async () => {
+        const httpError = { response: { status: 500, data: {} } };
+        mockedPost.mockRejectedValue(httpError);
+
+        await expect(createLlmProvider('ollama').generateContent('prompt')).rejects.toBe(httpError);
+    });
+
+    it('should stream Gemini server-sent events and stop on a mid-stream safety block', async () => {
+        const sse = (payload: object) => `data: ${JSON.stringify(payload)}\n\n`;
+        mockedPost.mockResolvedValue({
+            data: Readable.from([
+                sse({ candidates: [{ content: { parts: [{ text: 'Hello ' }] } }] }),
+                sse({ candidates: [{ content: { parts: [{ text: 'wor' }] }, finishReason: 'SAFETY' }] }),
+                sse({ candidates: [{ content: { parts: [{ text: 'never sent' }] } }] }),
+            ]),
+        });
+        const provider = new GeminiProvider({ apiKey: 'key', model: 'gemini-test', apiVersion: 'v1beta', timeoutMs: 1000 });
+        const deltas: string[] = [];
+
+        const result = await provider.generateContentStream('prompt', (delta) => deltas.push(delta));
+
+        expect(deltas).toEqual(['Hello ', 'wor']);
+        expect(result).toContain('Gemini Safety Block');
+        expect(mockedPost).toHaveBeenCalledWith(
+            'https://generativelanguage.googleapis.com/v1beta/models/gemini-test:streamGenerateContent',
+            expect.any(Object),
+            expect.objectContaining({ params: { key: 'key', alt: 'sse' }, responseType: 'stream' })
+        );
+    });
+
+    it('should stream OpenAI deltas and annotate a truncated finish', async () => {
+        mockedPost.mockResolvedValue({
+            data: Readable.from([
+                'data: {"choices":[{"delta":{"content":"par"}}]}\n\n',
+                'data: {"choices":[{"delta":{"content":"tial"},"finish_reason":"length"}]}\n\ndata: [DONE]\n\n',
+            ]),
+        });
+        const deltas: string[] = [];
+
+        const result = await createLlmProvider('openai').generateContentStream!('prompt', (delta) => deltas.push(delta));
+
+        expect(deltas).toEqual(['par', 'tial']);
+        expect(result).toBe('// OpenAI Warning: Finish Reason - length\npartial');
+    });
+
+    it('should stream Ollama NDJSON chunks', async () => {
+        mockedPost.mockResolvedValue({
+            data: Readable.from(['{"response":"lo","done":false}\n{"response":"cal","done":false}\n', '{"response":"","done":true,"done_reason":"stop"}\n']),
+        });
+        const deltas: string[] = [];
+
+        await expect(createLlmProvider('ollama').generateContentStream!('prompt', (delta) => deltas.push(delta))).resolves.toBe('local');
+        expect(deltas).toEqual(['lo', 'cal']);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { chunkConsolidatedSources, estimateTokens, splitByFileBoundaries } from '@/gemini/utils/chunking.utils';
+
+const header = '// Consolidated sources from: /repo\n// Consolidation timestamp: 2024-01-01 00:00:00\n\n';
+const file = (name: string, chars: number) => `// File: ${name}\n\n${'x'.repeat(chars)}\n\n`;
+
+describe('chunking utils', () => {
+    it('should estimate about four characters per token', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcdefgh')).toBe(2);
+        expect(estimateTokens('abcdefghi')).toBe(3);
+    });
+
+    it('should split a consolidated payload on file headers', () => {
+        const { preamble, sections } = splitByFileBoundaries(header + file('a.ts', 10) + file('b.ts', 10));
+
+        expect(preamble).toBe(header);
+        expect(sections.map(s => s.filePath)).toEqual(['a.ts', 'b.ts']);
+        expect(sections[1].text).toBe(file('b.ts', 10));
+    });
+
+    it('should return the payload unchanged when it fits the budget', () => {
+        const payload = header + file('a.ts', 10);
+        expect(chunkConsolidatedSources(payload, 1000)).toEqual([payload]);
+    });
+
+    it('should group whole files into chunks within the budget', () => {
+        const payload = header + file('a.ts', 300) + file('b.ts', 300) + file('c.ts', 300);
+
+        const chunks = chunkConsolidatedSources(payload, 200);
+
+        expect(chunks).toEqual([file('a.ts', 300) + file('b.ts', 300), file('c.ts', 300)]);
+    });
+
+    it('should split a single oversized file into labelled parts', () => {
+        const bigFile = `// File: big.ts\n${Array.from({ length: 40 }, (_, i) => `const line${i} = ${i};`).join('\n')}\n`;
+
+        const chunks = chunkConsolidatedSources(header + file('a.ts', 10) + bigFile, 50);
+
+        expect(chunks[0]).toBe(file('a.ts', 10));
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks[1]).toMatch(/^\/\/ File: big\.ts \(part 1\/\d+\)\n/);
+        expect(chunks.slice(1).every(chunk => estimateTokens(chunk) <= 50 + 10)).toBe(true);
+        expect(chunks.slice(1).join('')).toContain('const line39 = 39;');
+    });
+
+    it('should keep the first line of an oversized payload without file headers', () => {
+        const payload = Array.from({ length: 40 }, (_, i) => `const line${i} = ${i};`).join('\n');
+
+        const chunks = chunkConsolidatedSources(payload, 50);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks[0]).toMatch(/^\/\/ File: \(unnamed\) \(part 1\/\d+\)\nconst line0 = 0;\n/);
+        expect(chunks.join('')).toContain('const line39 = 39;');
+    });
+});
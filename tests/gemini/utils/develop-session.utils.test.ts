@@ -0,0 +1,85 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DevelopSession } from '@/gemini/types/develop-session.schema';
+import { archiveSession, deleteSession, getSessionPath, loadSession, rememberOriginal, restoreOriginals, saveSession } from '@/gemini/utils/develop-session.utils';
+
+describe('develop session utils', () => {
+    let projectRoot: string;
+
+    const buildSession = (): DevelopSession => ({
+        version: 1,
+        startedAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        task: { status: 'Not Started', description: 'Add numbers', feature: 'Sum' },
+        phase: 'task-selected',
+        testFiles: [],
+        sourceFiles: [],
+        fixIterations: 0,
+        attemptsDir: '.gemini-develop/attempts/run',
+        originals: {},
+        steps: [],
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'develop-session-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('should save, load and delete a session', () => {
+        const session = buildSession();
+        session.phase = 'tests-written';
+
+        saveSession(projectRoot, session);
+
+        expect(loadSession(projectRoot)).toEqual(expect.objectContaining({ phase: 'tests-written', task: expect.objectContaining({ feature: 'Sum' }) }));
+        deleteSession(projectRoot);
+        expect(loadSession(projectRoot)).toBeNull();
+    });
+
+    it('should reject a corrupted session file', () => {
+        fs.mkdirSync(path.dirname(getSessionPath(projectRoot)), { recursive: true });
+        fs.writeFileSync(getSessionPath(projectRoot), JSON.stringify({ version: 1, phase: 'unknown' }));
+
+        expect(() => loadSession(projectRoot)).toThrow('is not a valid develop session');
+    });
+
+    it('should keep only the first original content of each file', () => {
+        const session = buildSession();
+
+        expect(rememberOriginal(session, 'src/sum.ts', null)).toBe(true);
+        expect(rememberOriginal(session, 'src/sum.ts', 'generated')).toBe(false);
+        expect(session.originals).toEqual({ 'src/sum.ts': null });
+    });
+
+    it('should restore changed files and delete created ones', () => {
+        fs.mkdirSync(path.join(projectRoot, 'src'));
+        fs.writeFileSync(path.join(projectRoot, 'src', 'existing.ts'), 'generated');
+        fs.writeFileSync(path.join(projectRoot, 'src', 'created.ts'), 'generated');
+        const session = buildSession();
+        session.originals = { 'src/existing.ts': 'original', 'src/created.ts': null };
+
+        expect(restoreOriginals(projectRoot, session)).toEqual([]);
+
+        expect(fs.readFileSync(path.join(projectRoot, 'src', 'existing.ts'), 'utf8')).toBe('original');
+        expect(fs.existsSync(path.join(projectRoot, 'src', 'created.ts'))).toBe(false);
+    });
+
+    it('should move the session file into its attempts directory', () => {
+        const session = buildSession();
+        saveSession(projectRoot, session);
+
+        const archivedPath = archiveSession(projectRoot, session);
+
+        expect(archivedPath).toBe(path.join(session.attemptsDir, 'session.json'));
+        expect(fs.existsSync(getSessionPath(projectRoot))).toBe(false);
+        expect(JSON.parse(fs.readFileSync(path.join(projectRoot, archivedPath as string), 'utf8')).phase).toBe(session.phase);
+        expect(archiveSession(projectRoot, session)).toBeNull();
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { computeBackoffDelay, RateLimiter } from '@/gemini/utils/retry.utils';
+import { classifyProviderError, parseRetryAfter } from '@/gemini/utils/provider-error.utils';
+
+describe('computeBackoffDelay', () => {
+    const options = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 5000, maxServerDelayMs: 60000 };
+
+    it('should double the delay per retry, with jitter on the upper half', () => {
+        expect(computeBackoffDelay(1, options, undefined, () => 0)).toBe(500);
+        expect(computeBackoffDelay(2, options, undefined, () => 0.999)).toBe(1999);
+        expect(computeBackoffDelay(3, options, undefined, () => 0.5)).toBe(3000);
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+        expect(computeBackoffDelay(10, options, undefined, () => 1)).toBe(5000);
+    });
+
+    it('should honor a server-provided Retry-After delay', () => {
+        expect(computeBackoffDelay(1, options, 42000)).toBe(42000);
+    });
+
+    it('should refuse a server-provided delay above maxServerDelayMs', () => {
+        expect(computeBackoffDelay(1, options, 60000)).toBe(60000);
+        expect(computeBackoffDelay(1, options, 3_600_000)).toBeNull();
+    });
+});
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should wait for the oldest request to leave the window once the limit is reached', async () => {
+        let now = 0;
+        const waits: number[] = [];
+        const limiter = new RateLimiter(2, () => now, async (ms) => { waits.push(ms); now += ms; });
+
+        await limiter.acquire();
+        now = 10_000;
+        await limiter.acquire();
+        await limiter.acquire();
+
+        expect(waits).toEqual([50_000]);
+        expect(now).toBe(60_000);
+    });
+
+    it('should serve concurrent callers one at a time', async () => {
+        let now = 0;
+        const limiter = new RateLimiter(1, () => now, async (ms) => { now += ms; });
+
+        await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+        expect(now).toBe(120_000);
+    });
+
+    it('should never wait when disabled', async () => {
+        const wait = jest.fn(async (_ms: number) => {});
+        const limiter = new RateLimiter(0, () => 0, wait);
+
+        await Promise.all(Array.from({ length: 100 }, () => limiter.acquire()));
+
+        expect(wait).not.toHaveBeenCalled();
+    });
+});
+
+describe('classifyProviderError', () => {
+    it('should mark rate limits as retryable and read Retry-After', () => {
+        expect(classifyProviderError({ response: { status: 429, headers: { 'retry-after': '7' }, data: {} } }))
+            .toMatchObject({ category: 'rate_limit', retryable: true, status: 429, retryAfterMs: 7000 });
+    });
+
+    it("should read Gemini's RetryInfo delay from the error body", () => {
+        const data = { error: { details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '30s' }] } };
+        expect(classifyProviderError({ response: { status: 429, headers: {}, data } }).retryAfterMs).toBe(30000);
+        expect(classifyProviderError({ response: { status: 429, headers: {}, data: { error: { details: [null, 'x', { retryDelay: 30 }] } } } }).retryAfterMs).toBeUndefined();
+        expect(classifyProviderError({ response: { status: 429, headers: {}, data: 'Too Many Requests' } }).retryAfterMs).toBeUndefined();
+    });
+
+    it('should classify client errors as not retryable', () => {
+        expect(classifyProviderError({ response: { status: 403, headers: {}, data: {} } })).toMatchObject({ category: 'auth', retryable: false });
+        expect(classifyProviderError({ response: { status: 400, headers: {}, data: {} } })).toMatchObject({ category: 'bad_request', retryable: false });
+    });
+
+    it('should classify timeouts and connection resets as retryable', () => {
+        expect(classifyProviderError({ code: 'ECONNABORTED', request: {} })).toMatchObject({ category: 'timeout', retryable: true });
+        expect(classifyProviderError({ code: 'ECONNRESET', request: {} })).toMatchObject({ category: 'network', retryable: true });
+    });
+
+    it('should parse HTTP-date Retry-After values', () => {
+        const now = Date.parse('2024-01-01T00:00:00Z');
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatReviewJson, formatReviewSarif, mapFindingPaths, parseReviewReport } from '@/gemini/utils/review-report.utils';
+
+const modelAnswer = `Here are the results:
+\`\`\`json
+{
+  "summary": "Mostly fine.",
+  "findings": [
+    { "file": "src/a.ts", "line": "12", "severity": "Warning", "rule": "no-any", "message": "Avoid any." },
+    { "file": "src/b.ts", "line": 3, "endLine": 5, "severity": "error", "rule": "unsafe-eval", "message": "Do not eval." }
+  ]
+}
+\`\`\``;
+
+describe('review report utils', () => {
+    it('should extract, coerce and validate fenced JSON findings', () => {
+        const report = parseReviewReport(modelAnswer);
+
+        expect(report.summary).toBe('Mostly fine.');
+        expect(report.findings[0]).toEqual({ file: 'src/a.ts', line: 12, severity: 'warning', rule: 'no-any', message: 'Avoid any.' });
+    });
+
+    it('should reject answers that do not match the schema', () => {
+        expect(() => parseReviewReport('{"findings":[{"file":"a.ts","line":0,"severity":"fatal","rule":"x","message":"y"}]}'))
+            .toThrow(/findings\.0\.line.*findings\.0\.severity/);
+        expect(() => parseReviewReport('No findings, all good!')).toThrow('does not contain a JSON object');
+    });
+
+    it('should produce a SARIF 2.1.0 log with one rule per rule id', () => {
+        const sarif = JSON.parse(formatReviewSarif(parseReviewReport(modelAnswer), '1.0.0'));
+
+        expect(sarif.version).toBe('2.1.0');
+        expect(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['no-any', 'unsafe-eval']);
+        expect(sarif.runs[0].results[1]).toEqual({
+            ruleId: 'unsafe-eval',
+            ruleIndex: 1,
+            level: 'error',
+            message: { text: 'Do not eval.' },
+            locations: [{ physicalLocation: { artifactLocation: { uri: 'src/b.ts' }, region: { startLine: 3, endLine: 5 } } }],
+        });
+    });
+
+    it('should include metadata and remapped paths in the JSON output', () => {
+        const report = mapFindingPaths(parseReviewReport(modelAnswer), file => `pkg/${file}`);
+        const json = JSON.parse(formatReviewJson(report, { targetPath: 'pkg', mode: 'quality', generatedAt: '2024-01-01T00:00:00.000Z' }));
+
+        expect(json).toMatchObject({ tool: 'gemini-cli-tools', targetPath: 'pkg', mode: 'quality', summary: 'Mostly fine.' });
+        expect(json.findings.map((finding: { file: string }) => finding.file)).toEqual(['pkg/src/a.ts', 'pkg/src/b.ts']);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { Readable } from 'stream';
+import { readJsonLines, readLines, readServerSentEvents, readText } from '@/gemini/utils/stream.utils';
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) items.push(item);
+    return items;
+}
+
+describe('stream utils', () => {
+    it('should reassemble lines split across chunks', async () => {
+        const stream = Readable.from([Buffer.from('first li'), Buffer.from('ne\r\nsecond\nthi'), Buffer.from('rd')]);
+
+        await expect(collect(readLines(stream))).resolves.toEqual(['first line', 'second', 'third']);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+        const bytes = Buffer.from('naïve ✓\nnext', 'utf8');
+        // Split inside 'ï' (2 bytes) and inside '✓' (3 bytes).
+        const stream = Readable.from([bytes.subarray(0, 3), bytes.subarray(3, 8), bytes.subarray(8)]);
+
+        await expect(collect(readLines(stream))).resolves.toEqual(['naïve ✓', 'next']);
+    });
+
+    it('should read a whole stream as text up to the limit', async () => {
+        const bytes = Buffer.from('{"error":"ü"}', 'utf8');
+
+        await expect(readText(Readable.from([bytes.subarray(0, 11), bytes.subarray(11)]))).resolves.toBe('{"error":"ü"}');
+        await expect(readText(Readable.from(['abc', 'def']), 4)).resolves.toBe('abcd');
+    });
+
+    it('should parse server-sent event payloads and stop at [DONE]', async () => {
+        const body = 'data: {"n":1}\n\n: keep-alive\n\ndata: {"n":\ndata: 2}\n\ndata: [DONE]\n\ndata: {"n":3}\n\n';
+        const stream = Readable.from([body.slice(0, 9), body.slice(9)]);
+
+        await expect(collect(readServerSentEvents(stream))).resolves.toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it('should parse newline-delimited JSON and skip blank lines', async () => {
+        const stream = Readable.from(['{"a":1}\n\n{"a"', ':2}\n']);
+
+        await expect(collect(readJsonLines(stream))).resolves.toEqual([{ a: 1 }, { a: 2 }]);
+    });
+});
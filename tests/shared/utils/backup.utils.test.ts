@@ -0,0 +1,110 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    configureBackups,
+    finishBackupRun,
+    hashContent,
+    listBackupRuns,
+    loadBackupRun,
+    markRunUndone,
+    readSnapshot,
+    setBackupRoot,
+    startBackupRun,
+} from '@shared/utils/backup.utils';
+import { deleteOutputFile, setWriteMode, writeOutputFile } from '@shared/utils/file-io.utils';
+
+describe('backup store', () => {
+    let workDir: string;
+    let backupDir: string;
+
+    beforeEach(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-'));
+        backupDir = path.join(workDir, '.gemini-backups');
+        configureBackups(backupDir);
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        finishBackupRun();
+        configureBackups(null);
+        setWriteMode('write');
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should snapshot each file once per run and record what the run wrote', () => {
+        const existing = path.join(workDir, 'a.ts');
+        const created = path.join(workDir, 'src', 'b.ts');
+        const removed = path.join(workDir, 'c.ts');
+        fs.writeFileSync(existing, 'original a');
+        fs.writeFileSync(removed, 'original c');
+
+        startBackupRun('Develop', 'Develop . --yes');
+        writeOutputFile(existing, 'first a');
+        writeOutputFile(existing, 'second a');
+        writeOutputFile(created, 'new b');
+        deleteOutputFile(removed);
+        const run = finishBackupRun();
+
+        expect(run).not.toBeNull();
+        expect(listBackupRuns()).toEqual([run]);
+        const files = run!.files.map(file => ({ ...file, path: path.basename(file.path) }));
+        expect(files).toEqual([
+            { path: 'a.ts', snapshot: 'files/1-a.ts', writtenHash: hashContent('second a') },
+            { path: 'b.ts', snapshot: null, writtenHash: hashContent('new b') },
+            { path: 'c.ts', snapshot: 'files/3-c.ts', writtenHash: null },
+        ]);
+        expect(run!.files.map(file => readSnapshot(run!, file))).toEqual(['original a', null, 'original c']);
+        expect(run).toMatchObject({ version: 1, command: 'Develop', commandLine: 'Develop . --yes', cwd: process.cwd() });
+    });
+
+    it('should store nothing for runs that change no files or only preview them', () => {
+        startBackupRun('review', 'review src');
+        expect(finishBackupRun()).toBeNull();
+
+        setWriteMode('dry-run');
+        startBackupRun('document', 'document src --dry-run');
+        writeOutputFile(path.join(workDir, 'docs.md'), 'docs');
+        expect(finishBackupRun()).toBeNull();
+
+        expect(listBackupRuns()).toEqual([]);
+    });
+
+    it('should list runs newest first and persist undo marks', () => {
+        startBackupRun('Develop', 'first');
+        writeOutputFile(path.join(workDir, 'a.ts'), 'a');
+        const first = finishBackupRun()!;
+        startBackupRun('Develop', 'second');
+        writeOutputFile(path.join(workDir, 'a.ts'), 'b');
+        const second = finishBackupRun()!;
+        fs.mkdirSync(path.join(backupDir, 'broken'));
+
+        markRunUndone(second);
+
+        expect(listBackupRuns().map(run => run.commandLine)).toEqual(['second', 'first']);
+        expect(loadBackupRun(second.runId).undoneAt).toEqual(expect.any(String));
+        expect(loadBackupRun(first.runId).undoneAt).toBeUndefined();
+        expect(() => loadBackupRun('missing')).toThrow("No backup run 'missing'.");
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping broken'));
+    });
+
+    it('should store the backups of a run in the project root it was moved to', () => {
+        const projectRoot = path.join(workDir, 'app');
+        configureBackups('.gemini-backups', workDir);
+
+        startBackupRun('Develop', 'Develop app');
+        setBackupRoot(projectRoot);
+        writeOutputFile(path.join(projectRoot, 'a.ts'), 'a');
+        const run = finishBackupRun()!;
+
+        expect(fs.existsSync(path.join(projectRoot, '.gemini-backups', run.runId, 'run.json'))).toBe(true);
+        expect(fs.existsSync(backupDir)).toBe(false);
+
+        startBackupRun('Develop', 'Develop app');
+        writeOutputFile(path.join(projectRoot, 'a.ts'), 'b');
+        expect(() => setBackupRoot(workDir)).toThrow('cannot be moved after the run has changed files');
+    });
+});
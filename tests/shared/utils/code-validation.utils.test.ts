@@ -0,0 +1,143 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { formatValidationDiagnostics, parseEslintOutput, parseTscOutput, validateFiles } from '@shared/utils/code-validation.utils';
+import { runTestCommand } from '@shared/utils/test-runner.utils';
+
+jest.mock('@shared/utils/test-runner.utils', () => ({
+    ...jest.requireActual<object>('@shared/utils/test-runner.utils'),
+    runTestCommand: jest.fn(),
+}));
+
+const mockedRunCommand = runTestCommand as jest.MockedFunction<typeof runTestCommand>;
+
+const TSC_OUTPUT = [
+    "src/sum.ts(3,10): error TS2307: Cannot find module './math' or its corresponding type declarations.",
+    "src/other.ts(1,1): error TS2304: Cannot find name 'legacy'.",
+    "tests/sum.test.ts(5,3): error TS2322: Type 'string' is not assignable to type 'number'.",
+    "  The expected type comes from property 'total'.",
+].join('\n');
+
+describe('parseTscOutput', () => {
+    it('should parse diagnostics and attach continuation lines', () => {
+        const diagnostics = parseTscOutput(TSC_OUTPUT, '/project');
+
+        expect(diagnostics).toHaveLength(3);
+        expect(diagnostics[0]).toEqual({
+            tool: 'tsc',
+            file: 'src/sum.ts',
+            line: 3,
+            column: 10,
+            severity: 'error',
+            code: 'TS2307',
+            message: "Cannot find module './math' or its corresponding type declarations.",
+        });
+        expect(diagnostics[2].message).toBe("Type 'string' is not assignable to type 'number'.\n  The expected type comes from property 'total'.");
+    });
+});
+
+describe('parseEslintOutput', () => {
+    it('should parse the JSON report and ignore surrounding noise', () => {
+        const report = JSON.stringify([
+            { filePath: '/project/src/sum.ts', messages: [
+                { ruleId: 'no-unused-vars', severity: 2, message: "'x' is defined but never used.", line: 2, column: 7 },
+                { ruleId: 'prefer-const', severity: 1, message: "'y' is never reassigned.", line: 4, column: 5 },
+            ] },
+            { filePath: '/project/src/clean.ts', messages: [] },
+        ]);
+
+        const diagnostics = parseEslintOutput(`npm warn exec something\n${report}\n`, '/project');
+
+        expect(diagnostics).toEqual([
+            { tool: 'eslint', file: 'src/sum.ts', line: 2, column: 7, severity: 'error', code: 'no-unused-vars', message: "'x' is defined but never used." },
+            { tool: 'eslint', file: 'src/sum.ts', line: 4, column: 5, severity: 'warning', code: 'prefer-const', message: "'y' is never reassigned." },
+        ]);
+        expect(formatValidationDiagnostics(diagnostics!)).toBe(
+            "src/sum.ts:2:7 - error no-unused-vars (eslint): 'x' is defined but never used.\nsrc/sum.ts:4:5 - warning prefer-const (eslint): 'y' is never reassigned."
+        );
+        expect(parseEslintOutput('Oops! Something went wrong!', '/project')).toBeNull();
+    });
+});
+
+describe('validateFiles', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'validation-'));
+        fs.mkdirSync(path.join(projectRoot, 'src'));
+        fs.writeFileSync(path.join(projectRoot, 'src/sum.ts'), 'export const sum = 1;\n');
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        mockedRunCommand.mockReset();
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should skip the tools the project does not configure', async () => {
+        const result = await validateFiles(projectRoot, ['src/sum.ts']);
+
+        expect(mockedRunCommand).not.toHaveBeenCalled();
+        expect(result).toEqual({
+            passed: true,
+            diagnostics: [],
+            checks: [
+                { tool: 'tsc', status: 'skipped', note: 'no tsconfig.json in the project root' },
+                { tool: 'eslint', status: 'skipped', note: 'no ESLint configuration in the project root' },
+            ],
+        });
+    });
+
+    it('should keep only the diagnostics of the validated files and lint only those files', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), '{}');
+        fs.writeFileSync(path.join(projectRoot, 'package.json'), JSON.stringify({ eslintConfig: { root: true } }));
+        mockedRunCommand
+            .mockResolvedValueOnce({ command: 'tsc', status: 'failed', exitCode: 2, output: TSC_OUTPUT })
+            .mockResolvedValueOnce({ command: 'eslint', status: 'passed', exitCode: 0, output: JSON.stringify([{ filePath: path.join(projectRoot, 'src/sum.ts'), messages: [] }]) });
+
+        const result = await validateFiles(projectRoot, [path.join(projectRoot, 'src/sum.ts'), 'README.md']);
+
+        expect(mockedRunCommand).toHaveBeenNthCalledWith(1, 'npx --no-install tsc --noEmit --pretty false --listFiles -p tsconfig.json', projectRoot, { echo: false });
+        expect(mockedRunCommand).toHaveBeenNthCalledWith(2, 'npx --no-install eslint --format json src/sum.ts', projectRoot, { echo: false });
+        expect(result.passed).toBe(false);
+        expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['TS2307']);
+        expect(result.checks).toEqual([
+            expect.objectContaining({ tool: 'tsc', status: 'failed', note: '2 diagnostic(s) in other files ignored' }),
+            expect.objectContaining({ tool: 'eslint', status: 'passed' }),
+        ]);
+    });
+
+    it('should not report files outside the tsconfig.json program as type-checked', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+        fs.mkdirSync(path.join(projectRoot, 'tests'));
+        fs.writeFileSync(path.join(projectRoot, 'tests/sum.test.ts'), 'const total: number = "1";\n');
+        const listedFiles = [path.join(fs.realpathSync(projectRoot), 'src/sum.ts'), '/usr/lib/node_modules/typescript/lib/lib.d.ts'].join('\n');
+        mockedRunCommand.mockResolvedValue({ command: 'tsc', status: 'passed', exitCode: 0, output: listedFiles });
+
+        const outsideOnly = await validateFiles(projectRoot, ['tests/sum.test.ts']);
+        const mixed = await validateFiles(projectRoot, ['src/sum.ts', 'tests/sum.test.ts']);
+
+        expect(outsideOnly.checks[0]).toEqual(expect.objectContaining({
+            tool: 'tsc',
+            status: 'skipped',
+            note: 'not included by tsconfig.json, so not type-checked: tests/sum.test.ts',
+        }));
+        expect(mixed.checks[0]).toEqual(expect.objectContaining({
+            tool: 'tsc',
+            status: 'passed',
+            note: 'not included by tsconfig.json, so not type-checked: tests/sum.test.ts',
+        }));
+    });
+
+    it('should treat a tool that cannot run as skipped', async () => {
+        fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), '{}');
+        mockedRunCommand.mockResolvedValueOnce({ command: 'tsc', status: 'error', exitCode: 127, output: 'npx: command not found' });
+
+        const result = await validateFiles(projectRoot, ['src/sum.ts']);
+
+        expect(result.passed).toBe(true);
+        expect(result.checks[0]).toEqual(expect.objectContaining({ tool: 'tsc', status: 'skipped', note: 'tsc did not run: npx: command not found' }));
+    });
+});
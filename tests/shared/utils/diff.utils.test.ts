@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { colorizeDiff, createUnifiedDiff } from '@shared/utils/diff.utils';
+
+describe('createUnifiedDiff', () => {
+    let tempDir: string | null = null;
+
+    afterEach(() => {
+        if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+        tempDir = null;
+    });
+
+    it('should return an empty diff for identical content', () => {
+        expect(createUnifiedDiff('a.ts', 'x\n', 'x\n')).toBe('');
+    });
+
+    it('should describe a new file', () => {
+        expect(createUnifiedDiff('src/a.ts', null, 'one\ntwo\n')).toBe(
+            'diff --git a/src/a.ts b/src/a.ts\nnew file mode 100644\n--- /dev/null\n+++ b/src/a.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n'
+        );
+    });
+
+    it('should describe a deleted file', () => {
+        expect(createUnifiedDiff('src/a.ts', 'one\ntwo\n', null)).toBe(
+            'diff --git a/src/a.ts b/src/a.ts\ndeleted file mode 100644\n--- a/src/a.ts\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-one\n-two\n'
+        );
+    });
+
+    it('should emit separate hunks with three lines of context', () => {
+        const oldContent = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+        const newContent = oldContent.replace('line 2\n', 'LINE 2\n').replace('line 18\n', 'line 18\ninserted\n');
+
+        const diff = createUnifiedDiff('a.txt', oldContent, newContent);
+
+        expect(diff).toContain('@@ -1,5 +1,5 @@\n line 1\n-line 2\n+LINE 2\n line 3\n');
+        expect(diff).toContain('@@ -16,5 +16,6 @@\n line 16\n line 17\n line 18\n+inserted\n line 19\n line 20\n');
+    });
+
+    it('should mark a missing final newline', () => {
+        expect(createUnifiedDiff('a.txt', 'a\nb', 'a\nb\n')).toContain('-b\n\\ No newline at end of file\n+b\n');
+    });
+
+    it('should produce patches that git apply accepts', () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-utils-'));
+        const oldContent = 'keep\nremove me\nkeep too\n' + Array.from({ length: 10 }, (_, i) => `filler ${i}`).join('\n') + '\nend';
+        const newContent = 'keep\nkeep too\nadded\n' + Array.from({ length: 10 }, (_, i) => `filler ${i}`).join('\n') + '\nend\n';
+        fs.writeFileSync(path.join(tempDir, 'file.txt'), oldContent);
+        fs.writeFileSync(path.join(tempDir, 'gone.txt'), 'bye\n');
+        const patch = createUnifiedDiff('file.txt', oldContent, newContent) + createUnifiedDiff('new/file.txt', null, 'fresh\n') + createUnifiedDiff('gone.txt', 'bye\n', null);
+        fs.writeFileSync(path.join(tempDir, 'change.patch'), patch);
+
+        execFileSync('git', ['apply', 'change.patch'], { cwd: tempDir, stdio: 'pipe' });
+
+        expect(fs.readFileSync(path.join(tempDir, 'file.txt'), 'utf8')).toBe(newContent);
+        expect(fs.readFileSync(path.join(tempDir, 'new', 'file.txt'), 'utf8')).toBe('fresh\n');
+        expect(fs.existsSync(path.join(tempDir, 'gone.txt'))).toBe(false);
+    });
+});
+
+describe('colorizeDiff', () => {
+    it('should color additions and removals', () => {
+        expect(colorizeDiff('-old\n+new\n same')).toBe('\x1b[31m-old\x1b[0m\n\x1b[32m+new\x1b[0m\n same');
+    });
+});
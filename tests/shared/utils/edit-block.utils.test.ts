@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyEditBlocks, containsEditBlocks, EditBlock, parseEditBlocks } from '@shared/utils/edit-block.utils';
+
+const block = (search: string, replace: string): EditBlock => ({ search, replace, line: 1 });
+
+describe('parseEditBlocks', () => {
+    it('should parse every block and ignore the text between them', () => {
+        const text = [
+            'Change the greeting:',
+            '<<<<<<< SEARCH',
+            "    return 'hi';",
+            '=======',
+            "    return 'hello';",
+            '>>>>>>> REPLACE',
+            'and add an export:',
+            '<<<<<<< SEARCH',
+            '=======',
+            'export {};',
+            '>>>>>>> REPLACE',
+        ].join('\n');
+
+        expect(containsEditBlocks(text)).toBe(true);
+        expect(parseEditBlocks(text)).toEqual({
+            blocks: [
+                { search: "    return 'hi';", replace: "    return 'hello';", line: 2 },
+                { search: '', replace: 'export {};', line: 8 },
+            ],
+            errors: [],
+        });
+    });
+
+    it('should report malformed blocks', () => {
+        const text = '<<<<<<< SEARCH\na\n>>>>>>> REPLACE\n<<<<<<< SEARCH\nb\n=======\nc';
+
+        expect(parseEditBlocks(text)).toEqual({
+            blocks: [],
+            errors: [
+                'The SEARCH block at line 1 has no "=======" divider.',
+                'The SEARCH block at line 4 has no ">>>>>>> REPLACE" marker.',
+            ],
+        });
+        expect(containsEditBlocks('export const a = 1;')).toBe(false);
+    });
+});
+
+describe('applyEditBlocks', () => {
+    const original = [
+        'export function greet(name: string): string {',
+        "    const greeting = 'Hello';",
+        '    return `${greeting}, ${name}`;',
+        '}',
+        '',
+        'export function farewell(name: string): string {',
+        '    return `Bye, ${name}`;',
+        '}',
+        '',
+    ].join('\n');
+
+    it('should apply exact matches in order', () => {
+        const result = applyEditBlocks(original, [
+            block("    const greeting = 'Hello';", "    const greeting = 'Hi';"),
+            block("    const greeting = 'Hi';", "    const greeting = 'Hey';"),
+        ]);
+
+        expect(result.failures).toEqual([]);
+        expect(result.applied).toBe(2);
+        expect(result.inexact).toBe(0);
+        expect(result.content).toBe(original.replace("'Hello'", "'Hey'"));
+    });
+
+    it('should only match whole lines exactly', () => {
+        const result = applyEditBlocks(original, [block("'Hello';", "'Hi';")]);
+
+        expect(result.applied).toBe(0);
+        expect(result.failures).toHaveLength(1);
+    });
+
+    it('should match despite indentation differences and re-indent the replacement', () => {
+        const result = applyEditBlocks(original, [
+            block('return `Bye, ${name}`;', 'const bye = `Bye, ${name}`;\nreturn bye;'),
+        ]);
+
+        expect(result.failures).toEqual([]);
+        expect(result.content).toContain('export function farewell(name: string): string {\n    const bye = `Bye, ${name}`;\n    return bye;\n}');
+    });
+
+    it('should match fuzzily when a line differs slightly', () => {
+        const result = applyEditBlocks(original, [
+            block("export function greet(name: string): string {\n    const greeting = 'Hello';\n    return `${greeting}, ${name}!`;", "export function greet(name: string): string {\n    return `Hello, ${name}`;"),
+        ]);
+
+        expect(result.failures).toEqual([]);
+        expect(result.inexact).toBe(1);
+        expect(result.content.startsWith('export function greet(name: string): string {\n    return `Hello, ${name}`;\n}\n')).toBe(true);
+    });
+
+    it('should report blocks that do not match or match several places, and still apply the others', () => {
+        const result = applyEditBlocks(original, [
+            block('const unrelated = computeSomethingElse();', 'x'),
+            block('}', '};'),
+            block("    const greeting = 'Hello';", "    const greeting = 'Hi';"),
+        ]);
+
+        expect(result.applied).toBe(1);
+        expect(result.failures.map(failure => failure.reason)).toEqual([
+            expect.stringMatching(/^SEARCH does not match the file \(closest match: \d+% similar\)\.$/),
+            'SEARCH matches 2 places; include more surrounding lines to make it unique.',
+        ]);
+        expect(result.content).toContain("'Hi'");
+    });
+
+    it('should match CRLF files exactly and keep their line endings', () => {
+        const crlfOriginal = original.replace(/\n/g, '\r\n');
+
+        const result = applyEditBlocks(crlfOriginal, [
+            block("    const greeting = 'Hello';\n    return `${greeting}, ${name}`;", "    const greeting = 'Hi';\n    return `${greeting}, ${name}!`;"),
+        ]);
+
+        expect(result.failures).toEqual([]);
+        expect(result.inexact).toBe(0);
+        expect(result.content).toBe(original.replace("'Hello'", "'Hi'").replace('${name}`;\n}\n\nexport', '${name}!`;\n}\n\nexport').replace(/\n/g, '\r\n'));
+    });
+
+    it('should create a new file only from an empty SEARCH', () => {
+        expect(applyEditBlocks(null, [block('', 'export const a = 1;\n')])).toEqual({ content: 'export const a = 1;\n', applied: 1, inexact: 0, failures: [] });
+
+        const missing = applyEditBlocks(null, [block('export const a = 1;', 'export const a = 2;')]);
+        expect(missing.applied).toBe(0);
+        expect(missing.failures[0].reason).toContain('The file does not exist');
+
+        const existing = applyEditBlocks(original, [block('', 'x')]);
+        expect(existing.failures[0].reason).toContain('An empty SEARCH can only create a new file');
+        expect(existing.content).toBe(original);
+    });
+});
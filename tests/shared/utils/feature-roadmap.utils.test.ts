@@ -0,0 +1,195 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { addRoadmapItem, findRoadmapItem, isDoneStatus, parseRoadmapTable, updateRoadmapItem, validateRoadmap } from '@shared/utils/feature-roadmap.utils';
+
+const ALIGNED_ROADMAP = [
+    '# Roadmap',
+    '',
+    '| Status      | Progress | Last Updated | Feature | Description   | Responsible File(s) | Test File Path(s) |',
+    '| :---------- | -------: | :----------- | :------ | :------------ | :------------------ | :---------------- |',
+    '| Not Started | 0%       | 2024-01-01   | Sum     | Add numbers   | src/sum.ts          | tests/sum.test.ts |',
+    '| Done        | 100%     | 2024-01-01   | Init    | Project setup | src/index.ts        | tests/index.test.ts |',
+    '',
+    'Trailing notes stay untouched.',
+].join('\n');
+
+describe('feature roadmap utils', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should record the line of each parsed row', () => {
+        const items = parseRoadmapTable(ALIGNED_ROADMAP);
+
+        expect(items.map(item => item.lineIndex)).toEqual([4, 5]);
+    });
+
+    it('should update the row in place and widen aligned columns', () => {
+        const [item] = parseRoadmapTable(ALIGNED_ROADMAP);
+
+        const updated = updateRoadmapItem(ALIGNED_ROADMAP, item, { status: 'TDD - Test Generation', progressPercent: '25%', lastUpdated: '2026-10-19' });
+
+        expect(updated.split('\n').slice(2, 6)).toEqual([
+            '| Status                | Progress | Last Updated | Feature | Description   | Responsible File(s) | Test File Path(s) |',
+            '| :-------------------- | -------: | :----------- | :------ | :------------ | :------------------ | :---------------- |',
+            '| TDD - Test Generation | 25%      | 2026-10-19   | Sum     | Add numbers   | src/sum.ts          | tests/sum.test.ts |',
+            '| Done                  | 100%     | 2024-01-01   | Init    | Project setup | src/index.ts        | tests/index.test.ts |',
+        ]);
+        expect(updated.startsWith('# Roadmap\n\n')).toBe(true);
+        expect(updated.endsWith('\n\nTrailing notes stay untouched.')).toBe(true);
+        expect(parseRoadmapTable(updated)[0]).toEqual(expect.objectContaining({ status: 'TDD - Test Generation', progressPercent: '25%', lastUpdated: '2026-10-19' }));
+    });
+
+    it('should write a compact cell when the column is not aligned', () => {
+        const roadmap = [
+            '| Status | Feature | Description | Responsible File(s) |',
+            '|---|---|---|---|',
+            '| TDD - Code Implementation | A | First | src/a.ts |',
+            '| Done | B | Second | src/b.ts |',
+        ].join('\n');
+        const [item] = parseRoadmapTable(roadmap);
+
+        const updated = updateRoadmapItem(roadmap, item, { status: 'Needs Review', progressPercent: '90%' });
+
+        expect(updated).toBe(roadmap.replace('| TDD - Code Implementation | A |', '| Needs Review | A |'));
+    });
+
+    it('should find the row again when the file changed since it was parsed', () => {
+        const [item] = parseRoadmapTable(ALIGNED_ROADMAP);
+        const edited = `Intro line\n${ALIGNED_ROADMAP}`;
+
+        const updated = updateRoadmapItem(edited, item, { status: 'Done' });
+
+        expect(updated.split('\n')[5]).toMatch(/^\| Done {8}\| 0% /);
+    });
+
+    it('should throw when the row no longer exists', () => {
+        const [item] = parseRoadmapTable(ALIGNED_ROADMAP);
+
+        expect(() => updateRoadmapItem(ALIGNED_ROADMAP.replace('Add numbers', 'Subtract'), item, { status: 'Done' })).toThrow('Could not find a unique FEATURE_ROADMAP.md row');
+    });
+
+    it('should append an aligned row under the matching columns', () => {
+        const updated = addRoadmapItem(ALIGNED_ROADMAP, {
+            status: 'Not Started',
+            feature: 'Divide',
+            description: 'Divide numbers',
+            responsibleFiles: ['src/divide.ts'],
+            testFilePaths: ['tests/divide.test.ts'],
+            priority: 'P2',
+        });
+
+        expect(updated.split('\n').slice(2, 7)).toEqual([
+            '| Status      | Progress | Last Updated | Feature | Description    | Responsible File(s) | Test File Path(s) |',
+            '| :---------- | -------: | :----------- | :------ | :------------- | :------------------ | :---------------- |',
+            '| Not Started | 0%       | 2024-01-01   | Sum     | Add numbers    | src/sum.ts          | tests/sum.test.ts |',
+            '| Done        | 100%     | 2024-01-01   | Init    | Project setup  | src/index.ts        | tests/index.test.ts |',
+            '| Not Started |          |              | Divide  | Divide numbers | src/divide.ts       | tests/divide.test.ts |',
+        ]);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('no column for: priority'));
+        expect(parseRoadmapTable(updated)[2]).toEqual(expect.objectContaining({ feature: 'Divide', testFilePaths: ['tests/divide.test.ts'] }));
+    });
+
+    it('should reject values that would break the table', () => {
+        expect(() => addRoadmapItem(ALIGNED_ROADMAP, { status: 'Not Started', description: 'a | b' })).toThrow("cannot contain '|'");
+    });
+
+    it('should find items by ID or feature name', () => {
+        const items = parseRoadmapTable(ALIGNED_ROADMAP);
+
+        expect(findRoadmapItem(items, 'init').description).toBe('Project setup');
+        expect(() => findRoadmapItem(items, 'Missing')).toThrow('No FEATURE_ROADMAP.md item');
+    });
+
+    describe('validateRoadmap', () => {
+        let projectRoot: string;
+
+        beforeEach(() => {
+            projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'roadmap-validate-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(projectRoot, { recursive: true, force: true });
+        });
+
+        it('should accept a well-formed roadmap', () => {
+            fs.mkdirSync(path.join(projectRoot, 'src'));
+            fs.mkdirSync(path.join(projectRoot, 'tests'));
+            fs.writeFileSync(path.join(projectRoot, 'src/index.ts'), '');
+            fs.writeFileSync(path.join(projectRoot, 'tests/index.test.ts'), '');
+
+            expect(validateRoadmap(ALIGNED_ROADMAP, projectRoot)).toEqual([]);
+        });
+
+        it('should report malformed rows, unknown statuses, duplicates and missing files', () => {
+            const roadmap = [
+                '| Status | Feature | Description | Responsible File(s) |',
+                '|---|---|---|---|',
+                '| Done | Sum | Add | src/sum.ts |',
+                '| Not Started | Sum | Again | src/sum2.ts |',
+                '| Finished | Div | Divide | src/div.ts |',
+                '| Not Started | Broken |',
+                '| | Mul | Multiply | src/mul.ts |',
+            ].join('\n');
+
+            expect(validateRoadmap(roadmap, projectRoot)).toEqual([
+                { severity: 'error', line: 1, message: expect.stringContaining("Missing 'Test File Path(s)' column") },
+                { severity: 'error', line: 3, message: 'Referenced file does not exist: src/sum.ts' },
+                { severity: 'error', line: 4, message: 'Duplicate ID or feature "sum" (first used on line 3).' },
+                { severity: 'error', line: 5, message: expect.stringContaining('Unknown status "Finished"') },
+                { severity: 'warning', line: 5, message: 'Referenced file does not exist: src/div.ts' },
+                { severity: 'error', line: 6, message: 'Row has 2 cells but the header has 4; the row is skipped.' },
+                { severity: 'error', line: 7, message: 'Row has no Status; the row is skipped.' },
+                { severity: 'warning', line: 7, message: 'Referenced file does not exist: src/mul.ts' },
+            ]);
+        });
+
+        it('should expand glob patterns and report only patterns that match nothing', () => {
+            fs.mkdirSync(path.join(projectRoot, 'src'));
+            fs.mkdirSync(path.join(projectRoot, 'tests', 'unit'), { recursive: true });
+            fs.writeFileSync(path.join(projectRoot, 'src/a.ts'), '');
+            fs.writeFileSync(path.join(projectRoot, 'tests/unit/a.test.ts'), '');
+            const roadmap = [
+                '| Status | Feature | Description | Responsible File(s) | Test File Path(s) |',
+                '|---|---|---|---|---|',
+                '| Done | A | Add a | src/*.ts | tests/**/*.test.ts |',
+                '| Done | B | Add b | lib/*.ts | tests/unit/a.test.ts |',
+            ].join('\n');
+
+            expect(validateRoadmap(roadmap, projectRoot)).toEqual([
+                { severity: 'error', line: 4, message: 'Glob pattern matches no files: lib/*.ts' },
+            ]);
+        });
+
+        it('should agree with isDoneStatus on which statuses are finished', () => {
+            const roadmap = [
+                '| Status | Feature | Description | Responsible File(s) | Test File Path(s) |',
+                '|---|---|---|---|---|',
+                '| done | A | Add a | src/a.ts | |',
+                '| Completed | B | Add b | src/b.ts | |',
+            ].join('\n');
+
+            expect(isDoneStatus('done')).toBe(true);
+            expect(isDoneStatus('Completed')).toBe(false);
+            expect(validateRoadmap(roadmap, projectRoot)).toEqual([
+                { severity: 'error', line: 3, message: 'Referenced file does not exist: src/a.ts' },
+                { severity: 'error', line: 4, message: expect.stringContaining('Unknown status "Completed"') },
+                { severity: 'warning', line: 4, message: 'Referenced file does not exist: src/b.ts' },
+            ]);
+        });
+
+        it('should report a missing table', () => {
+            expect(validateRoadmap('# Roadmap\n\nNothing here yet.', projectRoot)).toEqual([
+                { severity: 'error', message: expect.stringContaining('No roadmap table') },
+            ]);
+        });
+    });
+});
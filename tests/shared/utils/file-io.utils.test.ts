@@ -0,0 +1,98 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { deleteOutputFile, setWriteMode, updateFileContent, writeOutputFile, writePendingPatch } from '@shared/utils/file-io.utils';
+
+describe('file-io write modes', () => {
+    let tempDir: string;
+    let logSpy: jest.SpiedFunction<typeof console.log>;
+
+    beforeEach(() => {
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-io-'));
+    });
+
+    afterEach(() => {
+        setWriteMode('write');
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('should print diffs without touching disk in dry-run mode', () => {
+        const existing = path.join(tempDir, 'existing.txt');
+        fs.writeFileSync(existing, 'old\n');
+        setWriteMode('dry-run');
+
+        expect(writeOutputFile(existing, 'new\n')).toBe(true);
+        expect(updateFileContent(path.join(tempDir, 'sub', 'created.txt'), 'hello\n')).toBe(true);
+
+        expect(fs.readFileSync(existing, 'utf8')).toBe('old\n');
+        expect(fs.existsSync(path.join(tempDir, 'sub'))).toBe(false);
+        const printed = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+        expect(printed).toContain('-old\n+new');
+        expect(printed).toContain('+hello');
+    });
+
+    it('should collect changes into one patch file in patch mode', () => {
+        const target = path.join(tempDir, 'target.txt');
+        const patchFile = path.join(tempDir, 'out', 'changes.patch');
+        setWriteMode('patch');
+
+        writeOutputFile(target, 'first\n');
+        writeOutputFile(path.join(tempDir, 'second.txt'), 'second\n');
+        expect(writePendingPatch(patchFile)).toBe(true);
+
+        expect(fs.existsSync(target)).toBe(false);
+        const patch = fs.readFileSync(patchFile, 'utf8');
+        expect(patch.match(/^diff --git /gm)).toHaveLength(2);
+        expect(patch).toContain('+first');
+    });
+
+    it('should make patch paths relative to the repository of a target outside the working directory', () => {
+        const repoDir = fs.realpathSync(tempDir);
+        execFileSync('git', ['init', '-q'], { cwd: repoDir });
+        fs.mkdirSync(path.join(repoDir, 'src'));
+        fs.writeFileSync(path.join(repoDir, 'src', 'a.ts'), 'old\n');
+        const patchFile = path.join(repoDir, 'changes.patch');
+        setWriteMode('patch');
+
+        expect(writeOutputFile(path.join(repoDir, 'src', 'a.ts'), 'new\n')).toBe(true);
+        expect(writeOutputFile(path.join(repoDir, 'src', 'b.ts'), 'added\n')).toBe(true);
+        expect(writePendingPatch(patchFile)).toBe(true);
+
+        const patch = fs.readFileSync(patchFile, 'utf8');
+        expect(patch).toContain('diff --git a/src/a.ts b/src/a.ts');
+        expect(patch).toContain('+++ b/src/b.ts');
+        expect(logSpy).toHaveBeenCalledWith(expect.stringContaining(`git -C ${repoDir} apply ${patchFile}`));
+        execFileSync('git', ['-C', repoDir, 'apply', patchFile]);
+        expect(fs.readFileSync(path.join(repoDir, 'src', 'a.ts'), 'utf8')).toBe('new\n');
+        expect(fs.readFileSync(path.join(repoDir, 'src', 'b.ts'), 'utf8')).toBe('added\n');
+    });
+
+    it('should write normally by default', () => {
+        const target = path.join(tempDir, 'nested', 'file.txt');
+
+        expect(writeOutputFile(target, 'content')).toBe(true);
+        expect(fs.readFileSync(target, 'utf8')).toBe('content');
+    });
+
+    it('should delete files only in write mode and collect deletions in patch mode', () => {
+        const target = path.join(tempDir, 'obsolete.txt');
+        const patchFile = path.join(tempDir, 'changes.patch');
+        fs.writeFileSync(target, 'old\n');
+
+        setWriteMode('patch');
+        expect(deleteOutputFile(target)).toBe(true);
+        expect(writePendingPatch(patchFile)).toBe(true);
+        expect(fs.existsSync(target)).toBe(true);
+        expect(fs.readFileSync(patchFile, 'utf8')).toContain('deleted file mode 100644');
+
+        setWriteMode('write');
+        expect(deleteOutputFile(target)).toBe(true);
+        expect(fs.existsSync(target)).toBe(false);
+        expect(deleteOutputFile(target)).toBe(true);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    formatChangedFileContext,
+    formatNumberedFile,
+    getChangedFiles,
+    parseDiffSpec,
+    parseUnifiedDiff,
+    readChangedFile,
+    unquoteGitPath,
+} from '@shared/utils/git-diff.utils';
+
+describe('parseDiffSpec', () => {
+    it('should map keywords, ranges and refs to git arguments', () => {
+        expect(parseDiffSpec('staged')).toMatchObject({ gitArgs: ['--cached'], target: 'index' });
+        expect(parseDiffSpec('worktree')).toMatchObject({ gitArgs: [], target: 'worktree' });
+        expect(parseDiffSpec('main...feature')).toMatchObject({ gitArgs: ['main...feature'], target: { ref: 'feature' } });
+        expect(parseDiffSpec('v1..')).toMatchObject({ target: { ref: 'HEAD' } });
+        expect(parseDiffSpec('main')).toMatchObject({ gitArgs: ['main'], target: 'worktree' });
+    });
+
+    it('should reject values that look like options', () => {
+        expect(() => parseDiffSpec('--output=x')).toThrow('Invalid --diff base');
+    });
+});
+
+describe('parseUnifiedDiff', () => {
+    it('should collect added line ranges and skip deleted files', () => {
+        const diff = [
+            'diff --git a/src/a.ts b/src/a.ts',
+            '--- a/src/a.ts',
+            '+++ b/src/a.ts',
+            '@@ -3 +3 @@ export',
+            '@@ -10,2 +11,3 @@',
+            '@@ -20,4 +22,0 @@',
+            'diff --git a/old.ts b/old.ts',
+            '--- a/old.ts',
+            '+++ /dev/null',
+            '@@ -1,5 +0,0 @@',
+        ].join('\n');
+
+        expect(parseUnifiedDiff(diff)).toEqual([{ repoPath: 'src/a.ts', ranges: [{ start: 3, end: 3 }, { start: 11, end: 13 }] }]);
+    });
+
+    it('should unquote paths with spaces or non-ASCII characters', () => {
+        const diff = [
+            'diff --git "a/src/caf\\303\\251.ts" "b/src/caf\\303\\251.ts"',
+            '+++ "b/src/caf\\303\\251.ts"',
+            '@@ -1 +1 @@',
+            'diff --git a/src/my file.ts b/src/my file.ts',
+            '+++ b/src/my file.ts\t',
+            '@@ -2 +2 @@',
+        ].join('\n');
+
+        expect(parseUnifiedDiff(diff).map(file => file.repoPath)).toEqual(['src/café.ts', 'src/my file.ts']);
+    });
+});
+
+describe('unquoteGitPath', () => {
+    it('should decode C escapes and octal UTF-8 bytes', () => {
+        expect(unquoteGitPath('"a\\"b\\\\c\\td"')).toBe('a"b\\c\td');
+        expect(unquoteGitPath('"\\346\\227\\245.ts"')).toBe('日.ts');
+        expect(unquoteGitPath('plain.ts')).toBe('plain.ts');
+    });
+});
+
+describe('formatChangedFileContext', () => {
+    it('should number lines, mark changed ones and elide distant regions', () => {
+        const content = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n');
+        const file = { filePath: 'src/a.ts', repoPath: 'src/a.ts', repoRoot: '/repo', ranges: [{ start: 5, end: 5 }] };
+
+        expect(formatChangedFileContext(file, content, 1)).toBe(
+            '// File: src/a.ts\n// Changed lines: 5\n...\n   4 | line 4\n+  5 | line 5\n   6 | line 6\n\n'
+        );
+    });
+});
+
+describe('formatNumberedFile', () => {
+    it('should number every line of the original text', () => {
+        const content = Array.from({ length: 10 }, (_, i) => (i === 1 ? '' : `line ${i + 1}`)).join('\r\n') + '\r\n';
+
+        const section = formatNumberedFile('src/a.ts', content);
+
+        expect(section.startsWith('// File: src/a.ts\n 1 | line 1\n 2 | \n 3 | line 3\n')).toBe(true);
+        expect(section.endsWith('10 | line 10\n\n')).toBe(true);
+    });
+});
+
+describe('getChangedFiles', () => {
+    let repoDir: string;
+    let originalCwd: string;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, stdio: 'pipe' });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        originalCwd = process.cwd();
+        repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-diff-')));
+        git('init', '-q');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.mkdirSync(path.join(repoDir, 'src'));
+        fs.writeFileSync(path.join(repoDir, 'src', 'a.ts'), 'one\ntwo\nthree\n');
+        git('add', '.');
+        git('commit', '-q', '-m', 'initial');
+        process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+        process.chdir(originalCwd);
+        fs.rmSync(repoDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('should report working tree and staged changes with their new content', async () => {
+        fs.writeFileSync(path.join(repoDir, 'src', 'a.ts'), 'one\nTWO\nthree\nfour\n');
+        git('add', 'src/a.ts');
+        fs.writeFileSync(path.join(repoDir, 'src', 'a.ts'), 'ONE\nTWO\nthree\nfour\n');
+
+        const staged = await getChangedFiles(parseDiffSpec('staged'), 'src');
+        expect(staged).toEqual([{ filePath: 'src/a.ts', repoPath: 'src/a.ts', repoRoot: repoDir, ranges: [{ start: 2, end: 2 }, { start: 4, end: 4 }] }]);
+        await expect(readChangedFile(staged[0], 'index')).resolves.toBe('one\nTWO\nthree\nfour\n');
+
+        const againstHead = await getChangedFiles(parseDiffSpec('HEAD'), 'src');
+        expect(againstHead[0].ranges).toEqual([{ start: 1, end: 2 }, { start: 4, end: 4 }]);
+    });
+
+    it('should count untracked files as added when comparing the working tree', async () => {
+        fs.writeFileSync(path.join(repoDir, 'src', 'new file.ts'), 'first\nsecond\n');
+        fs.writeFileSync(path.join(repoDir, '.gitignore'), 'src/ignored.ts\n');
+        fs.writeFileSync(path.join(repoDir, 'src', 'ignored.ts'), 'ignored\n');
+
+        const againstHead = await getChangedFiles(parseDiffSpec('HEAD'), 'src');
+        expect(againstHead).toEqual([{ filePath: 'src/new file.ts', repoPath: 'src/new file.ts', repoRoot: repoDir, ranges: [{ start: 1, end: 2 }] }]);
+        await expect(readChangedFile(againstHead[0], 'worktree')).resolves.toBe('first\nsecond\n');
+
+        await expect(getChangedFiles(parseDiffSpec('staged'), 'src')).resolves.toEqual([]);
+    });
+
+    it('should use the repository of the target path and unquote non-ASCII paths', async () => {
+        fs.writeFileSync(path.join(repoDir, 'src', 'café.ts'), 'one\n');
+        git('add', 'src/café.ts');
+        const outsideDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'outside-')));
+        process.chdir(outsideDir);
+
+        try {
+            const staged = await getChangedFiles(parseDiffSpec('staged'), path.join(repoDir, 'src'));
+
+            expect(staged).toEqual([{
+                filePath: path.relative(outsideDir, path.join(repoDir, 'src', 'café.ts')).split(path.sep).join('/'),
+                repoPath: 'src/café.ts',
+                repoRoot: repoDir,
+                ranges: [{ start: 1, end: 1 }],
+            }]);
+            await expect(readChangedFile(staged[0], 'index')).resolves.toBe('one\n');
+        } finally {
+            process.chdir(repoDir);
+            fs.rmSync(outsideDir, { recursive: true, force: true });
+        }
+    });
+
+    it('should fail with a clear error for an unknown ref', async () => {
+        await expect(getChangedFiles(parseDiffSpec('no-such-ref'), 'src')).rejects.toThrow('[Git] git diff');
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    checkout,
+    commitPaths,
+    createBranch,
+    deleteBranch,
+    getBranchPoint,
+    getUncommittedChanges,
+    toBranchName,
+} from '@shared/utils/git.utils';
+
+describe('toBranchName', () => {
+    it('should slugify the feature name', () => {
+        expect(toBranchName('User Login (v2)')).toBe('feature/user-login-v2');
+        expect(toBranchName('!!!')).toBe('feature/task');
+    });
+});
+
+describe('git utils', () => {
+    let repoDir: string;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDir, stdio: 'pipe' }).toString().trim();
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-utils-')));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'readme\n');
+        git('add', '.');
+        git('commit', '-q', '-m', 'initial');
+    });
+
+    afterEach(() => {
+        fs.rmSync(repoDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('should report uncommitted changes except the develop state directory', async () => {
+        fs.mkdirSync(path.join(repoDir, '.gemini-develop'));
+        fs.writeFileSync(path.join(repoDir, '.gemini-develop', 'session.json'), '{}');
+        expect(await getUncommittedChanges(repoDir)).toEqual([]);
+
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'changed\n');
+        expect(await getUncommittedChanges(repoDir)).toEqual([' M README.md']);
+    });
+
+    it('should only ignore the state directories of the project root', async () => {
+        const projectDir = path.join(repoDir, 'app');
+        fs.mkdirSync(path.join(projectDir, '.gemini-backups', 'run'), { recursive: true });
+        fs.writeFileSync(path.join(projectDir, '.gemini-backups', 'run', 'run.json'), '{}');
+        fs.mkdirSync(path.join(repoDir, 'docs', '.gemini-develop'), { recursive: true });
+        fs.writeFileSync(path.join(repoDir, 'docs', '.gemini-develop', 'notes.md'), 'notes\n');
+        fs.writeFileSync(path.join(repoDir, 'my file.ts'), 'x\n');
+
+        expect(await getUncommittedChanges(projectDir)).toEqual(['?? docs/.gemini-develop/notes.md', '?? my file.ts']);
+    });
+
+    it('should add a suffix when the branch name is taken', async () => {
+        const base = await getBranchPoint(repoDir);
+        git('branch', 'feature/sum');
+
+        expect(await createBranch(repoDir, 'feature/sum')).toBe('feature/sum-2');
+        expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('feature/sum-2');
+        expect(base.ref).toBe('main');
+    });
+
+    it('should commit only the given paths and skip unchanged or unknown ones', async () => {
+        fs.writeFileSync(path.join(repoDir, 'a.ts'), 'a\n');
+        fs.writeFileSync(path.join(repoDir, 'other.ts'), 'other\n');
+
+        const hash = await commitPaths(repoDir, ['a.ts', 'README.md', 'missing.ts'], 'feat: add a\n\nbody');
+
+        expect(hash).toBe(git('rev-parse', '--short', 'HEAD'));
+        expect(git('show', '--name-only', '--format=%s', 'HEAD').split('\n')).toEqual(['feat: add a', '', 'a.ts']);
+        expect(git('status', '--porcelain')).toBe('?? other.ts');
+        expect(await commitPaths(repoDir, ['a.ts'], 'nothing')).toBeNull();
+    });
+
+    it('should return to the base and delete the branch', async () => {
+        await createBranch(repoDir, 'feature/tmp');
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'changed\n');
+
+        await checkout(repoDir, 'main', true);
+        await deleteBranch(repoDir, 'feature/tmp');
+
+        expect(git('branch', '--list', 'feature/tmp')).toBe('');
+        expect(fs.readFileSync(path.join(repoDir, 'README.md'), 'utf8')).toBe('readme\n');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gatherDependencyContext, resolveImportGraph } from '@shared/utils/import-graph.utils';
+
+describe('import graph', () => {
+    let projectRoot: string;
+
+    const writeFile = (relativePath: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(projectRoot, relativePath)), { recursive: true });
+        fs.writeFileSync(path.join(projectRoot, relativePath), content);
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'import-graph-'));
+        writeFile('tsconfig.json', JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], '@shared/*': ['src/shared/*'] } } }));
+        writeFile('src/feature.ts', [
+            "import fs from 'fs';",
+            "import { Item } from '@shared/types/item';",
+            "import { format } from './format';",
+            "import type { Missing } from './missing';",
+            'export const run = (item: Item) => format(item);',
+        ].join('\n'));
+        writeFile('src/format.ts', "import { pad } from '@/shared/pad';\nexport function format(item: { id: string }): string {\n    return pad(item.id);\n}\n");
+        writeFile('src/shared/types/item.ts', 'export interface Item { id: string }\n');
+        writeFile('src/shared/pad.ts', "export function pad(text: string): string {\n    return text.padStart(8, ' ');\n}\n");
+        writeFile('tests/feature.test.ts', "import { run } from '../src/feature';\ntest('run', () => run({ id: 'a' }));\n");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should follow relative imports and tsconfig path aliases up to the given depth', () => {
+        expect(resolveImportGraph(projectRoot, ['src/feature.ts'])).toEqual([
+            { path: 'src/shared/types/item.ts', depth: 1, importedBy: 'src/feature.ts' },
+            { path: 'src/format.ts', depth: 1, importedBy: 'src/feature.ts' },
+        ]);
+        expect(resolveImportGraph(projectRoot, ['tests/feature.test.ts', 'src/feature.ts'], 3).map(imported => imported.path))
+            .toEqual(['src/shared/types/item.ts', 'src/format.ts', 'src/shared/pad.ts']);
+    });
+
+    it('should add signatures within the byte budget and leave out what does not fit', () => {
+        const context = gatherDependencyContext(projectRoot, ['src/feature.ts']);
+
+        expect(context).toBe([
+            '// File: src/shared/types/item.ts', '', 'export interface Item { id: string }', '', '---', '',
+            '// File: src/format.ts', '', 'export function format(item: { id: string }): string;', '', '---', '', '',
+        ].join('\n'));
+        expect(gatherDependencyContext(projectRoot, ['src/feature.ts'], { maxBytes: 80 })).toBe('// File: src/shared/types/item.ts\n\nexport interface Item { id: string }\n\n---\n\n');
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Left out 1 imported file(s): src/format.ts'));
+        expect(gatherDependencyContext(projectRoot, ['src/feature.ts'], { maxDepth: 0 })).toBe('');
+    });
+});
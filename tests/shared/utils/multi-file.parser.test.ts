@@ -0,0 +1,196 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { formatFileHeader, getCommentSyntax, parseAiFileResponse, parseAiResponseWithFileHeaders } from '@shared/utils/multi-file.parser';
+
+describe('parseAiFileResponse', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('JSON protocol', () => {
+        it('should parse a bare JSON response with every action', () => {
+            const response = JSON.stringify({
+                version: 1,
+                files: [
+                    { path: 'src/a.ts', action: 'create', content: 'export const a = 1;\n' },
+                    { path: './Dockerfile', action: 'Modify', content: 'FROM node:20\n' },
+                    { path: 'src/old.ts', action: 'delete' },
+                ],
+            });
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.format).toBe('json');
+            expect(result.diagnostics).toEqual([]);
+            expect(result.files).toEqual([
+                { filePath: 'src/a.ts', content: 'export const a = 1;\n', action: 'create' },
+                { filePath: 'Dockerfile', content: 'FROM node:20\n', action: 'modify' },
+                { filePath: 'src/old.ts', content: '', action: 'delete' },
+            ]);
+        });
+
+        it('should accept JSON in a fence after prose', () => {
+            const response = 'Here are the files:\n```json\n{"version": "1", "files": [{"path": "app.py", "action": "create", "content": "print(1)\\n"}]}\n```\nLet me know!';
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.format).toBe('json');
+            expect(result.files).toEqual([{ filePath: 'app.py', content: 'print(1)\n', action: 'create' }]);
+        });
+
+        it('should report invalid entries and keep the valid ones', () => {
+            const response = JSON.stringify({
+                files: [
+                    { path: 'src/a.ts', action: 'modify' },
+                    { path: 'src/b.ts', action: 'rename', content: '' },
+                    { path: 'src/c.ts', action: 'create', content: 'ok' },
+                ],
+            });
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.files.map(file => file.filePath)).toEqual(['src/c.ts']);
+            expect(result.diagnostics.map(diagnostic => diagnostic.severity)).toEqual(['warning', 'error', 'error']);
+            expect(result.diagnostics[0].message).toContain('no "version"');
+            expect(result.diagnostics[1].message).toContain("files[0] (src/a.ts): content: Required for action 'modify'");
+            expect(result.diagnostics[2].message).toContain('files[1] (src/b.ts): action:');
+        });
+
+        it('should reject an unsupported protocol version', () => {
+            const result = parseAiFileResponse('{"version": 2, "files": [{"path": "a.ts", "action": "create", "content": "x"}]}');
+
+            expect(result.format).toBe('none');
+            expect(result.files).toEqual([]);
+            expect(result.diagnostics).toEqual([{ severity: 'error', message: 'Unsupported response protocol version 2 (expected 1).' }]);
+        });
+
+        it('should fall back to headers when the JSON cannot be parsed', () => {
+            const result = parseAiFileResponse('{ "version": 1, "files": [ oops ] }\n// File: src/a.ts\nexport {};');
+
+            expect(result.format).toBe('headers');
+            expect(result.files).toEqual([{ filePath: 'src/a.ts', content: 'export {};' }]);
+            expect(result.diagnostics[0]).toMatchObject({ severity: 'warning' });
+            expect(result.diagnostics[0].message).toContain('could not be parsed');
+        });
+    });
+
+    describe('header fallback', () => {
+        it('should accept headers in the comment syntax of each language and paths without a dot or slash', () => {
+            const response = [
+                '# File: app/main.py',
+                'print("hi")',
+                '-- File: db/schema.sql',
+                'CREATE TABLE t (id INT);',
+                '<!-- File: docs/index.html -->',
+                '<p>hi</p>',
+                '# File: Dockerfile',
+                'FROM node:20',
+            ].join('\n');
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.format).toBe('headers');
+            expect(result.files).toEqual([
+                { filePath: 'app/main.py', content: 'print("hi")' },
+                { filePath: 'db/schema.sql', content: 'CREATE TABLE t (id INT);' },
+                { filePath: 'docs/index.html', content: '<p>hi</p>' },
+                { filePath: 'Dockerfile', content: 'FROM node:20' },
+            ]);
+        });
+
+        it('should strip fences and report the prose around them', () => {
+            const response = [
+                'Sure! Here is the code.',
+                '',
+                '// File: `src/a.ts`',
+                '```ts',
+                'export const a = 1;',
+                '```',
+                'This exports a constant.',
+                '```python',
+                '# File: src/b.py',
+                'def b():',
+                '    return "```"',
+                '```',
+            ].join('\n');
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.files).toEqual([
+                { filePath: 'src/a.ts', content: 'export const a = 1;' },
+                { filePath: 'src/b.py', content: 'def b():\n    return "```"' },
+            ]);
+            expect(result.diagnostics).toEqual([
+                { severity: 'warning', line: 1, message: 'Ignored 1 line(s) of text before the first file header.' },
+                { severity: 'warning', line: 7, message: 'Ignored 1 line(s) of text after the code block of src/a.ts.' },
+            ]);
+        });
+
+        it('should treat a header repeated inside the fence as one block and keep headers in the middle of code as content', () => {
+            const response = '# File: app.py\n```python\n# File: app.py\nx = 1\n```\n// File: README.md\n```markdown\nIntro\n<!-- File: not/a/header.md -->\n```';
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.diagnostics).toEqual([]);
+            expect(result.files).toEqual([
+                { filePath: 'app.py', content: 'x = 1' },
+                { filePath: 'README.md', content: 'Intro\n<!-- File: not/a/header.md -->' },
+            ]);
+        });
+
+        it('should report invalid paths and duplicates instead of dropping them silently', () => {
+            const response = '// File: not a path\nx\n// File: src/a.ts\none\n// File: src/a.ts\ntwo';
+
+            const result = parseAiFileResponse(response);
+
+            expect(result.files).toEqual([{ filePath: 'src/a.ts', content: 'two' }]);
+            expect(result.diagnostics).toEqual([
+                { severity: 'error', line: 1, message: 'Skipped a file block: "not a path" is not a valid file path.' },
+                { severity: 'warning', message: 'src/a.ts appears more than once; the last block is used.' },
+            ]);
+        });
+
+        it('should report a response without files', () => {
+            const result = parseAiFileResponse('I could not do that.');
+
+            expect(result).toEqual({
+                format: 'none',
+                files: [],
+                diagnostics: [{ severity: 'error', message: 'No files found: the response has neither a JSON file list nor "File: path" headers.' }],
+            });
+        });
+    });
+
+    it('should keep parseAiResponseWithFileHeaders header-only', () => {
+        const files = parseAiResponseWithFileHeaders('// File: src/a.ts\n```typescript\nexport {};\n```');
+
+        expect(files).toEqual([{ filePath: 'src/a.ts', content: 'export {};' }]);
+    });
+});
+
+describe('file headers', () => {
+    it('should use the comment syntax of the file language', () => {
+        expect(getCommentSyntax('src/a.ts')).toEqual({ start: '//' });
+        expect(getCommentSyntax('docker/Dockerfile')).toEqual({ start: '#' });
+        expect(getCommentSyntax('config.yaml')).toEqual({ start: '#' });
+        expect(getCommentSyntax('db/init.sql')).toEqual({ start: '--' });
+        expect(formatFileHeader('app/main.py')).toBe('# File: app/main.py');
+        expect(formatFileHeader('docs/README.md')).toBe('<!-- File: docs/README.md -->');
+    });
+
+    it('should produce headers that the parser reads back', () => {
+        const paths = ['src/a.ts', 'app/main.py', 'Makefile', 'db/init.sql', 'styles/site.css', 'docs/index.html', 'settings.ini'];
+        const response = paths.map(filePath => `${formatFileHeader(filePath)}\ncontent of ${filePath}`).join('\n');
+
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const result = parseAiFileResponse(response);
+        jest.restoreAllMocks();
+
+        expect(result.files.map(file => file.filePath)).toEqual(paths);
+        expect(result.files.map(file => file.content)).toEqual(paths.map(filePath => `content of ${filePath}`));
+    });
+});
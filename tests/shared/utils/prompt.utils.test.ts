@@ -0,0 +1,85 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { confirm } from '@shared/utils/prompt.utils';
+
+function createTty(): { input: PassThrough & { isTTY?: boolean }; output: PassThrough; written: () => string } {
+    const input: PassThrough & { isTTY?: boolean } = new PassThrough();
+    input.isTTY = true;
+    const output = new PassThrough();
+    let text = '';
+    output.on('data', chunk => { text += chunk.toString(); });
+    return { input, output, written: () => text };
+}
+
+describe('confirm', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should approve without reading input when assumeYes is set', async () => {
+        const { input, output, written } = createTty();
+
+        await expect(confirm('Continue?', { assumeYes: true, input, output })).resolves.toBe(true);
+        expect(written()).toBe('');
+    });
+
+    it('should refuse when stdin is not a TTY', async () => {
+        const input = new PassThrough();
+
+        await expect(confirm('Continue?', { input, output: new PassThrough() })).resolves.toBe(false);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('--yes'));
+    });
+
+    it.each([
+        ['y\n', true],
+        ['YES\n', true],
+        ['n\n', false],
+        ['\n', true],
+    ])('should interpret %j', async (answer, expected) => {
+        const { input, output, written } = createTty();
+        input.write(answer);
+
+        await expect(confirm('Continue?', { input, output })).resolves.toBe(expected);
+        expect(written()).toContain('Continue? [Y/n] ');
+    });
+
+    it('should use a "no" default when requested', async () => {
+        const { input, output, written } = createTty();
+        input.write('\n');
+
+        await expect(confirm('Delete?', { defaultAnswer: false, input, output })).resolves.toBe(false);
+        expect(written()).toContain('[y/N]');
+    });
+
+    it('should show details on "d" and ask again, re-prompting after invalid answers', async () => {
+        const { input, output, written } = createTty();
+        const onShowDetails = jest.fn();
+        input.write('d\nmaybe\ny\n');
+
+        await expect(confirm('Write files?', { onShowDetails, input, output })).resolves.toBe(true);
+        expect(onShowDetails).toHaveBeenCalledTimes(1);
+        expect(written().match(/Write files\? \[Y\/n\/d\] /g)).toHaveLength(3);
+        expect(written()).toContain("Please answer 'y' or 'n', or 'd' to view the diff.");
+    });
+
+    it('should keep answers that arrive ahead of the next prompt', async () => {
+        const { input, output } = createTty();
+        input.write('y\nn\ny\n');
+
+        await expect(confirm('First?', { input, output })).resolves.toBe(true);
+        await expect(confirm('Second?', { input, output })).resolves.toBe(false);
+        await expect(confirm('Third?', { input, output })).resolves.toBe(true);
+    });
+
+    it('should treat a closed input as "no"', async () => {
+        const { input, output } = createTty();
+        input.end();
+
+        await expect(confirm('Continue?', { input, output })).resolves.toBe(false);
+    });
+});
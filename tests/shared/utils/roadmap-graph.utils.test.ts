@@ -0,0 +1,96 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { parseRoadmapTable } from '@shared/utils/feature-roadmap.utils';
+import {
+    assertAcyclic,
+    buildRoadmapGraph,
+    findDependencyCycles,
+    getUnmetDependencies,
+    parseDependencyList,
+    renderDot,
+    renderMermaid,
+    topologicalOrder,
+} from '@shared/utils/roadmap-graph.utils';
+
+const ROADMAP = [
+    '| ID | Status | Feature | Description | Dependencies |',
+    '|---|---|---|---|---|',
+    '| F-3 | Not Started | Checkout | Pay for the cart | F-1, [Cart](#cart) |',
+    '| F-1 | Done | Login | Sign in | - |',
+    '| F-2 | In Progress | Cart | Add items | login |',
+    '| F-4 | Not Started | Reports | Sales reports | Analytics |',
+].join('\n');
+
+describe('roadmap graph utils', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should split dependency cells and ignore placeholders', () => {
+        expect(parseDependencyList('F-1, [Cart](#cart); Login')).toEqual(['F-1', 'Cart', 'Login']);
+        expect(parseDependencyList('None')).toEqual([]);
+        expect(parseDependencyList('-')).toEqual([]);
+        expect(parseDependencyList(undefined)).toEqual([]);
+    });
+
+    it('should resolve dependencies by ID or feature name and report unknown references', () => {
+        const graph = buildRoadmapGraph(parseRoadmapTable(ROADMAP));
+
+        expect(graph.nodes.map(node => node.key)).toEqual(['F-3', 'F-1', 'F-2', 'F-4']);
+        expect(graph.edges).toEqual([
+            { from: 'F-1', to: 'F-3' },
+            { from: 'F-2', to: 'F-3' },
+            { from: 'F-1', to: 'F-2' },
+        ]);
+        expect(graph.unresolved).toEqual([{ key: 'F-4', reference: 'Analytics' }]);
+    });
+
+    it('should order items after their dependencies', () => {
+        const graph = buildRoadmapGraph(parseRoadmapTable(ROADMAP));
+
+        expect(topologicalOrder(graph).map(node => node.key)).toEqual(['F-1', 'F-2', 'F-3', 'F-4']);
+    });
+
+    it('should list only the dependencies that are not Done', () => {
+        const items = parseRoadmapTable(ROADMAP);
+        const graph = buildRoadmapGraph(items);
+
+        expect(getUnmetDependencies(graph, items[0])).toEqual(['F-2']);
+        expect(getUnmetDependencies(graph, items[2])).toEqual([]);
+    });
+
+    it('should detect cycles and name them in the error', () => {
+        const items = parseRoadmapTable([
+            '| ID | Status | Feature | Description | Dependencies |',
+            '|---|---|---|---|---|',
+            '| A | Not Started | Alpha | First | C |',
+            '| B | Not Started | Beta | Second | A |',
+            '| C | Not Started | Gamma | Third | Beta |',
+            '| D | Not Started | Delta | Fourth | |',
+        ].join('\n'));
+        const graph = buildRoadmapGraph(items);
+
+        expect(findDependencyCycles(graph)).toEqual([['A', 'B', 'C', 'A']]);
+        expect(() => assertAcyclic(graph)).toThrow('A -> B -> C -> A');
+        expect(() => topologicalOrder(graph)).toThrow('Dependency cycle');
+    });
+
+    it('should render Mermaid and DOT with Done items highlighted', () => {
+        const graph = buildRoadmapGraph(parseRoadmapTable(ROADMAP));
+
+        const mermaid = renderMermaid(graph);
+        expect(mermaid).toContain('flowchart TD');
+        expect(mermaid).toContain('n2["F-1: Login (Done)"]');
+        expect(mermaid).toContain('n2 --> n1');
+        expect(mermaid).toContain('class n2 done;');
+
+        const dot = renderDot(graph);
+        expect(dot).toMatch(/^digraph roadmap \{/);
+        expect(dot).toContain('"F-1" [label="F-1: Login (Done)", style=filled, fillcolor="#d4edda"];');
+        expect(dot).toContain('"F-2" -> "F-3";');
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import { buildTestCommand, runTestCommand, summarizeTestOutput } from '@shared/utils/test-runner.utils';
+
+describe('buildTestCommand', () => {
+    it('should append the test files to the command', () => {
+        expect(buildTestCommand('npx jest', ['tests/a.test.ts', 'tests/my file.test.ts'])).toBe('npx jest tests/a.test.ts "tests/my file.test.ts"');
+    });
+
+    it('should replace the {files} placeholder', () => {
+        expect(buildTestCommand('npx vitest run {files} --reporter dot', ['a.test.ts'])).toBe('npx vitest run a.test.ts --reporter dot');
+    });
+});
+
+describe('runTestCommand', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const node = (script: string) => `"${process.execPath}" -e "${script}"`;
+
+    it('should report a passing run with its output', async () => {
+        const result = await runTestCommand(node("console.log('all good')"), os.tmpdir(), { echo: false });
+
+        expect(result.status).toBe('passed');
+        expect(result.exitCode).toBe(0);
+        expect(result.output).toContain('all good');
+    });
+
+    it('should report a failing run and capture stderr', async () => {
+        const result = await runTestCommand(node("console.error('expected 3, got 2'); process.exit(1)"), os.tmpdir(), { echo: false });
+
+        expect(result.status).toBe('failed');
+        expect(result.exitCode).toBe(1);
+        expect(result.output).toContain('expected 3, got 2');
+    });
+
+    it('should report an error when the command does not exist', async () => {
+        const result = await runTestCommand('definitely-not-a-test-runner-xyz', os.tmpdir(), { echo: false });
+
+        expect(result.status).toBe('error');
+    });
+
+    it('should stop the command after the timeout', async () => {
+        const result = await runTestCommand(node('setTimeout(() => {}, 60000)'), os.tmpdir(), { echo: false, timeoutMs: 200 });
+
+        expect(result.status).toBe('error');
+        expect(result.output).toContain('timed out');
+    });
+
+    it('should stop the command when this process is interrupted', async () => {
+        const originalKill = process.kill.bind(process);
+        const killSpy = jest.spyOn(process, 'kill').mockImplementation((pid, signal) => pid === process.pid ? true : originalKill(pid, signal));
+        const running = runTestCommand(node('setTimeout(() => {}, 60000)'), os.tmpdir(), { echo: false, timeoutMs: 30000 });
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        process.emit('SIGINT', 'SIGINT');
+        const result = await running;
+
+        expect(result.status).toBe('failed');
+        expect(killSpy).toHaveBeenCalledWith(process.pid, 'SIGINT');
+        expect(process.listenerCount('SIGINT')).toBe(0);
+    });
+});
+
+describe('summarizeTestOutput', () => {
+    it('should strip colors and keep the end of long output', () => {
+        const summary = summarizeTestOutput(`\x1b[31m${'x'.repeat(50)}FAIL tail\x1b[0m`, 9);
+
+        expect(summary).toBe('[... 50 earlier characters truncated ...]\nFAIL tail');
+    });
+});
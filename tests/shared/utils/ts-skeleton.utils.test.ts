@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { supportsSignatureSkeleton, toSignatureSkeleton } from '@shared/utils/ts-skeleton.utils';
+
+describe('toSignatureSkeleton', () => {
+    it('should keep exported declarations and types and elide function bodies', () => {
+        const source = [
+            "import { Base } from './base';",
+            '',
+            '/** Adds two numbers. */',
+            'export function sum(a: number, b: number): number {',
+            '    return a + b;',
+            '}',
+            'interface Options { strict: boolean }',
+            'export type Mode = Options | null;',
+            'const hidden = 1;',
+            'export const LIMIT = 10, NAME = "n";',
+            'export const double = (n: number): number => n * 2;',
+            'export class Store<T> extends Base {',
+            '    private cache = new Map();',
+            '    #secret = 1;',
+            '    readonly size: number = 0;',
+            '    constructor(private readonly root: string) {',
+            '        super();',
+            '    }',
+            '    async load(id: string): Promise<T | undefined> {',
+            '        return undefined;',
+            '    }',
+            '}',
+            'function helper(): void {}',
+            'export { helper };',
+            "console.log('side effect');",
+        ].join('\n');
+
+        expect(toSignatureSkeleton(source, 'store.ts')).toBe([
+            'export function sum(a: number, b: number): number;',
+            'interface Options { strict: boolean }',
+            'export type Mode = Options | null;',
+            'export const LIMIT = 10;',
+            'export const NAME = "n";',
+            'export const double = (n: number): number => { ... };',
+            'export class Store<T> extends Base {',
+            '    readonly size: number;',
+            '    constructor(private readonly root: string);',
+            '    async load(id: string): Promise<T | undefined>;',
+            '}',
+            'function helper(): void;',
+            'export { helper };',
+        ].join('\n'));
+    });
+
+    it('should elide long initializers and return nothing for a file without declarations', () => {
+        const longList = `[${Array.from({ length: 100 }, (_, i) => `'item-${i}'`).join(', ')}]`;
+
+        expect(toSignatureSkeleton(`export const ITEMS = ${longList};\nexport const COUNT: number = ITEMS.length;`, 'items.ts'))
+            .toBe('export const ITEMS = ...;\nexport const COUNT: number;');
+        expect(toSignatureSkeleton("import './setup';\nrun();\n", 'main.js')).toBe('');
+    });
+
+    it('should only support TypeScript and JavaScript files', () => {
+        expect(['a.ts', 'b.TSX', 'c.mjs', 'd.d.ts'].every(supportsSignatureSkeleton)).toBe(true);
+        expect(['e.json', 'f.md', 'g.php'].some(supportsSignatureSkeleton)).toBe(false);
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkWrite, configureWriteGuard, getWriteAuditLog, matchesPathPattern, resolveGuardedPath, setWriteGuardRoot } from '@shared/utils/write-guard.utils';
+import { writeOutputFile } from '@shared/utils/file-io.utils';
+
+describe('write guard', () => {
+    let root: string;
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'write-guard-'));
+        configureWriteGuard({ maxFileBytes: 100, protectedDirectories: ['dist', 'src/storage'] });
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(root, { recursive: true, force: true });
+        configureWriteGuard();
+    });
+
+    describe('resolveGuardedPath', () => {
+        it('should allow and normalize relative paths inside the root', () => {
+            expect(resolveGuardedPath(root, './src\\a.ts', 'export {};')).toEqual({
+                allowed: true,
+                absolutePath: path.join(root, 'src', 'a.ts'),
+                relativePath: 'src/a.ts',
+            });
+            expect(getWriteAuditLog()).toEqual([]);
+        });
+
+        it.each([
+            ['/etc/passwd', 'Absolute paths are not allowed'],
+            ['C:/Windows/win.ini', 'Absolute paths are not allowed'],
+            ['~/.bashrc', 'Absolute paths are not allowed'],
+            ['src/../../outside.ts', "may not contain '..'"],
+            ['node_modules/lib/index.js', "'node_modules'"],
+            ['sub/.git/hooks/pre-commit', "'.git'"],
+            ['packages/web/dist/main.js', "'dist'"],
+            ['src/storage/cache.json', "'src/storage'"],
+        ])('should deny %s', (requestedPath, reason) => {
+            const result = resolveGuardedPath(root, requestedPath, 'x');
+
+            expect(result.allowed).toBe(false);
+            expect(result.allowed ? '' : result.reason).toContain(reason);
+            expect(getWriteAuditLog()).toEqual([expect.objectContaining({ operation: 'write', path: requestedPath, allowed: false, bytes: 1 })]);
+        });
+
+        it('should allow files named like protected directories', () => {
+            expect(resolveGuardedPath(root, 'docs/dist', 'x').allowed).toBe(true);
+        });
+
+        it('should deny paths that escape the root through a symbolic link', () => {
+            const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'write-guard-outside-'));
+            fs.symlinkSync(outside, path.join(root, 'linked'), 'dir');
+            fs.symlinkSync(path.join(outside, 'missing.ts'), path.join(root, 'dangling.ts'));
+            try {
+                const throughDirectory = resolveGuardedPath(root, 'linked/new/file.ts', 'x');
+                const throughFile = resolveGuardedPath(root, 'dangling.ts', 'x');
+
+                expect(throughDirectory).toEqual({ allowed: false, reason: expect.stringContaining('outside the project root') });
+                expect(throughFile).toEqual({ allowed: false, reason: expect.stringContaining('outside the project root') });
+            } finally {
+                fs.rmSync(outside, { recursive: true, force: true });
+            }
+        });
+
+        it('should deny content above the size limit but allow deletions', () => {
+            expect(resolveGuardedPath(root, 'big.txt', 'x'.repeat(101))).toEqual({ allowed: false, reason: '101 bytes exceeds the 100-byte limit per file.' });
+            expect(resolveGuardedPath(root, 'big.txt', null).allowed).toBe(true);
+        });
+    });
+
+    describe('checkWrite', () => {
+        it('should audit every write made through file-io and append it to the audit log file', () => {
+            const auditLogPath = path.join(root, 'logs', 'audit.jsonl');
+            configureWriteGuard({ maxFileBytes: 100, auditLogPath });
+
+            expect(writeOutputFile(path.join(root, 'ok.txt'), 'hello')).toBe(true);
+            expect(writeOutputFile(path.join(root, 'big.txt'), 'x'.repeat(101))).toBe(false);
+            expect(checkWrite(path.join(root, '.git', 'config'), 'delete', null)).toBe("Writes into '.git' directories are not allowed.");
+
+            expect(fs.existsSync(path.join(root, 'big.txt'))).toBe(false);
+            const entries = fs.readFileSync(auditLogPath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+            expect(entries).toEqual(getWriteAuditLog());
+            expect(entries).toEqual([
+                expect.objectContaining({ operation: 'write', allowed: true, bytes: 5 }),
+                expect.objectContaining({ operation: 'write', allowed: false, bytes: 101, reason: '101 bytes exceeds the 100-byte limit per file.' }),
+                expect.objectContaining({ operation: 'delete', allowed: false }),
+            ]);
+            expect(entries[0].path).toMatch(/ok\.txt$/);
+        });
+
+        it('should deny writes into protected directories of the project root', () => {
+            setWriteGuardRoot(root);
+
+            expect(writeOutputFile(path.join(root, 'packages', 'web', 'dist', 'main.js'), 'x')).toBe(false);
+            expect(checkWrite(path.join(root, 'src', 'storage', 'cache.json'), 'write', 'x')).toBe("Writes into 'src/storage' directories are not allowed.");
+            expect(checkWrite(path.join(root, 'docs', 'dist'), 'write', 'x')).toBeNull();
+            expect(fs.existsSync(path.join(root, 'packages'))).toBe(false);
+        });
+
+        it('should deny writes through symbolic links that leave the project root or enter a protected directory', () => {
+            const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'write-guard-outside-'));
+            fs.mkdirSync(path.join(root, 'dist'));
+            fs.symlinkSync(outside, path.join(root, 'linked'), 'dir');
+            fs.symlinkSync(path.join(root, 'dist'), path.join(root, 'out'), 'dir');
+            setWriteGuardRoot(root);
+            try {
+                expect(writeOutputFile(path.join(root, 'linked', 'file.ts'), 'x')).toBe(false);
+                expect(checkWrite(path.join(root, 'linked', 'file.ts'), 'write', 'x')).toContain('outside the project root');
+                expect(checkWrite(path.join(root, 'out', 'main.js'), 'write', 'x')).toContain("'dist' directory through a symbolic link");
+                expect(fs.readdirSync(outside)).toEqual([]);
+            } finally {
+                fs.rmSync(outside, { recursive: true, force: true });
+            }
+        });
+
+        it('should allow writes to a project that lives inside a node_modules directory', () => {
+            const projectRoot = path.join(root, 'node_modules', 'app');
+            setWriteGuardRoot(projectRoot);
+
+            expect(writeOutputFile(path.join(projectRoot, 'src', 'index.ts'), 'x')).toBe(true);
+            expect(checkWrite(path.join(projectRoot, 'node_modules', 'lib', 'index.js'), 'write', 'x')).toBe("Writes into 'node_modules' directories are not allowed.");
+        });
+    });
+});
+
+describe('matchesPathPattern', () => {
+    it('should match exact paths and globs', () => {
+        expect(matchesPathPattern('src/a.ts', './src/a.ts')).toBe(true);
+        expect(matchesPathPattern('src/a.ts', 'src/*.ts')).toBe(true);
+        expect(matchesPathPattern('src/deep/a.ts', 'src/*.ts')).toBe(false);
+        expect(matchesPathPattern('src/deep/a.ts', 'src/**/*.ts')).toBe(true);
+        expect(matchesPathPattern('src/a.ts', 'src/**/*.ts')).toBe(true);
+        expect(matchesPathPattern('src/a1.ts', 'src/a?.ts')).toBe(true);
+        expect(matchesPathPattern('srcXa.ts', 'src.a.ts')).toBe(false);
+    });
+});